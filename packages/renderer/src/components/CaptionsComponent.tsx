@@ -0,0 +1,157 @@
+import React from "react";
+import type { ScriptCue, ScriptSegment } from "../shared.js";
+import type { CascadedStyles } from "../styles/cascade.js";
+
+export type CaptionsProps = {
+  maxCharsPerLine?: number;
+  maxLines?: number;
+  /** Fraction of the frame kept clear on each edge (0.1 = title-safe). */
+  safeArea?: number;
+  fontSize?: number;
+  fontWeight?: number | string;
+  color?: string;
+  backgroundColor?: string;
+  /** "word" highlights the word being spoken. */
+  highlight?: "none" | "word";
+  highlightColor?: string;
+  // Injected by renderer
+  cue?: ScriptCue;
+  timeSec?: number;
+  videoWidth?: number;
+  videoHeight?: number;
+  styles?: CascadedStyles;
+};
+
+type TimedWord = { text: string; startSec: number; endSec: number };
+type CaptionPage = { lines: TimedWord[][]; startSec: number; endSec: number };
+
+export function CaptionsComponent(props: CaptionsProps) {
+  const {
+    maxCharsPerLine = 42,
+    maxLines = 2,
+    safeArea = 0.1,
+    fontSize,
+    fontWeight,
+    color,
+    backgroundColor = "rgba(0, 0, 0, 0.72)",
+    highlight = "none",
+    highlightColor = "#facc15",
+    cue,
+    timeSec = 0,
+    videoWidth = 1920,
+    videoHeight = 1080,
+    styles = {} as CascadedStyles,
+  } = props;
+
+  const segment = activeSegment(cue, timeSec);
+  if (!segment) return null;
+
+  const pages = paginate(segment, maxCharsPerLine, maxLines);
+  const page = pages.find((p) => timeSec < p.endSec) ?? pages[pages.length - 1];
+  if (!page) return null;
+
+  const insetX = videoWidth * safeArea;
+  const insetY = videoHeight * safeArea;
+  const textColor = color ?? styles.color ?? "#ffffff";
+
+  return (
+    <div
+      style={{
+        position: "absolute",
+        left: insetX,
+        right: insetX,
+        bottom: insetY,
+        display: "flex",
+        justifyContent: "center",
+        opacity: styles._computedOpacity ?? 1,
+      }}
+    >
+      <div
+        style={{
+          maxWidth: videoWidth - insetX * 2,
+          padding: "0.25em 0.6em",
+          borderRadius: 8,
+          backgroundColor,
+          color: textColor,
+          fontSize: fontSize ?? styles.fontSize ?? Math.round(videoHeight / 22),
+          fontWeight: fontWeight ?? styles.fontWeight ?? 600,
+          fontFamily: styles.fontFamily ?? "ui-sans-serif, system-ui, sans-serif",
+          lineHeight: 1.3,
+          textAlign: "center",
+        }}
+      >
+        {page.lines.map((line, lineIdx) => (
+          <div key={lineIdx}>
+            {line.map((word, wordIdx) => {
+              const active = highlight === "word" && timeSec >= word.startSec && timeSec < word.endSec;
+              return (
+                <span key={wordIdx} style={active ? { color: highlightColor } : undefined}>
+                  {wordIdx > 0 ? " " : ""}
+                  {word.text}
+                </span>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function activeSegment(cue: ScriptCue | undefined, timeSec: number): ScriptSegment | null {
+  if (!cue) return null;
+  const spoken = (cue.segments ?? []).filter((seg) => seg.type === "tts" && seg.text?.trim());
+  if (spoken.length === 0) {
+    if (!cue.text?.trim() || cue.startSec == null || cue.endSec == null) return null;
+    return { type: "tts", startSec: cue.startSec, endSec: cue.endSec, text: cue.text };
+  }
+  // Pauses between segments show nothing rather than holding stale text on screen.
+  return spoken.find((seg) => timeSec >= seg.startSec && timeSec < seg.endSec) ?? null;
+}
+
+/**
+ * Use the segment's word timings when the toolchain provided them; otherwise spread its span across
+ * the words by character count. Words are then wrapped into pages of at most `maxLines` lines, each
+ * on screen from its first word to its last.
+ */
+function paginate(segment: ScriptSegment, maxCharsPerLine: number, maxLines: number): CaptionPage[] {
+  const words: TimedWord[] = segment.words?.length ? segment.words : estimateWords(segment);
+
+  const lines: TimedWord[][] = [];
+  let current: TimedWord[] = [];
+  let currentLength = 0;
+  for (const word of words) {
+    const nextLength = current.length ? currentLength + 1 + word.text.length : word.text.length;
+    if (current.length && nextLength > maxCharsPerLine) {
+      lines.push(current);
+      current = [word];
+      currentLength = word.text.length;
+    } else {
+      current.push(word);
+      currentLength = nextLength;
+    }
+  }
+  if (current.length) lines.push(current);
+
+  const pages: CaptionPage[] = [];
+  const perPage = Math.max(1, maxLines);
+  for (let i = 0; i < lines.length; i += perPage) {
+    const pageLines = lines.slice(i, i + perPage);
+    const first = pageLines[0][0];
+    const last = pageLines[pageLines.length - 1].at(-1)!;
+    pages.push({ lines: pageLines, startSec: first.startSec, endSec: last.endSec });
+  }
+  return pages;
+}
+
+function estimateWords(segment: ScriptSegment): TimedWord[] {
+  const tokens = (segment.text ?? "").trim().split(/\s+/).filter(Boolean);
+  const totalChars = tokens.reduce((sum, t) => sum + t.length, 0) || 1;
+  const span = Math.max(0, segment.endSec - segment.startSec);
+  let cursor = segment.startSec;
+  return tokens.map((text) => {
+    const startSec = cursor;
+    cursor += (span * text.length) / totalChars;
+    return { text, startSec, endSec: cursor };
+  });
+}
@@ -1,8 +1,22 @@
 export { RectangleComponent, type RectangleProps } from "./RectangleComponent.js";
 export { TitleComponent, type TitleProps } from "./TitleComponent.js";
 export { SubtitleComponent, type SubtitleProps } from "./SubtitleComponent.js";
+export { CaptionsComponent, type CaptionsProps } from "./CaptionsComponent.js";
 export { ProgressBarComponent, type ProgressBarProps } from "./ProgressBarComponent.js";
 export { CtaSlideComponent, type CtaSlideProps } from "./marketing/CtaSlideComponent.js";
-export { registerComponent, getComponent, listComponents, type ComponentType } from "./registry.js";
+export {
+  registerComponent,
+  unregisterComponent,
+  getComponent,
+  listComponents,
+  type ComponentType,
+} from "./registry.js";
+export {
+  getPropSchema,
+  listPropSchemas,
+  type PropSchema,
+  type PropSchemaField,
+  type PropType,
+} from "./prop-schema.js";
 // Backward compatibility
 export { RectangleComponent as BackgroundComponent, type RectangleProps as BackgroundProps } from "./RectangleComponent.js";
@@ -1,22 +1,11 @@
 import React from 'react';
 import gsapImport from 'gsap';
 import { interpolate } from '../../math.js';
+import { CODE_LANGUAGES, CODE_THEMES } from './prop-schemas.js';
 
-export type CodeLanguage =
-  | 'javascript'
-  | 'typescript'
-  | 'python'
-  | 'jsx'
-  | 'tsx'
-  | 'css'
-  | 'json'
-  | 'bash'
-  | 'html'
-  | 'sql'
-  | 'go'
-  | 'rust';
+export type CodeLanguage = (typeof CODE_LANGUAGES)[number];
 
-export type CodeTheme = 'dark' | 'light' | 'monokai' | 'github' | 'dracula' | 'nord';
+export type CodeTheme = (typeof CODE_THEMES)[number];
 
 export type CodeBlockProps = {
   // Content
@@ -6,3 +6,4 @@ export * from './CodeBlockComponent.js';
 export * from './IconComponent.js';
 export * from './IconComponent.js';
 export * from './FontGridComponent.js';
+export * from './prop-schemas.js';
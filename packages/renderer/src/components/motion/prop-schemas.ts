@@ -0,0 +1,95 @@
+import type { PropSchema } from "../prop-schema.js";
+
+export const CODE_LANGUAGES = [
+  "javascript",
+  "typescript",
+  "python",
+  "jsx",
+  "tsx",
+  "css",
+  "json",
+  "bash",
+  "html",
+  "sql",
+  "go",
+  "rust",
+] as const;
+
+export const CODE_THEMES = ["dark", "light", "monokai", "github", "dracula", "nord"] as const;
+
+export const codeBlockPropSchema: PropSchema = {
+  description: "Syntax-highlighted code with optional typewriter or line-by-line reveal.",
+  props: {
+    code: { type: "string", required: true, description: "Source code to display." },
+    language: { type: "string", enum: CODE_LANGUAGES, default: "javascript", description: "Highlighting rules." },
+    theme: { type: "string", enum: CODE_THEMES, default: "dark", description: "Color theme." },
+    fontSize: { type: "number", default: 18 },
+    lineHeight: { type: "number", default: 1.6 },
+    showLineNumbers: { type: "boolean", default: true },
+    highlightLines: { type: "array", default: [], description: "1-based line numbers to highlight, e.g. [2, 3]." },
+    position: { type: "object", description: "Top-left corner as { x, y } in pixels; centered when omitted." },
+    width: { type: "number" },
+    height: { type: "number" },
+    padding: { type: "number", default: 24 },
+    borderRadius: { type: "number", default: 12 },
+    xFrom: { type: "number", description: "Slide-in start x in pixels." },
+    xTo: { type: "number", description: "Slide-in end x in pixels." },
+    yFrom: { type: "number", description: "Slide-in start y in pixels." },
+    yTo: { type: "number", description: "Slide-in end y in pixels." },
+    slideDurationFrames: { type: "integer", default: 0 },
+    slideEase: { type: "string", default: "power2.out", description: "GSAP ease name for the slide." },
+    revealStyle: { type: "string", enum: ["instant", "typewriter", "line-by-line", "fade"], default: "instant" },
+    typewriterSpeed: { type: "number", default: 1, description: "Characters revealed per frame." },
+    showCursor: { type: "boolean", default: true },
+    cursorChar: { type: "string", default: "▋" },
+    lineDelayFrames: { type: "integer", default: 10 },
+    lineDurationFrames: { type: "integer", default: 15 },
+    startFrame: { type: "integer", default: 0 },
+  },
+};
+
+export const lowerThirdPropSchema: PropSchema = {
+  description: "Name and title strap that slides in, holds and exits.",
+  props: {
+    name: { type: "string", required: true },
+    title: { type: "string" },
+    organization: { type: "string" },
+    style: { type: "string", enum: ["minimal", "corporate", "broadcast", "modern"], default: "modern" },
+    primaryColor: { type: "string", default: "#0066cc" },
+    textColor: { type: "string", default: "#ffffff" },
+    backgroundColor: { type: "string", default: "rgba(0, 0, 0, 0.85)" },
+    position: { type: "object", description: "Anchor as { x, y } in pixels; bottom-left when omitted." },
+    maxWidth: { type: "number", default: 600 },
+    entranceFrames: { type: "integer", default: 20 },
+    holdFrames: { type: "integer", default: 90 },
+    exitFrames: { type: "integer", default: 15 },
+    entrance: { type: "string", enum: ["slide", "reveal", "typewriter", "spring"], default: "slide" },
+    exit: { type: "string", enum: ["slide", "fade", "collapse"], default: "slide" },
+    startFrame: { type: "integer", default: 0 },
+  },
+};
+
+export const chyronPropSchema: PropSchema = {
+  description: "News-style ticker that scrolls text or pages through items.",
+  props: {
+    items: { type: "array", required: true, description: 'Strings or { text, icon?, highlight? } pages.' },
+    mode: { type: "string", enum: ["scroll", "page"], default: "scroll" },
+    scrollSpeed: { type: "number", default: 2, description: "Pixels per frame in scroll mode." },
+    direction: { type: "string", enum: ["left", "right"], default: "left" },
+    separator: { type: "string", default: " • " },
+    loop: { type: "boolean", default: true },
+    pageDurationFrames: { type: "integer", default: 90 },
+    pageTransition: { type: "object", description: "Transition config between pages." },
+    pageIndex: { type: "integer", description: "Pin a page instead of cycling." },
+    position: { type: "string", enum: ["top", "bottom"], default: "bottom" },
+    height: { type: "number", default: 60 },
+    backgroundColor: { type: "string", default: "rgba(0, 0, 0, 0.8)" },
+    textColor: { type: "string", default: "#ffffff" },
+    fontSize: { type: "number", default: 24 },
+    padding: { type: "object", default: { left: 20, right: 20 } },
+    entrance: { type: "object", description: "Transition config for the entrance." },
+    entranceStartFrame: { type: "integer", default: 0 },
+    exit: { type: "object", description: "Transition config for the exit." },
+    exitStartFrame: { type: "integer" },
+  },
+};
@@ -0,0 +1,103 @@
+import { chyronPropSchema, codeBlockPropSchema, lowerThirdPropSchema } from "./motion/prop-schemas.js";
+
+export type PropType = "string" | "number" | "integer" | "boolean" | "array" | "object";
+
+export type PropSchemaField = {
+  type: PropType;
+  description?: string;
+  /** The value the component falls back to; documentation only, never injected. */
+  default?: unknown;
+  enum?: readonly (string | number)[];
+  required?: boolean;
+};
+
+export type PropSchema = {
+  description?: string;
+  props: Record<string, PropSchemaField>;
+};
+
+export type CoercedProp = { ok: true; value: unknown } | { ok: false; message: string };
+
+// Kept apart from the component registry so the XML parser can read schemas without loading React.
+const schemas = new Map<string, PropSchema>([
+  ["CodeBlock", codeBlockPropSchema],
+  ["LowerThird", lowerThirdPropSchema],
+  ["Chyron", chyronPropSchema],
+]);
+
+export function registerPropSchema(name: string, schema: PropSchema): void {
+  schemas.set(name, schema);
+}
+
+export function unregisterPropSchema(name: string): void {
+  schemas.delete(name);
+}
+
+export function getPropSchema(name: string): PropSchema | null {
+  return schemas.get(name) ?? null;
+}
+
+export function listPropSchemas(): Record<string, PropSchema> {
+  return Object.fromEntries(schemas);
+}
+
+const describeType = (field: PropSchemaField) =>
+  field.enum ? `one of ${field.enum.map((value) => JSON.stringify(value)).join(", ")}` : `a ${field.type}`;
+
+const checkEnum = (field: PropSchemaField, value: unknown, raw: string): CoercedProp =>
+  field.enum && !field.enum.includes(value as string | number)
+    ? { ok: false, message: `must be ${describeType(field)} (got "${raw}")` }
+    : { ok: true, value };
+
+/**
+ * Check a value that already has a JSON type, such as one from a `props` attribute, against the schema.
+ */
+export function checkPropValue(field: PropSchemaField, value: unknown): CoercedProp {
+  const raw = typeof value === "string" ? value : JSON.stringify(value);
+  const matches =
+    field.type === "string"
+      ? typeof value === "string"
+      : field.type === "number"
+        ? typeof value === "number" && Number.isFinite(value)
+        : field.type === "integer"
+          ? Number.isInteger(value)
+          : field.type === "boolean"
+            ? typeof value === "boolean"
+            : field.type === "array"
+              ? Array.isArray(value)
+              : value != null && typeof value === "object" && !Array.isArray(value);
+  if (!matches) return { ok: false, message: `must be ${describeType(field)} (got "${raw}")` };
+  return checkEnum(field, value, raw);
+}
+
+/**
+ * Convert an XML attribute string to the type the schema declares.
+ */
+export function coercePropValue(field: PropSchemaField, raw: string): CoercedProp {
+  const invalid = (): CoercedProp => ({ ok: false, message: `must be ${describeType(field)} (got "${raw}")` });
+  switch (field.type) {
+    case "string":
+      return checkEnum(field, raw, raw);
+    case "number":
+    case "integer": {
+      const value = raw.trim() === "" ? Number.NaN : Number(raw);
+      if (!Number.isFinite(value) || (field.type === "integer" && !Number.isInteger(value))) return invalid();
+      return checkEnum(field, value, raw);
+    }
+    case "boolean":
+      if (raw === "true") return { ok: true, value: true };
+      if (raw === "false") return { ok: true, value: false };
+      return invalid();
+    case "array":
+    case "object": {
+      let value: unknown;
+      try {
+        value = JSON.parse(raw);
+      } catch {
+        return { ok: false, message: `must be ${field.type === "array" ? "a JSON array" : "a JSON object"} (got "${raw}")` };
+      }
+      const matches = field.type === "array" ? Array.isArray(value) : value != null && typeof value === "object" && !Array.isArray(value);
+      return matches ? { ok: true, value } : invalid();
+    }
+  }
+}
@@ -1,5 +1,6 @@
 import { TitleComponent } from "./TitleComponent.js";
 import { SubtitleComponent } from "./SubtitleComponent.js";
+import { CaptionsComponent } from "./CaptionsComponent.js";
 import { ProgressBarComponent } from "./ProgressBarComponent.js";
 import { RectangleComponent } from "./RectangleComponent.js";
 import { BackgroundComponent } from "./BackgroundComponent.js";
@@ -48,6 +49,7 @@ import { GsapPrinciplesDemoComponent } from "./engines/GsapPrinciplesDemoCompone
 import { TypefaceColorDemoComponent } from "./engines/TypefaceColorDemoComponent.js";
 import { TextEffectsComponent } from "./text/TextEffectsComponent.js";
 import { CtaSlideComponent } from "./marketing/CtaSlideComponent.js";
+import { registerPropSchema, unregisterPropSchema, type PropSchema } from "./prop-schema.js";
 
 export type ComponentType = React.ComponentType<any>;
 
@@ -56,6 +58,7 @@ const registry = new Map<string, ComponentType>();
 // Register built-in components
 registry.set("Title", TitleComponent);
 registry.set("Subtitle", SubtitleComponent);
+registry.set("Captions", CaptionsComponent);
 registry.set("ProgressBar", ProgressBarComponent);
 registry.set("Rectangle", RectangleComponent);
 registry.set("Background", BackgroundComponent);
@@ -109,8 +112,20 @@ registry.set("TypefaceColorDemo", TypefaceColorDemoComponent);
 registry.set("TextEffects", TextEffectsComponent);
 registry.set("CtaSlide", CtaSlideComponent);
 
-export function registerComponent(name: string, component: ComponentType): void {
+/**
+ * Register a component under `name`. An optional prop schema lets the XML parser type-check and
+ * coerce the component's attributes, and lets tooling list its props.
+ */
+export function registerComponent(name: string, component: ComponentType, schema?: PropSchema): void {
   registry.set(name, component);
+  if (schema) {
+    registerPropSchema(name, schema);
+  }
+}
+
+export function unregisterComponent(name: string): void {
+  registry.delete(name);
+  unregisterPropSchema(name);
 }
 
 export function getComponent(name: string | ComponentType): ComponentType | null {
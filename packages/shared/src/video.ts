@@ -21,6 +21,13 @@ export type ScriptSegment = {
   endSec: number;
   text?: string;        // For TTS segments
   durationSec?: number; // For pause segments
+  words?: ScriptWord[]; // Per-word timing for TTS segments
+};
+
+export type ScriptWord = {
+  text: string;
+  startSec: number;
+  endSec: number;
 };
 
 export type ScriptCue = {
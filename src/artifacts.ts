@@ -2,6 +2,7 @@ import { copyFileSync, writeFileSync, existsSync } from "fs";
 import { dirname, extname, join } from "path";
 import { computeSha256 } from "./baseline.js";
 import { ensureDir, hashKey, safePrefix } from "./util.js";
+import type { FallbackRecord } from "./fallback.js";
 
 export type RunArtifact = {
   kind: "script" | "timeline" | "audio";
@@ -9,6 +10,14 @@ export type RunArtifact = {
   sha256: string;
 };
 
+export type RunLoudness = {
+  targetLufs: number;
+  truePeakDb: number | null;
+  inputLufs: number;
+  inputTruePeakDb: number;
+  outputLufs: number | null;
+};
+
 export type RunMetadata = {
   id: string;
   compositionId: string;
@@ -16,6 +25,9 @@ export type RunMetadata = {
   createdAt: string;
   source: { dslPath: string };
   artifacts: RunArtifact[];
+  loudness?: RunLoudness;
+  /** Segments and clips a fallback provider produced, when any did. */
+  fallbacks?: FallbackRecord[];
 };
 
 export type RunWriteResult = {
@@ -33,6 +45,8 @@ type RunWriteOptions = {
   scriptPath: string;
   timelinePath: string;
   audioPath?: string | null;
+  loudness?: RunLoudness | null;
+  fallbacks?: FallbackRecord[];
 };
 
 const artifactName = (prefix: string, hash: string, ext = ""): string => `${prefix}.${safePrefix(hash)}${ext}`;
@@ -45,6 +59,8 @@ export const writeRunArtifacts = ({
   scriptPath,
   timelinePath,
   audioPath,
+  loudness,
+  fallbacks,
 }: RunWriteOptions): RunWriteResult => {
   const scriptHash = computeSha256(scriptPath);
   const timelineHash = computeSha256(timelinePath);
@@ -84,6 +100,8 @@ export const writeRunArtifacts = ({
     createdAt: new Date().toISOString(),
     source: { dslPath },
     artifacts,
+    ...(loudness ? { loudness } : {}),
+    ...(fallbacks?.length ? { fallbacks } : {}),
   };
 
   const runPath = join(runDir, "run.json");
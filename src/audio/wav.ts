@@ -99,3 +99,60 @@ export function concatWavFiles(outPath: string, segmentPaths: string[]): void {
   ensureDir(dirname(outPath));
   writeFileSync(outPath, Buffer.concat([header, payload]));
 }
+
+/**
+ * Length of a WAV file in seconds, from its format and data chunks.
+ */
+export function wavDurationSec(path: string): number {
+  const info = parseWav(readFileSync(path), path);
+  const bytesPerFrame = info.numChannels * (info.bitsPerSample / 8);
+  return bytesPerFrame ? info.data.length / bytesPerFrame / info.sampleRate : 0;
+}
+
+/**
+ * Rewrites a 16-bit PCM WAV file as mono at `sampleRateHz` (linear interpolation), so engines
+ * with a fixed output rate line up with the silence and other segments of a run.
+ */
+export function resampleWavFile(path: string, sampleRateHz: number): void {
+  const info = parseWav(readFileSync(path), path);
+  if (info.audioFormat !== 1 || info.bitsPerSample !== 16) {
+    throw new Error(`Only 16-bit PCM WAV can be resampled: ${path}`);
+  }
+  if (info.sampleRate === sampleRateHz && info.numChannels === 1) {
+    return;
+  }
+  const inFrames = Math.floor(info.data.length / (2 * info.numChannels));
+  const mono = new Float64Array(inFrames);
+  for (let frame = 0; frame < inFrames; frame += 1) {
+    let sum = 0;
+    for (let channel = 0; channel < info.numChannels; channel += 1) {
+      sum += info.data.readInt16LE((frame * info.numChannels + channel) * 2);
+    }
+    mono[frame] = sum / info.numChannels;
+  }
+  const outFrames = Math.round((inFrames * sampleRateHz) / info.sampleRate);
+  const dataSize = outFrames * 2;
+  const out = Buffer.alloc(44 + dataSize);
+  out.write("RIFF", 0);
+  out.writeUInt32LE(36 + dataSize, 4);
+  out.write("WAVE", 8);
+  out.write("fmt ", 12);
+  out.writeUInt32LE(16, 16);
+  out.writeUInt16LE(1, 20);
+  out.writeUInt16LE(1, 22);
+  out.writeUInt32LE(sampleRateHz, 24);
+  out.writeUInt32LE(sampleRateHz * 2, 28);
+  out.writeUInt16LE(2, 32);
+  out.writeUInt16LE(16, 34);
+  out.write("data", 36);
+  out.writeUInt32LE(dataSize, 40);
+  for (let frame = 0; frame < outFrames; frame += 1) {
+    const position = (frame * info.sampleRate) / sampleRateHz;
+    const index = Math.floor(position);
+    const next = Math.min(index + 1, inFrames - 1);
+    const fraction = position - index;
+    const value = mono[index] * (1 - fraction) + mono[next] * fraction;
+    out.writeInt16LE(Math.max(-32768, Math.min(32767, Math.round(value))), 44 + frame * 2);
+  }
+  writeFileSync(path, out);
+}
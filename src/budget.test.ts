@@ -0,0 +1,98 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { CompileError, ParseError } from "./errors.js";
+import type { Config } from "./config.js";
+import { createBudgetGuard, findBudgetOverrun, getBudget, recordBudgetUsage } from "./budget.js";
+import { loadVideoFileFromXml } from "./dsl/xml.js";
+import { generateComposition } from "./generate.js";
+
+const rateCard = { units: { chars: 0.01 } };
+
+describe("getBudget", () => {
+  it("reads per-run and per-day caps", () => {
+    assert.deepEqual(getBudget({ budget: { per_run: { cost: 5 }, per_day: { units: { chars: 1000 } } } }), {
+      perRun: { cost: 5 },
+      perDay: { units: { chars: 1000 } },
+    });
+    assert.equal(getBudget({}), null);
+    assert.throws(() => getBudget({ budget: { per_run: { cost: "5" } } }), ParseError);
+  });
+});
+
+describe("budget guard", () => {
+  it("counts today's ledger entries towards the per-day cap", () => {
+    const now = new Date("2026-03-04T12:00:00.000Z");
+    const guard = createBudgetGuard({ perDay: { cost: 1 } }, rateCard, [
+      { timestamp: "2026-03-03T23:00:00.000Z", kind: "tts", unitType: "chars", quantity: 500, estimatedCost: 5 },
+      { timestamp: "2026-03-04T01:00:00.000Z", kind: "tts", unitType: "chars", quantity: 60 },
+    ], now);
+    assert.equal(findBudgetOverrun(guard, { kind: "tts", unitType: "chars", quantity: 40 }), null);
+    recordBudgetUsage(guard, { kind: "tts", unitType: "chars", quantity: 40 });
+    assert.equal(
+      findBudgetOverrun(guard, { kind: "tts", unitType: "chars", quantity: 1 }),
+      "budget.per_day.cost of 1 would be exceeded (spent 1, next 0.01)",
+    );
+  });
+
+  it("needs a rate card for cost caps", () => {
+    assert.throws(() => createBudgetGuard({ perRun: { cost: 1 } }, null, []), /pricing rate card/);
+    assert.ok(createBudgetGuard({ perRun: { units: { seconds: 10 } } }, null, []));
+  });
+});
+
+describe("generateComposition budgets", () => {
+  let outDir: string;
+  let originalMock: string | undefined;
+
+  before(() => {
+    outDir = mkdtempSync(join(tmpdir(), "videoml-budget-test-"));
+    originalMock = process.env.BABULUS_MOCK_TTS;
+    process.env.BABULUS_MOCK_TTS = "1";
+  });
+
+  after(() => {
+    if (originalMock === undefined) delete process.env.BABULUS_MOCK_TTS;
+    else process.env.BABULUS_MOCK_TTS = originalMock;
+    rmSync(outDir, { recursive: true, force: true });
+  });
+
+  it("stops before the synthesis that would exceed the cap and lists what was skipped", async () => {
+    const composition = loadVideoFileFromXml(`
+      <vml id="demo">
+        <scene id="intro">
+          <cue id="one"><voice>0123456789</voice></cue>
+          <cue id="two"><voice>0123456789</voice></cue>
+          <cue id="three"><voice>0123456789</voice></cue>
+        </scene>
+      </vml>`).compositions[0];
+    const config: Config = {
+      tts: { default_provider: "openai" },
+      providers: { openai: { api_key: "sk-budget" } },
+      pricing: rateCard,
+      budget: { per_run: { cost: 0.25 } },
+    };
+    await assert.rejects(
+      generateComposition({
+        composition,
+        dslPath: join(outDir, "demo.xml"),
+        scriptOut: join(outDir, "script.json"),
+        timelineOut: join(outDir, "timeline.json"),
+        outDir,
+        config,
+        captions: false,
+      }),
+      (err: unknown) => {
+        assert.ok(err instanceof CompileError);
+        assert.match(err.message, /budget\.per_run\.cost of 0\.25 would be exceeded \(spent 0\.2, next 0\.1\)/);
+        assert.match(err.message, /Skipped 1 synthesis item\(s\) \(estimated cost 0\.1\):\n {2}tts scene=intro cue=three seg=1/);
+        return true;
+      },
+    );
+    // The two segments already paid for are in the manifest for the next run.
+    const manifest = JSON.parse(readFileSync(join(outDir, "env", "development", "manifest.json"), "utf-8"));
+    assert.equal(Object.keys(manifest.segments).length, 2);
+  });
+});
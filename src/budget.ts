@@ -0,0 +1,161 @@
+import { CompileError, ParseError } from "./errors.js";
+import type { Config } from "./config.js";
+import { estimateUsageCost, type RateCard, type UsageCostInput } from "./pricing.js";
+import type { PlannedItem } from "./plan.js";
+import type { UsageEntry, UsageUnitType } from "./telemetry.js";
+
+export type BudgetCaps = {
+  /** Estimated spend, in the rate card's currency. */
+  cost?: number;
+  units?: Partial<Record<UsageUnitType, number>>;
+};
+
+export type Budget = {
+  perRun?: BudgetCaps;
+  /** Counted per UTC day over everything in the usage ledger, not only this composition. */
+  perDay?: BudgetCaps;
+};
+
+type Totals = { cost: number; units: Partial<Record<UsageUnitType, number>> };
+
+export type BudgetGuard = {
+  budget: Budget;
+  run: Totals;
+  day: Totals;
+  rateCard: RateCard | null;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const parseLimit = (value: unknown, label: string): number => {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    throw new ParseError(`${label} must be a finite number`);
+  }
+  if (value < 0) {
+    throw new ParseError(`${label} must be >= 0`);
+  }
+  return value;
+};
+
+const parseCaps = (value: unknown, label: string): BudgetCaps | undefined => {
+  if (value == null) {
+    return undefined;
+  }
+  if (!isRecord(value)) {
+    throw new ParseError(`${label} must be a mapping`);
+  }
+  const caps: BudgetCaps = {};
+  if (value.cost != null) {
+    caps.cost = parseLimit(value.cost, `${label}.cost`);
+  }
+  if (value.units != null) {
+    if (!isRecord(value.units)) {
+      throw new ParseError(`${label}.units must be a mapping`);
+    }
+    caps.units = {};
+    for (const [unit, raw] of Object.entries(value.units)) {
+      caps.units[unit as UsageUnitType] = parseLimit(raw, `${label}.units.${unit}`);
+    }
+  }
+  return caps;
+};
+
+export function getBudget(config: Config): Budget | null {
+  const raw = (config as Record<string, unknown>).budget;
+  if (raw == null) {
+    return null;
+  }
+  if (!isRecord(raw)) {
+    throw new ParseError("budget must be a mapping");
+  }
+  const budget: Budget = {
+    perRun: parseCaps(raw.per_run, "budget.per_run"),
+    perDay: parseCaps(raw.per_day, "budget.per_day"),
+  };
+  if (!budget.perRun && !budget.perDay) {
+    return null;
+  }
+  return budget;
+}
+
+const entryCost = (entry: UsageCostInput & { estimatedCost?: number | null; actualCost?: number | null }, rateCard: RateCard | null) =>
+  entry.actualCost ?? entry.estimatedCost ?? estimateUsageCost(entry, rateCard) ?? 0;
+
+const addTo = (totals: Totals, entry: UsageCostInput, cost: number) => {
+  totals.cost += cost;
+  totals.units[entry.unitType] = (totals.units[entry.unitType] ?? 0) + entry.quantity;
+};
+
+/**
+ * Start tracking spend against `budget`. `ledgerEntries` are the usage entries recorded so far; the
+ * ones from `now`'s UTC day count towards the per-day caps.
+ */
+export function createBudgetGuard(
+  budget: Budget,
+  rateCard: RateCard | null,
+  ledgerEntries: UsageEntry[],
+  now: Date = new Date(),
+): BudgetGuard {
+  if ((budget.perRun?.cost != null || budget.perDay?.cost != null) && !rateCard) {
+    throw new CompileError("A budget cost cap needs a pricing rate card (config `pricing`) to estimate spend.");
+  }
+  const guard: BudgetGuard = { budget, rateCard, run: { cost: 0, units: {} }, day: { cost: 0, units: {} } };
+  const today = now.toISOString().slice(0, 10);
+  for (const entry of ledgerEntries) {
+    if (entry.timestamp.slice(0, 10) === today) {
+      addTo(guard.day, entry, entryCost(entry, rateCard));
+    }
+  }
+  return guard;
+}
+
+export function recordBudgetUsage(guard: BudgetGuard, entry: UsageCostInput): void {
+  const cost = entryCost(entry, guard.rateCard);
+  addTo(guard.run, entry, cost);
+  addTo(guard.day, entry, cost);
+}
+
+const formatAmount = (value: number) => Number(value.toFixed(4)).toString();
+
+/**
+ * Describe the first cap that synthesizing `next` would push past, or null when it fits.
+ */
+export function findBudgetOverrun(guard: BudgetGuard, next: UsageCostInput): string | null {
+  const cost = estimateUsageCost(next, guard.rateCard) ?? 0;
+  const scopes: Array<[string, BudgetCaps | undefined, Totals]> = [
+    ["per_run", guard.budget.perRun, guard.run],
+    ["per_day", guard.budget.perDay, guard.day],
+  ];
+  for (const [scope, caps, spent] of scopes) {
+    if (caps?.cost != null && spent.cost + cost > caps.cost) {
+      return `budget.${scope}.cost of ${formatAmount(caps.cost)} would be exceeded (spent ${formatAmount(spent.cost)}, next ${formatAmount(cost)})`;
+    }
+    const unitCap = caps?.units?.[next.unitType];
+    const used = spent.units[next.unitType] ?? 0;
+    if (unitCap != null && used + next.quantity > unitCap) {
+      return `budget.${scope}.units.${next.unitType} of ${formatAmount(unitCap)} would be exceeded (used ${formatAmount(used)}, next ${formatAmount(next.quantity)})`;
+    }
+  }
+  return null;
+}
+
+const describeItem = (item: PlannedItem) => {
+  const where = item.kind === "tts"
+    ? `scene=${item.sceneId} cue=${item.cueId} seg=${(item.segmentIndex ?? 0) + 1}`
+    : `clip=${item.clipId} variant=${(item.variant ?? 0) + 1}`;
+  const amount = item.quantity == null ? "" : ` ${formatAmount(item.quantity)} ${item.unitType}`;
+  const cost = item.estimatedCost == null ? "" : `, est. ${formatAmount(item.estimatedCost)}`;
+  return `  ${item.kind} ${where} (${item.provider}${amount}${cost})`;
+};
+
+export function budgetExceededError(overrun: string, skipped: PlannedItem[]): CompileError {
+  const cost = skipped.reduce((sum, item) => sum + (item.estimatedCost ?? 0), 0);
+  const lines = [
+    `Budget exceeded: ${overrun}.`,
+    `Skipped ${skipped.length} synthesis item(s) (estimated cost ${formatAmount(cost)}):`,
+    ...skipped.map(describeItem),
+    "Audio generated before the cap is cached and reused on the next run.",
+  ];
+  return new CompileError(lines.join("\n"));
+}
@@ -0,0 +1,9 @@
+// Regenerates schema/videoml.xsd and schema/videoml.schema.json: `npm run build:schema`.
+import { resolve } from "path";
+import { listComponents } from "../packages/renderer/src/components/registry.js";
+import { writeVideoMlSchemas } from "./dsl/xml-schema.js";
+
+const outDir = resolve(process.argv[2] ?? "schema");
+const { xsdPath, jsonSchemaPath } = writeVideoMlSchemas(outDir, { components: listComponents() });
+console.log(`wrote ${xsdPath}`);
+console.log(`wrote ${jsonSchemaPath}`);
@@ -1,6 +1,7 @@
 import { existsSync, readFileSync, readdirSync } from "fs";
 import { join } from "path";
 import { getEnvironmentFallbackChain, resolveEnvCacheDir } from "./env.js";
+import type { TTSAlignment, WordTiming } from "./providers/tts/types.js";
 
 export function loadManifest(manifestPath: string): Record<string, unknown> {
   if (!existsSync(manifestPath)) {
@@ -18,12 +19,12 @@ export function loadManifest(manifestPath: string): Record<string, unknown> {
   }
 }
 
-export function getManifestDuration(
+function getManifestEntry(
   manifest: Record<string, unknown>,
   section: string,
   path: string,
   expectedKey: string,
-): number | null {
+): Record<string, unknown> | null {
   const sec = manifest[section];
   if (!sec || typeof sec !== "object" || Array.isArray(sec)) {
     return null;
@@ -48,13 +49,57 @@ export function getManifestDuration(
   if (entryObj.key !== expectedKey) {
     return null;
   }
-  const dur = entryObj.durationSec;
+  return entryObj;
+}
+
+export function getManifestDuration(
+  manifest: Record<string, unknown>,
+  section: string,
+  path: string,
+  expectedKey: string,
+): number | null {
+  const dur = getManifestEntry(manifest, section, path, expectedKey)?.durationSec;
   if (typeof dur !== "number") {
     return null;
   }
   return dur;
 }
 
+/**
+ * The fallback provider that produced a cached file (`meta.fallbackFrom` is set), or null when the
+ * configured provider did.
+ */
+export function getManifestFallback(
+  manifest: Record<string, unknown>,
+  section: string,
+  path: string,
+  expectedKey: string,
+): string | null {
+  const meta = getManifestEntry(manifest, section, path, expectedKey)?.meta as Record<string, unknown> | undefined;
+  if (typeof meta?.fallbackFrom !== "string") {
+    return null;
+  }
+  return typeof meta.provider === "string" ? meta.provider : "unknown";
+}
+
+/**
+ * Word timings stored with a TTS segment (`meta.words`), relative to the start of the raw audio.
+ */
+export function getManifestAlignment(
+  manifest: Record<string, unknown>,
+  path: string,
+  expectedKey: string,
+): TTSAlignment | null {
+  const meta = getManifestEntry(manifest, "segments", path, expectedKey)?.meta as Record<string, unknown> | undefined;
+  if (!Array.isArray(meta?.words)) {
+    return null;
+  }
+  return {
+    words: meta.words as WordTiming[],
+    source: meta.alignment === "provider" ? "provider" : "estimated",
+  };
+}
+
 export function resolveCachedAudio(
   outDir: string,
   currentEnv: string,
@@ -76,7 +121,8 @@ export function resolveCachedAudio(
     const matches = globSync(kindDir, filePattern);
     for (const candidate of matches) {
       const duration = getManifestDuration(manifest, kind, candidate, cacheKey);
-      if (duration != null) {
+      // Fallback output is not a hit: the configured provider gets another try.
+      if (duration != null && !getManifestFallback(manifest, kind, candidate, cacheKey)) {
         if (env !== currentEnv) {
           _log(`cache: fallback ${kind}=${candidate.split("/").pop()} from env=${env}`);
         }
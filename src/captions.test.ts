@@ -0,0 +1,112 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { buildCaptions, captionPathsFor, formatSrt, formatWebVtt, wrapCaptionText } from "./captions.js";
+import type { Script } from "./models.js";
+
+const scriptWith = (cues: Script["scenes"][number]["cues"]): Script => ({
+  scenes: [{ id: "intro", title: "Intro", startSec: 0, endSec: 20, cues }],
+});
+
+describe("Caption export", () => {
+  describe("wrapCaptionText", () => {
+    it("wraps on word boundaries", () => {
+      assert.deepEqual(wrapCaptionText("the quick brown fox jumps", 10), ["the quick", "brown fox", "jumps"]);
+    });
+
+    it("keeps overlong words intact", () => {
+      assert.deepEqual(wrapCaptionText("a supercalifragilistic word", 8), ["a", "supercalifragilistic", "word"]);
+    });
+  });
+
+  describe("buildCaptions", () => {
+    it("uses tts segments and ignores pauses", () => {
+      const cues = buildCaptions(
+        scriptWith([
+          {
+            id: "c1",
+            label: "c1",
+            startSec: 0,
+            endSec: 4,
+            text: "Hello there. Welcome.",
+            bullets: [],
+            segments: [
+              { type: "tts", startSec: 0, endSec: 1.5, text: "Hello there." },
+              { type: "pause", startSec: 1.5, endSec: 2 },
+              { type: "tts", startSec: 2, endSec: 4, text: "Welcome." },
+            ],
+          },
+        ]),
+      );
+      assert.deepEqual(cues, [
+        { startSec: 0, endSec: 1.5, lines: ["Hello there."] },
+        { startSec: 2, endSec: 4, lines: ["Welcome."] },
+      ]);
+    });
+
+    it("splits long segments into blocks of at most maxLines", () => {
+      const cues = buildCaptions(
+        scriptWith([
+          { id: "c1", label: "c1", startSec: 0, endSec: 6, text: "one two three four five six", bullets: [] },
+        ]),
+        { maxLineLength: 9, maxLines: 1 },
+      );
+      assert.deepEqual(
+        cues.map((c) => c.lines),
+        [["one two"], ["three"], ["four five"], ["six"]],
+      );
+      assert.equal(cues[0].startSec, 0);
+      assert.equal(cues.at(-1)!.endSec, 6);
+      for (let i = 1; i < cues.length; i += 1) {
+        assert.equal(cues[i].startSec, cues[i - 1].endSec);
+      }
+    });
+
+    it("splits captions that would stay on screen too long", () => {
+      const cues = buildCaptions(
+        scriptWith([{ id: "c1", label: "c1", startSec: 0, endSec: 12, text: "alpha beta gamma delta", bullets: [] }]),
+        { maxLineLength: 6, maxLines: 4, maxDurationSec: 6 },
+      );
+      assert.equal(cues.length, 2);
+    });
+
+    it("includes narration cues in time order", () => {
+      const script = scriptWith([
+        { id: "c1", label: "c1", startSec: 0, endSec: 2, text: "Scene line.", bullets: [] },
+        { id: "c2", label: "c2", startSec: 6, endSec: 8, text: "Later line.", bullets: [] },
+      ]);
+      script.narration = [{ id: "aside", label: "aside", startSec: 3, endSec: 5, text: "An aside.", bullets: [] }];
+      assert.deepEqual(
+        buildCaptions(script).map((c) => c.lines),
+        [["Scene line."], ["An aside."], ["Later line."]],
+      );
+    });
+  });
+
+  describe("formatting", () => {
+    const cues = [
+      { startSec: 0, endSec: 1.5, lines: ["Hello there."] },
+      { startSec: 3661.25, endSec: 3662, lines: ["Two", "lines"] },
+    ];
+
+    it("writes WebVTT", () => {
+      assert.equal(
+        formatWebVtt(cues),
+        "WEBVTT\n\n00:00:00.000 --> 00:00:01.500\nHello there.\n\n01:01:01.250 --> 01:01:02.000\nTwo\nlines\n",
+      );
+    });
+
+    it("writes SRT", () => {
+      assert.equal(
+        formatSrt(cues),
+        "1\n00:00:00,000 --> 00:00:01,500\nHello there.\n\n2\n01:01:01,250 --> 01:01:02,000\nTwo\nlines\n",
+      );
+    });
+  });
+
+  it("places caption files next to the script", () => {
+    assert.deepEqual(captionPathsFor("/out/intro.script.json"), {
+      vttPath: "/out/intro.script.vtt",
+      srtPath: "/out/intro.script.srt",
+    });
+  });
+});
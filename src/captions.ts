@@ -0,0 +1,148 @@
+import { writeFileSync } from "fs";
+import { basename, dirname, extname, join } from "path";
+import type { Script } from "./models.js";
+import { ensureDir } from "./util.js";
+
+export type CaptionOptions = {
+  /** Maximum characters per caption line (default 42). */
+  maxLineLength?: number;
+  /** Maximum lines shown at once (default 2). */
+  maxLines?: number;
+  /** Split captions that would stay on screen longer than this (default 6s). */
+  maxDurationSec?: number;
+};
+
+export type CaptionCue = {
+  startSec: number;
+  endSec: number;
+  lines: string[];
+};
+
+export type CaptionFiles = {
+  vttPath: string;
+  srtPath: string;
+  cues: number;
+};
+
+const DEFAULT_MAX_LINE_LENGTH = 42;
+const DEFAULT_MAX_LINES = 2;
+const DEFAULT_MAX_DURATION_SEC = 6;
+
+/**
+ * Greedy word wrap. Words longer than the limit get a line of their own rather than being broken.
+ */
+export function wrapCaptionText(text: string, maxLineLength: number): string[] {
+  const words = text.trim().split(/\s+/).filter(Boolean);
+  const lines: string[] = [];
+  let current = "";
+  for (const word of words) {
+    if (!current) {
+      current = word;
+    } else if (current.length + 1 + word.length <= maxLineLength) {
+      current = `${current} ${word}`;
+    } else {
+      lines.push(current);
+      current = word;
+    }
+  }
+  if (current) {
+    lines.push(current);
+  }
+  return lines;
+}
+
+/**
+ * Turn narrated segments into caption cues. Each spoken segment is wrapped and split into blocks of
+ * at most `maxLines` lines; the segment's time span is shared between blocks by character count.
+ * Cues without segment timing fall back to the cue's own text and span. Scene and `<narration>` cues
+ * are merged in time order.
+ */
+export function buildCaptions(script: Script, options: CaptionOptions = {}): CaptionCue[] {
+  const maxLineLength = Math.max(1, options.maxLineLength ?? DEFAULT_MAX_LINE_LENGTH);
+  const maxLines = Math.max(1, options.maxLines ?? DEFAULT_MAX_LINES);
+  const maxDurationSec = options.maxDurationSec ?? DEFAULT_MAX_DURATION_SEC;
+
+  const spans: Array<{ startSec: number; endSec: number; text: string }> = [];
+  const cues = [...script.scenes.flatMap((scene) => scene.cues), ...(script.narration ?? [])];
+  for (const cue of cues) {
+    const spoken = (cue.segments ?? []).filter((seg) => seg.type === "tts" && seg.text?.trim());
+    if (spoken.length > 0) {
+      for (const seg of spoken) {
+        spans.push({ startSec: seg.startSec, endSec: seg.endSec, text: seg.text! });
+      }
+    } else if (cue.text.trim()) {
+      spans.push({ startSec: cue.startSec, endSec: cue.endSec, text: cue.text });
+    }
+  }
+  spans.sort((a, b) => a.startSec - b.startSec);
+
+  const out: CaptionCue[] = [];
+  for (const span of spans) {
+    const lines = wrapCaptionText(span.text, maxLineLength);
+    const duration = Math.max(0, span.endSec - span.startSec);
+    // Enough blocks to respect both the line limit and the on-screen duration limit.
+    const byLines = Math.ceil(lines.length / maxLines);
+    const byDuration = maxDurationSec > 0 ? Math.ceil(duration / maxDurationSec) : 1;
+    const blockCount = Math.min(lines.length, Math.max(byLines, byDuration, 1));
+    const perBlock = Math.ceil(lines.length / blockCount);
+    const blocks: string[][] = [];
+    for (let i = 0; i < lines.length; i += perBlock) {
+      blocks.push(lines.slice(i, i + perBlock));
+    }
+
+    const totalChars = blocks.reduce((sum, block) => sum + block.join(" ").length, 0);
+    let cursor = span.startSec;
+    blocks.forEach((block, idx) => {
+      const share = totalChars > 0 ? block.join(" ").length / totalChars : 1 / blocks.length;
+      const endSec = idx === blocks.length - 1 ? span.endSec : cursor + duration * share;
+      out.push({ startSec: cursor, endSec, lines: block });
+      cursor = endSec;
+    });
+  }
+  return out;
+}
+
+function formatTimestamp(sec: number, fractionSeparator: "." | ","): string {
+  const totalMs = Math.max(0, Math.round(sec * 1000));
+  const ms = totalMs % 1000;
+  const totalSec = Math.floor(totalMs / 1000);
+  const s = totalSec % 60;
+  const m = Math.floor(totalSec / 60) % 60;
+  const h = Math.floor(totalSec / 3600);
+  const pad = (n: number, width = 2) => String(n).padStart(width, "0");
+  return `${pad(h)}:${pad(m)}:${pad(s)}${fractionSeparator}${pad(ms, 3)}`;
+}
+
+export function formatWebVtt(cues: CaptionCue[]): string {
+  const blocks = cues.map(
+    (cue) => `${formatTimestamp(cue.startSec, ".")} --> ${formatTimestamp(cue.endSec, ".")}\n${cue.lines.join("\n")}`,
+  );
+  return ["WEBVTT", ...blocks].join("\n\n") + "\n";
+}
+
+export function formatSrt(cues: CaptionCue[]): string {
+  return cues
+    .map(
+      (cue, idx) =>
+        `${idx + 1}\n${formatTimestamp(cue.startSec, ",")} --> ${formatTimestamp(cue.endSec, ",")}\n${cue.lines.join("\n")}\n`,
+    )
+    .join("\n");
+}
+
+/**
+ * Caption paths sit next to the script JSON: `intro.script.json` -> `intro.script.vtt` / `.srt`.
+ */
+export function captionPathsFor(scriptOut: string): { vttPath: string; srtPath: string } {
+  const ext = extname(scriptOut);
+  const stem = join(dirname(scriptOut), ext ? basename(scriptOut, ext) : basename(scriptOut));
+  return { vttPath: `${stem}.vtt`, srtPath: `${stem}.srt` };
+}
+
+export function writeCaptions(script: Script, scriptOut: string, options: CaptionOptions = {}): CaptionFiles {
+  const cues = buildCaptions(script, options);
+  const { vttPath, srtPath } = captionPathsFor(scriptOut);
+  ensureDir(dirname(vttPath));
+  writeFileSync(vttPath, formatWebVtt(cues), "utf-8");
+  writeFileSync(srtPath, formatSrt(cues), "utf-8");
+  return { vttPath, srtPath, cues: cues.length };
+}
@@ -150,7 +150,7 @@ export function getProviderConfig(config: Config, provider: string): Record<stri
   return cfg as Record<string, unknown>;
 }
 
-function getNestedString(config: Config, path: string[]): string | null {
+function getNested(config: Config, path: string[]): unknown {
   let current: unknown = config;
   for (const key of path) {
     if (!current || typeof current !== "object" || Array.isArray(current)) {
@@ -158,6 +158,11 @@ function getNestedString(config: Config, path: string[]): string | null {
     }
     current = (current as Record<string, unknown>)[key];
   }
+  return current;
+}
+
+function getNestedString(config: Config, path: string[]): string | null {
+  const current = getNested(config, path);
   if (current == null) {
     return null;
   }
@@ -214,3 +219,38 @@ export function getDefaultSfxProvider(config: Config): string | null {
 export function getDefaultMusicProvider(config: Config): string | null {
   return getNestedString(config, ["audio", "default_music_provider"]);
 }
+
+function getNestedStringList(config: Config, path: string[]): string[] {
+  const current = getNested(config, path);
+  if (current == null) {
+    return [];
+  }
+  if (!Array.isArray(current) || current.some((item) => typeof item !== "string")) {
+    throw new ParseError(`config.${path.join(".")} must be a list of strings`);
+  }
+  return current as string[];
+}
+
+/**
+ * Providers to try, in order, for a segment or clip the configured provider failed to produce
+ * (`tts.fallback`, `audio.sfx_fallback`, `audio.music_fallback`).
+ */
+export function getFallbackProviders(config: Config, kind: "tts" | "sfx" | "music"): string[] {
+  const path = kind === "tts" ? ["tts", "fallback"] : ["audio", `${kind}_fallback`];
+  return getNestedStringList(config, path);
+}
+
+/**
+ * Whether a TTS provider without credentials falls back to the silent dry-run provider
+ * (`tts.dry_run_fallback`). Off by default: missing credentials are an error.
+ */
+export function getDryRunFallback(config: Config): boolean {
+  const value = getNested(config, ["tts", "dry_run_fallback"]);
+  if (value == null) {
+    return false;
+  }
+  if (typeof value !== "boolean") {
+    throw new ParseError("config.tts.dry_run_fallback must be a boolean");
+  }
+  return value;
+}
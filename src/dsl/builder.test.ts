@@ -0,0 +1,73 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { defineVideo, type CompositionBuilder } from "./builder.js";
+import type { NarrationSpec, SceneSpec, TransitionSpec, VideoFileSpec } from "./types.js";
+import { loadVideoFileFromXml } from "./xml.js";
+
+const build = (fn: (video: CompositionBuilder) => void) => defineVideo("Demo", fn) as VideoFileSpec;
+
+describe("CompositionBuilder timeline", () => {
+  it("times scenes, transitions, marks and narration like the XML loader", () => {
+    const built = build((video) => {
+      video.scene("Intro", { duration: 4 }, (scene) => {
+        scene.cue("Hello", (cue) => cue.voice((voice) => voice.say("Hi.")));
+        scene.transitionToNext("fade", { durationSeconds: 0.5 });
+      });
+      video.transition("swap", { duration: 0.75, effect: "slide" });
+      video.mark("beat", 5);
+      video.scene("Outro", { duration: 3 }, (scene) => scene.enter("zoom"));
+      video.narration("aside", { start: 9, duration: 2 }, (narration) => {
+        narration.cue("Note", (cue) => cue.voice((voice) => voice.say("One more thing.")));
+      });
+    });
+    const loaded = loadVideoFileFromXml(`
+      <vml id="demo">
+        <scene id="intro" duration="4s" transition="fade" transition-duration="0.5s" />
+        <transition id="swap" duration="0.75s" effect="slide" />
+        <mark id="beat" at="5s" />
+        <scene id="outro" duration="3s" enter="zoom" />
+        <narration id="aside" start="9s" duration="2s" />
+      </vml>`);
+    const [intro, swap, beat, outro, aside] = built.compositions[0].timeline;
+    const [xmlIntro, xmlSwap, xmlBeat, xmlOutro, xmlAside] = loaded.compositions[0].timeline;
+    assert.deepEqual((intro as SceneSpec).time, (xmlIntro as SceneSpec).time);
+    assert.deepEqual((intro as SceneSpec).transitionToNext, { effect: "fade", durationSeconds: 0.5 });
+    assert.equal((xmlIntro as SceneSpec).transitionToNext?.durationSeconds, 0.5);
+    assert.equal((swap as TransitionSpec).durationSeconds, (xmlSwap as TransitionSpec).durationSeconds);
+    assert.equal((swap as TransitionSpec).time, undefined);
+    assert.deepEqual(beat, xmlBeat);
+    // Follows the mark, which is the previous timeline item.
+    assert.deepEqual((outro as SceneSpec).time, (xmlOutro as SceneSpec).time);
+    assert.deepEqual((outro as SceneSpec).time, { start: 5, end: 8 });
+    assert.equal((outro as SceneSpec).enter?.effect, "zoom");
+    assert.deepEqual((aside as NarrationSpec).time, (xmlAside as NarrationSpec).time);
+    assert.equal((aside as NarrationSpec).items.length, 1);
+  });
+
+  it("marks a duration-only scene as relative when the previous end is unknown", () => {
+    const built = build((video) => {
+      video.scene("Open", (scene) => scene.cue("Line", (cue) => cue.voice((voice) => voice.say("Hi."))));
+      video.scene("Next", { duration: 2 }, () => {});
+    });
+    assert.deepEqual((built.compositions[0].timeline[1] as SceneSpec).time, { start: 0, end: 2, startIsRelative: true });
+  });
+
+  it("adds scene and transition audio elements with static or deferred timing", () => {
+    const built = build((video) => {
+      video.scene("Intro", (scene) => {
+        scene.audio("bed", { kind: "music", duration: 6, prompt: "piano", volume: 0.4 });
+        scene.audio("ding", { kind: "sfx", start: "cue(hello).end", end: 3 });
+      });
+      video.transition("swap", { duration: 1 }, (transition) => {
+        transition.audio("whoosh", { kind: "file", src: "whoosh.wav", start: 0.1 });
+      });
+    });
+    const [intro, swap] = built.compositions[0].timeline as [SceneSpec, TransitionSpec];
+    assert.deepEqual(intro.audio?.[0], { id: "bed", kind: "music", prompt: "piano", volume: 0.4, time: { start: 0, end: 6 } });
+    assert.equal(intro.audio?.[1].time, undefined);
+    assert.equal(intro.audio?.[1].deferredTime?.start?.expr, "cue(hello).end");
+    assert.equal(intro.audio?.[1].deferredTime?.end?.expr, "3s");
+    assert.deepEqual(swap.audio?.[0].time, { start: 0.1 });
+    assert.throws(() => build((video) => video.narration("n", { end: 2 }, () => {})), /requires start when end/);
+  });
+});
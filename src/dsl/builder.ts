@@ -1,24 +1,32 @@
 import { slugify } from "../util.js";
 import type {
   AudioClipSpec,
+  AudioElementSpec,
   AudioPlan,
   AudioTrackSpec,
   CompositionDefaults,
   CompositionMeta,
   CompositionSpec,
+  ConditionSpec,
   CueSpec,
   VisualStyles,
   LayerSpec,
   ComponentSpec,
+  MarkSpec,
+  NarrationSpec,
   SemanticMarkup,
   PauseSpec,
   SceneSpec,
+  TimelineItemSpec,
   TimeRange,
+  TransitionRef,
+  TransitionSpec,
   VideoFileSpec,
   VoiceSegmentSpec,
   VoiceoverConfig,
 } from "./types.js";
 import { normalizePause, pause as pauseHelper } from "./pause.js";
+import { deferTimeValue } from "./time-expr.js";
 
 export type DefineVideoFn = (builder: VideoBuilder | CompositionBuilder) => void | Promise<void>;
 
@@ -29,6 +37,35 @@ export type DefineVideoConfig = {
   durationSeconds?: number;
 };
 
+/**
+ * Timeline timing in seconds. A scene or narration with only `duration` starts where the previous
+ * timeline item ends.
+ */
+export type TimingOptions = {
+  start?: number;
+  end?: number;
+  duration?: number;
+};
+
+/**
+ * Options for `SceneBuilder.audio()`/`TransitionBuilder.audio()`. Numbers are seconds from the
+ * container's start; strings are time expressions.
+ */
+export type AudioElementOptions = Omit<AudioElementSpec, "id" | "time" | "deferredTime"> & {
+  start?: number | string;
+  end?: number | string;
+  duration?: number | string;
+};
+
+type LayerOptions = {
+  styles?: VisualStyles;
+  markup?: SemanticMarkup;
+  timing?: { startSec?: number; endSec?: number };
+  visible?: boolean;
+  zIndex?: number;
+  when?: ConditionSpec;
+};
+
 // New simplified signature: defineVideo(title, config, fn)
 export function defineVideo(
   title: string,
@@ -122,7 +159,7 @@ class CompositionBuilder {
   private _posterTime?: number | null;
   private _voiceover?: VoiceoverConfig;
   private _audioProviders?: { sfx?: string | null; music?: string | null };
-  private timeline: SceneSpec[] = [];
+  private timeline: TimelineItemSpec[] = [];
   private audioPlan: AudioPlan = { tracks: [] };
 
   constructor(name: string, opts: Partial<CompositionSpec>) {
@@ -167,9 +204,13 @@ class CompositionBuilder {
     this._voiceover = mergeVoiceover(this._voiceover, config);
   }
 
+  /**
+   * Add a scene. Like `<scene duration="4s">`, a scene with only a duration starts where the
+   * previous timeline item ends.
+   */
   scene(
     name: string,
-    optsOrFn?: Partial<SceneSpec> | ((s: SceneBuilder) => void),
+    optsOrFn?: (Partial<SceneSpec> & TimingOptions) | ((s: SceneBuilder) => void),
     fnMaybe?: (s: SceneBuilder) => void,
   ): SceneSpec {
     const opts = typeof optsOrFn === "function" ? {} : optsOrFn ?? {};
@@ -177,13 +218,85 @@ class CompositionBuilder {
     if (!fn) {
       throw new Error("scene() requires a builder function");
     }
-    const builder = new SceneBuilder(name, opts, this.audioPlan);
+    const id = opts.id ?? slugify(name);
+    const time = opts.time ?? buildTimeRange(opts, `scene "${id}"`, this.prevEnd());
+    const builder = new SceneBuilder(name, { ...opts, id, time }, this.audioPlan);
     fn(builder);
     const spec = builder.toSpec();
     this.timeline.push(spec);
     return spec;
   }
 
+  /**
+   * Add a transition between the surrounding scenes. With only a duration it takes that long
+   * between its neighbours (`durationSeconds`), as `<transition duration="0.5s">` does.
+   */
+  transition(
+    id: string,
+    opts: Omit<TransitionSpec, "kind" | "id" | "time" | "durationSeconds" | "layers" | "components" | "audio"> &
+      TimingOptions = {},
+    fn?: (t: TransitionBuilder) => void,
+  ): TransitionSpec {
+    const { start, end, duration, ...rest } = opts;
+    const durationOnly = duration != null && start == null && end == null;
+    const spec: TransitionSpec = {
+      kind: "transition",
+      id,
+      ...rest,
+      time: durationOnly ? undefined : buildTimeRange({ start, end, duration }, `transition "${id}"`),
+      durationSeconds: durationOnly ? duration : undefined,
+    };
+    if (fn) {
+      const builder = new TransitionBuilder(spec);
+      fn(builder);
+    }
+    this.timeline.push(spec);
+    return spec;
+  }
+
+  /**
+   * Add a named point in time that audio can start from (`StartAt` kind "mark").
+   */
+  mark(id: string, at: number): MarkSpec {
+    const spec: MarkSpec = { kind: "mark", id, at };
+    this.timeline.push(spec);
+    return spec;
+  }
+
+  /**
+   * Add cues spoken over the timeline without a scene of their own. Timing follows the same rules
+   * as scenes.
+   */
+  narration(
+    id: string,
+    optsOrFn?: TimingOptions | ((n: NarrationBuilder) => void),
+    fnMaybe?: (n: NarrationBuilder) => void,
+  ): NarrationSpec {
+    const opts = typeof optsOrFn === "function" ? {} : optsOrFn ?? {};
+    const fn = typeof optsOrFn === "function" ? optsOrFn : fnMaybe;
+    if (!fn) {
+      throw new Error("narration() requires a builder function");
+    }
+    const builder = new NarrationBuilder();
+    fn(builder);
+    const spec: NarrationSpec = {
+      kind: "narration",
+      id,
+      time: buildTimeRange(opts, `narration "${id}"`, this.prevEnd()),
+      items: builder.toItems(),
+    };
+    this.timeline.push(spec);
+    return spec;
+  }
+
+  // Mirrors the XML loader: the first item follows 0, later ones follow the previous item's end.
+  private prevEnd(): number | null {
+    const prev = this.timeline[this.timeline.length - 1];
+    if (!prev) return 0;
+    if ("kind" in prev && prev.kind === "mark") return prev.at;
+    return prev.time?.end ?? null;
+  }
+
   toSpec(): CompositionSpec {
     return {
       id: this.id,
@@ -208,6 +321,11 @@ class SceneBuilder {
   private _styles?: VisualStyles;
   private _layers: LayerSpec[] = [];
   private _components: ComponentSpec[] = [];
+  private _audio: AudioElementSpec[] = [];
+  private _enter?: TransitionRef;
+  private _exit?: TransitionRef;
+  private _transitionToNext?: TransitionRef;
+  private _when?: ConditionSpec;
 
   constructor(name: string, opts: Partial<SceneSpec>, audioPlan: AudioPlan) {
     this.id = opts.id ?? slugify(name);
@@ -218,6 +336,11 @@ class SceneBuilder {
     this._styles = opts.styles;
     this._layers = opts.layers ?? [];
     this._components = opts.components ?? [];
+    this._audio = opts.audio ?? [];
+    this._enter = opts.enter;
+    this._exit = opts.exit;
+    this._transitionToNext = opts.transitionToNext;
+    this._when = opts.when;
   }
 
   /**
@@ -238,16 +361,7 @@ class SceneBuilder {
     optsOrFn?: Partial<CueSpec> | ((c: CueBuilder) => void),
     fnMaybe?: (c: CueBuilder) => void,
   ): CueSpec {
-    const opts = typeof optsOrFn === "function" ? {} : optsOrFn ?? {};
-    const fn = typeof optsOrFn === "function" ? optsOrFn : fnMaybe;
-    if (!fn) {
-      throw new Error("cue() requires a builder function");
-    }
-    const id = opts.id ?? slugify(name);
-    const label = opts.label ?? name;
-    const cueBuilder = new CueBuilder(id, label, opts);
-    fn(cueBuilder);
-    const cueSpec = cueBuilder.toSpec();
+    const cueSpec = buildCue(name, optsOrFn, fnMaybe);
     this.items.push(cueSpec);
     return cueSpec;
   }
@@ -261,6 +375,7 @@ class SceneBuilder {
       volume: opts.volume,
       fadeTo: opts.fadeTo,
       fadeOut: opts.fadeOut,
+      duck: opts.duck,
       sourceId: opts.sourceId,
       playThrough: opts.playThrough,
       prompt: opts.prompt,
@@ -281,6 +396,7 @@ class SceneBuilder {
       volume: opts.volume,
       fadeTo: opts.fadeTo,
       fadeOut: opts.fadeOut,
+      duck: opts.duck,
       sourceId: opts.sourceId,
       prompt: opts.prompt,
       durationSeconds: opts.durationSeconds ?? null,
@@ -290,10 +406,49 @@ class SceneBuilder {
     });
   }
 
+  /**
+   * Add an audio element that lives in this scene, like `<sfx>`/`<music>`/`<audio kind="file">`.
+   * Numeric times are seconds from the scene start; strings are time expressions such as
+   * `"cue(intro).end + 0.5s"`, resolved once narration has been synthesized.
+   */
+  audio(id: string, opts: AudioElementOptions): AudioElementSpec {
+    const spec = buildAudioElement(id, opts);
+    this._audio.push(spec);
+    return spec;
+  }
+
+  /**
+   * Transition used when the scene comes in, e.g. `s.enter("fade", { durationSeconds: 0.5 })`.
+   */
+  enter(effect: string, opts: Omit<TransitionRef, "effect"> = {}): void {
+    this._enter = { effect, ...opts };
+  }
+
+  /**
+   * Transition used when the scene goes out.
+   */
+  exit(effect: string, opts: Omit<TransitionRef, "effect"> = {}): void {
+    this._exit = { effect, ...opts };
+  }
+
+  /**
+   * Transition into the next scene.
+   */
+  transitionToNext(effect: string, opts: Omit<TransitionRef, "effect"> = {}): void {
+    this._transitionToNext = { effect, ...opts };
+  }
+
   markup(markup: SemanticMarkup): void {
     this._markup = { ...(this._markup ?? {}), ...markup };
   }
 
+  /**
+   * Only include this scene when the condition holds, e.g. `s.when({ unless: "env == 'static'" })`.
+   */
+  when(condition: ConditionSpec): void {
+    this._when = condition;
+  }
+
   /**
    * Set scene-level styles that cascade to layers and components.
    */
@@ -306,29 +461,10 @@ class SceneBuilder {
    */
   layer(
     id: string,
-    opts: {
-      styles?: VisualStyles;
-      markup?: SemanticMarkup;
-      timing?: { startSec?: number; endSec?: number };
-      visible?: boolean;
-      zIndex?: number;
-    },
+    opts: LayerOptions,
     fn: (layer: LayerBuilder) => void,
   ): void {
-    const layerSpec: LayerSpec = {
-      id,
-      styles: opts.styles,
-      markup: opts.markup,
-      timing: opts.timing,
-      visible: opts.visible,
-      zIndex: opts.zIndex,
-      components: [],
-    };
-
-    const builder = new LayerBuilder(layerSpec);
-    fn(builder);
-
-    this._layers.push(layerSpec);
+    this._layers.push(buildLayer(id, opts, fn));
   }
 
   /**
@@ -385,6 +521,11 @@ class SceneBuilder {
       styles: this._styles,
       layers: this._layers.length > 0 ? this._layers : undefined,
       components: this._components.length > 0 ? this._components : undefined,
+      enter: this._enter,
+      exit: this._exit,
+      transitionToNext: this._transitionToNext,
+      audio: this._audio.length > 0 ? this._audio : undefined,
+      when: this._when,
     };
   }
 }
@@ -634,6 +775,7 @@ class CueBuilder {
   private segments: VoiceSegmentSpec[] = [];
   private provider?: string | null;
   private _markup?: SemanticMarkup;
+  private _when?: ConditionSpec;
 
   constructor(id: string, label: string, opts: Partial<CueSpec>) {
     this.id = id;
@@ -641,6 +783,7 @@ class CueBuilder {
     this.time = opts.time;
     this.provider = opts.provider ?? null;
     this._markup = opts.markup;
+    this._when = opts.when;
     if (opts.bullets) {
       this._bullets = [...opts.bullets];
     }
@@ -660,6 +803,13 @@ class CueBuilder {
     this._markup = { ...(this._markup ?? {}), ...markup };
   }
 
+  /**
+   * Only include this cue when the condition holds (see `ConditionSpec`).
+   */
+  when(condition: ConditionSpec): void {
+    this._when = condition;
+  }
+
   toSpec(): CueSpec {
     return {
       kind: "cue",
@@ -670,10 +820,71 @@ class CueBuilder {
       markup: this._markup,
       time: this.time,
       provider: this.provider,
+      when: this._when,
     };
   }
 }
 
+class NarrationBuilder {
+  private items: Array<CueSpec | PauseSpec> = [];
+
+  /**
+   * Insert a fixed or Gaussian pause (seconds) between narration items.
+   */
+  pause(seconds: number): void;
+  pause(mean: number, std: number, clamp?: { min?: number; max?: number }): void;
+  pause(first: number, second?: number, clamp?: { min?: number; max?: number }): void {
+    this.items.push(second !== undefined ? pauseHelper(first, second, clamp) : pauseHelper(first));
+  }
+
+  cue(
+    name: string,
+    optsOrFn?: Partial<CueSpec> | ((c: CueBuilder) => void),
+    fnMaybe?: (c: CueBuilder) => void,
+  ): CueSpec {
+    const cueSpec = buildCue(name, optsOrFn, fnMaybe);
+    this.items.push(cueSpec);
+    return cueSpec;
+  }
+
+  toItems(): Array<CueSpec | PauseSpec> {
+    return this.items;
+  }
+}
+
+/**
+ * Builder for the visuals and audio a transition shows while it plays.
+ */
+class TransitionBuilder {
+  constructor(private spec: TransitionSpec) {}
+
+  layer(id: string, opts: LayerOptions, fn: (layer: LayerBuilder) => void): this {
+    this.spec.layers = [...(this.spec.layers ?? []), buildLayer(id, opts, fn)];
+    return this;
+  }
+
+  /**
+   * Add a component directly to the transition.
+   */
+  component(
+    id: string,
+    type: string | React.ComponentType<any>,
+    props?: Record<string, unknown>,
+    options?: { styles?: VisualStyles; zIndex?: number; timing?: { startSec?: number; endSec?: number } },
+  ): this {
+    this.spec.components = [
+      ...(this.spec.components ?? []),
+      { id, type, props: props ?? {}, styles: options?.styles, zIndex: options?.zIndex, timing: options?.timing },
+    ];
+    return this;
+  }
+
+  audio(id: string, opts: AudioElementOptions): this {
+    this.spec.audio = [...(this.spec.audio ?? []), buildAudioElement(id, opts)];
+    return this;
+  }
+}
+
 class VoiceBuilder {
   private segments: VoiceSegmentSpec[] = [];
 
@@ -712,6 +923,76 @@ function mergeVoiceover(base?: VoiceoverConfig, override?: VoiceoverConfig): Voi
   };
 }
 
+function buildCue(
+  name: string,
+  optsOrFn?: Partial<CueSpec> | ((c: CueBuilder) => void),
+  fnMaybe?: (c: CueBuilder) => void,
+): CueSpec {
+  const opts = typeof optsOrFn === "function" ? {} : optsOrFn ?? {};
+  const fn = typeof optsOrFn === "function" ? optsOrFn : fnMaybe;
+  if (!fn) {
+    throw new Error("cue() requires a builder function");
+  }
+  const id = opts.id ?? slugify(name);
+  const label = opts.label ?? name;
+  const cueBuilder = new CueBuilder(id, label, opts);
+  fn(cueBuilder);
+  return cueBuilder.toSpec();
+}
+
+function buildLayer(id: string, opts: LayerOptions, fn: (layer: LayerBuilder) => void): LayerSpec {
+  const layerSpec: LayerSpec = {
+    id,
+    styles: opts.styles,
+    markup: opts.markup,
+    timing: opts.timing,
+    visible: opts.visible,
+    zIndex: opts.zIndex,
+    components: [],
+    when: opts.when,
+  };
+  fn(new LayerBuilder(layerSpec));
+  return layerSpec;
+}
+
+/**
+ * Same rules as the XML loader's time ranges. `prevEnd` is only passed for items that may start
+ * relative to the previous one; null means the previous end isn't known yet.
+ */
+function buildTimeRange(timing: TimingOptions, label: string, prevEnd?: number | null): TimeRange | undefined {
+  const { start, end, duration } = timing;
+  if (start == null && end == null && duration == null) return undefined;
+  if (start == null && end != null) {
+    throw new Error(`${label} timing requires start when end is provided.`);
+  }
+  if (start == null) {
+    if (prevEnd === undefined) {
+      throw new Error(`${label} timing requires start when duration is provided.`);
+    }
+    const length = duration as number;
+    return prevEnd == null ? { start: 0, end: length, startIsRelative: true } : { start: prevEnd, end: prevEnd + length };
+  }
+  if (end != null) return { start, end };
+  if (duration != null) return { start, end: start + duration };
+  return { start };
+}
+
+function buildAudioElement(id: string, opts: AudioElementOptions): AudioElementSpec {
+  const { start, end, duration, ...rest } = opts;
+  if ([start, end, duration].some((value) => typeof value === "string")) {
+    const defer = (value?: number | string) =>
+      value == null ? undefined : deferTimeValue(typeof value === "number" ? `${value}s` : value);
+    return { id, ...rest, deferredTime: { start: defer(start), end: defer(end), duration: defer(duration) } };
+  }
+  const timing = { start, end, duration } as TimingOptions;
+  // A lone duration plays from the container's start, as `<sfx duration="2s">` does.
+  const time =
+    timing.start == null && timing.end == null && timing.duration != null
+      ? { start: 0, end: timing.duration }
+      : buildTimeRange(timing, `audio "${id}"`);
+  return { id, ...rest, time };
+}
+
 function ensureTrack(audioPlan: AudioPlan, id: string, kind: string): AudioTrackSpec {
   let track = audioPlan.tracks.find((t) => t.id === id);
   if (!track) {
@@ -721,4 +1002,4 @@ function ensureTrack(audioPlan: AudioPlan, id: string, kind: string): AudioTrack
   return track;
 }
 
-export type { CompositionBuilder, SceneBuilder, CueBuilder, VoiceBuilder };
+export type { CompositionBuilder, SceneBuilder, CueBuilder, VoiceBuilder, NarrationBuilder, TransitionBuilder, LayerBuilder };
@@ -0,0 +1,145 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { generateComposition } from "../generate.js";
+import { applyConditions, conditionScope, evaluateCondition } from "./condition.js";
+import { expandSeries } from "./series.js";
+import { loadVideoFileFromXml } from "./xml.js";
+
+describe("Condition expressions", () => {
+  const scope = { env: "production", audience: "sales", count: "3", draft: "false" };
+
+  it("compares names with string and number literals", () => {
+    assert.equal(evaluateCondition("env == 'production'", scope), true);
+    assert.equal(evaluateCondition('audience != "sales"', scope), false);
+    assert.equal(evaluateCondition("count == 3", scope), true);
+  });
+
+  it("supports !, &&, || and parentheses", () => {
+    assert.equal(evaluateCondition("!draft && (audience == 'eng' || env == 'production')", scope), true);
+    assert.equal(evaluateCondition("draft || missing", scope), false);
+  });
+
+  it("treats unknown names as false", () => {
+    assert.equal(evaluateCondition("premium", scope), false);
+  });
+
+  it("rejects malformed expressions", () => {
+    assert.throws(() => evaluateCondition("env ==", scope), /Invalid condition "env =="/);
+    assert.throws(() => evaluateCondition("env == 'prod", scope), /Unterminated string/);
+  });
+});
+
+describe("XML if/unless", () => {
+  let previousEnv: string | undefined;
+  beforeEach(() => {
+    previousEnv = process.env.VIDEOML_ENV;
+    process.env.VIDEOML_ENV = "production";
+  });
+  afterEach(() => {
+    if (previousEnv === undefined) delete process.env.VIDEOML_ENV;
+    else process.env.VIDEOML_ENV = previousEnv;
+  });
+
+  const xml = `<vml id="promo">
+  <vars audience="sales" />
+  <scene id="intro">
+    <cue id="hello"><voice>Hello.</voice></cue>
+    <cue id="debug" unless="env == 'production'"><voice>Debug build.</voice></cue>
+    <cue id="pitch" if="audience == 'sales'"><voice>Talk to us.</voice></cue>
+    <sequence>
+      <title id="first" text="One" duration="2s" />
+      <title id="watermark" text="DRAFT" duration="2s" if="env == 'development'" />
+      <title id="last" text="Two" duration="2s" />
+    </sequence>
+  </scene>
+  <scene id="engineering" if="audience == 'eng'">
+    <cue id="deep-dive"><voice>Internals.</voice></cue>
+  </scene>
+</vml>`;
+
+  it("drops elements whose condition fails", () => {
+    const composition = loadVideoFileFromXml(xml).compositions[0];
+    assert.deepEqual(
+      composition.timeline.map((item: any) => item.id),
+      ["intro"],
+    );
+    const scene = composition.timeline[0] as any;
+    assert.deepEqual(
+      scene.items.map((item: any) => item.id),
+      ["hello", "pitch"],
+    );
+    assert.deepEqual(
+      scene.components.map((component: any) => component.id),
+      ["first", "last"],
+    );
+  });
+
+  it("closes up sequences around removed elements", () => {
+    const scene = loadVideoFileFromXml(xml).compositions[0].timeline[0] as any;
+    const [first, last] = scene.components;
+    assert.equal(last.timing.startSec, first.timing.endSec);
+  });
+
+  it("sees load-time vars", () => {
+    const composition = loadVideoFileFromXml(xml, { vars: { audience: "eng" } }).compositions[0];
+    assert.deepEqual(
+      composition.timeline.map((item: any) => item.id),
+      ["intro", "engineering"],
+    );
+  });
+
+  it("keeps elements that passed at load time when generating", async () => {
+    const composition = loadVideoFileFromXml(xml).compositions[0];
+    const pruned = applyConditions(composition, conditionScope());
+    assert.deepEqual(
+      (pruned.timeline[0] as any).items.map((item: any) => item.id),
+      ["hello", "pitch"],
+    );
+
+    const outDir = mkdtempSync(join(tmpdir(), "videoml-condition-test-"));
+    const originalMock = process.env.BABULUS_MOCK_TTS;
+    process.env.BABULUS_MOCK_TTS = "1";
+    try {
+      await generateComposition({
+        composition,
+        dslPath: join(outDir, "promo.xml"),
+        scriptOut: join(outDir, "script.json"),
+        timelineOut: join(outDir, "timeline.json"),
+        outDir,
+        config: { tts: { default_provider: "openai" }, providers: { openai: { api_key: "sk-test" } } },
+        captions: false,
+        verboseLogs: false,
+      });
+      const script = JSON.parse(readFileSync(join(outDir, "script.json"), "utf-8"));
+      assert.deepEqual(
+        script.scenes[0].cues.map((cue: any) => cue.id),
+        ["hello", "pitch"],
+      );
+    } finally {
+      if (originalMock === undefined) delete process.env.BABULUS_MOCK_TTS;
+      else process.env.BABULUS_MOCK_TTS = originalMock;
+      rmSync(outDir, { recursive: true, force: true });
+    }
+  });
+
+  it("decides series conditions per episode", () => {
+    const file = loadVideoFileFromXml(`<vml id="show">
+  <scene id="intro">
+    <cue id="hello"><voice>Welcome.</voice></cue>
+    <cue id="sponsor" if="sponsored"><voice>Brought to you by {{ sponsor }}.</voice></cue>
+  </scene>
+  <series id="s1">
+    <episode id="ep1" sponsored="true" sponsor="Acme" />
+    <episode id="ep2" sponsored="false" />
+  </series>
+</vml>`);
+    const [ep1, ep2] = expandSeries(file, file.series![0]);
+    const cues = (episode: typeof ep1) => (episode.composition.timeline[0] as any).items.map((item: any) => item.id);
+    assert.deepEqual(cues(ep1), ["hello", "sponsor"]);
+    assert.deepEqual(cues(ep2), ["hello"]);
+    assert.equal((ep1.composition.timeline[0] as any).items[1].when, undefined);
+  });
+});
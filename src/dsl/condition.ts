@@ -0,0 +1,236 @@
+import { ParseError } from "../errors.js";
+import { getEnvironment } from "../env.js";
+import { lookupVariable, type InterpolationScope } from "./interpolate.js";
+import type {
+  ComponentSpec,
+  CompositionSpec,
+  ConditionSpec,
+  CueSpec,
+  LayerSpec,
+  PauseSpec,
+  SceneSpec,
+  TimelineItemSpec,
+} from "./types.js";
+
+// Grammar (whitespace-insensitive):
+//   expr    := or
+//   or      := and ("||" and)*
+//   and     := unary ("&&" unary)*
+//   unary   := "!" unary | compare
+//   compare := primary (("==" | "!=") primary)?
+//   primary := name | 'string' | "string" | number | true | false | "(" expr ")"
+// Unknown names evaluate to undefined (falsy), so `if="audience == 'sales'"` is simply false when no
+// audience is set.
+
+type Token =
+  | { kind: "name"; value: string }
+  | { kind: "literal"; value: unknown }
+  | { kind: "op"; value: "==" | "!=" | "&&" | "||" | "!" | "(" | ")" };
+
+const tokenize = (expr: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < expr.length) {
+    const ch = expr[i];
+    if (/\s/.test(ch)) {
+      i += 1;
+      continue;
+    }
+    const two = expr.slice(i, i + 2);
+    if (two === "==" || two === "!=" || two === "&&" || two === "||") {
+      tokens.push({ kind: "op", value: two });
+      i += 2;
+      continue;
+    }
+    if (ch === "!" || ch === "(" || ch === ")") {
+      tokens.push({ kind: "op", value: ch });
+      i += 1;
+      continue;
+    }
+    if (ch === "'" || ch === '"') {
+      const end = expr.indexOf(ch, i + 1);
+      if (end < 0) {
+        throw new ParseError(`Unterminated string in condition "${expr}".`);
+      }
+      tokens.push({ kind: "literal", value: expr.slice(i + 1, end) });
+      i = end + 1;
+      continue;
+    }
+    const number = /^-?\d+(?:\.\d+)?/.exec(expr.slice(i));
+    if (number) {
+      tokens.push({ kind: "literal", value: Number(number[0]) });
+      i += number[0].length;
+      continue;
+    }
+    const name = /^[A-Za-z_][\w-]*(?:\.[A-Za-z_][\w-]*)*/.exec(expr.slice(i));
+    if (name) {
+      const value = name[0];
+      if (value === "true" || value === "false") {
+        tokens.push({ kind: "literal", value: value === "true" });
+      } else {
+        tokens.push({ kind: "name", value });
+      }
+      i += value.length;
+      continue;
+    }
+    throw new ParseError(`Unexpected "${ch}" in condition "${expr}".`);
+  }
+  return tokens;
+};
+
+/**
+ * Evaluate an `if`/`unless` expression against vars, episode props and `env` (the active
+ * VIDEOML_ENV/BABULUS_ENV).
+ */
+export const evaluateCondition = (expr: string, scope: InterpolationScope): boolean => {
+  const tokens = tokenize(expr);
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const isOp = (value: string) => peek()?.kind === "op" && peek()!.value === value;
+  const fail = (): never => {
+    throw new ParseError(`Invalid condition "${expr}".`);
+  };
+
+  const parsePrimary = (): unknown => {
+    const token = tokens[pos];
+    if (!token) return fail();
+    pos += 1;
+    if (token.kind === "literal") return token.value;
+    if (token.kind === "name") return lookupVariable(scope, token.value);
+    if (token.value === "(") {
+      const value = parseOr();
+      if (!isOp(")")) fail();
+      pos += 1;
+      return value;
+    }
+    return fail();
+  };
+  const parseCompare = (): unknown => {
+    const left = parsePrimary();
+    if (isOp("==") || isOp("!=")) {
+      const op = (tokens[pos] as { value: string }).value;
+      pos += 1;
+      const right = parsePrimary();
+      // Vars from XML are strings, so compare loosely by string value (`count == 3` matches "3").
+      const equal = left != null && right != null ? String(left) === String(right) : left === right;
+      return op === "==" ? equal : !equal;
+    }
+    return left;
+  };
+  const parseUnary = (): unknown => {
+    if (isOp("!")) {
+      pos += 1;
+      return !truthy(parseUnary());
+    }
+    return parseCompare();
+  };
+  const parseAnd = (): unknown => {
+    let value = truthy(parseUnary());
+    while (isOp("&&")) {
+      pos += 1;
+      value = truthy(parseUnary()) && value;
+    }
+    return value;
+  };
+  const parseOr = (): unknown => {
+    let value = truthy(parseAnd());
+    while (isOp("||")) {
+      pos += 1;
+      value = truthy(parseAnd()) || value;
+    }
+    return value;
+  };
+
+  if (tokens.length === 0) fail();
+  const result = truthy(parseOr());
+  if (pos !== tokens.length) fail();
+  return result;
+};
+
+const truthy = (value: unknown): boolean => {
+  if (typeof value === "string") {
+    return value !== "" && value !== "false" && value !== "0";
+  }
+  return Boolean(value);
+};
+
+/**
+ * The scope conditions see: the given vars plus `env`.
+ */
+export const conditionScope = (vars: InterpolationScope = {}): InterpolationScope => ({
+  env: getEnvironment(),
+  ...vars,
+});
+
+export const isIncluded = (when: ConditionSpec | undefined, scope: InterpolationScope): boolean => {
+  if (!when) return true;
+  if (when.if != null && !evaluateCondition(when.if, scope)) return false;
+  if (when.unless != null && evaluateCondition(when.unless, scope)) return false;
+  return true;
+};
+
+const keep = <T extends { when?: ConditionSpec }>(items: T[] | undefined, scope: InterpolationScope): T[] | undefined => {
+  if (!items) return items;
+  return items.filter((item) => isIncluded(item.when, scope)).map(({ when: _when, ...rest }) => rest as T);
+};
+
+const pruneComponents = (components: ComponentSpec[] | undefined, scope: InterpolationScope) => {
+  const kept = keep(components, scope);
+  return kept && kept.length > 0 ? kept : undefined;
+};
+
+const pruneLayers = (layers: LayerSpec[] | undefined, scope: InterpolationScope) => {
+  const kept = keep(layers, scope)?.map((layer) => ({ ...layer, components: keep(layer.components, scope) ?? [] }));
+  return kept && kept.length > 0 ? kept : undefined;
+};
+
+const pruneItems = (items: Array<CueSpec | PauseSpec>, scope: InterpolationScope): Array<CueSpec | PauseSpec> =>
+  items
+    .filter((item) => !("kind" in item && item.kind === "cue") || isIncluded(item.when, scope))
+    .map((item) => {
+      if ("kind" in item && item.kind === "cue") {
+        const { when: _when, ...rest } = item;
+        return rest;
+      }
+      return item;
+    });
+
+/**
+ * Drop scenes, cues, layers, components and audio whose `if`/`unless` fails, and strip the
+ * conditions from what remains.
+ */
+export const applyConditions = (composition: CompositionSpec, scope: InterpolationScope): CompositionSpec => {
+  const timeline: TimelineItemSpec[] = [];
+  for (const item of composition.timeline) {
+    if (!("kind" in item)) {
+      const scene = item as SceneSpec;
+      if (!isIncluded(scene.when, scope)) continue;
+      const { when: _when, ...rest } = scene;
+      const audio = keep(scene.audio, scope);
+      timeline.push({
+        ...rest,
+        items: pruneItems(scene.items, scope),
+        layers: pruneLayers(scene.layers, scope),
+        components: pruneComponents(scene.components, scope),
+        audio: audio && audio.length > 0 ? audio : undefined,
+      });
+      continue;
+    }
+    if (item.kind === "narration") {
+      timeline.push({ ...item, items: pruneItems(item.items, scope) });
+      continue;
+    }
+    if (item.kind === "transition") {
+      const audio = keep(item.audio, scope);
+      timeline.push({
+        ...item,
+        layers: pruneLayers(item.layers, scope),
+        components: pruneComponents(item.components, scope),
+        audio: audio && audio.length > 0 ? audio : undefined,
+      });
+      continue;
+    }
+    timeline.push(item);
+  }
+  return { ...composition, timeline };
+};
@@ -0,0 +1,81 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ParseError } from "../errors.js";
+import { diagnoseVideoFileXml, loadVideoFileFromXml } from "./xml.js";
+
+const messages = (xml: string) =>
+  diagnoseVideoFileXml(xml, { sourcePath: "promo.xml" }).diagnostics.map(
+    (d) => `${d.severity} ${d.location?.line}:${d.location?.column} ${d.message}`,
+  );
+
+describe("Parse error locations", () => {
+  it("prefixes thrown errors with file, line and column", () => {
+    const xml = `<vml id="promo">
+  <scene id="intro">
+    <cue><voice>Hello.</voice></cue>
+  </scene>
+</vml>`;
+    assert.throws(
+      () => loadVideoFileFromXml(xml, { sourcePath: "promo.xml" }),
+      (err: unknown) => {
+        assert.ok(err instanceof ParseError);
+        assert.deepEqual(err.location, { file: "promo.xml", line: 3, column: 5 });
+        assert.equal(err.reason, "cue tag requires id attribute.");
+        assert.equal(err.message, "promo.xml:3:5: cue tag requires id attribute.");
+        return true;
+      },
+    );
+  });
+});
+
+describe("Diagnostics mode", () => {
+  it("collects every error in one pass", () => {
+    const xml = `<vml id="promo">
+  <scene id="intro">
+    <cue id="hello"><voice>Hello.</voice></cue>
+    <title id="t" text="Hi" styles="{bad" />
+  </scene>
+  <scene id="outro" start="scene(missing).end">
+    <cue id="bye"><voice>Bye.</voice></cue>
+  </scene>
+  <scene id="recap">
+    <cue id="hello"><voice>Again.</voice></cue>
+  </scene>
+</vml>`;
+    const result = messages(xml);
+    assert.equal(result.length, 3);
+    assert.match(result[0], /^error 4:5 Invalid JSON in styles attribute/);
+    assert.match(result[1], /^error 6:3 Unresolved time reference scene\(missing\)\.end in <scene> "outro"\./);
+    assert.equal(result[2], 'error 10:5 Duplicate cue id across scenes: "hello".');
+  });
+
+  it("keeps the valid parts of the document", () => {
+    const { videoFile } = diagnoseVideoFileXml(`<vml id="promo">
+  <scene id="intro"><cue id="hello"><voice>Hello.</voice></cue></scene>
+  <scene><cue id="bye"><voice>Bye.</voice></cue></scene>
+</vml>`);
+    assert.deepEqual(
+      videoFile?.compositions[0].timeline.map((item: any) => item.id),
+      ["intro"],
+    );
+  });
+
+  it("warns about unknown attributes on built-in tags", () => {
+    const result = messages(`<vml id="promo">
+  <scene id="intro" duraton="5s">
+    <cue id="hello"><voice>Hello.</voice></cue>
+    <title id="t" text="Hi" colour="red" />
+  </scene>
+</vml>`);
+    assert.deepEqual(result, ['warning 2:3 Unknown attribute "duraton" on <scene>.']);
+  });
+
+  it("reports XML syntax errors with their position", () => {
+    const { diagnostics } = diagnoseVideoFileXml(`<vml id="promo">
+  <scene id="intro">
+    <cue id="hello"><voice>Hello.</cue>
+  </scene>
+</vml>`);
+    assert.ok(diagnostics.some((d) => d.message.startsWith("XML syntax:") && d.location?.line === 3));
+  });
+});
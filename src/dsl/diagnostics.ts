@@ -0,0 +1,141 @@
+import { ParseError, type SourceLocation } from "../errors.js";
+import { BUILTIN_VOCABULARY, CONDITION_ATTRIBUTES } from "./vocabulary.js";
+
+export type DiagnosticSeverity = "error" | "warning";
+
+export type Diagnostic = {
+  severity: DiagnosticSeverity;
+  message: string;
+  location?: SourceLocation;
+};
+
+type LocatedElement = {
+  tagName: string;
+  lineNumber?: number;
+  columnNumber?: number;
+  /** Set on elements spliced in by `<include>`; survives cloning like the line numbers do. */
+  sourceFile?: string;
+  attributes: {
+    length: number;
+    item(index: number): { name: string } | null;
+  };
+};
+
+type Session = {
+  file?: string;
+  /** Null unless collecting: problems are thrown instead. */
+  diagnostics: Diagnostic[] | null;
+};
+
+// XML parsing is synchronous, so one active session at a time is enough.
+let session: Session = { diagnostics: null };
+
+export const withDiagnosticSession = <T>(next: Session, fn: () => T): T => {
+  const previous = session;
+  session = next;
+  try {
+    return fn();
+  } finally {
+    session = previous;
+  }
+};
+
+export const isCollectingDiagnostics = () => session.diagnostics != null;
+
+/**
+ * Attribute XML syntax errors raised by `fn` to `file` (an included document).
+ */
+export const withSourceFile = <T>(file: string, fn: () => T): T =>
+  withDiagnosticSession({ ...session, file }, fn);
+
+export const locationOf = (element: LocatedElement): SourceLocation | undefined => {
+  if (element.lineNumber == null) return undefined;
+  return { file: element.sourceFile ?? session.file, line: element.lineNumber, column: element.columnNumber ?? 1 };
+};
+
+const push = (diagnostic: Diagnostic) => {
+  const diagnostics = session.diagnostics!;
+  // Timeline items may be parsed more than once while time references resolve.
+  const duplicate = diagnostics.some(
+    (existing) =>
+      existing.message === diagnostic.message &&
+      existing.location?.file === diagnostic.location?.file &&
+      existing.location?.line === diagnostic.location?.line &&
+      existing.location?.column === diagnostic.location?.column,
+  );
+  if (!duplicate) diagnostics.push(diagnostic);
+};
+
+const locate = (err: ParseError, element: LocatedElement): ParseError =>
+  err.location ? err : new ParseError(err.reason, locationOf(element));
+
+/**
+ * Run `fn`, attributing any ParseError without a location to `element`.
+ */
+export const atElement = <T>(element: LocatedElement, fn: () => T): T => {
+  try {
+    return fn();
+  } catch (err) {
+    if (err instanceof ParseError) throw locate(err, element);
+    throw err;
+  }
+};
+
+/**
+ * Like `atElement`, but when collecting diagnostics the error is recorded and `undefined` returned
+ * so the caller can skip the element and keep going.
+ */
+export const recover = <T>(element: LocatedElement, fn: () => T): T | undefined => {
+  try {
+    return atElement(element, fn);
+  } catch (err) {
+    if (!(err instanceof ParseError) || !session.diagnostics) throw err;
+    push({ severity: "error", message: err.reason, location: err.location });
+    return undefined;
+  }
+};
+
+/**
+ * Report an error at `element`: thrown normally, recorded when collecting diagnostics.
+ */
+export const reportError = (element: LocatedElement | undefined, message: string): void => {
+  const location = element ? locationOf(element) : undefined;
+  if (!session.diagnostics) throw new ParseError(message, location);
+  push({ severity: "error", message, location });
+};
+
+/**
+ * Warnings are only surfaced when collecting diagnostics.
+ */
+export const reportWarning = (element: LocatedElement, message: string): void => {
+  if (!session.diagnostics) return;
+  push({ severity: "warning", message, location: locationOf(element) });
+};
+
+/**
+ * Record an xmldom parser message (`[xmldom error]\tmsg\n@#[line:3,col:5]`).
+ */
+export const reportXmlSyntax = (level: string, raw: string): void => {
+  if (!session.diagnostics) return;
+  const position = /@#\[line:(\d+),col:(\d+)\]/.exec(raw);
+  const message = raw.replace(/^\[xmldom \w+\]\s*/, "").replace(/\s*@#\[line:\d+,col:\d+\]\s*$/, "").trim();
+  push({
+    severity: level === "warning" ? "warning" : "error",
+    message: `XML syntax: ${message}`,
+    location: position ? { file: session.file, line: Number(position[1]), column: Number(position[2]) } : undefined,
+  });
+};
+
+/**
+ * Warn about attributes a built-in tag ignores (usually typos such as `duraton`).
+ */
+export const checkAttributes = (element: LocatedElement): void => {
+  const tag = BUILTIN_VOCABULARY[element.tagName];
+  if (!tag || tag.openAttributes) return;
+  const known = new Set([...tag.attributes, ...CONDITION_ATTRIBUTES].map((attribute) => attribute.name));
+  for (let i = 0; i < element.attributes.length; i += 1) {
+    const name = element.attributes.item(i)?.name;
+    if (!name || name.startsWith("xmlns") || known.has(name)) continue;
+    reportWarning(element, `Unknown attribute "${name}" on <${element.tagName}>.`);
+  }
+};
@@ -1,5 +1,21 @@
-export { defineVideo, defineDefaults } from "./builder.js";
+export { defineVideo, defineDefaults, type AudioElementOptions, type TimingOptions } from "./builder.js";
 export { pause } from "./pause.js";
 export { defineEnv } from "./env.js";
-export { applyVomPatches, type VomPatch } from "./xml-patch.js";
+export {
+  applyVomPatches,
+  applyVomPatchBatch,
+  VomPatchSession,
+  type VomPatch,
+  type VomPatchBatch,
+  type VomBatchResult,
+  type VomChangeLogEntry,
+  type VomPatchSessionOptions,
+} from "./xml-patch.js";
+export { expandSeries, expandAllSeries, type EpisodeComposition } from "./series.js";
+export { evaluateCondition, applyConditions } from "./condition.js";
+export { deferTimeValue } from "./time-expr.js";
+export { diagnoseVideoFileXml, type XmlDiagnostics } from "./xml.js";
+export type { Diagnostic, DiagnosticSeverity } from "./diagnostics.js";
+export { buildVideoMlXsd, buildVideoMlJsonSchema, writeVideoMlSchemas, type XmlSchemaOptions } from "./xml-schema.js";
+export { serializeCompositionToXml, serializeVideoFileToXml, type XmlSerializeOptions } from "./xml-serialize.js";
 export type * from "./types.js";
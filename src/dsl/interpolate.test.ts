@@ -0,0 +1,95 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { loadVideoFileFromXml } from "./xml.js";
+
+const xml = `<vml id="promo" title="{{ product }} launch">
+  <vars product="Widget">
+    <var name="tagline">Built for {{ audience }}</var>
+    <var name="audience" value="teams" />
+  </vars>
+  <scene id="intro" duration="{{ introSeconds }}s">
+    <cue id="hello"><voice>Meet {{ product }}. {{ tagline }}.</voice></cue>
+  </scene>
+</vml>`;
+
+describe("XML template variables", () => {
+  it("substitutes <vars> into attributes and voice text", () => {
+    const file = loadVideoFileFromXml(xml, { vars: { introSeconds: 4 } });
+    const composition = file.compositions[0];
+    assert.equal(composition.title, "Widget launch");
+    const scene = composition.timeline[0] as any;
+    assert.equal(scene.time.end - scene.time.start, 4);
+    assert.equal(scene.items[0].segments[0].text, "Meet Widget. Built for teams.");
+  });
+
+  it("lets load-time vars override document vars", () => {
+    const file = loadVideoFileFromXml(xml, { vars: { introSeconds: 2, product: "Gizmo" } });
+    assert.equal(file.compositions[0].title, "Gizmo launch");
+  });
+
+  it("reports unknown variables", () => {
+    assert.throws(() => loadVideoFileFromXml(xml), /Unknown variable "\{\{ introSeconds \}\}" in <scene> duration/);
+  });
+});
+
+describe("XML repeat", () => {
+  const leaderboard = `<vml id="board">
+  <repeat each="players" as="player">
+    <scene id="rank-{{ index }}" title="{{ player.name }}">
+      <cue id="say-{{ index }}"><voice>{{ player.name }} scored {{ player.score }}.</voice></cue>
+      <sequence>
+        <repeat each="player.badges" as="badge" index="b">
+          <title id="badge-{{ index }}-{{ b }}" text="{{ badge }}" duration="1s" />
+        </repeat>
+      </sequence>
+    </scene>
+  </repeat>
+</vml>`;
+
+  it("generates one copy of the subtree per row", () => {
+    const file = loadVideoFileFromXml(leaderboard, {
+      vars: {
+        players: [
+          { name: "Ada", score: 90, badges: ["gold", "streak"] },
+          { name: "Bob", score: 70, badges: [] },
+        ],
+      },
+    });
+    const scenes = file.compositions[0].timeline as any[];
+    assert.deepEqual(
+      scenes.map((scene) => [scene.id, scene.title]),
+      [
+        ["rank-0", "Ada"],
+        ["rank-1", "Bob"],
+      ],
+    );
+    assert.equal(scenes[0].items[0].segments[0].text, "Ada scored 90.");
+    assert.deepEqual(
+      scenes[0].components.map((c: any) => [c.id, c.props.text, c.timing.startSec]),
+      [
+        ["badge-0-0", "gold", 0],
+        ["badge-0-1", "streak", 1],
+      ],
+    );
+    assert.equal(scenes[1].components, undefined);
+  });
+
+  it("accepts a JSON array declared in <vars>", () => {
+    const file = loadVideoFileFromXml(`<vml id="v">
+  <vars><var name="steps">["one", "two"]</var></vars>
+  <scene id="s"><repeat each="steps" as="step"><cue id="c{{ index }}"><voice>{{ step }}</voice></cue></repeat></scene>
+</vml>`);
+    const scene = file.compositions[0].timeline[0] as any;
+    assert.deepEqual(
+      scene.items.map((cue: any) => cue.id),
+      ["c0", "c1"],
+    );
+  });
+
+  it("requires each to be an array", () => {
+    assert.throws(
+      () => loadVideoFileFromXml(leaderboard, { vars: { players: "nope" } }),
+      /repeat each="players" must resolve to an array/,
+    );
+  });
+});
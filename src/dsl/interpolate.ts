@@ -0,0 +1,107 @@
+import { ParseError } from "../errors.js";
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z_][\w-]*(?:\.[A-Za-z_][\w-]*)*)\s*\}\}/g;
+const WHOLE_PLACEHOLDER = /^\{\{\s*([A-Za-z_][\w-]*(?:\.[A-Za-z_][\w-]*)*)\s*\}\}$/;
+
+export type InterpolationScope = Record<string, unknown>;
+
+/**
+ * Look up a dotted path (`guest.name`) in the scope. Returns `undefined` when any step is missing.
+ */
+export const lookupVariable = (scope: InterpolationScope, path: string): unknown => {
+  let current: unknown = scope;
+  for (const key of path.split(".")) {
+    if (current == null || typeof current !== "object" || !(key in (current as Record<string, unknown>))) {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+};
+
+/**
+ * Replace `{{ name }}` placeholders in a string. A string that is exactly one placeholder takes the
+ * variable's raw value (so numbers and objects survive); otherwise values are stringified inline.
+ */
+export const interpolateString = (value: string, scope: InterpolationScope, where: string): unknown => {
+  const whole = WHOLE_PLACEHOLDER.exec(value);
+  if (whole) {
+    return resolveVariable(scope, whole[1], where);
+  }
+  if (!value.includes("{{")) {
+    return value;
+  }
+  return value.replace(PLACEHOLDER, (_match, name: string) => {
+    const resolved = resolveVariable(scope, name, where);
+    return typeof resolved === "object" ? JSON.stringify(resolved) : String(resolved);
+  });
+};
+
+/**
+ * String-only interpolation for XML text and attributes. With `allowUnknown`, unresolved placeholders
+ * are kept verbatim so a later pass (e.g. series expansion) can fill them in.
+ */
+export const interpolateText = (
+  value: string,
+  scope: InterpolationScope,
+  where: string,
+  allowUnknown = false,
+): string => {
+  if (!value.includes("{{")) {
+    return value;
+  }
+  return value.replace(PLACEHOLDER, (match, name: string) => {
+    const resolved = lookupVariable(scope, name);
+    if (resolved === undefined) {
+      if (allowUnknown) {
+        return match;
+      }
+      throw new ParseError(`Unknown variable "{{ ${name} }}" in ${where}.`);
+    }
+    return typeof resolved === "object" && resolved !== null ? JSON.stringify(resolved) : String(resolved);
+  });
+};
+
+/**
+ * Deep-copy `value`, interpolating every string it contains.
+ */
+export const interpolateValue = <T>(value: T, scope: InterpolationScope, where: string): T => {
+  if (typeof value === "string") {
+    return interpolateString(value, scope, where) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => interpolateValue(item, scope, where)) as T;
+  }
+  if (value && typeof value === "object") {
+    const out: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value as Record<string, unknown>)) {
+      out[key] = interpolateValue(item, scope, where);
+    }
+    return out as T;
+  }
+  return value;
+};
+
+/**
+ * The first `{{ name }}` placeholder left anywhere in `value`, or null when there is none.
+ */
+export const findPlaceholder = (value: unknown): string | null => {
+  if (typeof value === "string") {
+    return value.match(PLACEHOLDER)?.[0] ?? null;
+  }
+  if (value && typeof value === "object") {
+    for (const item of Object.values(value as Record<string, unknown>)) {
+      const found = findPlaceholder(item);
+      if (found) return found;
+    }
+  }
+  return null;
+};
+
+const resolveVariable = (scope: InterpolationScope, name: string, where: string): unknown => {
+  const resolved = lookupVariable(scope, name);
+  if (resolved === undefined) {
+    throw new ParseError(`Unknown variable "{{ ${name} }}" in ${where}.`);
+  }
+  return resolved;
+};
@@ -1,14 +1,25 @@
-import { readFileSync } from "fs";
-import { extname } from "path";
+import { existsSync, readFileSync } from "fs";
+import { extname, resolve } from "path";
+import YAML from "yaml";
 import { toFileUrl } from "../util.js";
 import { ParseError } from "../errors.js";
+import type { Diagnostic } from "./diagnostics.js";
+import { markSeriesTemplates } from "./series.js";
 import type { CompositionSpec, VideoFileSpec } from "./types.js";
-import { loadVideoFileFromXml } from "./xml.js";
+import { diagnoseVideoFileXml, loadVideoFileFromXml, type XmlDiagnostics } from "./xml.js";
 
-export async function loadVideoFile(path: string): Promise<VideoFileSpec> {
+export type LoadVideoFileOptions = {
+  /** Template variables for XML `{{ name }}` placeholders. */
+  vars?: Record<string, unknown>;
+  /** JSON or YAML file of template variables; `vars` wins on conflicts. */
+  dataPath?: string | null;
+};
+
+export async function loadVideoFile(path: string, options: LoadVideoFileOptions = {}): Promise<VideoFileSpec> {
   if (extname(path).toLowerCase() === ".xml") {
     const xml = readFileSync(path, "utf-8");
-    return loadVideoFileFromXml(xml);
+    const data = options.dataPath ? loadTemplateData(options.dataPath) : {};
+    return loadVideoFileFromXml(xml, { vars: { ...data, ...(options.vars ?? {}) }, sourcePath: path });
   }
   const url = toFileUrl(path);
   const cacheBust = Date.now().toString(36);
@@ -21,6 +32,47 @@ export async function loadVideoFile(path: string): Promise<VideoFileSpec> {
   return normalizeVideoSpec(value, path);
 }
 
+/**
+ * Collect every problem in a video file instead of stopping at the first. XML files report each
+ * error and warning with its location; TS/JS modules can only report the first thrown error.
+ */
+export async function diagnoseVideoFile(path: string, options: LoadVideoFileOptions = {}): Promise<XmlDiagnostics> {
+  if (extname(path).toLowerCase() === ".xml") {
+    const xml = readFileSync(path, "utf-8");
+    const data = options.dataPath ? loadTemplateData(options.dataPath) : {};
+    return diagnoseVideoFileXml(xml, { vars: { ...data, ...(options.vars ?? {}) }, sourcePath: path });
+  }
+  try {
+    return { videoFile: await loadVideoFile(path, options), diagnostics: [] };
+  } catch (err) {
+    const diagnostic: Diagnostic = {
+      severity: "error",
+      message: err instanceof ParseError ? err.reason : err instanceof Error ? err.message : String(err),
+      location: err instanceof ParseError ? err.location : undefined,
+    };
+    return { videoFile: null, diagnostics: [diagnostic] };
+  }
+}
+
+export function loadTemplateData(path: string): Record<string, unknown> {
+  const resolved = resolve(path);
+  if (!existsSync(resolved)) {
+    throw new ParseError(`Template data file not found: ${resolved}`);
+  }
+  const text = readFileSync(resolved, "utf-8");
+  let data: unknown;
+  try {
+    data = extname(resolved).toLowerCase() === ".json" ? JSON.parse(text) : YAML.parse(text);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    throw new ParseError(`Invalid template data in ${resolved}: ${message}`);
+  }
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    throw new ParseError(`Template data in ${resolved} must be a mapping`);
+  }
+  return data as Record<string, unknown>;
+}
+
 async function resolveMaybePromise<T>(value: T | Promise<T>): Promise<T> {
   if (value && typeof (value as Promise<T>).then === "function") {
     return await (value as Promise<T>);
@@ -30,6 +82,7 @@ async function resolveMaybePromise<T>(value: T | Promise<T>): Promise<T> {
 
 function normalizeVideoSpec(value: unknown, path: string): VideoFileSpec {
   if (isVideoFileSpec(value)) {
+    markSeriesTemplates(value);
     return value;
   }
   if (Array.isArray(value)) {
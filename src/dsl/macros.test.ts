@@ -0,0 +1,138 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { mkdirSync, writeFileSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { ParseError } from "../errors.js";
+import type { SceneSpec } from "./types.js";
+import { diagnoseVideoFileXml, loadVideoFileFromXml } from "./xml.js";
+
+const scenesOf = (xml: string, sourcePath?: string) =>
+  loadVideoFileFromXml(xml, { sourcePath }).compositions[0].timeline as SceneSpec[];
+
+describe("XML macros", () => {
+  it("expands a define once per use with its parameters", () => {
+    const scenes = scenesOf(`
+      <vml id="demo">
+        <vars brand="Acme" />
+        <define name="strap" role="Engineer">
+          <lower-third name="{{ who }}" title="{{ role }} at {{ brand }}" />
+        </define>
+        <scene id="intro" duration="4s">
+          <use ref="strap" who="Ada" />
+          <use ref="strap" who="Grace" role="Admiral" />
+        </scene>
+      </vml>`);
+    assert.deepEqual(
+      scenes[0].components?.map((component) => component.props),
+      [
+        { name: "Ada", title: "Engineer at Acme" },
+        { name: "Grace", title: "Admiral at Acme" },
+      ],
+    );
+    assert.deepEqual(
+      scenes[0].components?.map((component) => component.id),
+      ["lower-third-0", "lower-third-1"],
+    );
+  });
+
+  it("interpolates define defaults with the document's vars", () => {
+    const scenes = scenesOf(`
+      <vml id="demo">
+        <vars brand="Acme" />
+        <define name="opener" title="{{ brand }} intro" who="{{ missing }}">
+          <title text="{{ title }}" />
+        </define>
+        <scene id="intro" duration="4s">
+          <use ref="opener" who="Ada" />
+          <use ref="opener" who="Ada" title="Welcome" />
+        </scene>
+      </vml>`);
+    assert.deepEqual(
+      scenes[0].components?.map((component) => component.props?.text),
+      ["Acme intro", "Welcome"],
+    );
+  });
+
+  it("expands defines of whole scenes and nested uses", () => {
+    const scenes = scenesOf(`
+      <vml id="demo">
+        <define name="line"><cue id="{{ id }}"><voice>{{ text }}</voice></cue></define>
+        <define name="disclaimer" id="legal">
+          <scene id="{{ id }}" duration="2s">
+            <use ref="line" id="{{ id }}-cue" text="Terms apply." />
+          </scene>
+        </define>
+        <scene id="intro" duration="4s" />
+        <use ref="disclaimer" />
+        <use ref="disclaimer" id="legal-2" if="false" />
+      </vml>`);
+    assert.deepEqual(scenes.map((scene) => scene.id), ["intro", "legal"]);
+    assert.deepEqual(scenes[1].time, { start: 4, end: 6 });
+    assert.equal(scenes[1].items[0].kind === "cue" && scenes[1].items[0].id, "legal-cue");
+  });
+
+  it("rejects unknown and recursive defines", () => {
+    assert.throws(() => scenesOf(`<vml id="d"><use ref="missing" /></vml>`), /references an unknown define/);
+    assert.throws(
+      () => scenesOf(`<vml id="d"><define name="a"><use ref="b" /></define><define name="b"><use ref="a" /></define><use ref="a" /></vml>`),
+      /define "a" uses itself \(a -> b -> a\)/,
+    );
+  });
+});
+
+describe("XML includes", () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `videoml-include-test-${Date.now()}`);
+    mkdirSync(join(testDir, "shared"), { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it("splices in shared scenes, vars and defines relative to the including file", () => {
+    writeFileSync(
+      join(testDir, "shared", "brand.xml"),
+      `<vml>
+        <vars brand="Acme" />
+        <include src="outro.xml" />
+        <define name="bug"><title text="{{ brand }}" /></define>
+      </vml>`,
+    );
+    writeFileSync(
+      join(testDir, "shared", "outro.xml"),
+      `<vml><scene id="outro" duration="2s"><cue id="bye"><voice>Thanks for watching {{ brand }}.</voice></cue></scene></vml>`,
+    );
+    const scenes = scenesOf(
+      `<vml id="demo">
+        <scene id="intro" duration="3s"><use ref="bug" /></scene>
+        <include src="shared/brand.xml" />
+      </vml>`,
+      join(testDir, "video.xml"),
+    );
+    assert.deepEqual(scenes.map((scene) => scene.id), ["intro", "outro"]);
+    assert.deepEqual(scenes[0].components?.[0]?.props, { text: "Acme" });
+    const bye = scenes[1].items[0];
+    assert.equal(bye.kind === "cue" && bye.segments[0].kind === "text" && bye.segments[0].text, "Thanks for watching Acme.");
+  });
+
+  it("reports problems inside included files at their own location", () => {
+    const shared = join(testDir, "shared", "bad.xml");
+    writeFileSync(shared, `<vml>\n  <scene id="oops" duration="1s" styles="{bad" />\n</vml>`);
+    const { diagnostics } = diagnoseVideoFileXml(`<vml id="demo">\n<include src="shared/bad.xml" />\n</vml>`, {
+      sourcePath: join(testDir, "video.xml"),
+    });
+    assert.equal(diagnostics[0]?.location?.file, shared);
+    assert.equal(diagnostics[0]?.location?.line, 2);
+  });
+
+  it("rejects missing and circular includes", () => {
+    writeFileSync(join(testDir, "loop.xml"), `<vml><include src="loop.xml" /></vml>`);
+    const sourcePath = join(testDir, "video.xml");
+    assert.throws(() => scenesOf(`<vml id="d"><include src="nope.xml" /></vml>`, sourcePath), ParseError);
+    assert.throws(() => scenesOf(`<vml id="d"><include src="loop.xml" /></vml>`, sourcePath), /includes itself/);
+  });
+});
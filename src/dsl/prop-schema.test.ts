@@ -0,0 +1,88 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { registerComponent, unregisterComponent } from "../../packages/renderer/src/components/registry.js";
+import { getPropSchema } from "../../packages/renderer/src/components/prop-schema.js";
+import { diagnoseVideoFileXml, loadVideoFileFromXml } from "./xml.js";
+
+const componentProps = (body: string) => {
+  const file = loadVideoFileFromXml(`<vml id="promo"><scene id="intro">
+    <cue id="hello"><voice>Hello.</voice></cue>
+    ${body}
+  </scene></vml>`);
+  return (file.compositions[0].timeline[0] as any).components[0].props;
+};
+
+describe("Component prop schemas", () => {
+  it("coerces attributes to the declared types", () => {
+    const props = componentProps(
+      `<code-block code="42" language="typescript" font-size="20" show-line-numbers="false" highlight-lines="[2, 3]" />`,
+    );
+    assert.deepEqual(props, {
+      code: "42",
+      language: "typescript",
+      fontSize: 20,
+      showLineNumbers: false,
+      highlightLines: [2, 3],
+    });
+  });
+
+  it("still guesses types for components without a schema", () => {
+    assert.deepEqual(componentProps(`<title id="t" text="2024" />`), { text: 2024 });
+  });
+
+  it("rejects values outside an enum and missing required props", () => {
+    assert.throws(
+      () => componentProps(`<code-block id="snippet" code="x" theme="drakula" />`),
+      /<code-block> "snippet" theme must be one of "dark", "light", .* \(got "drakula"\)\./,
+    );
+    assert.throws(() => componentProps(`<lower-third id="who" title="CEO" />`), /<lower-third> "who" requires name\./);
+    assert.throws(() => componentProps(`<chyron id="ticker" items="Breaking" />`), /items must be a JSON array/);
+  });
+
+  it("checks values from the props JSON against the schema", () => {
+    assert.deepEqual(componentProps(`<code-block code="x" props='{"theme":"light","fontSize":18}' />`), {
+      code: "x",
+      theme: "light",
+      fontSize: 18,
+    });
+    assert.throws(
+      () => componentProps(`<code-block id="snippet" code="x" props='{"theme":"drakula"}' />`),
+      /<code-block> "snippet" props.theme must be one of "dark", "light", .* \(got "drakula"\)\./,
+    );
+    assert.throws(
+      () => componentProps(`<code-block id="snippet" code="x" props='{"fontSize":"big"}' />`),
+      /<code-block> "snippet" props.fontSize must be a number \(got "big"\)\./,
+    );
+    assert.throws(
+      () => componentProps(`<lower-third id="who" props='{"name":42}' />`),
+      /props.name must be a string \(got "42"\)/,
+    );
+  });
+
+  it("warns about props the schema does not declare", () => {
+    const { diagnostics } = diagnoseVideoFileXml(`<vml id="promo"><scene id="intro">
+    <cue id="hello"><voice>Hello.</voice></cue>
+    <lower-third name="Ada" titel="CEO" props='{"colour":"red"}' />
+  </scene></vml>`);
+    assert.deepEqual(
+      diagnostics.map((d) => d.message),
+      ['Unknown prop "colour" in the props of <lower-third>.', 'Unknown prop "titel" on <lower-third>.'],
+    );
+  });
+
+  it("accepts schemas from registerComponent", (t) => {
+    registerComponent("PriceTag", () => null, {
+      props: { amount: { type: "number", required: true }, currency: { type: "string", enum: ["USD", "EUR"] } },
+    });
+    t.after(() => unregisterComponent("PriceTag"));
+    assert.ok(getPropSchema("PriceTag"));
+    assert.deepEqual(componentProps(`<price-tag amount="9.99" currency="EUR" />`), { amount: 9.99, currency: "EUR" });
+  });
+
+  it("forgets schemas of unregistered components", () => {
+    registerComponent("PriceTag", () => null, { props: { amount: { type: "number" } } });
+    unregisterComponent("PriceTag");
+    assert.equal(getPropSchema("PriceTag"), null);
+    assert.deepEqual(componentProps(`<price-tag amount="9.99" />`), { amount: 9.99 });
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { expandSeries, isSeriesTemplate, markSeriesTemplates } from "./series.js";
+import { loadVideoFileFromXml } from "./xml.js";
+
+const xml = `<vml id="show">
+  <scene id="intro" title="Episode {{ number }}">
+    <cue id="hello"><voice>Today {{ guest }} joins us.</voice></cue>
+    <lower-third id="name" name="{{ guest }}" title="Episode {{ episode.id }}" />
+  </scene>
+  <series id="season-1">
+    <episode id="ep1" guest="Ada" number="1" />
+    <episode id="ep2" guest="Grace" number="2" />
+  </series>
+</vml>`;
+
+describe("Series expansion", () => {
+  it("parses series and episodes from XML", () => {
+    const file = loadVideoFileFromXml(xml);
+    assert.deepEqual(file.series, [
+      {
+        id: "season-1",
+        compositionId: "show",
+        episodes: [
+          { id: "ep1", props: { guest: "Ada", number: "1" } },
+          { id: "ep2", props: { guest: "Grace", number: "2" } },
+        ],
+      },
+    ]);
+  });
+
+  it("marks the composition a series expands, but not its episodes", () => {
+    const file = loadVideoFileFromXml(xml);
+    assert.equal(isSeriesTemplate(file.compositions[0]), true);
+    assert.equal(isSeriesTemplate(expandSeries(file, file.series![0])[0].composition), false);
+    const plain = loadVideoFileFromXml(`<vml id="plain"><scene id="s" duration="1s" /></vml>`);
+    assert.equal(isSeriesTemplate(plain.compositions[0]), false);
+
+    const built = {
+      compositions: [
+        { id: "a", timeline: [] },
+        { id: "b", timeline: [] },
+      ],
+      series: [{ id: "s", compositionId: "b", episodes: [] }],
+    };
+    markSeriesTemplates(built);
+    assert.deepEqual(built.compositions.map(isSeriesTemplate), [false, true]);
+  });
+
+  it("instantiates the composition once per episode with props substituted", () => {
+    const file = loadVideoFileFromXml(xml);
+    const episodes = expandSeries(file, file.series![0]);
+    assert.deepEqual(
+      episodes.map((ep) => ep.composition.id),
+      ["show--ep1", "show--ep2"],
+    );
+    const scene = episodes[1].composition.timeline[0] as any;
+    assert.equal(scene.title, "Episode 2");
+    assert.equal(scene.items[0].segments[0].text, "Today Grace joins us.");
+    const component = scene.components.find((c: any) => c.id === "name");
+    assert.equal(component.props.name, "Grace");
+    assert.equal(component.props.title, "Episode ep2");
+    // The template is left untouched.
+    assert.equal((file.compositions[0].timeline[0] as any).title, "Episode {{ number }}");
+  });
+
+  it("reads times, numbers and typed props from episode values", () => {
+    const file = loadVideoFileFromXml(`<vml id="clips">
+  <scene id="intro" duration="{{ len }}">
+    <code-block id="code" code="{{ snippet }}" font-size="{{ size }}" start="{{ len }} - 1s" />
+  </scene>
+  <series id="s1">
+    <episode id="short" len="3s" size="20" snippet="a()" />
+    <episode id="long" len="8s" size="32" snippet="b()" />
+  </series>
+</vml>`);
+    const [short, long] = expandSeries(file, file.series![0]).map((ep) => ep.composition.timeline[0] as any);
+    assert.equal(short.time.end, 3);
+    assert.equal(long.time.end, 8);
+    assert.equal(long.components[0].props.fontSize, 32);
+    assert.equal(long.components[0].props.code, "b()");
+    assert.deepEqual(long.components[0].timing, { startSec: 7, endSec: undefined });
+    // The template holds stand-ins for what it can't parse yet.
+    const template = file.compositions[0].timeline[0] as any;
+    assert.equal(template.components[0].props.fontSize, undefined);
+    assert.equal(template.components[0].props.code, "{{ snippet }}");
+  });
+
+  it("rejects placeholders no episode defines", () => {
+    const file = loadVideoFileFromXml(xml.replace("{{ guest }} joins", "{{ host }} joins"));
+    assert.throws(() => expandSeries(file, file.series![0]), /Unknown variable "\{\{ host \}\}"/);
+  });
+});
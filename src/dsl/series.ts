@@ -0,0 +1,103 @@
+import { ParseError } from "../errors.js";
+import { interpolateValue } from "./interpolate.js";
+import { applyConditions, conditionScope } from "./condition.js";
+import type { CompositionSpec, SeriesSpec, VideoFileSpec } from "./types.js";
+
+export type EpisodeComposition = {
+  seriesId: string;
+  episodeId: string;
+  composition: CompositionSpec;
+};
+
+// Video files loaded from XML re-parse their source per episode, so placeholders in times, numbers
+// and typed props are read with the episode's values. Kept off the spec so it stays plain data.
+const seriesSources = new WeakMap<VideoFileSpec, (vars: Record<string, unknown>) => VideoFileSpec>();
+
+export const registerSeriesSource = (
+  videoFile: VideoFileSpec,
+  load: (vars: Record<string, unknown>) => VideoFileSpec,
+): void => {
+  seriesSources.set(videoFile, load);
+};
+
+// Compositions a series expands per episode. Their `{{ name }}` placeholders are episode props, so
+// generating one directly is a mistake; elsewhere such text is content (e.g. a code sample).
+const seriesTemplates = new WeakSet<CompositionSpec>();
+
+/**
+ * Mark the compositions the file's series expand, as loaders do once a file is read. A series whose
+ * composition can't be found is left for `expandSeries` to report.
+ */
+export const markSeriesTemplates = (videoFile: VideoFileSpec): void => {
+  for (const series of videoFile.series ?? []) {
+    const template = series.compositionId
+      ? videoFile.compositions.find((composition) => composition.id === series.compositionId)
+      : videoFile.compositions.length === 1
+        ? videoFile.compositions[0]
+        : undefined;
+    if (template) {
+      seriesTemplates.add(template);
+    }
+  }
+};
+
+export const isSeriesTemplate = (composition: CompositionSpec): boolean => seriesTemplates.has(composition);
+
+/**
+ * Instantiate the series' composition once per episode. Episode props replace `{{ name }}`
+ * placeholders anywhere in the composition (cue text, markup, component props, ...) and decide
+ * `if`/`unless` conditions; `episode.id` and `series.id` are always available. Each episode gets
+ * its own composition id so outputs and mix files never collide.
+ */
+export const expandSeries = (videoFile: VideoFileSpec, series: SeriesSpec): EpisodeComposition[] => {
+  const template = resolveSeriesComposition(videoFile, series);
+  const seen = new Set<string>();
+  return series.episodes.map((episode) => {
+    if (!episode.id) {
+      throw new ParseError(`Series "${series.id}" has an episode without an id.`);
+    }
+    if (seen.has(episode.id)) {
+      throw new ParseError(`Duplicate episode id "${episode.id}" in series "${series.id}".`);
+    }
+    seen.add(episode.id);
+    const scope = {
+      ...(videoFile.vars ?? {}),
+      ...(episode.props ?? {}),
+      episode: { id: episode.id, ...(episode.props ?? {}) },
+      series: { id: series.id },
+    };
+    const where = `series "${series.id}" episode "${episode.id}"`;
+    const source = seriesSources.get(videoFile);
+    const composition = source
+      ? resolveSeriesComposition(source(scope), series)
+      : // Prune first so placeholders inside excluded elements need not resolve.
+        interpolateValue(applyConditions(template, conditionScope(scope)), scope, where);
+    return {
+      seriesId: series.id,
+      episodeId: episode.id,
+      composition: { ...composition, id: `${template.id}--${episode.id}` },
+    };
+  });
+};
+
+/**
+ * Expand every series in the file, in declaration order.
+ */
+export const expandAllSeries = (videoFile: VideoFileSpec): EpisodeComposition[] =>
+  (videoFile.series ?? []).flatMap((series) => expandSeries(videoFile, series));
+
+const resolveSeriesComposition = (videoFile: VideoFileSpec, series: SeriesSpec): CompositionSpec => {
+  if (series.compositionId) {
+    const match = videoFile.compositions.find((composition) => composition.id === series.compositionId);
+    if (!match) {
+      throw new ParseError(`Series "${series.id}" references unknown composition "${series.compositionId}".`);
+    }
+    return match;
+  }
+  if (videoFile.compositions.length !== 1) {
+    throw new ParseError(
+      `Series "${series.id}" must set compositionId when the file defines ${videoFile.compositions.length} compositions.`,
+    );
+  }
+  return videoFile.compositions[0];
+};
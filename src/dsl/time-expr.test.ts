@@ -0,0 +1,118 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { deferTimeValue, parseTimeValue, resolveDeferredTiming, type TimeEvalContext } from "./time-expr.js";
+import { loadVideoFileFromXml } from "./xml.js";
+
+const measured: TimeEvalContext = {
+  fps: 30,
+  getSceneStart: (id) => (id === "intro" ? 0 : null),
+  getSceneEnd: (id) => (id === "intro" ? 9 : null),
+  getCueStart: (id) => (id === "pricing" ? 3 : null),
+  getCueEnd: (id) => (id === "pricing" ? 6.5 : null),
+  getMarkStart: (id) => (id === "reveal" ? 4 : null),
+  getSegment: (cueId, index) => (cueId === "pricing" && index === 2 ? { startSec: 5, endSec: 6.5 } : null),
+  getWord: (cueId, token, occurrence) =>
+    cueId === "pricing" && token === "dollars" && occurrence === 1 ? { startSec: 5.6, endSec: 6.1 } : null,
+  getParentDuration: () => 9,
+  getPrevStart: () => null,
+  getPrevEnd: () => null,
+  getNextStart: () => null,
+};
+
+const load = (body: string) =>
+  loadVideoFileFromXml(`<vml id="promo"><scene id="intro">
+    <cue id="hello"><voice>Hello.</voice></cue>
+    <cue id="pricing"><voice>Ten dollars.</voice></cue>
+    ${body}
+  </scene></vml>`).compositions[0].timeline[0] as any;
+
+describe("Deferred time expressions", () => {
+  it("keeps cue references unevaluated on components", () => {
+    const scene = load(`<title id="price" text="$10" start="cue(pricing).end + 0.5s" duration="2s" />`);
+    const [component] = scene.components;
+    assert.equal(component.timing, undefined);
+    assert.equal(component.deferredTiming.start.expr, "cue(pricing).end + 0.5s");
+    assert.deepEqual(resolveDeferredTiming(component.deferredTiming, measured, "component"), {
+      startSec: 7,
+      endSec: 9,
+    });
+  });
+
+  it("evaluates plain times at parse time", () => {
+    const scene = load(`<title id="price" text="$10" start="1s" end="2s" />`);
+    assert.deepEqual(scene.components[0].timing, { startSec: 1, endSec: 2 });
+    assert.equal(scene.components[0].deferredTiming, undefined);
+  });
+
+  it("defers audio element times", () => {
+    const scene = load(`<sfx id="ding" prompt="ding" start="cue(pricing)" end="scene(intro).end" />`);
+    const [audio] = scene.audio;
+    assert.equal(audio.time, undefined);
+    assert.deepEqual(resolveDeferredTiming(audio.deferredTime, measured, "audio"), { startSec: 3, endSec: 9 });
+  });
+
+  it("counts unanchored times and a lone duration from the parent's start", () => {
+    const scene = load(`<sfx id="a" prompt="a" start="50%" end="cue(pricing).end" /><title id="b" text="B" duration="10%" />`);
+    assert.deepEqual(resolveDeferredTiming(scene.audio[0].deferredTime, measured, "audio", 2), {
+      startSec: 6.5,
+      endSec: 6.5,
+    });
+    assert.deepEqual(resolveDeferredTiming(scene.components[0].deferredTiming, measured, "component", 2), {
+      startSec: 2,
+      endSec: 2.9,
+    });
+    assert.deepEqual(resolveDeferredTiming({ start: deferTimeValue("mark(reveal) + 10%") }, measured, "audio", 2), {
+      startSec: 4.9,
+      endSec: undefined,
+    });
+  });
+
+  it("rejects timeline references inside a sequence", () => {
+    assert.throws(
+      () => load(`<sequence><title id="price" text="$10" start="cue(pricing)" /></sequence>`),
+      /"price" inside <sequence> cannot reference/,
+    );
+  });
+
+  it("reports references that do not exist after synthesis", () => {
+    const scene = load(`<title id="price" text="$10" start="cue(missing).end" />`);
+    assert.throws(
+      () => resolveDeferredTiming(scene.components[0].deferredTiming, measured, `component "price"`),
+      /Unresolved time reference cue\(missing\)\.end in component "price" \("cue\(missing\)\.end"\)/,
+    );
+  });
+
+  describe("vocabulary", () => {
+    const evaluate = (expr: string) => parseTimeValue(expr, measured);
+
+    it("reads cue and scene spans", () => {
+      assert.equal(evaluate("cue(pricing).end"), 6.5);
+      assert.equal(evaluate("cue(pricing).duration"), 3.5);
+      assert.equal(evaluate("scene(intro).duration"), 9);
+    });
+
+    it("anchors on spoken segments and words", () => {
+      assert.equal(evaluate("segment(pricing, 2)"), 5);
+      assert.equal(evaluate("segment(pricing, 2).end"), 6.5);
+      assert.equal(evaluate('word(pricing, "dollars")'), 5.6);
+      assert.equal(evaluate("word(pricing, 'dollars').duration"), 0.5);
+    });
+
+    it("treats percentages as a share of the parent duration", () => {
+      assert.equal(evaluate("mark(reveal) + 10%"), 4.9);
+    });
+
+    it("rejects malformed anchors", () => {
+      assert.throws(() => evaluate("segment(pricing, 0)"), /segment\(\) requires a segment number/);
+      assert.throws(() => evaluate("word(pricing, dollars)"), /word\(\) requires a quoted word/);
+      assert.throws(() => evaluate("mark(reveal).end"), /mark\(\) is a point in time/);
+    });
+
+    it("defers word anchors and percentages until synthesis", () => {
+      const scene = load(`<title id="a" text="A" start='word(pricing, "ten")' /><title id="b" text="B" start="25%" />`);
+      assert.equal(scene.components[0].deferredTiming.start.expr, 'word(pricing, "ten")');
+      assert.equal(scene.components[1].deferredTiming.start.expr, "25%");
+      assert.deepEqual(deferTimeValue("25%").ast, { kind: "number", value: 25, unit: "%" });
+    });
+  });
+});
@@ -1,38 +1,43 @@
-import { ParseError } from "../errors.js";
+import { CompileError, ParseError } from "../errors.js";
+import type { DeferredTimeSpec, DeferredTimingSpec, TimeExprNode } from "./types.js";
 
 export class MissingTimeReferenceError extends Error {}
 
+export type Span = { startSec: number; endSec: number };
+
 export type TimeEvalContext = {
   fps: number;
   getSceneStart: (id: string) => number | null;
   getSceneEnd: (id: string) => number | null;
   getCueStart: (id: string) => number | null;
+  getCueEnd: (id: string) => number | null;
   getMarkStart: (id: string) => number | null;
+  /** Spoken segment `index` (1-based, pauses not counted) of a cue. */
+  getSegment: (cueId: string, index: number) => Span | null;
+  /** The `occurrence`-th (1-based) word of a cue matching `token`, ignoring case and punctuation. */
+  getWord: (cueId: string, token: string, occurrence: number) => Span | null;
+  /** Duration of the element the expression belongs to (scene, transition or composition). */
+  getParentDuration: () => number | null;
   getPrevStart: () => number | null;
   getPrevEnd: () => number | null;
   getNextStart: () => number | null;
 };
 
 type Token =
-  | { type: "number"; value: number; unit?: "f" | "s" | "ms" }
+  | { type: "number"; value: number; unit?: "f" | "s" | "ms" | "%" }
+  | { type: "string"; value: string }
   | { type: "identifier"; value: string }
   | { type: "operator"; value: "+" | "-" | "*" | "/" }
   | { type: "paren"; value: "(" | ")" }
   | { type: "dot" }
   | { type: "comma" };
 
-type AstNode =
-  | { kind: "number"; value: number; unit?: "f" | "s" | "ms" }
-  | { kind: "identifier"; value: string }
-  | { kind: "binary"; op: "+" | "-" | "*" | "/"; left: AstNode; right: AstNode }
-  | { kind: "unary"; op: "+" | "-"; value: AstNode }
-  | { kind: "call"; name: string; args: AstNode[] }
-  | { kind: "property"; target: AstNode; prop: string };
+type AstNode = TimeExprNode;
 
 const tokenizeTime = (input: string): Token[] => {
   const tokens: Token[] = [];
   let i = 0;
-  const pushNumber = (raw: string, unit?: "f" | "s" | "ms") => {
+  const pushNumber = (raw: string, unit?: "f" | "s" | "ms" | "%") => {
     tokens.push({ type: "number", value: Number.parseFloat(raw), unit });
   };
   while (i < input.length) {
@@ -65,18 +70,27 @@ const tokenizeTime = (input: string): Token[] => {
       let j = i + 1;
       while (j < input.length && /[\d.]/.test(input[j] ?? "")) j += 1;
       const raw = input.slice(i, j);
-      let unit: "f" | "s" | "ms" | undefined;
+      let unit: "f" | "s" | "ms" | "%" | undefined;
       if (input.slice(j, j + 2) === "ms") {
         unit = "ms";
         j += 2;
-      } else if (input[j] === "f" || input[j] === "s") {
-        unit = input[j] as "f" | "s";
+      } else if (input[j] === "f" || input[j] === "s" || input[j] === "%") {
+        unit = input[j] as "f" | "s" | "%";
         j += 1;
       }
       pushNumber(raw, unit);
       i = j;
       continue;
     }
+    if (ch === '"' || ch === "'") {
+      const close = input.indexOf(ch, i + 1);
+      if (close < 0) {
+        throw new ParseError("Unterminated string in time expression.");
+      }
+      tokens.push({ type: "string", value: input.slice(i + 1, close) });
+      i = close + 1;
+      continue;
+    }
     if (/[A-Za-z_]/.test(ch)) {
       let j = i + 1;
       while (j < input.length && /[A-Za-z0-9_-]/.test(input[j] ?? "")) j += 1;
@@ -101,6 +115,9 @@ const parseTimeExpression = (input: string): AstNode => {
     if (token.type === "number") {
       return { kind: "number", value: token.value, unit: token.unit };
     }
+    if (token.type === "string") {
+      return { kind: "string", value: token.value };
+    }
     if (token.type === "identifier") {
       let node: AstNode = { kind: "identifier", value: token.value };
       const next = peek();
@@ -192,12 +209,81 @@ const parseTimeExpression = (input: string): AstNode => {
   return expr;
 };
 
+// Functions naming a span of the timeline; bare calls mean its start.
+const SPAN_FUNCTIONS = new Set(["scene", "cue", "segment", "word", "mark"]);
+
+const identifierArg = (node: Extract<AstNode, { kind: "call" }>, index = 0): string => {
+  const arg = node.args[index];
+  if (!arg || arg.kind !== "identifier") {
+    throw new ParseError(`${node.name}() requires an identifier argument.`);
+  }
+  return arg.value;
+};
+
+const positiveIntegerArg = (node: Extract<AstNode, { kind: "call" }>, index: number, what: string): number => {
+  const arg = node.args[index];
+  if (!arg || arg.kind !== "number" || arg.unit || !Number.isInteger(arg.value) || arg.value < 1) {
+    throw new ParseError(`${node.name}() requires ${what} as a whole number from 1.`);
+  }
+  return arg.value;
+};
+
+const spanProperty = (
+  node: Extract<AstNode, { kind: "call" }>,
+  prop: "start" | "end" | "duration",
+  ctx: TimeEvalContext,
+): number => {
+  const id = identifierArg(node);
+  let ref = `${node.name}(${id})`;
+  let start: number | null = null;
+  let end: number | null = null;
+  if (node.name === "scene") {
+    start = ctx.getSceneStart(id);
+    end = prop === "start" ? null : ctx.getSceneEnd(id);
+  } else if (node.name === "cue") {
+    start = ctx.getCueStart(id);
+    end = prop === "start" ? null : ctx.getCueEnd(id);
+  } else if (node.name === "mark") {
+    if (prop !== "start") {
+      throw new ParseError(`mark() is a point in time; ".${prop}" is not available.`);
+    }
+    start = ctx.getMarkStart(id);
+  } else {
+    let span: Span | null;
+    if (node.name === "segment") {
+      const index = positiveIntegerArg(node, 1, "a segment number");
+      ref = `segment(${id}, ${index})`;
+      span = ctx.getSegment(id, index);
+    } else {
+      const token = node.args[1];
+      if (!token || token.kind !== "string") {
+        throw new ParseError('word() requires a quoted word, e.g. word(intro, "launch").');
+      }
+      const occurrence = node.args.length > 2 ? positiveIntegerArg(node, 2, "an occurrence") : 1;
+      ref = `word(${id}, "${token.value}"${occurrence > 1 ? `, ${occurrence}` : ""})`;
+      span = ctx.getWord(id, token.value, occurrence);
+    }
+    start = span?.startSec ?? null;
+    end = span?.endSec ?? null;
+  }
+  if (start == null || (prop !== "start" && end == null)) {
+    throw new MissingTimeReferenceError(prop === "start" ? ref : `${ref}.${prop}`);
+  }
+  if (prop === "start") return start;
+  return prop === "end" ? end! : end! - start;
+};
+
 const evalTimeAst = (node: AstNode, ctx: TimeEvalContext): number => {
   switch (node.kind) {
     case "number": {
       if (!node.unit) return node.value;
       if (node.unit === "f") return node.value / ctx.fps;
       if (node.unit === "ms") return node.value / 1000;
+      if (node.unit === "%") {
+        const parent = ctx.getParentDuration();
+        if (parent == null) throw new MissingTimeReferenceError(`${node.value}% (parent duration)`);
+        return (parent * node.value) / 100;
+      }
       return node.value;
     }
     case "identifier": {
@@ -224,6 +310,8 @@ const evalTimeAst = (node: AstNode, ctx: TimeEvalContext): number => {
           return left / right;
       }
     }
+    case "string":
+      throw new ParseError(`Unexpected string "${node.value}" in time expression.`);
     case "call": {
       const name = node.name;
       if (name === "min" || name === "max") {
@@ -250,30 +338,8 @@ const evalTimeAst = (node: AstNode, ctx: TimeEvalContext): number => {
         const grid = evalTimeAst(node.args[1], ctx);
         return grid === 0 ? value : Math.round(value / grid) * grid;
       }
-      if (name === "scene") {
-        const arg = node.args[0];
-        if (!arg || arg.kind !== "identifier") {
-          throw new ParseError("scene() requires an identifier argument.");
-        }
-        return ctx.getSceneStart(arg.value) ?? (() => { throw new MissingTimeReferenceError(`scene(${arg.value})`); })();
-      }
-      if (name === "cue") {
-        const arg = node.args[0];
-        if (!arg || arg.kind !== "identifier") {
-          throw new ParseError("cue() requires an identifier argument.");
-        }
-        const value = ctx.getCueStart(arg.value);
-        if (value == null) throw new MissingTimeReferenceError(`cue(${arg.value})`);
-        return value;
-      }
-      if (name === "mark") {
-        const arg = node.args[0];
-        if (!arg || arg.kind !== "identifier") {
-          throw new ParseError("mark() requires an identifier argument.");
-        }
-        const value = ctx.getMarkStart(arg.value);
-        if (value == null) throw new MissingTimeReferenceError(`mark(${arg.value})`);
-        return value;
+      if (SPAN_FUNCTIONS.has(name)) {
+        return spanProperty(node, "start", ctx);
       }
       throw new ParseError(`Unknown function "${name}".`);
     }
@@ -300,20 +366,9 @@ const evalTimeAst = (node: AstNode, ctx: TimeEvalContext): number => {
       if (node.target.kind === "identifier" && node.target.value === "timeline" && node.prop === "start") {
         return 0;
       }
-      if (node.target.kind === "call" && node.target.name === "scene") {
-        const arg = node.target.args[0];
-        if (!arg || arg.kind !== "identifier") {
-          throw new ParseError("scene() requires an identifier argument.");
-        }
-        if (node.prop === "start") {
-          const value = ctx.getSceneStart(arg.value);
-          if (value == null) throw new MissingTimeReferenceError(`scene(${arg.value}).start`);
-          return value;
-        }
-        if (node.prop === "end") {
-          const value = ctx.getSceneEnd(arg.value);
-          if (value == null) throw new MissingTimeReferenceError(`scene(${arg.value}).end`);
-          return value;
+      if (node.target.kind === "call" && SPAN_FUNCTIONS.has(node.target.name)) {
+        if (node.prop === "start" || node.prop === "end" || node.prop === "duration") {
+          return spanProperty(node.target, node.prop, ctx);
         }
       }
       throw new ParseError(`Unsupported property access ".${node.prop}".`);
@@ -325,3 +380,89 @@ export const parseTimeValue = (value: string, ctx: TimeEvalContext): number => {
   const expr = parseTimeExpression(value.trim());
   return evalTimeAst(expr, ctx);
 };
+
+const referencesTimeline = (node: AstNode): boolean => {
+  switch (node.kind) {
+    case "number":
+      return node.unit === "%";
+    case "call":
+      return SPAN_FUNCTIONS.has(node.name) || node.args.some(referencesTimeline);
+    case "property":
+      return referencesTimeline(node.target);
+    case "binary":
+      return referencesTimeline(node.left) || referencesTimeline(node.right);
+    case "unary":
+      return referencesTimeline(node.value);
+    default:
+      return false;
+  }
+};
+
+export const deferTimeValue = (value: string): DeferredTimeSpec => {
+  const expr = value.trim();
+  return { expr, ast: parseTimeExpression(expr) };
+};
+
+/**
+ * Keep start/end/duration unevaluated when any of them references a cue, scene, mark, segment or
+ * word, or is a percentage of the parent; those are only known once narration has been
+ * synthesized. Returns undefined when all three can be evaluated at parse time.
+ */
+export const parseDeferredTiming = (attrs: Record<string, string>): DeferredTimingSpec | undefined => {
+  const keys = ["start", "end", "duration"] as const;
+  const parsed = keys.map((key) => (attrs[key] ? deferTimeValue(attrs[key]) : undefined));
+  if (!parsed.some((value) => value && referencesTimeline(value.ast))) {
+    return undefined;
+  }
+  const [start, end, duration] = parsed;
+  return { start, end, duration };
+};
+
+// Whether an expression names a point on the timeline; otherwise it is an offset from the parent's start.
+const isAnchored = (node: AstNode): boolean => {
+  switch (node.kind) {
+    case "call":
+      return SPAN_FUNCTIONS.has(node.name) || node.args.some(isAnchored);
+    case "property":
+      return true;
+    case "binary":
+      return isAnchored(node.left) || isAnchored(node.right);
+    case "unary":
+      return isAnchored(node.value);
+    default:
+      return false;
+  }
+};
+
+const evaluateDeferred = (value: DeferredTimeSpec, ctx: TimeEvalContext, label: string): number => {
+  try {
+    return evalTimeAst(value.ast, ctx);
+  } catch (err) {
+    if (err instanceof MissingTimeReferenceError) {
+      throw new CompileError(`Unresolved time reference ${err.message} in ${label} ("${value.expr}").`);
+    }
+    throw err;
+  }
+};
+
+/**
+ * Evaluate deferred timing against the measured timeline, giving absolute seconds. Follows the
+ * parse-time rules: times without a timeline reference (such as `25%`) and a lone duration count
+ * from the parent's start, and an explicit end wins over start + duration.
+ */
+export const resolveDeferredTiming = (
+  timing: DeferredTimingSpec,
+  ctx: TimeEvalContext,
+  label: string,
+  parentStartSec = 0,
+): { startSec?: number; endSec?: number } => {
+  const at = (value: DeferredTimeSpec) =>
+    (isAnchored(value.ast) ? 0 : parentStartSec) + evaluateDeferred(value, ctx, label);
+  const startSec = timing.start ? at(timing.start) : timing.duration ? parentStartSec : undefined;
+  const endSec = timing.end
+    ? at(timing.end)
+    : timing.duration && startSec != null
+      ? startSec + evaluateDeferred(timing.duration, ctx, label)
+      : undefined;
+  return { startSec, endSec };
+};
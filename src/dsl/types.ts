@@ -5,6 +5,31 @@ export type TimeRange = {
   endIsRelative?: boolean;
 };
 
+export type TimeExprNode =
+  | { kind: "number"; value: number; unit?: "f" | "s" | "ms" | "%" }
+  | { kind: "string"; value: string }
+  | { kind: "identifier"; value: string }
+  | { kind: "binary"; op: "+" | "-" | "*" | "/"; left: TimeExprNode; right: TimeExprNode }
+  | { kind: "unary"; op: "+" | "-"; value: TimeExprNode }
+  | { kind: "call"; name: string; args: TimeExprNode[] }
+  | { kind: "property"; target: TimeExprNode; prop: string };
+
+/**
+ * A time expression that references cues, scenes, marks, segments, words or the parent's duration.
+ * It is kept as an AST and evaluated after synthesis, so it follows the measured narration rather
+ * than declared times.
+ */
+export type DeferredTimeSpec = {
+  expr: string;
+  ast: TimeExprNode;
+};
+
+export type DeferredTimingSpec = {
+  start?: DeferredTimeSpec;
+  end?: DeferredTimeSpec;
+  duration?: DeferredTimeSpec;
+};
+
 export type MarkupValue =
   | string
   | number
@@ -23,6 +48,15 @@ export type VoiceSegmentSpec =
   | { kind: "text"; text: string; trimEndSec?: number | null }
   | { kind: "pause"; pause: PauseSpec };
 
+/**
+ * Conditional inclusion. Expressions see vars, episode props and `env`, e.g.
+ * `{ if: "env == 'production' && audience != 'internal'" }`.
+ */
+export type ConditionSpec = {
+  if?: string;
+  unless?: string;
+};
+
 export type CueSpec = {
   kind: "cue";
   id: string;
@@ -32,6 +66,7 @@ export type CueSpec = {
   markup?: SemanticMarkup;
   time?: TimeRange;
   provider?: string | null;
+  when?: ConditionSpec;
 };
 
 export type TransitionRef = {
@@ -54,6 +89,7 @@ export type SceneSpec = {
   exit?: TransitionRef;
   transitionToNext?: TransitionRef;
   audio?: AudioElementSpec[];
+  when?: ConditionSpec;
 };
 
 export type TransitionSpec = {
@@ -95,6 +131,12 @@ export type PronunciationLexemeSpec = {
   alias?: string;
 };
 
+export type LoudnessTargetSpec = {
+  integratedLufs: number;
+  truePeakDb?: number;
+  loudnessRange?: number;
+};
+
 export type VoiceoverConfig = {
   provider?: string | null;
   voice?: string | null;
@@ -117,6 +159,11 @@ export type VoiceoverConfig = {
   };
   pronunciations?: PronunciationLexemeSpec[];
   maxTtsSegmentSeconds?: number;
+  /**
+   * Normalize the final mix to this integrated loudness (LUFS), e.g. `-16` or
+   * `{ integratedLufs: -14, truePeakDb: -1 }`.
+   */
+  loudnessTarget?: number | LoudnessTargetSpec;
 };
 
 export type VolumeFadeToSpec = {
@@ -131,6 +178,18 @@ export type VolumeFadeOutSpec = {
   fadeDurationSeconds?: number;
 };
 
+/**
+ * Dip a clip's gain while narration is speaking.
+ * `depth` is the gain multiplier applied under speech (0-1); `attackSeconds`
+ * and `releaseSeconds` control how quickly the gain ramps down and back up.
+ */
+export type DuckSpec = {
+  under: "voice";
+  depth?: number;
+  attackSeconds?: number;
+  releaseSeconds?: number;
+};
+
 export type CueRef = { cueId: string; offsetSec?: number };
 export type SceneRef = { sceneId: string; offsetSec?: number };
 export type MarkRef = { markId: string; offsetSec?: number };
@@ -148,6 +207,7 @@ export type AudioElementSpec = {
   volume?: number;
   fadeTo?: VolumeFadeToSpec;
   fadeOut?: VolumeFadeOutSpec;
+  duck?: DuckSpec;
   sourceId?: string | null;
   playThrough?: boolean;
   src?: string;
@@ -157,6 +217,8 @@ export type AudioElementSpec = {
   pick?: number;
   modelId?: string | null;
   forceInstrumental?: boolean | null;
+  deferredTime?: DeferredTimingSpec; // Resolved against measured timing; replaces `time`
+  when?: ConditionSpec;
 };
 
 export type AudioClipSpec = {
@@ -166,6 +228,7 @@ export type AudioClipSpec = {
   volume?: number;
   fadeTo?: VolumeFadeToSpec;
   fadeOut?: VolumeFadeOutSpec;
+  duck?: DuckSpec;
   sourceId?: string | null;
   playThrough?: boolean;
   src?: string;
@@ -257,6 +320,8 @@ export type ComponentSpec = {
     startSec?: number;
     endSec?: number;
   };
+  deferredTiming?: DeferredTimingSpec; // Resolved into `timing` after synthesis
+  when?: ConditionSpec; // Conditional inclusion
 };
 
 // Layer specification (groups components with shared styles/timing)
@@ -269,9 +334,11 @@ export type LayerSpec = {
     startSec?: number;
     endSec?: number;
   };
+  deferredTiming?: DeferredTimingSpec; // Resolved into `timing` after synthesis
   visible?: boolean; // Show/hide entire layer
   zIndex?: number; // Base zIndex for layer
   components: ComponentSpec[]; // Components in this layer
+  when?: ConditionSpec; // Conditional inclusion
 };
 
 export type TimelineItemSpec = SceneSpec | TransitionSpec | MarkSpec | NarrationSpec;
@@ -279,6 +346,8 @@ export type TimelineItemSpec = SceneSpec | TransitionSpec | MarkSpec | Narration
 export type VideoFileSpec = {
   compositions: CompositionSpec[];
   series?: SeriesSpec[];
+  /** Template variables the file was loaded with (XML `<vars>` plus load-time data). */
+  vars?: Record<string, unknown>;
 };
 
 export type CompositionDefaults = Partial<Pick<CompositionSpec, "voiceover" | "audioProviders" | "meta">> & {
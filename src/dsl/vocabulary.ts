@@ -0,0 +1,274 @@
+/**
+ * The built-in XML vocabulary: which tags the parser understands, their attributes and where they
+ * may appear. Used to warn about unknown attributes and to generate the XSD / JSON Schema.
+ * Component tags are not listed here; their attributes come from registry prop schemas.
+ */
+
+export type AttributeType = "string" | "time" | "number" | "integer" | "boolean" | "json";
+
+export type AttributeDef = {
+  name: string;
+  type: AttributeType;
+  enum?: readonly string[];
+  required?: boolean;
+  description?: string;
+};
+
+export type TagDef = {
+  description: string;
+  attributes: AttributeDef[];
+  /** Allowed child tags. `COMPONENTS` stands for any component tag, `ANY` for any tag at all. */
+  children?: string[];
+  /** Whether the tag carries text content. */
+  text?: boolean;
+  /** Accept attributes that aren't listed (`<vars>`, `<episode>` and macro parameters take arbitrary names). */
+  openAttributes?: boolean;
+};
+
+export const COMPONENTS = "#components";
+export const ANY = "#any";
+
+export const ROOT_TAGS = ["vml", "videoml", "video-ml"] as const;
+
+/** Accepted on every element; evaluated before anything else is parsed. */
+export const CONDITION_ATTRIBUTES: AttributeDef[] = [
+  { name: "if", type: "string", description: "Keep the element only when this condition holds." },
+  { name: "unless", type: "string", description: "Drop the element when this condition holds." },
+];
+
+const id = (description?: string): AttributeDef => ({ name: "id", type: "string", required: true, description });
+
+const TIMING: AttributeDef[] = [
+  { name: "start", type: "time", description: 'Start time, e.g. "2s", "30f" or "cue(intro).end + 0.5s".' },
+  { name: "end", type: "time" },
+  { name: "duration", type: "time" },
+];
+
+const STYLING: AttributeDef[] = [
+  { name: "styles", type: "json", description: "Visual styles as JSON; cascades to children." },
+  { name: "markup", type: "json", description: "Semantic markup as JSON; cascades to children." },
+];
+
+const transitionRef = (effectAttr: string, prefix: string): AttributeDef[] => [
+  { name: effectAttr, type: "string", description: "Transition effect name." },
+  { name: `${prefix}-duration`, type: "time" },
+  { name: `${prefix}-ease`, type: "string" },
+  { name: `${prefix}-props`, type: "json" },
+];
+
+const OVERFLOW = ["clip", "extend", "allow"] as const;
+
+const AUDIO: AttributeDef[] = [
+  { name: "id", type: "string" },
+  ...TIMING,
+  { name: "volume", type: "number", description: "Linear gain, 1 = unchanged." },
+  { name: "play-through", type: "boolean" },
+  { name: "source-id", type: "string" },
+  { name: "clip-duration", type: "time", description: "Length of the generated clip." },
+  { name: "variants", type: "integer", description: "How many variants to generate." },
+  { name: "pick", type: "integer", description: "0-based variant to use." },
+  { name: "model-id", type: "string" },
+  { name: "force-instrumental", type: "boolean" },
+  { name: "fade-to", type: "number", description: "Volume to fade to." },
+  { name: "fade-to-after", type: "time" },
+  { name: "fade-to-duration", type: "time" },
+  { name: "fade-out", type: "number" },
+  { name: "fade-out-before", type: "time" },
+  { name: "fade-out-duration", type: "time" },
+  { name: "duck", type: "string", enum: ["voice"], description: "Lower this track while the voice speaks." },
+  { name: "duck-depth", type: "number", description: "Gain while ducked, between 0 and 1." },
+  { name: "duck-attack", type: "time" },
+  { name: "duck-release", type: "time" },
+  { name: "src", type: "string", description: "Audio file path (kind=file)." },
+  { name: "prompt", type: "string", description: "Generation prompt (kind=sfx or kind=music)." },
+];
+
+const PAUSE: AttributeDef[] = [
+  { name: "seconds", type: "time" },
+  { name: "mean", type: "time" },
+  { name: "std", type: "time" },
+  { name: "min", type: "time" },
+  { name: "max", type: "time" },
+];
+
+const AUDIO_TAGS = ["audio", "sfx", "music"];
+const CONTAINERS = ["sequence", "stack"];
+// Expanded before parsing, so they may stand in for whatever their content is.
+const REUSE = ["include", "use"];
+
+const ROOT: TagDef = {
+  description: "A VideoML composition.",
+  attributes: [
+    id("Composition id."),
+    { name: "title", type: "string" },
+    { name: "fps", type: "number" },
+    { name: "width", type: "number" },
+    { name: "height", type: "number" },
+    { name: "duration", type: "time" },
+    { name: "poster", type: "time", description: "Time of the poster frame." },
+  ],
+  children: ["vars", "voiceover", "scene", "transition", "mark", "narration", "series", "repeat", "define", ...REUSE],
+};
+
+export const BUILTIN_VOCABULARY: Record<string, TagDef> = {
+  vml: ROOT,
+  videoml: ROOT,
+  "video-ml": ROOT,
+  vars: {
+    description: "Template variables; each attribute is a variable.",
+    attributes: [],
+    openAttributes: true,
+    children: ["var"],
+  },
+  var: {
+    description: "A template variable whose value is the value attribute or the text content.",
+    attributes: [{ name: "name", type: "string", required: true }, { name: "value", type: "string" }],
+    text: true,
+  },
+  voiceover: {
+    description: "Voiceover defaults for the composition.",
+    attributes: [
+      { name: "provider", type: "string" },
+      { name: "voice", type: "string" },
+      { name: "model", type: "string" },
+      { name: "format", type: "string" },
+      { name: "sampleRateHz", type: "number" },
+      { name: "seed", type: "integer" },
+      { name: "leadInSeconds", type: "time" },
+      { name: "trimEndSeconds", type: "time" },
+      { name: "loudnessTarget", type: "number", description: "Integrated loudness target in LUFS." },
+      { name: "truePeakDb", type: "number" },
+      { name: "loudnessRange", type: "number" },
+    ],
+  },
+  scene: {
+    description: "A scene: narration cues plus the visuals and audio shown while they play.",
+    attributes: [
+      id(),
+      { name: "title", type: "string" },
+      ...TIMING,
+      ...STYLING,
+      ...transitionRef("enter", "enter"),
+      ...transitionRef("exit", "exit"),
+      ...transitionRef("transition", "transition"),
+      { name: "transition-to-next", type: "string", description: "Alias of transition." },
+    ],
+    children: ["cue", "pause", "layer", ...AUDIO_TAGS, ...CONTAINERS, "repeat", ...REUSE, COMPONENTS],
+  },
+  cue: {
+    description: "A unit of narration.",
+    attributes: [id(), { name: "label", type: "string" }, { name: "provider", type: "string" }, ...TIMING],
+    children: ["voice", "pause", "bullet", "repeat", ...REUSE],
+  },
+  voice: {
+    description: "Text to speak.",
+    attributes: [{ name: "trim-end", type: "time" }],
+    text: true,
+  },
+  pause: {
+    description: "Silence: a fixed length, or random from mean/std clamped to min/max.",
+    attributes: PAUSE,
+  },
+  bullet: { description: "An on-screen bullet for the cue.", attributes: [], text: true },
+  layer: {
+    description: "Groups components that share styles and timing.",
+    attributes: [
+      id(),
+      { name: "visible", type: "boolean" },
+      { name: "z", type: "number" },
+      ...TIMING,
+      ...STYLING,
+    ],
+    children: [...CONTAINERS, "repeat", ...REUSE, COMPONENTS],
+  },
+  sequence: {
+    description: "Lays components out one after another.",
+    attributes: [...TIMING, ...STYLING],
+    children: [...CONTAINERS, "repeat", ...REUSE, COMPONENTS],
+  },
+  stack: {
+    description: "Lays components out on top of each other, all starting together.",
+    attributes: [...TIMING, ...STYLING],
+    children: [...CONTAINERS, "repeat", ...REUSE, COMPONENTS],
+  },
+  transition: {
+    description: "A transition between the surrounding scenes.",
+    attributes: [
+      id(),
+      { name: "title", type: "string" },
+      ...TIMING,
+      { name: "effect", type: "string" },
+      { name: "type", type: "string", description: "Alias of effect." },
+      { name: "ease", type: "string" },
+      { name: "props", type: "json" },
+      { name: "mode", type: "string", enum: ["overlap", "insert"] },
+      { name: "overflow", type: "string", enum: OVERFLOW },
+      { name: "overflow-audio", type: "string", enum: OVERFLOW },
+      ...STYLING,
+    ],
+    children: ["layer", ...AUDIO_TAGS, ...CONTAINERS, "repeat", ...REUSE, COMPONENTS],
+  },
+  mark: {
+    description: "A named point in time.",
+    attributes: [
+      id(),
+      { name: "at", type: "time", description: "Required unless start is given." },
+      { name: "start", type: "time", description: "Alias of at." },
+    ],
+  },
+  narration: {
+    description: "Cues spoken over the timeline without a scene of their own.",
+    attributes: [id(), ...TIMING],
+    children: ["cue", "pause", "repeat", ...REUSE],
+  },
+  audio: {
+    description: "An audio clip.",
+    attributes: [{ name: "kind", type: "string", enum: ["file", "sfx", "music"], required: true }, ...AUDIO],
+  },
+  sfx: { description: "A generated sound effect.", attributes: AUDIO },
+  music: { description: "Generated music.", attributes: AUDIO },
+  repeat: {
+    description: "Repeats its children once per entry of an array variable.",
+    attributes: [
+      { name: "each", type: "string", required: true },
+      { name: "as", type: "string" },
+      { name: "index", type: "string" },
+    ],
+    children: [ANY],
+  },
+  include: {
+    description: "Splices in the children of another VideoML file's root element.",
+    attributes: [{ name: "src", type: "string", required: true, description: "Path relative to this file." }],
+  },
+  define: {
+    description: "A reusable block; every attribute besides name is a parameter default.",
+    attributes: [{ name: "name", type: "string", required: true }],
+    openAttributes: true,
+    children: [ANY],
+  },
+  use: {
+    description: "Inserts a copy of a define; every attribute besides ref is a parameter.",
+    attributes: [{ name: "ref", type: "string", required: true, description: "Name of the define." }],
+    openAttributes: true,
+  },
+  series: {
+    description: "Renders the composition once per episode.",
+    attributes: [id(), { name: "compositionId", type: "string" }],
+    children: ["episode"],
+  },
+  episode: {
+    description: "An episode; every other attribute becomes a template variable.",
+    attributes: [id()],
+    openAttributes: true,
+  },
+};
+
+/** Attributes every component tag accepts besides its props. */
+export const COMPONENT_ATTRIBUTES: AttributeDef[] = [
+  { name: "id", type: "string" },
+  { name: "visible", type: "boolean" },
+  { name: "z", type: "number" },
+  ...TIMING,
+  ...STYLING,
+  { name: "props", type: "json", description: "Props as JSON; attributes win on conflicts." },
+];
@@ -0,0 +1,91 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ParseError } from "../errors.js";
+import { applyVomPatchBatch, applyVomPatches, VomPatchSession, type VomPatch } from "./xml-patch.js";
+
+const XML = `<vml id="demo"><scene id="intro" duration="4s"><cue id="hello"><voice>Hi.</voice></cue><title id="t1" text="One"/></scene><scene id="outro" duration="2s"/></vml>`;
+
+const EDITS: VomPatch[] = [
+  { op: "setAttr", nodeId: "intro", name: "duration", value: "5s" },
+  { op: "setAttr", nodeId: "t1", name: "size", value: "42" },
+  { op: "setText", nodeId: "hello", textContent: "Hello there." },
+  { op: "appendNode", parentId: "intro", nodeXml: `<subtitle id="s1" text="Two"/>`, index: 1 },
+  { op: "removeNode", nodeId: "outro" },
+  { op: "replaceSubtree", nodeId: "t1", nodeXml: `<title id="t2" text="Uno"/>` },
+  { op: "setAttr", nodeId: "t2", name: "id", value: "t3" },
+  { op: "sealScene", sceneId: "intro" },
+];
+
+const fixedClock = () => new Date("2026-01-02T03:04:05.000Z");
+
+describe("applyVomPatchBatch", () => {
+  it("returns inverse patches that restore the input", () => {
+    const { xml, inverse } = applyVomPatchBatch(XML, EDITS);
+    assert.equal(xml, applyVomPatches(XML, EDITS));
+    assert.equal(applyVomPatchBatch(xml, inverse).xml, XML);
+  });
+
+  it("falls back to restoring an ancestor when the new node has no id", () => {
+    const { xml, inverse } = applyVomPatchBatch(XML, [{ op: "appendNode", parentId: "intro", nodeXml: `<title text="x"/>` }]);
+    assert.equal(inverse[0].op, "replaceSubtree");
+    assert.equal(applyVomPatchBatch(xml, inverse).xml, XML);
+  });
+
+  it("applies nothing when any patch fails", () => {
+    assert.throws(
+      () => applyVomPatchBatch(XML, [EDITS[0], { op: "removeNode", nodeId: "missing" }]),
+      (err: unknown) => err instanceof ParseError && /Patch 2 of 2 failed, nothing was applied/.test(err.message),
+    );
+  });
+});
+
+describe("VomPatchSession", () => {
+  it("undoes and redoes batches and logs who did what", () => {
+    const session = new VomPatchSession(XML, { now: fixedClock });
+    const first = session.apply({ author: "ada", message: "Longer intro", patches: EDITS.slice(0, 2) });
+    session.apply({ id: "drop-outro", author: "grace", patches: [{ op: "removeNode", nodeId: "outro" }] });
+    const afterBoth = session.xml;
+    assert.equal(first.id, "change-1");
+    assert.equal(first.timestamp, "2026-01-02T03:04:05.000Z");
+
+    assert.equal(session.undo("ada")?.target, "drop-outro");
+    assert.equal(session.undo("ada")?.target, "change-1");
+    assert.equal(session.xml, XML);
+    assert.equal(session.undo("ada"), null);
+    assert.equal(session.redo("grace")?.target, "change-1");
+    assert.ok(session.canRedo);
+
+    assert.deepEqual(
+      session.changeLog.map((entry) => [entry.action, entry.author, entry.target ?? entry.id]),
+      [
+        ["apply", "ada", "change-1"],
+        ["apply", "grace", "drop-outro"],
+        ["undo", "ada", "drop-outro"],
+        ["undo", "ada", "change-1"],
+        ["redo", "grace", "change-1"],
+      ],
+    );
+
+    // The saved log resumes with the same undo/redo stacks.
+    const saved = JSON.parse(JSON.stringify(session));
+    const resumed = new VomPatchSession(saved.xml, { changeLog: saved.changeLog, now: fixedClock });
+    resumed.redo("ada");
+    assert.equal(resumed.xml, afterBoth);
+    assert.equal(resumed.canRedo, false);
+  });
+
+  it("keeps the document and log unchanged when a batch fails", () => {
+    const session = new VomPatchSession(XML, { enforceSealed: true });
+    session.apply({ author: "ada", patches: [{ op: "sealScene", sceneId: "intro" }] });
+    const sealed = session.xml;
+    assert.throws(
+      () => session.apply({ author: "ada", patches: [EDITS[2], { op: "setAttr", nodeId: "t1", name: "size", value: "1" }] }),
+      /Cannot patch sealed scene "intro"/,
+    );
+    assert.equal(session.xml, sealed);
+    assert.equal(session.changeLog.length, 1);
+    // Undo restores the accepted state even though the scene is sealed.
+    session.undo("ada");
+    assert.equal(session.xml, XML);
+  });
+});
@@ -13,6 +13,35 @@ type PatchOptions = {
   enforceSealed?: boolean;
 };
 
+export type VomPatchBatch = {
+  /** Defaults to `change-<n>`, numbered through the change log. */
+  id?: string;
+  author: string;
+  /** ISO 8601; defaults to now. */
+  timestamp?: string;
+  message?: string;
+  patches: VomPatch[];
+};
+
+export type VomChangeLogEntry = {
+  id: string;
+  action: "apply" | "undo" | "redo";
+  author: string;
+  timestamp: string;
+  message?: string;
+  /** The entry an undo or redo acts on. */
+  target?: string;
+  /** What was applied, and the patches that take it back again. */
+  patches: VomPatch[];
+  inverse: VomPatch[];
+};
+
+export type VomBatchResult = {
+  xml: string;
+  /** Applying these to `xml` restores the input. */
+  inverse: VomPatch[];
+};
+
 type NodeLike = {
   nodeType: number;
   parentNode: NodeLike | null;
@@ -87,7 +116,7 @@ const requireMethod = <T extends Function>(
   if (typeof value !== "function") {
     throw new ParseError(`${op}: missing DOM method "${name}".`);
   }
-  return value as T;
+  return value.bind(target) as T;
 };
 
 const parseFragment = (nodeXml: string): ElementLike => {
@@ -101,9 +130,27 @@ const parseFragment = (nodeXml: string): ElementLike => {
   return firstChild as ElementLike;
 };
 
-export const applyVomPatches = (xml: string, patches: VomPatch[], opts?: PatchOptions): string => {
+const serializeNode = (node: NodeLike): string => new XMLSerializer().serializeToString(node as any);
+
+const elementIndex = (node: ElementLike): number =>
+  Array.from(node.parentNode?.childNodes ?? []).filter(isElementNode).indexOf(node);
+
+/**
+ * Fallback inverse: restore the nearest ancestor that has an id. Used when the changed element
+ * itself can't be addressed afterwards (no id, or the patch removed it).
+ */
+const restoreAncestor = (root: ElementLike, node: ElementLike | null, op: string): VomPatch => {
+  let current: NodeLike | null = node;
+  while (isElementNode(current) && current !== root) {
+    const id = current.getAttribute?.("id");
+    if (id) return { op: "replaceSubtree", nodeId: id, nodeXml: serializeNode(current) };
+    current = current.parentNode;
+  }
+  throw new ParseError(`${op}: the changed element needs an id (or an ancestor with one below the root) to be undone.`);
+};
+
+const parseDocument = (xml: string) => {
   const parser = new DOMParser();
-  const serializer = new XMLSerializer();
   const doc = parser.parseFromString(xml, "text/xml");
   const root = doc.documentElement as unknown as ElementLike;
   const rootTag = root?.tagName ?? "";
@@ -111,87 +158,277 @@ export const applyVomPatches = (xml: string, patches: VomPatch[], opts?: PatchOp
   if (!allowedRoots.has(rootTag)) {
     throw new ParseError("XML root must be <vml>, <videoml>, or <video-ml>.");
   }
+  return { doc, root };
+};
 
-  for (const patch of patches) {
-    switch (patch.op) {
-      case "appendNode": {
-        const parent = findById(root, patch.parentId);
-        if (!parent) throw new ParseError(`appendNode: parent "${patch.parentId}" not found.`);
-        assertNotSealed(root, parent, opts);
-        const newNode = parseFragment(patch.nodeXml);
-        const imported = doc.importNode ? doc.importNode(newNode as any, true) : (newNode as any);
-        const children = Array.from(parent.childNodes ?? []).filter(isElementNode);
-        if (patch.index == null || patch.index >= children.length) {
-          requireMethod<(child: NodeLike) => void>(parent, "appendChild", "appendNode")(imported);
-        } else {
-          requireMethod<(child: NodeLike, ref: NodeLike | null) => void>(
-            parent,
-            "insertBefore",
-            "appendNode"
-          )(imported, children[patch.index] as any);
-        }
-        break;
+type DocumentLike = ReturnType<typeof parseDocument>["doc"];
+
+/**
+ * Apply one patch in place and return the patches that undo it, worked out before the change.
+ */
+const applyPatch = (doc: DocumentLike, root: ElementLike, patch: VomPatch, opts?: PatchOptions): VomPatch[] => {
+  switch (patch.op) {
+    case "appendNode": {
+      const parent = findById(root, patch.parentId);
+      if (!parent) throw new ParseError(`appendNode: parent "${patch.parentId}" not found.`);
+      assertNotSealed(root, parent, opts);
+      const newNode = parseFragment(patch.nodeXml);
+      const newId = newNode.getAttribute?.("id");
+      const inverse = newId ? { op: "removeNode" as const, nodeId: newId } : restoreAncestor(root, parent, "appendNode");
+      const imported = doc.importNode ? doc.importNode(newNode as any, true) : (newNode as any);
+      const children = Array.from(parent.childNodes ?? []).filter(isElementNode);
+      if (patch.index == null || patch.index >= children.length) {
+        requireMethod<(child: NodeLike) => void>(parent, "appendChild", "appendNode")(imported);
+      } else {
+        requireMethod<(child: NodeLike, ref: NodeLike | null) => void>(
+          parent,
+          "insertBefore",
+          "appendNode"
+        )(imported, children[patch.index] as any);
       }
-      case "removeNode": {
-        const target = findById(root, patch.nodeId);
-        if (!target || !target.parentNode) {
-          throw new ParseError(`removeNode: node "${patch.nodeId}" not found.`);
-        }
-        assertNotSealed(root, target, opts);
-        requireMethod<(child: NodeLike) => void>(target.parentNode, "removeChild", "removeNode")(
-          target as any
-        );
-        break;
+      return [inverse];
+    }
+    case "removeNode": {
+      const target = findById(root, patch.nodeId);
+      if (!target || !target.parentNode) {
+        throw new ParseError(`removeNode: node "${patch.nodeId}" not found.`);
       }
-      case "setAttr": {
-        const target = findById(root, patch.nodeId);
-        if (!target) throw new ParseError(`setAttr: node "${patch.nodeId}" not found.`);
-        assertNotSealed(root, target, opts);
-        if (patch.value == null) {
-          requireMethod<(name: string) => void>(target, "removeAttribute", "setAttr")(patch.name);
-        } else {
-          requireMethod<(name: string, value: string) => void>(target, "setAttribute", "setAttr")(
-            patch.name,
-            patch.value
-          );
-        }
-        break;
+      assertNotSealed(root, target, opts);
+      const parent = target.parentNode as ElementLike;
+      const parentId = parent.getAttribute?.("id");
+      const inverse: VomPatch = parentId
+        ? { op: "appendNode", parentId, nodeXml: serializeNode(target), index: elementIndex(target) }
+        : restoreAncestor(root, parent, "removeNode");
+      requireMethod<(child: NodeLike) => void>(target.parentNode, "removeChild", "removeNode")(
+        target as any
+      );
+      return [inverse];
+    }
+    case "setAttr": {
+      const target = findById(root, patch.nodeId);
+      if (!target) throw new ParseError(`setAttr: node "${patch.nodeId}" not found.`);
+      assertNotSealed(root, target, opts);
+      const previous = target.getAttribute?.(patch.name) || null;
+      let inverse: VomPatch;
+      if (patch.name !== "id") {
+        inverse = { op: "setAttr", nodeId: patch.nodeId, name: patch.name, value: previous };
+      } else if (patch.value) {
+        // The element is only addressable by its new id afterwards.
+        inverse = { op: "setAttr", nodeId: patch.value, name: "id", value: previous };
+      } else {
+        inverse = restoreAncestor(root, target.parentNode as ElementLike, "setAttr");
       }
-      case "setText": {
-        const target = findById(root, patch.nodeId);
-        if (!target) throw new ParseError(`setText: node "${patch.nodeId}" not found.`);
-        assertNotSealed(root, target, opts);
-        (target as any).textContent = patch.textContent;
-        break;
+      if (patch.value == null) {
+        requireMethod<(name: string) => void>(target, "removeAttribute", "setAttr")(patch.name);
+      } else {
+        requireMethod<(name: string, value: string) => void>(target, "setAttribute", "setAttr")(
+          patch.name,
+          patch.value
+        );
       }
-      case "replaceSubtree": {
-        const target = findById(root, patch.nodeId);
-        if (!target || !target.parentNode) {
-          throw new ParseError(`replaceSubtree: node "${patch.nodeId}" not found.`);
-        }
-        assertNotSealed(root, target, opts);
-        const newNode = parseFragment(patch.nodeXml);
-        const imported = doc.importNode ? doc.importNode(newNode as any, true) : (newNode as any);
-        requireMethod<(newChild: NodeLike, oldChild: NodeLike) => void>(
-          target.parentNode,
-          "replaceChild",
-          "replaceSubtree"
-        )(imported, target as any);
-        break;
+      return [inverse];
+    }
+    case "setText": {
+      const target = findById(root, patch.nodeId);
+      if (!target) throw new ParseError(`setText: node "${patch.nodeId}" not found.`);
+      assertNotSealed(root, target, opts);
+      // Setting text drops child elements, so those need the whole subtree back.
+      const hasElements = Array.from(target.childNodes ?? []).some(isElementNode);
+      const inverse: VomPatch = hasElements
+        ? { op: "replaceSubtree", nodeId: patch.nodeId, nodeXml: serializeNode(target) }
+        : { op: "setText", nodeId: patch.nodeId, textContent: (target as any).textContent ?? "" };
+      (target as any).textContent = patch.textContent;
+      return [inverse];
+    }
+    case "replaceSubtree": {
+      const target = findById(root, patch.nodeId);
+      if (!target || !target.parentNode) {
+        throw new ParseError(`replaceSubtree: node "${patch.nodeId}" not found.`);
       }
-      case "sealScene": {
-        const scene = findById(root, patch.sceneId);
-        if (!scene || scene.tagName !== "scene") {
-          throw new ParseError(`sealScene: scene "${patch.sceneId}" not found.`);
-        }
-        requireMethod<(name: string, value: string) => void>(scene, "setAttribute", "sealScene")(
-          "sealed",
-          "true"
-        );
-        break;
+      assertNotSealed(root, target, opts);
+      const newNode = parseFragment(patch.nodeXml);
+      const newId = newNode.getAttribute?.("id");
+      const inverse: VomPatch = newId
+        ? { op: "replaceSubtree", nodeId: newId, nodeXml: serializeNode(target) }
+        : restoreAncestor(root, target.parentNode as ElementLike, "replaceSubtree");
+      const imported = doc.importNode ? doc.importNode(newNode as any, true) : (newNode as any);
+      requireMethod<(newChild: NodeLike, oldChild: NodeLike) => void>(
+        target.parentNode,
+        "replaceChild",
+        "replaceSubtree"
+      )(imported, target as any);
+      return [inverse];
+    }
+    case "sealScene": {
+      const scene = findById(root, patch.sceneId);
+      if (!scene || scene.tagName !== "scene") {
+        throw new ParseError(`sealScene: scene "${patch.sceneId}" not found.`);
       }
+      const previous = scene.getAttribute?.("sealed") || null;
+      requireMethod<(name: string, value: string) => void>(scene, "setAttribute", "sealScene")(
+        "sealed",
+        "true"
+      );
+      return [{ op: "setAttr", nodeId: patch.sceneId, name: "sealed", value: previous }];
     }
   }
+};
 
-  return serializer.serializeToString(doc);
+export const applyVomPatches = (xml: string, patches: VomPatch[], opts?: PatchOptions): string => {
+  const { doc, root } = parseDocument(xml);
+  for (const patch of patches) {
+    applyPatch(doc, root, patch, opts);
+  }
+  return new XMLSerializer().serializeToString(doc);
 };
+
+/**
+ * Apply patches all-or-nothing: they run against a private copy of the document, so a failing patch
+ * leaves nothing half-applied. Also returns the inverse patches, in the order to apply them.
+ */
+export const applyVomPatchBatch = (xml: string, patches: VomPatch[], opts?: PatchOptions): VomBatchResult => {
+  const { doc, root } = parseDocument(xml);
+  const inverse: VomPatch[] = [];
+  patches.forEach((patch, index) => {
+    try {
+      inverse.unshift(...applyPatch(doc, root, patch, opts));
+    } catch (err) {
+      if (!(err instanceof ParseError)) throw err;
+      throw new ParseError(`Patch ${index + 1} of ${patches.length} failed, nothing was applied: ${err.reason}`);
+    }
+  });
+  return { xml: new XMLSerializer().serializeToString(doc), inverse };
+};
+
+export type VomPatchSessionOptions = PatchOptions & {
+  /** A change log saved from an earlier session whose result is the `xml` passed in. */
+  changeLog?: VomChangeLogEntry[];
+  now?: () => Date;
+};
+
+/**
+ * A document being edited live: each batch is applied atomically and recorded in a change log that
+ * can be saved with `toJSON()` and used to resume the session, undo/redo stacks included. Undo and
+ * redo skip the sealed-scene check, since they only restore states that were accepted before.
+ */
+export class VomPatchSession {
+  private current: string;
+  private readonly log: VomChangeLogEntry[];
+  private undoStack: VomChangeLogEntry[] = [];
+  private redoStack: VomChangeLogEntry[] = [];
+
+  constructor(xml: string, private readonly opts: VomPatchSessionOptions = {}) {
+    this.current = xml;
+    this.log = [...(opts.changeLog ?? [])];
+    // Replay the log to rebuild the undo/redo stacks.
+    for (const entry of this.log) {
+      if (entry.action === "apply") {
+        this.undoStack.push(entry);
+        this.redoStack = [];
+      } else if (entry.action === "undo") {
+        const undone = this.undoStack.pop();
+        if (undone) this.redoStack.push(undone);
+      } else {
+        const redone = this.redoStack.pop();
+        if (redone) this.undoStack.push(redone);
+      }
+    }
+  }
+
+  get xml(): string {
+    return this.current;
+  }
+
+  get changeLog(): readonly VomChangeLogEntry[] {
+    return this.log;
+  }
+
+  get canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  get canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  apply(batch: VomPatchBatch): VomChangeLogEntry {
+    const result = applyVomPatchBatch(this.current, batch.patches, this.opts);
+    const entry = this.record({
+      id: batch.id ?? this.nextId(),
+      action: "apply",
+      author: batch.author,
+      timestamp: batch.timestamp ?? this.timestamp(),
+      message: batch.message,
+      patches: batch.patches,
+      inverse: result.inverse,
+    });
+    this.current = result.xml;
+    this.undoStack.push(entry);
+    this.redoStack = [];
+    return entry;
+  }
+
+  /**
+   * Revert the most recent applied batch; returns null when there is nothing to undo.
+   */
+  undo(author: string, message?: string): VomChangeLogEntry | null {
+    const target = this.undoStack[this.undoStack.length - 1];
+    if (!target) return null;
+    const result = applyVomPatchBatch(this.current, target.inverse);
+    this.undoStack.pop();
+    this.redoStack.push(target);
+    this.current = result.xml;
+    return this.record({
+      id: this.nextId(),
+      action: "undo",
+      author,
+      timestamp: this.timestamp(),
+      message,
+      target: target.id,
+      patches: target.inverse,
+      inverse: result.inverse,
+    });
+  }
+
+  /**
+   * Re-apply the most recently undone batch; returns null when there is nothing to redo.
+   */
+  redo(author: string, message?: string): VomChangeLogEntry | null {
+    const target = this.redoStack[this.redoStack.length - 1];
+    if (!target) return null;
+    const result = applyVomPatchBatch(this.current, target.patches);
+    this.redoStack.pop();
+    this.undoStack.push(target);
+    this.current = result.xml;
+    return this.record({
+      id: this.nextId(),
+      action: "redo",
+      author,
+      timestamp: this.timestamp(),
+      message,
+      target: target.id,
+      patches: target.patches,
+      inverse: result.inverse,
+    });
+  }
+
+  toJSON(): { xml: string; changeLog: VomChangeLogEntry[] } {
+    return { xml: this.current, changeLog: [...this.log] };
+  }
+
+  private record(entry: VomChangeLogEntry): VomChangeLogEntry {
+    if (this.log.some((existing) => existing.id === entry.id)) {
+      throw new ParseError(`Change log already has an entry "${entry.id}".`);
+    }
+    this.log.push(entry);
+    return entry;
+  }
+
+  private nextId(): string {
+    return `change-${this.log.length + 1}`;
+  }
+
+  private timestamp(): string {
+    return (this.opts.now?.() ?? new Date()).toISOString();
+  }
+}
@@ -0,0 +1,41 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { buildVideoMlJsonSchema, buildVideoMlXsd, componentTagName } from "./xml-schema.js";
+
+describe("VideoML schemas", () => {
+  it("maps component names to the tags the parser accepts", () => {
+    assert.equal(componentTagName("CodeBlock"), "code-block");
+    assert.equal(componentTagName("D3BarChart"), "d3-bar-chart");
+    assert.equal(componentTagName("Title"), "title");
+  });
+
+  it("declares built-in attributes so typos fail validation", () => {
+    const xsd = buildVideoMlXsd();
+    const sfx = xsd.slice(xsd.indexOf('<xs:element name="sfx">'), xsd.indexOf('<xs:element name="music">'));
+    assert.match(sfx, /<xs:attribute name="fade-to-after" type="xs:string"\/>/);
+    assert.match(sfx, /<xs:attribute name="volume" type="vml-number"\/>/);
+    assert.doesNotMatch(sfx, /name="fadeto"/);
+    assert.doesNotMatch(sfx, /anyAttribute/);
+  });
+
+  it("types component attributes from prop schemas", () => {
+    const xsd = buildVideoMlXsd({ components: ["CodeBlock", "Title"] });
+    const codeBlock = xsd.slice(xsd.indexOf('<xs:element name="code-block">'), xsd.indexOf('<xs:element name="title">'));
+    assert.match(codeBlock, /<xs:attribute name="code" type="xs:string" use="required"\/>/);
+    assert.match(codeBlock, /<xs:attribute name="show-line-numbers" type="vml-boolean"\/>/);
+    assert.match(codeBlock, /<xs:enumeration value="dracula"\/>/);
+    // Title has no prop schema, so it accepts any attribute.
+    assert.match(xsd.slice(xsd.indexOf('<xs:element name="title">')), /<xs:anyAttribute processContents="skip"\/>/);
+  });
+
+  it("describes the same vocabulary as JSON Schema", () => {
+    const schema = buildVideoMlJsonSchema({ components: ["LowerThird", "Title"] }) as any;
+    const scene = schema.$defs["element-scene"];
+    assert.equal(scene.properties.attributes.additionalProperties, false);
+    assert.deepEqual(scene.properties.attributes.required, ["id"]);
+    assert.ok(scene.properties.children.items.anyOf.some((ref: any) => ref.$ref === "#/$defs/element-lower-third"));
+    const lowerThird = schema.$defs["element-lower-third"].properties.attributes;
+    assert.deepEqual(lowerThird.properties.style.anyOf[0], { enum: ["minimal", "corporate", "broadcast", "modern"] });
+    assert.deepEqual(schema.$defs["element-title"].properties.attributes.additionalProperties, { type: "string" });
+  });
+});
@@ -0,0 +1,249 @@
+import { writeFileSync } from "fs";
+import { join } from "path";
+import {
+  listPropSchemas,
+  type PropSchema,
+  type PropSchemaField,
+} from "../../packages/renderer/src/components/prop-schema.js";
+import { ensureDir } from "../util.js";
+import {
+  ANY,
+  BUILTIN_VOCABULARY,
+  COMPONENT_ATTRIBUTES,
+  COMPONENTS,
+  CONDITION_ATTRIBUTES,
+  ROOT_TAGS,
+  type AttributeDef,
+  type TagDef,
+} from "./vocabulary.js";
+
+export type XmlSchemaOptions = {
+  /**
+   * Registered component names to describe (e.g. the renderer's `listComponents()`). Components with
+   * a prop schema get typed attributes; the rest accept any attribute. Defaults to the components
+   * that have a prop schema.
+   */
+  components?: Iterable<string>;
+  /** Prop schemas by component name (default: `listPropSchemas()`). */
+  propSchemas?: Record<string, PropSchema>;
+};
+
+type ComponentTag = { tag: string; def: TagDef };
+
+/** `CodeBlock` -> `code-block`, the inverse of the parser's tag-to-type mapping. */
+export const componentTagName = (name: string) => name.replace(/([a-z0-9])([A-Z])/g, "$1-$2").toLowerCase();
+
+const toKebabCase = (value: string) => value.replace(/[A-Z]/g, (letter) => `-${letter.toLowerCase()}`);
+
+const propAttribute = (name: string, field: PropSchemaField): AttributeDef => ({
+  name: toKebabCase(name),
+  type: field.type === "array" || field.type === "object" ? "json" : field.type,
+  enum: field.enum?.map(String),
+  required: field.required,
+  description: field.description,
+});
+
+const componentTags = (options: XmlSchemaOptions): ComponentTag[] => {
+  const schemas = options.propSchemas ?? listPropSchemas();
+  const names = Array.from(new Set(options.components ?? Object.keys(schemas))).sort();
+  const reserved = new Set(COMPONENT_ATTRIBUTES.map((attribute) => attribute.name));
+  return names
+    .map((name) => ({ name, tag: componentTagName(name) }))
+    .filter(({ tag }) => !BUILTIN_VOCABULARY[tag])
+    .map(({ name, tag }) => {
+      const schema = schemas[name];
+      const props = Object.entries(schema?.props ?? {})
+        .map(([prop, field]) => propAttribute(prop, field))
+        .filter((attribute) => !reserved.has(attribute.name));
+      return {
+        tag,
+        def: {
+          description: schema?.description ?? `The ${name} component.`,
+          attributes: [...COMPONENT_ATTRIBUTES, ...props],
+          openAttributes: !schema,
+        },
+      };
+    });
+};
+
+const childTags = (def: TagDef, components: ComponentTag[]): string[] =>
+  (def.children ?? []).flatMap((child) => (child === COMPONENTS ? components.map((component) => component.tag) : [child]));
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+// Any attribute may hold a `{{ placeholder }}` that is only resolved at load time.
+const TEMPLATE_PATTERN = ".*\\{\\{.*\\}\\}.*";
+const XSD_TYPES: Record<AttributeDef["type"], string> = {
+  string: "xs:string",
+  time: "xs:string",
+  json: "xs:string",
+  number: "vml-number",
+  integer: "vml-integer",
+  boolean: "vml-boolean",
+};
+
+/**
+ * XML Schema (XSD 1.0) for VideoML documents, for editors that validate XML as you type.
+ */
+export function buildVideoMlXsd(options: XmlSchemaOptions = {}): string {
+  const components = componentTags(options);
+  const lines: string[] = [];
+  const documentation = (text: string, indent: string) => {
+    lines.push(`${indent}<xs:annotation><xs:documentation>${escapeXml(text)}</xs:documentation></xs:annotation>`);
+  };
+  const attribute = (def: AttributeDef, indent: string) => {
+    const use = def.required ? ' use="required"' : "";
+    if (!def.enum) {
+      lines.push(`${indent}<xs:attribute name="${def.name}" type="${XSD_TYPES[def.type]}"${use}/>`);
+      return;
+    }
+    lines.push(`${indent}<xs:attribute name="${def.name}"${use}>`);
+    lines.push(`${indent}  <xs:simpleType>`);
+    lines.push(`${indent}    <xs:union memberTypes="vml-template">`);
+    lines.push(`${indent}      <xs:simpleType>`);
+    lines.push(`${indent}        <xs:restriction base="xs:string">`);
+    for (const value of def.enum) {
+      lines.push(`${indent}          <xs:enumeration value="${escapeXml(value)}"/>`);
+    }
+    lines.push(`${indent}        </xs:restriction>`);
+    lines.push(`${indent}      </xs:simpleType>`);
+    lines.push(`${indent}    </xs:union>`);
+    lines.push(`${indent}  </xs:simpleType>`);
+    lines.push(`${indent}</xs:attribute>`);
+  };
+  const attributes = (def: TagDef, indent: string) => {
+    for (const attr of [...def.attributes, ...CONDITION_ATTRIBUTES]) attribute(attr, indent);
+    if (def.openAttributes) lines.push(`${indent}<xs:anyAttribute processContents="skip"/>`);
+  };
+  const element = (tag: string, def: TagDef) => {
+    const children = childTags(def, components);
+    lines.push(`  <xs:element name="${tag}">`);
+    documentation(def.description, "    ");
+    if (def.text && children.length === 0) {
+      lines.push("    <xs:complexType>");
+      lines.push("      <xs:simpleContent>");
+      lines.push('        <xs:extension base="xs:string">');
+      attributes(def, "          ");
+      lines.push("        </xs:extension>");
+      lines.push("      </xs:simpleContent>");
+      lines.push("    </xs:complexType>");
+      lines.push("  </xs:element>");
+      return;
+    }
+    lines.push(`    <xs:complexType${def.text ? ' mixed="true"' : ""}>`);
+    if (children.includes(ANY)) {
+      lines.push("      <xs:sequence>");
+      lines.push('        <xs:any minOccurs="0" maxOccurs="unbounded" processContents="lax"/>');
+      lines.push("      </xs:sequence>");
+    } else if (children.length > 0) {
+      lines.push('      <xs:choice minOccurs="0" maxOccurs="unbounded">');
+      for (const child of children) lines.push(`        <xs:element ref="${child}"/>`);
+      lines.push("      </xs:choice>");
+    }
+    attributes(def, "      ");
+    lines.push("    </xs:complexType>");
+    lines.push("  </xs:element>");
+  };
+  const simpleUnion = (name: string, base: string, restriction: string[] = []) => {
+    lines.push(`  <xs:simpleType name="${name}">`);
+    lines.push('    <xs:union memberTypes="vml-template">');
+    lines.push("      <xs:simpleType>");
+    lines.push(`        <xs:restriction base="${base}">`);
+    for (const line of restriction) lines.push(`          ${line}`);
+    lines.push("        </xs:restriction>");
+    lines.push("      </xs:simpleType>");
+    lines.push("    </xs:union>");
+    lines.push("  </xs:simpleType>");
+  };
+
+  lines.push('<?xml version="1.0" encoding="UTF-8"?>');
+  lines.push("<!-- Generated from the VideoML vocabulary and component prop schemas; do not edit by hand. -->");
+  lines.push('<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema" elementFormDefault="qualified">');
+  lines.push('  <xs:simpleType name="vml-template">');
+  lines.push('    <xs:restriction base="xs:string">');
+  lines.push(`      <xs:pattern value="${TEMPLATE_PATTERN}"/>`);
+  lines.push("    </xs:restriction>");
+  lines.push("  </xs:simpleType>");
+  simpleUnion("vml-number", "xs:decimal");
+  simpleUnion("vml-integer", "xs:integer");
+  simpleUnion("vml-boolean", "xs:string", ['<xs:enumeration value="true"/>', '<xs:enumeration value="false"/>']);
+  for (const [tag, def] of Object.entries(BUILTIN_VOCABULARY)) element(tag, def);
+  for (const component of components) element(component.tag, component.def);
+  lines.push("</xs:schema>");
+  return `${lines.join("\n")}\n`;
+}
+
+const TEMPLATE_REF = { $ref: "#/$defs/template" };
+const JSON_PATTERNS: Partial<Record<AttributeDef["type"], string>> = {
+  number: "^[-+]?\\d+(\\.\\d+)?$",
+  integer: "^[-+]?\\d+$",
+  boolean: "^(true|false)$",
+};
+
+const jsonAttribute = (def: AttributeDef): Record<string, unknown> => {
+  const annotations = {
+    ...(def.description ? { description: def.description } : {}),
+    ...(def.type === "time" ? { format: "videoml-time" } : def.type === "json" ? { contentMediaType: "application/json" } : {}),
+  };
+  if (def.enum) return { ...annotations, anyOf: [{ enum: [...def.enum] }, TEMPLATE_REF] };
+  const pattern = JSON_PATTERNS[def.type];
+  if (pattern) return { ...annotations, anyOf: [{ type: "string", pattern }, TEMPLATE_REF] };
+  return { ...annotations, type: "string" };
+};
+
+/**
+ * JSON Schema (2020-12) for VideoML documents in element-tree form: every element is
+ * `{ tag, attributes?, children?, text? }`, with attribute values kept as the strings XML carries.
+ */
+export function buildVideoMlJsonSchema(options: XmlSchemaOptions = {}): Record<string, unknown> {
+  const components = componentTags(options);
+  const ref = (tag: string) => ({ $ref: `#/$defs/element-${tag}` });
+  const definition = (tag: string, def: TagDef) => {
+    const attributes = [...def.attributes, ...CONDITION_ATTRIBUTES];
+    const required = attributes.filter((attribute) => attribute.required).map((attribute) => attribute.name);
+    const children = childTags(def, components);
+    const everyTag = [...Object.keys(BUILTIN_VOCABULARY), ...components.map((component) => component.tag)];
+    const childRefs = (children.includes(ANY) ? everyTag : children).map(ref);
+    return {
+      description: def.description,
+      type: "object",
+      properties: {
+        tag: { const: tag },
+        attributes: {
+          type: "object",
+          properties: Object.fromEntries(attributes.map((attribute) => [attribute.name, jsonAttribute(attribute)])),
+          ...(required.length > 0 ? { required } : {}),
+          additionalProperties: def.openAttributes ? { type: "string" } : false,
+        },
+        ...(childRefs.length > 0 ? { children: { type: "array", items: { anyOf: childRefs } } } : {}),
+        ...(def.text ? { text: { type: "string" } } : {}),
+      },
+      required: required.length > 0 ? ["tag", "attributes"] : ["tag"],
+      additionalProperties: false,
+    };
+  };
+  return {
+    $schema: "https://json-schema.org/draft/2020-12/schema",
+    title: "VideoML",
+    description: "A VideoML document as an element tree: { tag, attributes, children, text }.",
+    anyOf: ROOT_TAGS.map(ref),
+    $defs: {
+      template: { type: "string", pattern: TEMPLATE_PATTERN, description: "A {{ placeholder }} resolved at load time." },
+      ...Object.fromEntries(Object.entries(BUILTIN_VOCABULARY).map(([tag, def]) => [`element-${tag}`, definition(tag, def)])),
+      ...Object.fromEntries(components.map(({ tag, def }) => [`element-${tag}`, definition(tag, def)])),
+    },
+  };
+}
+
+/**
+ * Write `videoml.xsd` and `videoml.schema.json` into `outDir`.
+ */
+export function writeVideoMlSchemas(outDir: string, options: XmlSchemaOptions = {}): { xsdPath: string; jsonSchemaPath: string } {
+  ensureDir(outDir);
+  const xsdPath = join(outDir, "videoml.xsd");
+  const jsonSchemaPath = join(outDir, "videoml.schema.json");
+  writeFileSync(xsdPath, buildVideoMlXsd(options));
+  writeFileSync(jsonSchemaPath, `${JSON.stringify(buildVideoMlJsonSchema(options), null, 2)}\n`);
+  return { xsdPath, jsonSchemaPath };
+}
@@ -0,0 +1,120 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { CompileError } from "../errors.js";
+import { defineVideo } from "./builder.js";
+import type { ComponentSpec, SceneSpec, VideoFileSpec } from "./types.js";
+import { loadVideoFileFromXml } from "./xml.js";
+import { serializeCompositionToXml, serializeVideoFileToXml } from "./xml-serialize.js";
+
+const SOURCE = `
+<vml id="demo" title="Demo" fps="24" width="1920" height="1080" poster="1s">
+  <vars brand="Acme" />
+  <voiceover provider="dummy" voice="v1" leadInSeconds="0.25s" loudnessTarget="-16" />
+  <scene id="intro" title="Intro" duration="4s" styles='{"background":"#000"}' transition="fade" transition-duration="0.5s">
+    <cue id="hello" label="Say hi">
+      <voice trim-end="0.1s">Hello &amp; welcome
+        to "{{ brand }}".</voice>
+      <pause seconds="0.3s" />
+      <bullet>First &lt; second</bullet>
+    </cue>
+    <pause mean="0.4s" std="0.1s" min="0.2s" />
+    <layer id="bg" z="-1" styles='{"opacity":0.5}'>
+      <title text="Welcome" />
+    </layer>
+    <sequence start="0.5s">
+      <title id="a" duration="1s" text="One" />
+      <title id="b" duration="1.5s" text="Two" size="42" />
+    </sequence>
+    <lower-third id="lt" start="cue(hello).end + 0.2s" duration="2s" name="Ada" entrance-frames="12" position='{"x":40,"y":600}' />
+    <music id="bed" start="0s" volume="0.4" prompt="soft piano" duck="voice" duck-depth="0.3" fade-out="0" fade-out-before="1s" fade-out-duration="1s" />
+  </scene>
+  <transition id="swap" duration="0.75s" effect="slide" props='{"direction":"left"}' />
+  <mark id="beat" at="5s" />
+  <scene id="outro" duration="3s" if="brand">
+    <cue id="bye"><voice>Bye.</voice></cue>
+    <sfx id="ding" start="cue(bye).end" prompt="bell" clip-duration="1s" />
+  </scene>
+  <narration id="aside" start="8s">
+    <cue id="note"><voice>One more thing.</voice></cue>
+  </narration>
+  <series id="weekly">
+    <episode id="ep1" brand="Beta" />
+  </series>
+</vml>
+`;
+
+const firstScene = (file: VideoFileSpec) => file.compositions[0].timeline[0] as SceneSpec;
+
+describe("serializeVideoFileToXml", () => {
+  it("round-trips through the XML loader", () => {
+    const loaded = loadVideoFileFromXml(SOURCE, { vars: { brand: "Acme" } });
+    const xml = serializeVideoFileToXml(loaded);
+    assert.deepEqual(loadVideoFileFromXml(xml), loaded);
+    // Canonical output is stable.
+    assert.equal(serializeVideoFileToXml(loadVideoFileFromXml(xml)), xml);
+  });
+
+  it("writes sequence children with the absolute times the parser gave them", () => {
+    const xml = serializeVideoFileToXml(loadVideoFileFromXml(SOURCE, { vars: { brand: "Acme" } }));
+    assert.match(xml, /<title id="b" start="1.5s" end="3s" text="Two" size="42" \/>/);
+    assert.doesNotMatch(xml, /<sequence/);
+    assert.match(xml, /start="cue\(hello\).end \+ 0.2s"/);
+  });
+
+  it("keeps strings that would be read back as numbers in the props JSON", () => {
+    const component: ComponentSpec = { id: "zip", type: "Title", props: { text: "00123", size: 42, ok: true } };
+    const file = loadVideoFileFromXml(`<vml id="p"><scene id="s" duration="1s"></scene></vml>`);
+    firstScene(file).components = [component];
+    const xml = serializeVideoFileToXml(file);
+    assert.match(xml, /<title id="zip" props="\{&quot;text&quot;:&quot;00123&quot;\}" size="42" ok="true" \/>/);
+    assert.deepEqual(firstScene(loadVideoFileFromXml(xml)).components?.[0]?.props, component.props);
+  });
+
+  it("moves builder audio plan clips into their scenes", () => {
+    const file = defineVideo("Built", (video) => {
+      video.scene("Only", (scene) => {
+        scene.cue("Line", (cue) => cue.voice((voice) => voice.say("Hi.")));
+        scene.music("theme", { at: 1, volume: 0.5, prompt: "synth" });
+      });
+    }) as VideoFileSpec;
+    const xml = serializeCompositionToXml(file.compositions[0]);
+    assert.match(xml, /<music id="theme" start="1s" volume="0.5" prompt="synth" \/>/);
+    const audio = firstScene(loadVideoFileFromXml(xml)).audio ?? [];
+    assert.equal(audio[0]?.id, "theme");
+    assert.deepEqual(audio[0]?.time, { start: 1 });
+  });
+
+  it("offsets absolute audio plan clips by the start of the scene that hosts them", () => {
+    const file = defineVideo("Late", (video) => {
+      video.scene("Late", { start: 2, duration: 4 }, (scene) => {
+        scene.cue("Line", (cue) => cue.voice((voice) => voice.say("Hi.")));
+      });
+    }) as VideoFileSpec;
+    const composition = file.compositions[0];
+    composition.audioPlan = {
+      tracks: [
+        {
+          id: "sfx",
+          kind: "sfx",
+          clips: [
+            { id: "ding", kind: "sfx", start: { kind: "absolute", sec: 3 } },
+            { id: "early", kind: "sfx", start: { kind: "absolute", sec: 0.5 } },
+          ],
+        },
+      ],
+    };
+    const audio = firstScene(loadVideoFileFromXml(serializeCompositionToXml(composition))).audio ?? [];
+    assert.deepEqual(audio[0]?.time, { start: 1 });
+    assert.equal(audio[1]?.deferredTime?.start?.expr, "scene(late).start - 1.5s");
+  });
+
+  it("rejects what XML can't express unless told to skip it", () => {
+    const file = loadVideoFileFromXml(`<vml id="p"><scene id="s" duration="1s"></scene></vml>`);
+    firstScene(file).components = [{ id: "c", type: "Title", bindings: { text: "scene.title" } } as ComponentSpec];
+    assert.throws(() => serializeVideoFileToXml(file), CompileError);
+    const skipped: string[] = [];
+    serializeVideoFileToXml(file, { onUnsupported: (message) => skipped.push(message) });
+    assert.deepEqual(skipped, ['component "c" bindings have no XML form.']);
+    assert.throws(() => serializeVideoFileToXml({ compositions: [] }), /exactly one composition/);
+  });
+});
@@ -0,0 +1,548 @@
+import { CompileError } from "../errors.js";
+import { getPropSchema, coercePropValue } from "../../packages/renderer/src/components/prop-schema.js";
+import type {
+  AudioClipSpec,
+  AudioElementSpec,
+  ComponentSpec,
+  CompositionSpec,
+  ConditionSpec,
+  CueSpec,
+  DeferredTimingSpec,
+  LayerSpec,
+  MarkSpec,
+  NarrationSpec,
+  PauseSpec,
+  SceneSpec,
+  SeriesSpec,
+  TimeRange,
+  TransitionRef,
+  TransitionSpec,
+  VideoFileSpec,
+  VoiceoverConfig,
+} from "./types.js";
+import { deferTimeValue } from "./time-expr.js";
+import { BUILTIN_VOCABULARY } from "./vocabulary.js";
+import { componentTagName } from "./xml-schema.js";
+
+export type XmlSerializeOptions = {
+  /**
+   * Called for parts of the spec VideoML XML can't express (React component types, bindings,
+   * builder-only voiceover settings, ...). Defaults to throwing a CompileError.
+   */
+  onUnsupported?: (message: string) => void;
+};
+
+type XmlNode = {
+  tag: string;
+  attrs: Array<[string, string]>;
+  children: XmlNode[];
+  text?: string;
+};
+
+const escapeText = (value: string) => value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+// Newlines and tabs would be normalized to spaces by the XML parser unless written as references.
+const escapeAttribute = (value: string) =>
+  escapeText(value)
+    .replace(/"/g, "&quot;")
+    .replace(/\n/g, "&#10;")
+    .replace(/\r/g, "&#13;")
+    .replace(/\t/g, "&#9;");
+
+const render = (node: XmlNode, indent: string, lines: string[]) => {
+  const attrs = node.attrs.map(([name, value]) => ` ${name}="${escapeAttribute(value)}"`).join("");
+  if (node.text != null) {
+    lines.push(`${indent}<${node.tag}${attrs}>${escapeText(node.text)}</${node.tag}>`);
+    return;
+  }
+  if (node.children.length === 0) {
+    lines.push(`${indent}<${node.tag}${attrs} />`);
+    return;
+  }
+  lines.push(`${indent}<${node.tag}${attrs}>`);
+  for (const child of node.children) render(child, `${indent}  `, lines);
+  lines.push(`${indent}</${node.tag}>`);
+};
+
+const formatNumber = (value: number) =>
+  String(value).includes("e") ? value.toFixed(12).replace(/\.?0+$/, "") : String(value);
+
+const formatSeconds = (value: number) => `${formatNumber(value)}s`;
+
+const looksLikeNumber = (value: string) => /^[-+]?\d+(\.\d+)?$/.test(value);
+
+/** The value the parser would guess for an attribute on a component without a prop schema. */
+const guessedValue = (raw: string): unknown =>
+  raw === "true" ? true : raw === "false" ? false : looksLikeNumber(raw) ? Number.parseFloat(raw) : raw;
+
+const toKebabCase = (value: string) => value.replace(/[A-Z]/g, (letter) => `-${letter.toLowerCase()}`);
+const toCamelCase = (value: string) => value.replace(/-([a-z])/g, (_, letter: string) => letter.toUpperCase());
+const toPascalCase = (value: string) =>
+  value
+    .split("-")
+    .filter(Boolean)
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join("");
+
+const COMPONENT_RESERVED = new Set(["id", "visible", "z", "start", "end", "duration", "styles", "markup", "props", "if", "unless"]);
+
+class XmlWriter {
+  constructor(private readonly onUnsupported: (message: string) => void) {}
+
+  node(tag: string, children: XmlNode[] = []): XmlNode {
+    return { tag, attrs: [], children };
+  }
+
+  set(node: XmlNode, name: string, value: string | number | boolean | null | undefined): void {
+    if (value == null) return;
+    node.attrs.push([name, typeof value === "number" ? formatNumber(value) : String(value)]);
+  }
+
+  seconds(node: XmlNode, name: string, value: number | null | undefined): void {
+    if (value == null) return;
+    node.attrs.push([name, formatSeconds(value)]);
+  }
+
+  json(node: XmlNode, name: string, value: unknown): void {
+    if (value == null) return;
+    node.attrs.push([name, JSON.stringify(value)]);
+  }
+
+  condition(node: XmlNode, when: ConditionSpec | undefined): void {
+    this.set(node, "if", when?.if);
+    this.set(node, "unless", when?.unless);
+  }
+
+  timeRange(node: XmlNode, time: TimeRange | undefined): void {
+    if (!time) return;
+    if (time.startIsRelative && time.end != null) {
+      // A scene that only declared its duration; it follows whatever comes before it.
+      this.seconds(node, "duration", time.end - time.start);
+      return;
+    }
+    this.seconds(node, "start", time.start);
+    this.seconds(node, "end", time.end);
+  }
+
+  deferred(node: XmlNode, timing: DeferredTimingSpec | undefined): void {
+    this.set(node, "start", timing?.start?.expr);
+    this.set(node, "end", timing?.end?.expr);
+    this.set(node, "duration", timing?.duration?.expr);
+  }
+
+  transitionRef(node: XmlNode, ref: TransitionRef | undefined, effectAttr: string, prefix: string): void {
+    if (!ref) return;
+    this.set(node, effectAttr, ref.effect);
+    this.seconds(node, `${prefix}-duration`, ref.durationSeconds);
+    this.set(node, `${prefix}-ease`, ref.ease);
+    this.json(node, `${prefix}-props`, ref.props);
+  }
+
+  pause(pause: PauseSpec): XmlNode {
+    const node = this.node("pause");
+    if (pause.mode === "fixed") {
+      this.seconds(node, "seconds", pause.seconds);
+    } else {
+      this.seconds(node, "mean", pause.mean);
+      this.seconds(node, "std", pause.std);
+      this.seconds(node, "min", pause.min);
+      this.seconds(node, "max", pause.max);
+    }
+    return node;
+  }
+
+  cue(cue: CueSpec): XmlNode {
+    const node = this.node("cue");
+    this.set(node, "id", cue.id);
+    if (cue.label !== cue.id) this.set(node, "label", cue.label);
+    this.set(node, "provider", cue.provider);
+    this.timeRange(node, cue.time);
+    this.condition(node, cue.when);
+    if (cue.markup) this.onUnsupported(`cue "${cue.id}" markup has no XML form.`);
+    for (const segment of cue.segments) {
+      if (segment.kind === "pause") {
+        node.children.push(this.pause(segment.pause));
+        continue;
+      }
+      const voice = this.node("voice");
+      this.seconds(voice, "trim-end", segment.trimEndSec);
+      voice.text = segment.text;
+      node.children.push(voice);
+    }
+    for (const bullet of cue.bullets) {
+      node.children.push({ ...this.node("bullet"), text: bullet });
+    }
+    return node;
+  }
+
+  component(component: ComponentSpec): XmlNode | null {
+    if (typeof component.type !== "string") {
+      this.onUnsupported(`component "${component.id}" uses a React component as its type; register it by name instead.`);
+      return null;
+    }
+    const tag = componentTagName(component.type);
+    if (toPascalCase(tag) !== component.type || BUILTIN_VOCABULARY[tag]) {
+      this.onUnsupported(`component type "${component.type}" has no XML tag that maps back to it.`);
+      return null;
+    }
+    if (component.bindings && Object.keys(component.bindings).length > 0) {
+      this.onUnsupported(`component "${component.id}" bindings have no XML form.`);
+    }
+    const node = this.node(tag);
+    this.set(node, "id", component.id);
+    this.set(node, "visible", component.visible);
+    this.set(node, "z", component.zIndex);
+    if (component.deferredTiming) {
+      this.deferred(node, component.deferredTiming);
+    } else {
+      this.seconds(node, "start", component.timing?.startSec);
+      this.seconds(node, "end", component.timing?.endSec);
+    }
+    this.json(node, "styles", component.styles);
+    this.json(node, "markup", component.markup);
+    this.condition(node, component.when);
+    this.props(node, component.type, component.props ?? {});
+    return node;
+  }
+
+  /**
+   * Props become attributes when the parser would read them back unchanged; anything else (nested
+   * values, strings that look like numbers on untyped components, ...) goes into the props JSON.
+   */
+  private props(node: XmlNode, type: string, props: Record<string, unknown>): void {
+    const schema = getPropSchema(type);
+    const asJson: Record<string, unknown> = {};
+    const attrs: Array<[string, string]> = [];
+    for (const [key, value] of Object.entries(props)) {
+      if (value === undefined) continue;
+      const name = toKebabCase(key);
+      const raw = typeof value === "string" ? value : typeof value === "number" ? formatNumber(value) : JSON.stringify(value);
+      const field = schema?.props[key];
+      const readBack = field
+        ? (() => {
+            const coerced = coercePropValue(field, raw);
+            return coerced.ok ? coerced.value : Symbol("invalid");
+          })()
+        : guessedValue(raw);
+      const roundTrips =
+        toCamelCase(name) === key &&
+        !COMPONENT_RESERVED.has(name) &&
+        (value === null || typeof value !== "object" || field) &&
+        JSON.stringify(readBack) === JSON.stringify(value) &&
+        typeof readBack === typeof value;
+      if (roundTrips) {
+        attrs.push([name, raw]);
+      } else {
+        asJson[key] = value;
+      }
+    }
+    if (Object.keys(asJson).length > 0) this.json(node, "props", asJson);
+    node.attrs.push(...attrs);
+  }
+
+  visuals(target: XmlNode, container: { layers?: LayerSpec[]; components?: ComponentSpec[] }): void {
+    for (const layer of container.layers ?? []) target.children.push(this.layer(layer));
+    for (const component of container.components ?? []) {
+      const node = this.component(component);
+      if (node) target.children.push(node);
+    }
+  }
+
+  layer(layer: LayerSpec): XmlNode {
+    const node = this.node("layer");
+    this.set(node, "id", layer.id);
+    this.set(node, "visible", layer.visible);
+    this.set(node, "z", layer.zIndex);
+    if (layer.deferredTiming) {
+      this.deferred(node, layer.deferredTiming);
+    } else {
+      this.seconds(node, "start", layer.timing?.startSec);
+      this.seconds(node, "end", layer.timing?.endSec);
+    }
+    this.json(node, "styles", layer.styles);
+    this.json(node, "markup", layer.markup);
+    this.condition(node, layer.when);
+    this.visuals(node, { components: layer.components });
+    return node;
+  }
+
+  audio(audio: AudioElementSpec | (AudioClipSpec & { deferredTime?: DeferredTimingSpec })): XmlNode {
+    const node = this.node(audio.kind === "file" ? "audio" : audio.kind);
+    if (audio.kind === "file") this.set(node, "kind", "file");
+    this.set(node, "id", audio.id);
+    if ("time" in audio && audio.time) {
+      this.timeRange(node, audio.time);
+    } else {
+      this.deferred(node, audio.deferredTime);
+    }
+    this.set(node, "volume", audio.volume);
+    this.set(node, "play-through", audio.playThrough);
+    this.set(node, "source-id", audio.sourceId);
+    this.set(node, "src", audio.src);
+    this.set(node, "prompt", audio.prompt);
+    this.seconds(node, "clip-duration", audio.durationSeconds);
+    this.set(node, "variants", audio.variants);
+    this.set(node, "pick", audio.pick);
+    this.set(node, "model-id", audio.modelId);
+    this.set(node, "force-instrumental", audio.forceInstrumental);
+    if (audio.fadeTo) {
+      this.set(node, "fade-to", audio.fadeTo.volume);
+      this.seconds(node, "fade-to-after", audio.fadeTo.afterSeconds);
+      this.seconds(node, "fade-to-duration", audio.fadeTo.fadeDurationSeconds);
+    }
+    if (audio.fadeOut) {
+      this.set(node, "fade-out", audio.fadeOut.volume);
+      this.seconds(node, "fade-out-before", audio.fadeOut.beforeEndSeconds);
+      this.seconds(node, "fade-out-duration", audio.fadeOut.fadeDurationSeconds);
+    }
+    if (audio.duck) {
+      this.set(node, "duck", audio.duck.under);
+      this.set(node, "duck-depth", audio.duck.depth);
+      this.seconds(node, "duck-attack", audio.duck.attackSeconds);
+      this.seconds(node, "duck-release", audio.duck.releaseSeconds);
+    }
+    if ("when" in audio) this.condition(node, audio.when);
+    return node;
+  }
+
+  scene(scene: SceneSpec, planned: XmlNode[]): XmlNode {
+    const node = this.node("scene");
+    this.set(node, "id", scene.id);
+    if (scene.title !== scene.id) this.set(node, "title", scene.title);
+    this.timeRange(node, scene.time);
+    this.json(node, "styles", scene.styles);
+    this.json(node, "markup", scene.markup);
+    this.transitionRef(node, scene.enter, "enter", "enter");
+    this.transitionRef(node, scene.exit, "exit", "exit");
+    this.transitionRef(node, scene.transitionToNext, "transition", "transition");
+    this.condition(node, scene.when);
+    for (const item of scene.items) {
+      node.children.push(item.kind === "cue" ? this.cue(item) : this.pause(item));
+    }
+    this.visuals(node, scene);
+    for (const audio of scene.audio ?? []) node.children.push(this.audio(audio));
+    node.children.push(...planned);
+    return node;
+  }
+
+  transition(transition: TransitionSpec): XmlNode {
+    const node = this.node("transition");
+    this.set(node, "id", transition.id);
+    this.set(node, "title", transition.title);
+    if (transition.time) {
+      this.timeRange(node, transition.time);
+    } else {
+      this.seconds(node, "duration", transition.durationSeconds);
+    }
+    this.set(node, "effect", transition.effect);
+    this.set(node, "ease", transition.ease);
+    this.json(node, "props", transition.props);
+    this.set(node, "mode", transition.mode);
+    this.set(node, "overflow", transition.overflow);
+    this.set(node, "overflow-audio", transition.overflowAudio);
+    this.json(node, "styles", transition.styles);
+    this.json(node, "markup", transition.markup);
+    this.visuals(node, transition);
+    for (const audio of transition.audio ?? []) node.children.push(this.audio(audio));
+    return node;
+  }
+
+  mark(mark: MarkSpec): XmlNode {
+    const node = this.node("mark");
+    this.set(node, "id", mark.id);
+    this.seconds(node, "at", mark.at);
+    return node;
+  }
+
+  narration(narration: NarrationSpec): XmlNode {
+    const node = this.node("narration");
+    this.set(node, "id", narration.id);
+    this.timeRange(node, narration.time);
+    for (const item of narration.items) {
+      node.children.push(item.kind === "cue" ? this.cue(item) : this.pause(item));
+    }
+    return node;
+  }
+
+  voiceover(voiceover: VoiceoverConfig): XmlNode {
+    const node = this.node("voiceover");
+    this.set(node, "provider", voiceover.provider);
+    this.set(node, "voice", voiceover.voice);
+    this.set(node, "model", voiceover.model);
+    this.set(node, "format", voiceover.format);
+    this.set(node, "sampleRateHz", voiceover.sampleRateHz);
+    this.set(node, "seed", voiceover.seed);
+    this.seconds(node, "leadInSeconds", voiceover.leadInSeconds);
+    this.seconds(node, "trimEndSeconds", voiceover.trimEndSeconds);
+    const loudness = voiceover.loudnessTarget;
+    if (typeof loudness === "number") {
+      this.set(node, "loudnessTarget", loudness);
+    } else if (loudness) {
+      this.set(node, "loudnessTarget", loudness.integratedLufs);
+      this.set(node, "truePeakDb", loudness.truePeakDb);
+      this.set(node, "loudnessRange", loudness.loudnessRange);
+    }
+    const builderOnly = [
+      "pauseBetweenItems",
+      "pronunciationDictionaryLocators",
+      "pronunciationDictionary",
+      "pronunciations",
+      "maxTtsSegmentSeconds",
+    ] as const;
+    for (const key of builderOnly) {
+      if (voiceover[key] != null) this.onUnsupported(`voiceover ${key} has no XML form.`);
+    }
+    return node;
+  }
+
+  series(series: SeriesSpec, compositionId: string): XmlNode {
+    const node = this.node("series");
+    this.set(node, "id", series.id);
+    if (series.compositionId && series.compositionId !== compositionId) {
+      this.set(node, "compositionId", series.compositionId);
+    }
+    for (const episode of series.episodes) {
+      const child = this.node("episode");
+      this.set(child, "id", episode.id);
+      for (const [name, value] of Object.entries(episode.props ?? {})) {
+        if (value === undefined) continue;
+        this.set(child, name, typeof value === "string" ? value : JSON.stringify(value));
+      }
+      node.children.push(child);
+    }
+    return node;
+  }
+
+  vars(vars: Record<string, unknown>): XmlNode | null {
+    const entries = Object.entries(vars).filter(([, value]) => value !== undefined);
+    if (entries.length === 0) return null;
+    const node = this.node("vars");
+    for (const [name, value] of entries) {
+      if (typeof value === "string" && /^[A-Za-z_][\w.-]*$/.test(name) && !name.startsWith("xml")) {
+        this.set(node, name, value);
+        continue;
+      }
+      const child = this.node("var");
+      this.set(child, "name", name);
+      child.text = typeof value === "string" ? value : JSON.stringify(value);
+      node.children.push(child);
+    }
+    return node;
+  }
+
+  /**
+   * Builder compositions keep music and sfx in `audioPlan`; in XML they live in a scene. Clips
+   * anchored to a cue or mark become `cue(...)`/`mark(...)` start expressions; absolute clips go in
+   * the first scene, offset by its start (known before generation, since it follows only the lead-in).
+   */
+  plannedAudio(spec: CompositionSpec): Map<string, XmlNode[]> {
+    const byScene = new Map<string, XmlNode[]>();
+    const scenes = spec.timeline.filter((item): item is SceneSpec => !("kind" in item));
+    if (spec.audioPlan?.sfxProvider || spec.audioPlan?.musicProvider) {
+      this.onUnsupported("audioPlan sfxProvider/musicProvider have no XML form.");
+    }
+    const sceneOfCue = (cueId: string) =>
+      scenes.find((scene) => scene.items.some((item) => item.kind === "cue" && item.id === cueId))?.id;
+    for (const track of spec.audioPlan?.tracks ?? []) {
+      for (const clip of track.clips) {
+        const offset = (value: number | undefined) => (value ? ` + ${formatSeconds(value)}` : "");
+        let sceneId = scenes[0]?.id;
+        let node: XmlNode;
+        switch (clip.start.kind) {
+          case "scene":
+            sceneId = clip.start.scene.sceneId;
+            node = this.audio({ ...clip, time: { start: clip.start.scene.offsetSec ?? 0 } } as AudioElementSpec);
+            break;
+          case "cue": {
+            const { cueId, offsetSec } = clip.start.cue;
+            sceneId = sceneOfCue(cueId) ?? sceneId;
+            node = this.audio({ ...clip, deferredTime: { start: deferTimeValue(`cue(${cueId})${offset(offsetSec)}`) } });
+            break;
+          }
+          case "mark": {
+            const { markId, offsetSec } = clip.start.mark;
+            node = this.audio({ ...clip, deferredTime: { start: deferTimeValue(`mark(${markId})${offset(offsetSec)}`) } });
+            break;
+          }
+          default: {
+            const hostStart = scenes[0]?.time?.start ?? (scenes[0]?.time ? 0 : spec.voiceover?.leadInSeconds ?? 0);
+            const start = clip.start.sec - hostStart;
+            const before = `scene(${sceneId}).start - ${formatSeconds(-start)}`;
+            node = start >= 0
+              ? this.audio({ ...clip, time: { start } } as AudioElementSpec)
+              : this.audio({ ...clip, deferredTime: { start: deferTimeValue(before) } });
+          }
+        }
+        if (!sceneId) {
+          this.onUnsupported(`audio "${clip.id}" has no scene to live in.`);
+          continue;
+        }
+        byScene.set(sceneId, [...(byScene.get(sceneId) ?? []), node]);
+      }
+    }
+    return byScene;
+  }
+
+  document(spec: CompositionSpec, extras: { series?: SeriesSpec[]; vars?: Record<string, unknown> }): XmlNode {
+    const root = this.node("vml");
+    this.set(root, "id", spec.id);
+    this.set(root, "title", spec.title);
+    this.set(root, "fps", spec.meta?.fps);
+    this.set(root, "width", spec.meta?.width);
+    this.set(root, "height", spec.meta?.height);
+    this.seconds(root, "duration", spec.meta?.durationSeconds);
+    this.seconds(root, "poster", spec.posterTime);
+    if (spec.audioProviders?.sfx || spec.audioProviders?.music) {
+      this.onUnsupported("audioProviders have no XML form; set providers in config instead.");
+    }
+    const vars = extras.vars ? this.vars(extras.vars) : null;
+    if (vars) root.children.push(vars);
+    if (spec.voiceover) root.children.push(this.voiceover(spec.voiceover));
+    const planned = this.plannedAudio(spec);
+    for (const item of spec.timeline) {
+      if (!("kind" in item)) {
+        root.children.push(this.scene(item, planned.get(item.id) ?? []));
+      } else if (item.kind === "transition") {
+        root.children.push(this.transition(item));
+      } else if (item.kind === "mark") {
+        root.children.push(this.mark(item));
+      } else {
+        root.children.push(this.narration(item));
+      }
+    }
+    for (const series of extras.series ?? []) root.children.push(this.series(series, spec.id));
+    return root;
+  }
+}
+
+const throwUnsupported = (message: string) => {
+  throw new CompileError(`Cannot serialize to XML: ${message}`);
+};
+
+/**
+ * Serialize a composition to canonical VideoML: fixed attribute order, two-space indentation, times
+ * in seconds, and components flattened with the absolute timings that `<sequence>`/`<stack>` produced.
+ * Loading the output gives back the same spec.
+ */
+export function serializeCompositionToXml(spec: CompositionSpec, options: XmlSerializeOptions = {}): string {
+  const writer = new XmlWriter(options.onUnsupported ?? throwUnsupported);
+  const lines: string[] = [];
+  render(writer.document(spec, {}), "", lines);
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Like `serializeCompositionToXml`, plus the file's `<vars>` and `<series>`. XML holds one
+ * composition per document.
+ */
+export function serializeVideoFileToXml(file: VideoFileSpec, options: XmlSerializeOptions = {}): string {
+  if (file.compositions.length !== 1) {
+    throw new CompileError(
+      `Cannot serialize to XML: a document holds exactly one composition (got ${file.compositions.length}).`,
+    );
+  }
+  const writer = new XmlWriter(options.onUnsupported ?? throwUnsupported);
+  const lines: string[] = [];
+  render(writer.document(file.compositions[0], { series: file.series, vars: file.vars }), "", lines);
+  return `${lines.join("\n")}\n`;
+}
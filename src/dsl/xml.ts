@@ -1,14 +1,37 @@
 import { DOMParser } from "@xmldom/xmldom";
+import { existsSync, readFileSync } from "fs";
+import { dirname, resolve } from "path";
 import { ParseError } from "../errors.js";
+import { checkPropValue, coercePropValue, getPropSchema, type PropSchema } from "../../packages/renderer/src/components/prop-schema.js";
+import {
+  checkAttributes,
+  isCollectingDiagnostics,
+  locationOf,
+  recover,
+  reportError,
+  reportWarning,
+  reportXmlSyntax,
+  withDiagnosticSession,
+  withSourceFile,
+  type Diagnostic,
+} from "./diagnostics.js";
 import { applyVomPatches } from "./xml-patch.js";
-import { MissingTimeReferenceError, parseTimeValue, type TimeEvalContext } from "./time-expr.js";
+import { interpolateText, lookupVariable, type InterpolationScope } from "./interpolate.js";
+import { conditionScope, isIncluded } from "./condition.js";
+import { markSeriesTemplates, registerSeriesSource } from "./series.js";
+import { BUILTIN_VOCABULARY, COMPONENT_ATTRIBUTES, type AttributeDef } from "./vocabulary.js";
+import { MissingTimeReferenceError, parseDeferredTiming, parseTimeValue, type TimeEvalContext } from "./time-expr.js";
 import type {
   AudioPlan,
   AudioElementSpec,
   ComponentSpec,
+  ConditionSpec,
   CueSpec,
+  DuckSpec,
   LayerSpec,
+  LoudnessTargetSpec,
   MarkSpec,
+  SeriesSpec,
   NarrationSpec,
   PauseSpec,
   SceneSpec,
@@ -39,6 +62,10 @@ const BUILTIN_TAGS = new Set([
   "audio",
   "sfx",
   "music",
+  "repeat",
+  "include",
+  "define",
+  "use",
 ]);
 
 type NodeLike = {
@@ -58,6 +85,9 @@ type ElementLike = {
 
 const isElement = (node: NodeLike): node is ElementLike => node.nodeType === 1;
 
+// Where each parsed cue and timeline item came from, for checks that run after parsing.
+const elementOf = new WeakMap<object, ElementLike>();
+
 const getChildElements = (node: ElementLike): ElementLike[] =>
   Array.from(node.childNodes).filter(isElement);
 
@@ -107,25 +137,70 @@ const parseAttributes = (element: ElementLike) => {
   return attrs;
 };
 
-const parseProps = (attrs: Record<string, string>, reserved: Set<string>) => {
+const toKebabCase = (value: string) => value.replace(/[A-Z]/g, (letter) => `-${letter.toLowerCase()}`);
+
+const guessPropValue = (rawValue: string) => parseBoolean(rawValue) ?? parseNumber(rawValue) ?? rawValue;
+
+/**
+ * Merge the `props` JSON attribute with the other attributes, which win. `read` sees JSON values
+ * as parsed and attribute values as strings, with the attribute name in `attribute`.
+ */
+const mergeProps = (
+  attrs: Record<string, string>,
+  reserved: Set<string>,
+  read: (key: string, value: unknown, attribute?: string) => unknown,
+) => {
   const props: Record<string, unknown> = {};
   if (attrs.props) {
-    Object.assign(props, parseJson(attrs.props, "props attribute"));
+    for (const [key, value] of Object.entries(parseJson(attrs.props, "props attribute"))) {
+      props[key] = read(key, value);
+    }
   }
   for (const [rawKey, rawValue] of Object.entries(attrs)) {
     if (rawKey === "props" || reserved.has(rawKey)) continue;
     const key = toCamelCase(rawKey);
-    const boolValue = parseBoolean(rawValue);
-    if (boolValue != null) {
-      props[key] = boolValue;
-      continue;
+    props[key] = read(key, rawValue, rawKey);
+  }
+  return props;
+};
+
+const parseProps = (attrs: Record<string, string>, reserved: Set<string>) =>
+  mergeProps(attrs, reserved, (_key, value, attribute) => (attribute ? guessPropValue(value as string) : value));
+
+/**
+ * Like parseProps, but attributes the component's schema declares are converted to the declared
+ * type instead of guessed, so `text="2024"` stays a string and `theme="drakula"` is an error.
+ * Values from the props JSON are checked against the same schema.
+ */
+const parseSchemaProps = (
+  element: ElementLike,
+  attrs: Record<string, string>,
+  reserved: Set<string>,
+  schema: PropSchema,
+  label: string,
+) => {
+  const props = mergeProps(attrs, reserved, (key, value, attribute) => {
+    const field = schema.props[key];
+    if (!field) {
+      reportWarning(
+        element,
+        attribute
+          ? `Unknown prop "${attribute}" on <${element.tagName}>.`
+          : `Unknown prop "${key}" in the props of <${element.tagName}>.`,
+      );
+      return attribute ? guessPropValue(value as string) : value;
     }
-    const numValue = parseNumber(rawValue);
-    if (numValue != null) {
-      props[key] = numValue;
-      continue;
+    const checked = attribute ? coercePropValue(field, value as string) : checkPropValue(field, value);
+    if (!checked.ok) {
+      throw new ParseError(`${label} ${attribute ?? `props.${key}`} ${checked.message}.`);
     }
-    props[key] = rawValue;
+    return checked.value;
+  });
+  const missing = Object.entries(schema.props)
+    .filter(([key, field]) => field.required && props[key] === undefined)
+    .map(([key]) => toKebabCase(key));
+  if (missing.length > 0) {
+    throw new ParseError(`${label} requires ${missing.join(", ")}.`);
   }
   return props;
 };
@@ -247,8 +322,9 @@ const parseAudioElement = (
     throw new ParseError("audio tag requires kind attribute.");
   }
   const id = attrs.id ?? `${kind}-${index}`;
-  let time = parseTimeRange(attrs, ctx, `audio "${id}"`);
-  if (!time && attrs.duration && !attrs.start && !attrs.end) {
+  const deferredTime = parseDeferredTiming(attrs);
+  let time = deferredTime ? undefined : parseTimeRange(attrs, ctx, `audio "${id}"`);
+  if (!time && !deferredTime && attrs.duration && !attrs.start && !attrs.end) {
     const duration = parseTimeValue(attrs.duration, ctx);
     time = { start: 0, end: duration };
   }
@@ -268,6 +344,7 @@ const parseAudioElement = (
   const fadeOutVolume = attrs["fade-out"] ? parseNumber(attrs["fade-out"]) ?? undefined : undefined;
   const fadeOutBefore = attrs["fade-out-before"] ? parseTimeValue(attrs["fade-out-before"], ctx) : undefined;
   const fadeOutDuration = attrs["fade-out-duration"] ? parseTimeValue(attrs["fade-out-duration"], ctx) : undefined;
+  const duck = parseDuck(attrs, ctx, id);
 
   return {
     id,
@@ -291,29 +368,52 @@ const parseAudioElement = (
       fadeOutVolume != null && fadeOutBefore != null
         ? { volume: fadeOutVolume, beforeEndSeconds: fadeOutBefore, fadeDurationSeconds: fadeOutDuration }
         : undefined,
+    duck,
+    deferredTime,
+    when: parseWhen(attrs),
+  };
+};
+
+const parseDuck = (attrs: Record<string, string>, ctx: TimeEvalContext, id: string): DuckSpec | undefined => {
+  const raw = attrs.duck;
+  if (!raw || raw === "false" || raw === "none") return undefined;
+  if (raw !== "voice" && raw !== "true") {
+    throw new ParseError(`audio "${id}" duck must be "voice" (got "${raw}").`);
+  }
+  const depth = attrs["duck-depth"] ? parseNumber(attrs["duck-depth"]) : undefined;
+  if (depth === null || (depth != null && (depth < 0 || depth > 1))) {
+    throw new ParseError(`audio "${id}" duck-depth must be a number between 0 and 1.`);
+  }
+  return {
+    under: "voice",
+    depth,
+    attackSeconds: attrs["duck-attack"] ? parseTimeValue(attrs["duck-attack"], ctx) : undefined,
+    releaseSeconds: attrs["duck-release"] ? parseTimeValue(attrs["duck-release"], ctx) : undefined,
   };
 };
 
 const parseVoiceSegments = (cueEl: ElementLike, ctx: TimeEvalContext): VoiceSegmentSpec[] => {
   const segments: VoiceSegmentSpec[] = [];
   for (const child of getChildElements(cueEl)) {
-    if (child.tagName === "voice") {
-      const text = normalizeText(child.textContent);
-      if (!text) continue;
-      const attrs = parseAttributes(child);
-      const trimEnd = attrs["trim-end"];
-      segments.push({
-        kind: "text",
-        text,
-        trimEndSec: trimEnd ? parseTimeValue(trimEnd, ctx) : undefined,
-      });
-      continue;
-    }
-    if (child.tagName === "pause") {
-      const attrs = parseAttributes(child);
-      segments.push({ kind: "pause", pause: parsePause(attrs, ctx) });
-      continue;
-    }
+    recover(child, () => {
+      if (child.tagName === "voice") {
+        const text = normalizeText(child.textContent);
+        if (!text) return;
+        const attrs = parseAttributes(child);
+        const trimEnd = attrs["trim-end"];
+        segments.push({
+          kind: "text",
+          text,
+          trimEndSec: trimEnd ? parseTimeValue(trimEnd, ctx) : undefined,
+        });
+        return;
+      }
+      if (child.tagName === "pause") {
+        const attrs = parseAttributes(child);
+        segments.push({ kind: "pause", pause: parsePause(attrs, ctx) });
+        return;
+      }
+    });
   }
   return segments;
 };
@@ -333,7 +433,7 @@ const parseCue = (cueEl: ElementLike, ctx: TimeEvalContext): CueSpec => {
     .map((child) => normalizeText(child.textContent))
     .filter(Boolean);
 
-  return {
+  const cue: CueSpec = {
     kind: "cue",
     id,
     label,
@@ -341,7 +441,10 @@ const parseCue = (cueEl: ElementLike, ctx: TimeEvalContext): CueSpec => {
     bullets,
     provider,
     time,
+    when: parseWhen(attrs),
   };
+  elementOf.set(cue, cueEl);
+  return cue;
 };
 
 const parseComponent = (
@@ -350,16 +453,20 @@ const parseComponent = (
   componentIndex: number,
 ): ComponentSpec => {
   const attrs = parseAttributes(element);
-  const reserved = new Set(["id", "visible", "z", "start", "end", "duration", "styles", "markup", "props"]);
+  const reserved = new Set(["id", "visible", "z", "start", "end", "duration", "styles", "markup", "props", "if", "unless"]);
   const rawId = attrs.id;
   const id = rawId ?? `${element.tagName}-${componentIndex}`;
   const visible = attrs.visible ? parseBoolean(attrs.visible) ?? true : undefined;
   const zIndex = attrs.z ? parseNumber(attrs.z) ?? undefined : undefined;
-  const timing = parseTiming(attrs, ctx);
+  const deferredTiming = parseDeferredTiming(attrs);
+  const timing = deferredTiming ? undefined : parseTiming(attrs, ctx);
   const styles = parseStylesOrMarkup(attrs.styles, "styles attribute") as VisualStyles | undefined;
   const markup = parseStylesOrMarkup(attrs.markup, "markup attribute") as SemanticMarkup | undefined;
-  const props = parseProps(attrs, reserved);
   const type = toPascalCase(element.tagName);
+  const schema = getPropSchema(type);
+  const props = schema
+    ? parseSchemaProps(element, attrs, reserved, schema, `<${element.tagName}> "${id}"`)
+    : parseProps(attrs, reserved);
 
   return {
     id,
@@ -375,6 +482,8 @@ const parseComponent = (
           endSec: timing.endSec,
         }
       : undefined,
+    deferredTiming,
+    when: parseWhen(attrs),
   };
 };
 
@@ -426,9 +535,10 @@ const parseContainerChildren = (
   const cascadedMarkup = mergeCascaded(inheritedMarkup, containerMarkup);
 
   for (const child of getChildElements(element)) {
-    if (BUILTIN_TAGS.has(child.tagName) && child.tagName !== "sequence" && child.tagName !== "stack") {
-      continue;
-    }
+    recover(child, () => {
+      if (BUILTIN_TAGS.has(child.tagName) && child.tagName !== "sequence" && child.tagName !== "stack") {
+        return;
+      }
 
       if (child.tagName === "sequence" || child.tagName === "stack") {
         const childAttrs = parseAttributes(child);
@@ -445,50 +555,62 @@ const parseContainerChildren = (
         );
         components.push(...nested.components);
         componentIndex = nested.componentIndex;
-      if (flow === "sequence") {
-        cursor = nested.maxEnd ?? cursor;
-      } else if (nested.maxEnd != null) {
-        maxEnd = maxEnd == null ? nested.maxEnd : Math.max(maxEnd, nested.maxEnd);
+        if (flow === "sequence") {
+          cursor = nested.maxEnd ?? cursor;
+        } else if (nested.maxEnd != null) {
+          maxEnd = maxEnd == null ? nested.maxEnd : Math.max(maxEnd, nested.maxEnd);
+        }
+        return;
       }
-      continue;
-    }
 
-    const attrs = parseAttributes(child);
-    const parsed = parseComponent(child, ctx, componentIndex);
-    parsed.styles = mergeCascaded(cascadedStyles, parsed.styles as VisualStyles | undefined);
-    parsed.markup = mergeCascaded(cascadedMarkup, parsed.markup as SemanticMarkup | undefined);
-    componentIndex += 1;
-
-    const startOffset = attrs.start ? parseTimeValue(attrs.start, ctx) : undefined;
-    const endOffset = attrs.end ? parseTimeValue(attrs.end, ctx) : undefined;
-    const durationValue = attrs.duration ? parseTimeValue(attrs.duration, ctx) : undefined;
-
-    const baseStart = flow === "sequence" ? cursor : containerStart;
-    const childStart = baseStart + (startOffset ?? 0);
-    let childEnd: number | undefined;
-
-    if (durationValue != null) {
-      childEnd = childStart + durationValue;
-    } else if (endOffset != null) {
-      childEnd = containerStart + endOffset;
-    } else if (flow === "sequence") {
-      childEnd = childStart + DEFAULT_SEQUENCE_CHILD_SECONDS;
-    }
+      const attrs = parseAttributes(child);
+      const parsed = parseComponent(child, ctx, componentIndex);
+      parsed.styles = mergeCascaded(cascadedStyles, parsed.styles as VisualStyles | undefined);
+      parsed.markup = mergeCascaded(cascadedMarkup, parsed.markup as SemanticMarkup | undefined);
+      componentIndex += 1;
 
-    if (childStart != null || childEnd != null) {
-      parsed.timing = {
-        startSec: childStart,
-        endSec: childEnd,
-      };
-    }
+      if (parsed.deferredTiming) {
+        // Absolute references have no place in a sequence's running offsets; a stack just keeps them.
+        if (flow === "sequence") {
+          throw new ParseError(
+            `<${child.tagName}> "${parsed.id}" inside <sequence> cannot reference cue(), scene() or mark() times.`,
+          );
+        }
+        components.push(parsed);
+        return;
+      }
 
-    components.push(parsed);
+      const startOffset = attrs.start ? parseTimeValue(attrs.start, ctx) : undefined;
+      const endOffset = attrs.end ? parseTimeValue(attrs.end, ctx) : undefined;
+      const durationValue = attrs.duration ? parseTimeValue(attrs.duration, ctx) : undefined;
 
-    if (flow === "sequence") {
-      cursor = childEnd ?? cursor;
-    } else if (childEnd != null) {
-      maxEnd = maxEnd == null ? childEnd : Math.max(maxEnd, childEnd);
-    }
+      const baseStart = flow === "sequence" ? cursor : containerStart;
+      const childStart = baseStart + (startOffset ?? 0);
+      let childEnd: number | undefined;
+
+      if (durationValue != null) {
+        childEnd = childStart + durationValue;
+      } else if (endOffset != null) {
+        childEnd = containerStart + endOffset;
+      } else if (flow === "sequence") {
+        childEnd = childStart + DEFAULT_SEQUENCE_CHILD_SECONDS;
+      }
+
+      if (childStart != null || childEnd != null) {
+        parsed.timing = {
+          startSec: childStart,
+          endSec: childEnd,
+        };
+      }
+
+      components.push(parsed);
+
+      if (flow === "sequence") {
+        cursor = childEnd ?? cursor;
+      } else if (childEnd != null) {
+        maxEnd = maxEnd == null ? childEnd : Math.max(maxEnd, childEnd);
+      }
+    });
   }
 
   if (flow === "sequence") {
@@ -506,7 +628,8 @@ const parseLayer = (layerEl: ElementLike, ctx: TimeEvalContext): LayerSpec => {
   }
   const visible = attrs.visible ? parseBoolean(attrs.visible) ?? true : undefined;
   const zIndex = attrs.z ? parseNumber(attrs.z) ?? undefined : undefined;
-  const timing = parseTiming(attrs, ctx);
+  const deferredTiming = parseDeferredTiming(attrs);
+  const timing = deferredTiming ? undefined : parseTiming(attrs, ctx);
   const styles = parseStylesOrMarkup(attrs.styles, "styles attribute") as VisualStyles | undefined;
   const markup = parseStylesOrMarkup(attrs.markup, "markup attribute") as SemanticMarkup | undefined;
 
@@ -514,28 +637,30 @@ const parseLayer = (layerEl: ElementLike, ctx: TimeEvalContext): LayerSpec => {
   const children = getChildElements(layerEl);
   let componentIndex = 0;
   for (const child of children) {
-    if (child.tagName === "sequence" || child.tagName === "stack") {
-      const containerAttrs = parseAttributes(child);
-      const containerTiming = parseContainerTiming(containerAttrs, ctx);
-      const containerStart = containerTiming.startSec ?? 0;
-      const parsed = parseContainerChildren(
-        child,
-        ctx,
-        componentIndex,
-        containerStart,
-        child.tagName as "sequence" | "stack",
-        undefined,
-        undefined,
-      );
-      components.push(...parsed.components);
-      componentIndex = parsed.componentIndex;
-      continue;
-    }
-    if (BUILTIN_TAGS.has(child.tagName)) {
-      continue;
-    }
-    components.push(parseComponent(child, ctx, componentIndex));
-    componentIndex += 1;
+    recover(child, () => {
+      if (child.tagName === "sequence" || child.tagName === "stack") {
+        const containerAttrs = parseAttributes(child);
+        const containerTiming = parseContainerTiming(containerAttrs, ctx);
+        const containerStart = containerTiming.startSec ?? 0;
+        const parsed = parseContainerChildren(
+          child,
+          ctx,
+          componentIndex,
+          containerStart,
+          child.tagName as "sequence" | "stack",
+          undefined,
+          undefined,
+        );
+        components.push(...parsed.components);
+        componentIndex = parsed.componentIndex;
+        return;
+      }
+      if (BUILTIN_TAGS.has(child.tagName)) {
+        return;
+      }
+      components.push(parseComponent(child, ctx, componentIndex));
+      componentIndex += 1;
+    });
   }
 
   return {
@@ -548,9 +673,11 @@ const parseLayer = (layerEl: ElementLike, ctx: TimeEvalContext): LayerSpec => {
           endSec: timing.endSec,
         }
       : undefined,
+    deferredTiming,
     visible,
     zIndex,
     components,
+    when: parseWhen(attrs),
   };
 };
 
@@ -579,55 +706,57 @@ const parseScene = (sceneEl: ElementLike, ctx: TimeEvalContext): SceneSpec => {
   let componentIndex = 0;
 
   for (const child of getChildElements(sceneEl)) {
-    if (child.tagName === "cue") {
-      items.push(parseCue(child, ctx));
-      cueCount += 1;
-      continue;
-    }
-    if (child.tagName === "pause") {
-      items.push(parsePause(parseAttributes(child), ctx));
-      continue;
-    }
-    if (child.tagName === "layer") {
-      layers.push(parseLayer(child, ctx));
-      continue;
-    }
-    if (child.tagName === "audio") {
-      audio.push(parseAudioElement(child, ctx, audioIndex));
-      audioIndex += 1;
-      continue;
-    }
-    if (child.tagName === "sfx") {
-      audio.push(parseAudioElement(child, ctx, audioIndex, "sfx"));
-      audioIndex += 1;
-      continue;
-    }
-    if (child.tagName === "music") {
-      audio.push(parseAudioElement(child, ctx, audioIndex, "music"));
-      audioIndex += 1;
-      continue;
-    }
-    if (child.tagName === "sequence" || child.tagName === "stack") {
-      const containerAttrs = parseAttributes(child);
-      const containerTiming = parseContainerTiming(containerAttrs, ctx);
-      const containerStart = containerTiming.startSec ?? 0;
-      const parsed = parseContainerChildren(
-        child,
-        ctx,
-        componentIndex,
-        containerStart,
-        child.tagName as "sequence" | "stack",
-        undefined,
-        undefined,
-      );
-      components.push(...parsed.components);
-      componentIndex = parsed.componentIndex;
-      continue;
-    }
-    if (!BUILTIN_TAGS.has(child.tagName)) {
-      components.push(parseComponent(child, ctx, componentIndex));
-      componentIndex += 1;
-    }
+    recover(child, () => {
+      if (child.tagName === "cue") {
+        items.push(parseCue(child, ctx));
+        cueCount += 1;
+        return;
+      }
+      if (child.tagName === "pause") {
+        items.push(parsePause(parseAttributes(child), ctx));
+        return;
+      }
+      if (child.tagName === "layer") {
+        layers.push(parseLayer(child, ctx));
+        return;
+      }
+      if (child.tagName === "audio") {
+        audio.push(parseAudioElement(child, ctx, audioIndex));
+        audioIndex += 1;
+        return;
+      }
+      if (child.tagName === "sfx") {
+        audio.push(parseAudioElement(child, ctx, audioIndex, "sfx"));
+        audioIndex += 1;
+        return;
+      }
+      if (child.tagName === "music") {
+        audio.push(parseAudioElement(child, ctx, audioIndex, "music"));
+        audioIndex += 1;
+        return;
+      }
+      if (child.tagName === "sequence" || child.tagName === "stack") {
+        const containerAttrs = parseAttributes(child);
+        const containerTiming = parseContainerTiming(containerAttrs, ctx);
+        const containerStart = containerTiming.startSec ?? 0;
+        const parsed = parseContainerChildren(
+          child,
+          ctx,
+          componentIndex,
+          containerStart,
+          child.tagName as "sequence" | "stack",
+          undefined,
+          undefined,
+        );
+        components.push(...parsed.components);
+        componentIndex = parsed.componentIndex;
+        return;
+      }
+      if (!BUILTIN_TAGS.has(child.tagName)) {
+        components.push(parseComponent(child, ctx, componentIndex));
+        componentIndex += 1;
+      }
+    });
   }
 
   // Cues are optional in V3 (visual-only scenes are allowed).
@@ -645,6 +774,7 @@ const parseScene = (sceneEl: ElementLike, ctx: TimeEvalContext): SceneSpec => {
     exit,
     transitionToNext,
     audio: audio.length > 0 ? audio : undefined,
+    when: parseWhen(attrs),
   };
 };
 
@@ -658,14 +788,16 @@ const parseNarration = (narrationEl: ElementLike, ctx: TimeEvalContext): Narrati
   const items: Array<CueSpec | PauseSpec> = [];
 
   for (const child of getChildElements(narrationEl)) {
-    if (child.tagName === "cue") {
-      items.push(parseCue(child, ctx));
-      continue;
-    }
-    if (child.tagName === "pause") {
-      items.push(parsePause(parseAttributes(child), ctx));
-      continue;
-    }
+    recover(child, () => {
+      if (child.tagName === "cue") {
+        items.push(parseCue(child, ctx));
+        return;
+      }
+      if (child.tagName === "pause") {
+        items.push(parsePause(parseAttributes(child), ctx));
+        return;
+      }
+    });
   }
 
   return {
@@ -706,46 +838,48 @@ const parseTransition = (transitionEl: ElementLike, ctx: TimeEvalContext): Trans
   let audioIndex = 0;
 
   for (const child of getChildElements(transitionEl)) {
-    if (child.tagName === "layer") {
-      layers.push(parseLayer(child, ctx));
-      continue;
-    }
-    if (child.tagName === "audio") {
-      audio.push(parseAudioElement(child, ctx, audioIndex));
-      audioIndex += 1;
-      continue;
-    }
-    if (child.tagName === "sfx") {
-      audio.push(parseAudioElement(child, ctx, audioIndex, "sfx"));
-      audioIndex += 1;
-      continue;
-    }
-    if (child.tagName === "music") {
-      audio.push(parseAudioElement(child, ctx, audioIndex, "music"));
-      audioIndex += 1;
-      continue;
-    }
-    if (child.tagName === "sequence" || child.tagName === "stack") {
-      const containerAttrs = parseAttributes(child);
-      const containerTiming = parseContainerTiming(containerAttrs, ctx);
-      const containerStart = containerTiming.startSec ?? 0;
-      const parsed = parseContainerChildren(
-        child,
-        ctx,
-        componentIndex,
-        containerStart,
-        child.tagName as "sequence" | "stack",
-        undefined,
-        undefined,
-      );
-      components.push(...parsed.components);
-      componentIndex = parsed.componentIndex;
-      continue;
-    }
-    if (!BUILTIN_TAGS.has(child.tagName)) {
-      components.push(parseComponent(child, ctx, componentIndex));
-      componentIndex += 1;
-    }
+    recover(child, () => {
+      if (child.tagName === "layer") {
+        layers.push(parseLayer(child, ctx));
+        return;
+      }
+      if (child.tagName === "audio") {
+        audio.push(parseAudioElement(child, ctx, audioIndex));
+        audioIndex += 1;
+        return;
+      }
+      if (child.tagName === "sfx") {
+        audio.push(parseAudioElement(child, ctx, audioIndex, "sfx"));
+        audioIndex += 1;
+        return;
+      }
+      if (child.tagName === "music") {
+        audio.push(parseAudioElement(child, ctx, audioIndex, "music"));
+        audioIndex += 1;
+        return;
+      }
+      if (child.tagName === "sequence" || child.tagName === "stack") {
+        const containerAttrs = parseAttributes(child);
+        const containerTiming = parseContainerTiming(containerAttrs, ctx);
+        const containerStart = containerTiming.startSec ?? 0;
+        const parsed = parseContainerChildren(
+          child,
+          ctx,
+          componentIndex,
+          containerStart,
+          child.tagName as "sequence" | "stack",
+          undefined,
+          undefined,
+        );
+        components.push(...parsed.components);
+        componentIndex = parsed.componentIndex;
+        return;
+      }
+      if (!BUILTIN_TAGS.has(child.tagName)) {
+        components.push(parseComponent(child, ctx, componentIndex));
+        componentIndex += 1;
+      }
+    });
   }
 
   return {
@@ -786,20 +920,398 @@ const parseMark = (markEl: ElementLike, ctx: TimeEvalContext): MarkSpec => {
   };
 };
 
-export const loadVideoFileFromXml = (xml: string): VideoFileSpec => {
-  const parser = new DOMParser();
-  const doc = parser.parseFromString(xml, "text/xml");
+const parseLoudnessTarget = (attrs: Record<string, string>): LoudnessTargetSpec | undefined => {
+  if (!attrs.loudnessTarget) return undefined;
+  const integratedLufs = parseNumber(attrs.loudnessTarget);
+  if (integratedLufs == null) {
+    throw new ParseError(`voiceover loudnessTarget must be a number in LUFS (got "${attrs.loudnessTarget}").`);
+  }
+  const truePeakDb = attrs.truePeakDb ? parseNumber(attrs.truePeakDb) ?? undefined : undefined;
+  const loudnessRange = attrs.loudnessRange ? parseNumber(attrs.loudnessRange) ?? undefined : undefined;
+  return { integratedLufs, truePeakDb, loudnessRange };
+};
+
+export type XmlLoadOptions = {
+  /** Template variables (e.g. from a data file); these override `<vars>` declared in the document. */
+  vars?: Record<string, unknown>;
+  /** File name reported in error locations. */
+  sourcePath?: string;
+};
+
+export type XmlDiagnostics = {
+  /** What could be parsed despite the errors; null when the document itself is unusable. */
+  videoFile: VideoFileSpec | null;
+  diagnostics: Diagnostic[];
+};
+
+type TextNodeLike = NodeLike & { data: string; nodeValue: string | null };
+type MutableElementLike = ElementLike & {
+  setAttribute(name: string, value: string): void;
+  removeAttribute(name: string): void;
+};
+
+const collectTemplateVars = (root: ElementLike): Record<string, unknown> => {
+  const vars: Record<string, unknown> = {};
+  for (const block of getChildElements(root).filter((child) => child.tagName === "vars")) {
+    Object.assign(vars, parseAttributes(block));
+    for (const entry of getChildElements(block).filter((child) => child.tagName === "var")) {
+      const attrs = parseAttributes(entry);
+      if (!attrs.name) {
+        reportError(entry, "var requires name attribute.");
+        continue;
+      }
+      vars[attrs.name] = attrs.value ?? normalizeText(entry.textContent);
+    }
+  }
+  return vars;
+};
+
+/**
+ * Let string vars reference other vars (`tagline="Built for {{ audience }}"`), a few levels deep.
+ */
+const resolveVarReferences = (vars: Record<string, unknown>): Record<string, unknown> => {
+  const resolved = { ...vars };
+  for (let pass = 0; pass < 5; pass += 1) {
+    let changed = false;
+    for (const [name, value] of Object.entries(resolved)) {
+      if (typeof value !== "string" || !value.includes("{{")) continue;
+      const next = interpolateText(value, resolved, `var "${name}"`, true);
+      if (next !== value) {
+        resolved[name] = next;
+        changed = true;
+      }
+    }
+    if (!changed) break;
+  }
+  return resolved;
+};
+
+const NEUTRAL_VALUES: Record<Exclude<AttributeDef["type"], "string">, string> = {
+  time: "0s",
+  number: "0",
+  integer: "0",
+  boolean: "false",
+  json: "{}",
+};
+
+/**
+ * What a series template holds in place of a placeholder in an attribute that isn't free text:
+ * a neutral value of the attribute's type, or null to drop a typed component prop. Undefined means
+ * the placeholder can stay as text.
+ */
+const templateStandIn = (tagName: string, name: string): string | null | undefined => {
+  const builtin = BUILTIN_VOCABULARY[tagName];
+  const def = (builtin ? builtin.attributes : COMPONENT_ATTRIBUTES).find((attribute) => attribute.name === name);
+  if (def) {
+    if (def.type !== "string") return NEUTRAL_VALUES[def.type];
+    return def.enum ? def.enum[0] : undefined;
+  }
+  const field = builtin ? undefined : getPropSchema(toPascalCase(tagName))?.props[toCamelCase(name)];
+  return field && (field.type !== "string" || field.enum) ? null : undefined;
+};
+
+/**
+ * Resolve `{{ name }}` in attribute values and text nodes before anything is parsed, so templated
+ * values behave exactly like literal ones (including times and props). Elements whose `if`/`unless`
+ * fails are removed here too, so sequences close up around them. In a series template (`deferred`)
+ * unknown placeholders and conditions are kept for episode expansion instead; typed attributes
+ * can't hold a placeholder, so the template gets a stand-in and each episode re-parses the document.
+ */
+const interpolateElement = (
+  element: ElementLike,
+  scope: InterpolationScope,
+  deferred: boolean,
+  macros: MacroContext,
+): void => {
+  if (element.tagName === "vars") return;
+  const where = `<${element.tagName}>`;
+  for (const [name, value] of Object.entries(parseAttributes(element))) {
+    if (!value.includes("{{")) continue;
+    recover(element, () => {
+      const next = interpolateText(value, scope, `${where} ${name}`, deferred);
+      const standIn = deferred && next.includes("{{") ? templateStandIn(element.tagName, name) : undefined;
+      if (standIn === null) {
+        (element as MutableElementLike).removeAttribute(name);
+      } else {
+        (element as MutableElementLike).setAttribute(name, standIn ?? next);
+      }
+    });
+  }
+  for (const child of Array.from(element.childNodes)) {
+    if (child.nodeType === 3 || child.nodeType === 4) {
+      const text = child as TextNodeLike;
+      if (text.data.includes("{{")) {
+        recover(element, () => {
+          const next = interpolateText(text.data, scope, where, deferred);
+          text.data = next;
+          text.nodeValue = next;
+        });
+      }
+      continue;
+    }
+    if (!isElement(child)) continue;
+    const included = deferred || recover(child, () => isIncluded(parseWhen(parseAttributes(child)), conditionScope(scope)));
+    if (!included) {
+      (element as unknown as DomElementLike).removeChild(child);
+      continue;
+    }
+    if (!deferred) {
+      // Decided with the load-time vars; generation only sees `env`, so it must not decide again.
+      (child as MutableElementLike).removeAttribute("if");
+      (child as MutableElementLike).removeAttribute("unless");
+    }
+    if (child.tagName === "repeat") {
+      recover(child, () => expandRepeat(child as DomElementLike, scope, deferred, macros));
+    } else if (child.tagName === "use") {
+      recover(child, () => expandUse(child as DomElementLike, scope, deferred, macros));
+    } else {
+      interpolateElement(child, scope, deferred, macros);
+    }
+  }
+};
+
+const parseWhen = (attrs: Record<string, string>): ConditionSpec | undefined => {
+  if (attrs.if == null && attrs.unless == null) return undefined;
+  return { if: attrs.if ?? undefined, unless: attrs.unless ?? undefined };
+};
+
+type DomElementLike = MutableElementLike & {
+  parentNode: { insertBefore(node: unknown, ref: unknown): unknown; removeChild(node: unknown): unknown } | null;
+  cloneNode(deep: boolean): DomElementLike;
+  removeChild(node: unknown): unknown;
+};
+
+const resolveRepeatItems = (attrs: Record<string, string>, scope: InterpolationScope): unknown[] => {
+  if (!attrs.each) {
+    throw new ParseError("repeat requires each attribute.");
+  }
+  const each = attrs.each.replace(/^\{\{\s*|\s*\}\}$/g, "");
+  let items = lookupVariable(scope, each);
+  // <vars> values are strings; allow a JSON array there.
+  if (typeof items === "string") {
+    try {
+      items = JSON.parse(items);
+    } catch {
+      // fall through to the array check
+    }
+  }
+  if (items === undefined) {
+    throw new ParseError(`repeat each="${attrs.each}" references an unknown variable.`);
+  }
+  if (!Array.isArray(items)) {
+    throw new ParseError(`repeat each="${attrs.each}" must resolve to an array.`);
+  }
+  return items;
+};
+
+/**
+ * Replace `<repeat each="items" as="item">` with one copy of its children per array entry. Inside the
+ * copies `{{ item.* }}` is the row and `{{ index }}` (or the name given by `index="..."`) is 0-based.
+ */
+const expandRepeat = (
+  repeat: DomElementLike,
+  scope: InterpolationScope,
+  deferred: boolean,
+  macros: MacroContext,
+): void => {
+  const attrs = parseAttributes(repeat);
+  const items = resolveRepeatItems(attrs, scope);
+  const as = attrs.as ?? "item";
+  const indexAs = attrs.index ?? "index";
+  const parent = repeat.parentNode;
+  if (!parent) return;
+  items.forEach((item, index) => {
+    const copy = repeat.cloneNode(true);
+    interpolateElement(copy, { ...scope, [as]: item, [indexAs]: index }, deferred, macros);
+    for (const child of Array.from(copy.childNodes)) {
+      parent.insertBefore(child, repeat);
+    }
+  });
+  parent.removeChild(repeat);
+};
+
+type MacroContext = {
+  defines: Map<string, DomElementLike>;
+  /** Defines being expanded, outermost first, to catch a define that uses itself. */
+  expanding: string[];
+};
+
+/**
+ * Replace `<use ref="name" param="value">` with a copy of the children of `<define name="name">`.
+ * Inside the copy `{{ param }}` is the value given on `<use>`, falling back to the attribute of the
+ * same name on `<define>`; the document's vars stay visible. Both are interpolated in the scope of
+ * the `<use>`, so a default can build on vars.
+ */
+const expandUse = (use: DomElementLike, scope: InterpolationScope, deferred: boolean, macros: MacroContext): void => {
+  const { ref, if: _if, unless: _unless, ...params } = parseAttributes(use);
+  if (!ref) {
+    throw new ParseError("use requires ref attribute.");
+  }
+  const define = macros.defines.get(ref);
+  if (!define) {
+    throw new ParseError(`use ref="${ref}" references an unknown define.`);
+  }
+  if (macros.expanding.includes(ref)) {
+    throw new ParseError(`define "${ref}" uses itself (${[...macros.expanding, ref].join(" -> ")}).`);
+  }
+  const { name: _name, ...declared } = parseAttributes(define);
+  const defaults = Object.fromEntries(
+    Object.entries(declared)
+      .filter(([name]) => !(name in params))
+      .map(([name, value]) => [name, interpolateText(value, scope, `<define> ${name}`, deferred)]),
+  );
+  const args = Object.fromEntries(
+    Object.entries(params).map(([name, value]) => [name, interpolateText(value, scope, `<use> ${name}`, deferred)]),
+  );
+  const parent = use.parentNode;
+  if (!parent) return;
+  const copy = define.cloneNode(true);
+  // The copy's own attributes are the parameter declarations handled above, not content.
+  for (const name of ["name", ...Object.keys(declared)]) copy.removeAttribute(name);
+  interpolateElement(copy, { ...scope, ...defaults, ...args }, deferred, {
+    ...macros,
+    expanding: [...macros.expanding, ref],
+  });
+  for (const child of Array.from(copy.childNodes)) {
+    parent.insertBefore(child, use);
+  }
+  parent.removeChild(use);
+};
+
+/**
+ * Take every `<define>` out of the tree; their bodies are only interpolated where they are used.
+ */
+const collectDefines = (root: ElementLike): Map<string, DomElementLike> => {
+  const defines = new Map<string, DomElementLike>();
+  const visit = (element: ElementLike) => {
+    for (const child of getChildElements(element)) {
+      if (child.tagName !== "define") {
+        visit(child);
+        continue;
+      }
+      (element as unknown as DomElementLike).removeChild(child);
+      const name = parseAttributes(child).name;
+      if (!name) {
+        reportError(child, "define requires name attribute.");
+      } else if (defines.has(name)) {
+        reportError(child, `Duplicate define name "${name}".`);
+      } else {
+        defines.set(name, child as DomElementLike);
+      }
+    }
+  };
+  visit(root);
+  return defines;
+};
+
+const createParser = () =>
+  isCollectingDiagnostics() ? new DOMParser({ locator: {}, errorHandler: reportXmlSyntax }) : new DOMParser();
+
+const tagSourceFile = (element: ElementLike, file: string): void => {
+  (element as ElementLike & { sourceFile?: string }).sourceFile = file;
+  for (const child of getChildElements(element)) tagSourceFile(child, file);
+};
+
+type IncludeTarget = DomElementLike & {
+  ownerDocument: { importNode(node: unknown, deep: boolean): unknown };
+};
+
+/**
+ * Replace `<include src="...">` with the children of the included document's root element. Paths
+ * are relative to the including file (or the working directory when the XML has no path). Includes
+ * are expanded before vars and defines are collected, so shared files can provide both.
+ */
+const expandIncludes = (element: ElementLike, file: string | undefined, chain: string[]): void => {
+  for (const child of getChildElements(element)) {
+    if (child.tagName !== "include") {
+      expandIncludes(child, file, chain);
+      continue;
+    }
+    recover(child, () => {
+      const src = parseAttributes(child).src;
+      if (!src) {
+        throw new ParseError("include requires src attribute.");
+      }
+      const path = resolve(file ? dirname(file) : process.cwd(), src);
+      if (chain.includes(path)) {
+        throw new ParseError(`include src="${src}" includes itself (${[...chain, path].join(" -> ")}).`);
+      }
+      if (!existsSync(path)) {
+        throw new ParseError(`include src="${src}" not found: ${path}`);
+      }
+      const included = withSourceFile(path, () =>
+        createParser().parseFromString(readFileSync(path, "utf-8"), "text/xml").documentElement,
+      );
+      if (!included) {
+        throw new ParseError(`include src="${src}" is not an XML document.`);
+      }
+      const includedRoot = asElementLike(included);
+      tagSourceFile(includedRoot, path);
+      expandIncludes(includedRoot, path, [...chain, path]);
+      const target = child as IncludeTarget;
+      for (const node of Array.from(includedRoot.childNodes)) {
+        target.parentNode?.insertBefore(target.ownerDocument.importNode(node, true), target);
+      }
+      target.parentNode?.removeChild(target);
+    });
+  }
+};
+
+const checkAllAttributes = (element: ElementLike): void => {
+  checkAttributes(element);
+  // Episode attributes are props, not settings.
+  if (element.tagName === "vars" || element.tagName === "episode") return;
+  for (const child of getChildElements(element)) {
+    checkAllAttributes(child);
+  }
+};
+
+/**
+ * Parse a VideoML document. The first problem is thrown as a ParseError carrying its source
+ * location; use `diagnoseVideoFileXml` to collect every problem instead.
+ */
+export const loadVideoFileFromXml = (xml: string, options: XmlLoadOptions = {}): VideoFileSpec =>
+  withDiagnosticSession({ file: options.sourcePath, diagnostics: null }, () => parseVideoFileXml(xml, options)!);
+
+/**
+ * Parse a VideoML document in one pass, collecting every error and warning (unknown attributes,
+ * bad JSON, unresolved time references, duplicate ids, ...) with its location. Elements with errors
+ * are left out of `videoFile`.
+ */
+export const diagnoseVideoFileXml = (xml: string, options: XmlLoadOptions = {}): XmlDiagnostics => {
+  const diagnostics: Diagnostic[] = [];
+  const videoFile = withDiagnosticSession({ file: options.sourcePath, diagnostics }, () =>
+    parseVideoFileXml(xml, options),
+  );
+  return { videoFile, diagnostics };
+};
+
+const parseVideoFileXml = (xml: string, options: XmlLoadOptions, episode = false): VideoFileSpec | null => {
+  const doc = createParser().parseFromString(xml, "text/xml");
   const root = doc.documentElement;
   const rootTag = root?.tagName ?? "";
   const allowedRoots = new Set(["videoml", "video-ml", "vml"]);
   if (!allowedRoots.has(rootTag)) {
-    throw new ParseError("XML root must be <vml>, <videoml>, or <video-ml>.");
+    reportError(root ? asElementLike(root) : undefined, "XML root must be <vml>, <videoml>, or <video-ml>.");
+    return null;
+  }
+  const rootEl = asElementLike(root);
+  // Placeholders left unresolved in a series template are filled from episode props on expansion.
+  const sourcePath = options.sourcePath ? resolve(options.sourcePath) : undefined;
+  expandIncludes(rootEl, sourcePath, sourcePath ? [sourcePath] : []);
+  const defines = collectDefines(rootEl);
+  // An episode is the document re-parsed with its props as vars, so nothing is left for later.
+  const isTemplate = !episode && getChildElements(rootEl).some((child) => child.tagName === "series");
+  const templateVars = resolveVarReferences({ ...collectTemplateVars(rootEl), ...(options.vars ?? {}) });
+  interpolateElement(rootEl, templateVars, isTemplate, { defines, expanding: [] });
+  if (isCollectingDiagnostics()) {
+    checkAllAttributes(rootEl);
   }
 
-  const attrs = parseAttributes(asElementLike(root));
-  const id = attrs.id;
+  const attrs = parseAttributes(rootEl);
+  const id = attrs.id ?? "";
   if (!id) {
-    throw new ParseError("video tag requires id attribute.");
+    reportError(rootEl, "video tag requires id attribute.");
   }
   const title = attrs.title ?? null;
   const fps = attrs.fps ? parseNumber(attrs.fps) ?? 30 : 30;
@@ -810,30 +1322,36 @@ export const loadVideoFileFromXml = (xml: string): VideoFileSpec => {
     getSceneStart: () => null,
     getSceneEnd: () => null,
     getCueStart: () => null,
+    getCueEnd: () => null,
     getMarkStart: () => null,
+    getSegment: () => null,
+    getWord: () => null,
+    getParentDuration: () => null,
     getPrevStart: () => null,
     getPrevEnd: () => null,
     getNextStart: () => null,
   };
-  const duration = attrs.duration ? parseTimeValue(attrs.duration, baseCtx) : undefined;
-  const poster = attrs.poster ? parseTimeValue(attrs.poster, baseCtx) : undefined;
+  const duration = attrs.duration ? recover(rootEl, () => parseTimeValue(attrs.duration, baseCtx)) : undefined;
+  const poster = attrs.poster ? recover(rootEl, () => parseTimeValue(attrs.poster, baseCtx)) : undefined;
 
   const timeline: TimelineItemSpec[] = [];
   let voiceover: VideoFileSpec["compositions"][number]["voiceover"] | undefined;
   const sceneStartIndex = new Map<string, number>();
   const sceneEndIndex = new Map<string, number>();
   const markStartIndex = new Map<string, number>();
-  const timelineElements = getChildElements(asElementLike(root)).filter((child) =>
+  const timelineElements = getChildElements(rootEl).filter((child) =>
     child.tagName === "scene" ||
     child.tagName === "transition" ||
     child.tagName === "mark" ||
     child.tagName === "narration",
   );
   const cueStartIndex = new Map<string, number>();
+  const cueEndIndex = new Map<string, number>();
   const itemStarts: Array<number | null> = [];
   const itemEnds: Array<number | null> = [];
 
   const pending = new Set(timelineElements.keys());
+  const missingReferences = new Map<number, string>();
   let passes = 0;
   while (pending.size > 0) {
     let progressed = false;
@@ -845,7 +1363,12 @@ export const loadVideoFileFromXml = (xml: string): VideoFileSpec => {
         getSceneStart: (sceneId) => sceneStartIndex.get(sceneId) ?? null,
         getSceneEnd: (sceneId) => sceneEndIndex.get(sceneId) ?? null,
         getCueStart: (cueId) => cueStartIndex.get(cueId) ?? null,
+        getCueEnd: (cueId) => cueEndIndex.get(cueId) ?? null,
         getMarkStart: (markId) => markStartIndex.get(markId) ?? null,
+        // Segment and word timings only exist after synthesis.
+        getSegment: () => null,
+        getWord: () => null,
+        getParentDuration: () => duration ?? null,
         getPrevStart: () => (index === 0 ? 0 : itemStarts[index - 1] ?? null),
         getPrevEnd: () => (index === 0 ? 0 : itemEnds[index - 1] ?? null),
         getNextStart: () => {
@@ -854,63 +1377,86 @@ export const loadVideoFileFromXml = (xml: string): VideoFileSpec => {
         },
       };
       try {
-        let item: TimelineItemSpec;
-        if (child.tagName === "scene") {
-          item = parseScene(child, ctx);
-          if (item.time?.start != null) {
-            sceneStartIndex.set(item.id, item.time.start);
+        const item = recover(child, (): TimelineItemSpec => {
+          if (child.tagName === "scene") {
+            const scene = parseScene(child, ctx);
+            if (scene.time?.start != null) {
+              sceneStartIndex.set(scene.id, scene.time.start);
+            }
+            if (scene.time?.end != null) {
+              sceneEndIndex.set(scene.id, scene.time.end);
+            }
+            for (const sceneItem of scene.items) {
+              if ("kind" in sceneItem && sceneItem.kind === "cue" && sceneItem.time?.start != null) {
+                cueStartIndex.set(sceneItem.id, sceneItem.time.start);
+                if (sceneItem.time.end != null) cueEndIndex.set(sceneItem.id, sceneItem.time.end);
+              }
+            }
+            if (scene.time?.start != null) itemStarts[index] = scene.time.start;
+            if (scene.time?.end != null) itemEnds[index] = scene.time.end;
+            return scene;
           }
-          if (item.time?.end != null) {
-            sceneEndIndex.set(item.id, item.time.end);
+          if (child.tagName === "transition") {
+            const transition = parseTransition(child, ctx);
+            if (transition.time?.start != null) itemStarts[index] = transition.time.start;
+            if (transition.time?.end != null) itemEnds[index] = transition.time.end;
+            return transition;
           }
-          for (const sceneItem of item.items) {
-            if ("kind" in sceneItem && sceneItem.kind === "cue" && sceneItem.time?.start != null) {
-              cueStartIndex.set(sceneItem.id, sceneItem.time.start);
-            }
+          if (child.tagName === "narration") {
+            const narration = parseNarration(child, ctx);
+            if (narration.time?.start != null) itemStarts[index] = narration.time.start;
+            if (narration.time?.end != null) itemEnds[index] = narration.time.end;
+            return narration;
+          }
+          if (child.tagName === "mark") {
+            const mark = parseMark(child, ctx);
+            markStartIndex.set(mark.id, mark.at);
+            itemStarts[index] = mark.at;
+            itemEnds[index] = mark.at;
+            return mark;
           }
-          if (item.time?.start != null) itemStarts[index] = item.time.start;
-          if (item.time?.end != null) itemEnds[index] = item.time.end;
-        } else if (child.tagName === "transition") {
-          item = parseTransition(child, ctx);
-          if (item.time?.start != null) itemStarts[index] = item.time.start;
-          if (item.time?.end != null) itemEnds[index] = item.time.end;
-        } else if (child.tagName === "narration") {
-          item = parseNarration(child, ctx);
-          if (item.time?.start != null) itemStarts[index] = item.time.start;
-          if (item.time?.end != null) itemEnds[index] = item.time.end;
-        } else if (child.tagName === "mark") {
-          item = parseMark(child, ctx);
-          markStartIndex.set(item.id, item.at);
-          itemStarts[index] = item.at;
-          itemEnds[index] = item.at;
-        } else {
           throw new ParseError(`Unsupported timeline element <${child.tagName}>.`);
+        });
+        if (item) {
+          timeline[index] = item;
+          elementOf.set(item, child);
         }
-        timeline[index] = item;
         pending.delete(index);
         progressed = true;
       } catch (err) {
         if (!(err instanceof MissingTimeReferenceError)) {
           throw err;
         }
+        missingReferences.set(index, err.message);
       }
     }
     passes += 1;
     if (!progressed) {
+      if (isCollectingDiagnostics()) {
+        for (const idx of pending) {
+          const element = timelineElements[idx];
+          const label = parseAttributes(element).id ?? `item#${idx}`;
+          reportError(element, `Unresolved time reference ${missingReferences.get(idx)} in <${element.tagName}> "${label}".`);
+        }
+        break;
+      }
       const unresolved = Array.from(pending)
         .map((idx) => parseAttributes(timelineElements[idx]).id ?? `item#${idx}`)
         .join(", ");
-      throw new ParseError(`Unresolved time references for timeline items: ${unresolved}`);
+      const first = timelineElements[Array.from(pending)[0]];
+      throw new ParseError(`Unresolved time references for timeline items: ${unresolved}`, locationOf(first));
     }
     if (passes > timelineElements.length + 2) {
       throw new ParseError("Time resolution did not converge.");
     }
   }
+  // Items dropped by diagnostics leave holes.
+  timeline.splice(0, timeline.length, ...timeline.filter((item) => item != null));
 
-  for (const child of getChildElements(asElementLike(root))) {
+  for (const child of getChildElements(rootEl)) {
     if (child.tagName === "voiceover") {
       const voiceoverAttrs = parseAttributes(child);
-      voiceover = {
+      voiceover = recover(child, () => ({
         provider: voiceoverAttrs.provider ?? undefined,
         voice: voiceoverAttrs.voice ?? undefined,
         model: voiceoverAttrs.model ?? undefined,
@@ -923,13 +1469,22 @@ export const loadVideoFileFromXml = (xml: string): VideoFileSpec => {
         trimEndSeconds: voiceoverAttrs.trimEndSeconds
           ? parseTimeValue(voiceoverAttrs.trimEndSeconds, baseCtx)
           : undefined,
-      };
+        loudnessTarget: parseLoudnessTarget(voiceoverAttrs),
+      }));
     }
   }
 
   const scenes = timeline.filter((item): item is SceneSpec => !("kind" in item));
   if (scenes.length === 0) {
-    throw new ParseError("vml requires at least one scene.");
+    reportError(rootEl, "vml requires at least one scene.");
+  }
+
+  const sceneIds = new Set<string>();
+  for (const scene of scenes) {
+    if (sceneIds.has(scene.id)) {
+      reportError(elementOf.get(scene), `Duplicate scene id: "${scene.id}".`);
+    }
+    sceneIds.add(scene.id);
   }
 
   const cueIds = new Set<string>();
@@ -937,7 +1492,7 @@ export const loadVideoFileFromXml = (xml: string): VideoFileSpec => {
     for (const item of scene.items) {
       if ("kind" in item && item.kind === "cue") {
         if (cueIds.has(item.id)) {
-          throw new ParseError(`Duplicate cue id across scenes: "${item.id}".`);
+          reportError(elementOf.get(item), `Duplicate cue id across scenes: "${item.id}".`);
         }
         cueIds.add(item.id);
       }
@@ -948,7 +1503,7 @@ export const loadVideoFileFromXml = (xml: string): VideoFileSpec => {
       for (const cueItem of item.items) {
         if ("kind" in cueItem && cueItem.kind === "cue") {
           if (cueIds.has(cueItem.id)) {
-            throw new ParseError(`Duplicate cue id across scenes/narration: "${cueItem.id}".`);
+            reportError(elementOf.get(cueItem), `Duplicate cue id across scenes/narration: "${cueItem.id}".`);
           }
           cueIds.add(cueItem.id);
         }
@@ -960,7 +1515,7 @@ export const loadVideoFileFromXml = (xml: string): VideoFileSpec => {
   for (const item of timeline) {
     if ("kind" in item && item.kind === "mark") {
       if (markIds.has(item.id)) {
-        throw new ParseError(`Duplicate mark id: "${item.id}".`);
+        reportError(elementOf.get(item), `Duplicate mark id: "${item.id}".`);
       }
       markIds.add(item.id);
     }
@@ -980,20 +1535,55 @@ export const loadVideoFileFromXml = (xml: string): VideoFileSpec => {
     timeline,
   };
 
+  const series = getChildElements(rootEl)
+    .filter((child) => child.tagName === "series")
+    .map((child) => recover(child, () => parseSeries(child, id)))
+    .filter((entry): entry is SeriesSpec => entry != null);
+
   const videoFile: VideoFileSpec = {
     compositions: [composition],
+    ...(series.length ? { series } : {}),
+    ...(Object.keys(templateVars).length ? { vars: templateVars } : {}),
   };
+  if (isTemplate) {
+    markSeriesTemplates(videoFile);
+    registerSeriesSource(videoFile, (vars) =>
+      withDiagnosticSession({ file: options.sourcePath, diagnostics: null }, () =>
+        parseVideoFileXml(xml, { ...options, vars: { ...(options.vars ?? {}), ...vars } }, true)!,
+      ),
+    );
+  }
 
   return videoFile;
 };
 
+const parseSeries = (element: ElementLike, compositionId: string): SeriesSpec => {
+  const attrs = parseAttributes(element);
+  if (!attrs.id) {
+    throw new ParseError("series requires id attribute.");
+  }
+  const episodes = getChildElements(element)
+    .filter((child) => child.tagName === "episode")
+    .map((child) => {
+      const { id, ...props } = parseAttributes(child);
+      if (!id) {
+        throw new ParseError(`episode in series "${attrs.id}" requires id attribute.`, locationOf(child));
+      }
+      return { id, props };
+    });
+  if (episodes.length === 0) {
+    throw new ParseError(`series "${attrs.id}" requires at least one episode.`);
+  }
+  return { id: attrs.id, compositionId: attrs.compositionId ?? compositionId, episodes };
+};
+
 export const loadVideoFileFromXmlWithPatches = (
   xml: string,
   patches: Array<import("./xml-patch.js").VomPatch>,
-  opts?: { enforceSealed?: boolean },
+  opts?: { enforceSealed?: boolean } & XmlLoadOptions,
 ): VideoFileSpec => {
   const nextXml = applyVomPatches(xml, patches, { enforceSealed: opts?.enforceSealed });
-  return loadVideoFileFromXml(nextXml);
+  return loadVideoFileFromXml(nextXml, { vars: opts?.vars });
 };
 
 export const getXmlAudioPlan = (_root: ElementLike): AudioPlan | undefined => {
@@ -5,10 +5,25 @@ export class BabulusError extends Error {
   }
 }
 
+export type SourceLocation = {
+  file?: string;
+  line: number;
+  column: number;
+};
+
+export const formatSourceLocation = (location: SourceLocation) =>
+  `${location.file ?? "<input>"}:${location.line}:${location.column}`;
+
 export class ParseError extends BabulusError {
-  constructor(message: string) {
-    super(message);
+  /** The message without the location prefix. */
+  readonly reason: string;
+  readonly location?: SourceLocation;
+
+  constructor(message: string, location?: SourceLocation) {
+    super(location ? `${formatSourceLocation(location)}: ${message}` : message);
     this.name = "ParseError";
+    this.reason = message;
+    this.location = location;
   }
 }
 
@@ -18,3 +33,32 @@ export class CompileError extends BabulusError {
     this.name = "CompileError";
   }
 }
+
+/**
+ * A provider API answered with an HTTP error status. Kept apart from other compile errors so rate
+ * limits and outages can be retried.
+ */
+export class ProviderHttpError extends CompileError {
+  readonly status: number;
+  /** Seconds from the `Retry-After` header, when the provider sent one. */
+  readonly retryAfterSec: number | null;
+
+  constructor(message: string, status: number, retryAfter?: string | null) {
+    super(message);
+    this.name = "ProviderHttpError";
+    this.status = status;
+    this.retryAfterSec = parseRetryAfter(retryAfter ?? null);
+  }
+}
+
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) {
+    return null;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds);
+  }
+  const at = Date.parse(value);
+  return Number.isNaN(at) ? null : Math.max(0, (at - Date.now()) / 1000);
+}
@@ -0,0 +1,129 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { CompileError } from "./errors.js";
+import type { Config } from "./config.js";
+import { runWithFallback } from "./fallback.js";
+import { getTtsProvider } from "./providers/tts/registry.js";
+import { loadVideoFileFromXml } from "./dsl/xml.js";
+import { generateComposition } from "./generate.js";
+import { planComposition } from "./plan.js";
+
+const failing = (message: string) => async () => {
+  throw new Error(message);
+};
+
+describe("runWithFallback", () => {
+  it("moves down the chain and reports what failed", async () => {
+    const chain = [
+      { name: "elevenlabs", provider: failing("quota exceeded") },
+      { name: "azure-speech", provider: failing("503 Service Unavailable\nretry later") },
+      { name: "openai", provider: async () => "audio" },
+    ];
+    const outcome = await runWithFallback(chain, (_name, provider) => provider());
+    assert.deepEqual(outcome, {
+      result: "audio",
+      provider: "openai",
+      failures: ["elevenlabs: quota exceeded", "azure-speech: 503 Service Unavailable"],
+    });
+  });
+
+  it("rethrows a lone provider's error and lists every failure otherwise", async () => {
+    await assert.rejects(runWithFallback([{ name: "openai", provider: failing("boom") }], (_n, p) => p()), /^Error: boom$/);
+    await assert.rejects(
+      runWithFallback(
+        [
+          { name: "openai", provider: failing("boom") },
+          { name: "azure-speech", provider: failing("bust") },
+        ],
+        (_n, p) => p(),
+      ),
+      (err: unknown) => err instanceof CompileError && err.message === "Every provider failed:\n  openai: boom\n  azure-speech: bust",
+    );
+  });
+});
+
+describe("getTtsProvider credentials", () => {
+  it("only falls back to dry-run when opted in", () => {
+    const saved = { key: process.env.OPENAI_API_KEY, ci: process.env.CI, mock: process.env.BABULUS_MOCK_TTS };
+    delete process.env.OPENAI_API_KEY;
+    delete process.env.CI;
+    delete process.env.BABULUS_MOCK_TTS;
+    try {
+      assert.throws(() => getTtsProvider("openai", {}), /no API key was found.*tts\.dry_run_fallback: true/);
+      assert.equal(getTtsProvider("openai", { tts: { dry_run_fallback: true } }).name, "dry-run");
+    } finally {
+      for (const [name, value] of [["OPENAI_API_KEY", saved.key], ["CI", saved.ci], ["BABULUS_MOCK_TTS", saved.mock]]) {
+        if (value === undefined) delete process.env[name as string];
+        else process.env[name as string] = value;
+      }
+    }
+  });
+});
+
+describe("generateComposition fallbacks", () => {
+  let outDir: string;
+  let originalForce: string | undefined;
+
+  before(() => {
+    outDir = mkdtempSync(join(tmpdir(), "videoml-fallback-test-"));
+    originalForce = process.env.BABULUS_FORCE_TTS_ERROR;
+    process.env.BABULUS_FORCE_TTS_ERROR = "1";
+  });
+
+  after(() => {
+    if (originalForce === undefined) delete process.env.BABULUS_FORCE_TTS_ERROR;
+    else process.env.BABULUS_FORCE_TTS_ERROR = originalForce;
+    rmSync(outDir, { recursive: true, force: true });
+  });
+
+  it("produces failed segments with the next provider and records it everywhere", async () => {
+    const composition = loadVideoFileFromXml(`
+      <vml id="demo">
+        <scene id="intro">
+          <cue id="hello"><voice>Hello there.</voice></cue>
+        </scene>
+      </vml>`).compositions[0];
+    const config: Config = {
+      tts: { default_provider: "openai", fallback: ["dry-run"] },
+      providers: { openai: { api_key: "sk-fallback" } },
+    };
+    const logs: string[] = [];
+    const artifact = await generateComposition({
+      composition,
+      dslPath: join(outDir, "demo.xml"),
+      scriptOut: join(outDir, "script.json"),
+      timelineOut: join(outDir, "timeline.json"),
+      outDir,
+      config,
+      captions: false,
+      log: (msg) => logs.push(msg),
+    });
+
+    assert.deepEqual(
+      artifact.fallbacks?.map((record) => [record.kind, record.item, record.from, record.provider, record.reason]),
+      [["tts", "scene=intro cue=hello seg=1", "openai", "dry-run", "openai: TTS API unavailable"]],
+    );
+    assert.ok(logs.some((line) => /^tts: FALLBACK segment=.* provider=openai failed \(TTS API unavailable\); trying dry-run$/.test(line)));
+    assert.ok(logs.some((line) => /^FALLBACK: 1 item\(s\) .* the fallback produces \(and bills\) them again:$/.test(line)));
+    assert.ok(logs.includes("  tts scene=intro cue=hello seg=1: openai -> dry-run (openai: TTS API unavailable)"));
+
+    const envDir = join(outDir, "env", "development");
+    const manifest = JSON.parse(readFileSync(join(envDir, "manifest.json"), "utf-8"));
+    const [meta] = Object.values(manifest.segments).map((entry) => (entry as { meta: Record<string, unknown> }).meta);
+    assert.equal(meta.provider, "dry-run");
+    assert.equal(meta.fallbackFrom, "openai");
+    const [usage] = readFileSync(join(envDir, "usage.jsonl"), "utf-8").trim().split("\n").map((line) => JSON.parse(line));
+    assert.equal(usage.provider, "dry-run");
+    assert.equal(usage.fallbackFrom, "openai");
+    const run = JSON.parse(readFileSync(artifact.runPath!, "utf-8"));
+    assert.equal(run.fallbacks.length, 1);
+
+    // The fallback segment is not a cache hit: the next run tries openai again.
+    const [planned] = planComposition({ composition, outDir, config }).items;
+    assert.equal(planned.action, "synthesize");
+    assert.equal(planned.reason, "fallback");
+  });
+});
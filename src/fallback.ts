@@ -0,0 +1,82 @@
+import { CompileError } from "./errors.js";
+
+export type FallbackKind = "tts" | "sfx" | "music";
+
+/**
+ * A segment or clip variant produced by a fallback provider because the configured one failed.
+ */
+export type FallbackRecord = {
+  kind: FallbackKind;
+  /** Where the item sits, e.g. `scene=intro cue=hello seg=1` or `clip=ding variant=1`. */
+  item: string;
+  /** The configured provider. */
+  from: string;
+  /** The provider that produced the audio. */
+  provider: string;
+  /** Why each provider before it failed, in chain order. */
+  reason: string;
+  path: string;
+};
+
+export type ProviderChain<P> = Array<{ name: string; provider: P }>;
+
+/**
+ * The configured provider followed by its fallbacks, each created up front so configuration
+ * mistakes surface before anything is synthesized. Repeats of an earlier name are dropped.
+ */
+export function buildProviderChain<P>(
+  name: string,
+  provider: P,
+  fallbacks: string[],
+  create: (name: string) => P,
+): ProviderChain<P> {
+  const chain: ProviderChain<P> = [{ name, provider }];
+  for (const fallback of fallbacks) {
+    if (!chain.some((entry) => entry.name === fallback)) {
+      chain.push({ name: fallback, provider: create(fallback) });
+    }
+  }
+  return chain;
+}
+
+const firstLine = (err: unknown) => (err instanceof Error ? err.message.split("\n")[0] : String(err));
+
+/**
+ * Try `attempt` with each provider in the chain until one succeeds. `failures` describes the
+ * providers that failed first; it is empty when the configured provider worked. When every provider
+ * fails, a lone provider's error is rethrown as is and a longer chain reports each failure.
+ */
+export async function runWithFallback<P, T>(
+  chain: ProviderChain<P>,
+  attempt: (name: string, provider: P, index: number) => Promise<T>,
+  onFailure?: (name: string, reason: string, next: string | null) => void,
+): Promise<{ result: T; provider: string; failures: string[] }> {
+  const failures: string[] = [];
+  for (const [index, { name, provider }] of chain.entries()) {
+    try {
+      return { result: await attempt(name, provider, index), provider: name, failures };
+    } catch (err) {
+      if (chain.length === 1) {
+        throw err;
+      }
+      failures.push(`${name}: ${firstLine(err)}`);
+      onFailure?.(name, firstLine(err), chain[index + 1]?.name ?? null);
+    }
+  }
+  throw new CompileError(`Every provider failed:\n  ${failures.join("\n  ")}`);
+}
+
+/**
+ * Log lines for the end of a run; empty when nothing fell back. Fallback output is never a cache
+ * hit, so the summary warns that it is produced and billed again while the configured provider fails.
+ */
+export function formatFallbackSummary(records: FallbackRecord[]): string[] {
+  if (!records.length) {
+    return [];
+  }
+  return [
+    `FALLBACK: ${records.length} item(s) were produced by a fallback provider and will be retried with the configured provider on the next run; ` +
+      "if it fails again, the fallback produces (and bills) them again:",
+    ...records.map((record) => `  ${record.kind} ${record.item}: ${record.from} -> ${record.provider} (${record.reason})`),
+  ];
+}
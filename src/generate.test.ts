@@ -0,0 +1,209 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import type { Config } from "./config.js";
+import { wavDurationSec } from "./audio/wav.js";
+import { defineVideo } from "./dsl/builder.js";
+import type { SceneSpec, VideoFileSpec } from "./dsl/types.js";
+import { loadVideoFileFromXml } from "./dsl/xml.js";
+import { applyDucking, collectSpeechWindows, generateComposition } from "./generate.js";
+import { generateSeries } from "./series.js";
+
+const config: Config = {
+  tts: { default_provider: "openai" },
+  providers: { openai: { api_key: "sk-generate" } },
+};
+
+describe("generateComposition", () => {
+  let outDir: string;
+  let originalMock: string | undefined;
+
+  before(() => {
+    outDir = mkdtempSync(join(tmpdir(), "videoml-generate-test-"));
+    originalMock = process.env.BABULUS_MOCK_TTS;
+    process.env.BABULUS_MOCK_TTS = "1";
+  });
+
+  after(() => {
+    if (originalMock === undefined) delete process.env.BABULUS_MOCK_TTS;
+    else process.env.BABULUS_MOCK_TTS = originalMock;
+    rmSync(outDir, { recursive: true, force: true });
+  });
+
+  it("places each segment at its timeline start when a scene starts after a gap", async () => {
+    const composition = loadVideoFileFromXml(`
+      <vml id="gap">
+        <scene id="intro">
+          <cue id="hello"><voice>Hello there.</voice></cue>
+        </scene>
+        <scene id="later" start="3s" duration="2s">
+          <cue id="back"><voice>Welcome back.</voice></cue>
+        </scene>
+      </vml>`).compositions[0];
+    const audioOut = join(outDir, "gap.wav");
+    await generateComposition({
+      composition,
+      dslPath: join(outDir, "gap.xml"),
+      scriptOut: join(outDir, "script.json"),
+      timelineOut: join(outDir, "timeline.json"),
+      audioOut,
+      outDir,
+      config,
+      captions: false,
+      verboseLogs: false,
+    });
+    const script = JSON.parse(readFileSync(join(outDir, "script.json"), "utf-8"));
+    const back = script.scenes[1].cues[0];
+    assert.equal(back.startSec, 3);
+    // The bed holds the intro line, silence up to 3s, then the second line.
+    assert.ok(Math.abs(wavDurationSec(audioOut) - back.endSec) < 0.01);
+  });
+
+  it("captions narration cues alongside scene cues", async () => {
+    const composition = loadVideoFileFromXml(`
+      <vml id="aside">
+        <scene id="intro" duration="4s">
+          <cue id="hi"><voice>Hi.</voice></cue>
+        </scene>
+        <narration id="note" start="2s">
+          <cue id="extra"><voice>One more thing.</voice></cue>
+        </narration>
+      </vml>`).compositions[0];
+    const scriptOut = join(outDir, "aside.json");
+    await generateComposition({
+      composition,
+      dslPath: join(outDir, "aside.xml"),
+      scriptOut,
+      timelineOut: join(outDir, "aside-timeline.json"),
+      outDir,
+      config,
+      verboseLogs: false,
+    });
+    const script = JSON.parse(readFileSync(scriptOut, "utf-8"));
+    assert.equal(script.narration[0].id, "extra");
+    assert.equal(script.narration[0].startSec, 2);
+    assert.match(readFileSync(join(outDir, "aside.vtt"), "utf-8"), /Hi\.\n\n00:00:02\.000 --> .*\nOne more thing\./);
+  });
+
+  it("rejects a series template outside generateSeries", async () => {
+    const videoFile = loadVideoFileFromXml(`
+      <vml id="show">
+        <scene id="intro">
+          <cue id="hello"><voice>Today {{ guest }} joins us.</voice></cue>
+        </scene>
+        <series id="s1"><episode id="ep1" guest="Ada" /></series>
+      </vml>`);
+    const paths = {
+      dslPath: join(outDir, "show.xml"),
+      scriptOut: join(outDir, "show.json"),
+      timelineOut: join(outDir, "show-timeline.json"),
+    };
+    await assert.rejects(
+      generateComposition({ ...paths, composition: videoFile.compositions[0], outDir, config, captions: false }),
+      /Composition "show" still contains \{\{ guest \}\}; series templates are generated per episode/,
+    );
+    await generateSeries({ videoFile, dslPath: paths.dslPath, outDir, config, captions: false, withAudio: false });
+    const script = JSON.parse(readFileSync(join(outDir, "episodes", "s1", "ep1", "script.json"), "utf-8"));
+    assert.equal(script.scenes[0].cues[0].text, "Today Ada joins us.");
+  });
+
+  it("generates a composition that shows mustache text outside any series", async () => {
+    const videoFile = defineVideo("Templates", (video) => {
+      video.scene("Syntax", { duration: 2 }, (scene) => {
+        scene.layer("code", {}, (layer) => layer.codeBlock({ language: "handlebars", code: "<p>{{ title }}</p>" }));
+        scene.cue("Explain", (cue) => cue.voice((voice) => voice.say("Handlebars fills the title in.")));
+      });
+    }) as VideoFileSpec;
+    const scriptOut = join(outDir, "templates.json");
+    await generateComposition({
+      composition: videoFile.compositions[0],
+      dslPath: join(outDir, "templates.ts"),
+      scriptOut,
+      timelineOut: join(outDir, "templates-timeline.json"),
+      outDir,
+      config,
+      captions: false,
+      verboseLogs: false,
+    });
+    assert.equal(JSON.parse(readFileSync(scriptOut, "utf-8")).scenes[0].cues[0].text, "Handlebars fills the title in.");
+  });
+});
+
+describe("ducking", () => {
+  const windows: Array<[number, number]> = [
+    [1, 2],
+    [2.2, 3],
+    [6, 7],
+  ];
+
+  it("collects sorted speech windows from tts segments only", () => {
+    const items = [
+      {
+        type: "tts",
+        segments: [
+          { type: "tts", startSec: 6, endSec: 7 },
+          { type: "pause", startSec: 2, endSec: 2.2 },
+          { type: "tts", startSec: 1, endSec: 2 },
+          { type: "tts", startSec: 2.2, endSec: 3 },
+          { type: "tts", startSec: 4, endSec: 4 },
+        ],
+      },
+      { type: "sfx", segments: [{ type: "tts", startSec: 0, endSec: 9 }] },
+    ];
+    assert.deepEqual(collectSpeechWindows(items), windows);
+  });
+
+  it("dips the gain under speech and merges close phrases", () => {
+    const envelope = applyDucking(null, 0.8, 0, 10, { under: "voice", depth: 0.5 }, windows);
+    const volumeAt = (sec: number) => envelope?.find((point) => Math.abs(point.atSec - sec) < 1e-9)?.volume;
+    assert.equal(volumeAt(0), 0.8);
+    assert.equal(volumeAt(0.85), 0.8);
+    assert.equal(volumeAt(1), 0.4);
+    // 2s to 2.2s sits inside the release of the first phrase, so the gain stays down.
+    assert.equal(volumeAt(2.2), undefined);
+    assert.equal(volumeAt(3), 0.4);
+    assert.equal(volumeAt(3.4), 0.8);
+    assert.equal(volumeAt(6), 0.4);
+    assert.equal(volumeAt(10), 0.8);
+  });
+
+  it("measures speech from the clip's own start and keeps its fades", () => {
+    const fade = [
+      { atSec: 0, volume: 1 },
+      { atSec: 4, volume: 0 },
+    ];
+    const duck = { under: "voice" as const, depth: 0.2, attackSeconds: 0.5, releaseSeconds: 0.5 };
+    const envelope = applyDucking(fade, 1, 5, 4, duck, windows);
+    assert.deepEqual(
+      envelope?.map((point) => [point.atSec, Number(point.volume.toFixed(6))]),
+      [
+        [0, 1],
+        [0.5, 0.875],
+        [1, 0.15],
+        [2, 0.1],
+        [2.5, 0.375],
+        [4, 0],
+      ],
+    );
+    assert.equal(applyDucking(fade, 1, 5, 4, undefined, windows), fade);
+    assert.equal(applyDucking(fade, 1, 20, 4, { under: "voice" }, windows), fade);
+  });
+
+  it("reads duck settings from XML", () => {
+    const scene = loadVideoFileFromXml(`
+      <vml id="duck">
+        <scene id="intro" duration="4s">
+          <music id="bed" start="0s" src="bed.wav" duck="voice" duck-depth="0.25" duck-attack="0.1s" duck-release="500ms" />
+          <sfx id="ding" start="1s" src="ding.wav" duck="none" />
+        </scene>
+      </vml>`).compositions[0].timeline[0] as SceneSpec;
+    assert.deepEqual(scene.audio?.[0]?.duck, { under: "voice", depth: 0.25, attackSeconds: 0.1, releaseSeconds: 0.5 });
+    assert.equal(scene.audio?.[1]?.duck, undefined);
+    const bad = (attrs: string) => () =>
+      loadVideoFileFromXml(`<vml id="d"><scene id="s" duration="1s"><music id="m" src="m.wav" ${attrs} /></scene></vml>`);
+    assert.throws(bad('duck="music"'), /audio "m" duck must be "voice" \(got "music"\)/);
+    assert.throws(bad('duck="voice" duck-depth="1.5"'), /audio "m" duck-depth must be a number between 0 and 1/);
+  });
+});
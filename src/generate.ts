@@ -1,17 +1,26 @@
 import { writeFileSync, existsSync, mkdirSync, copyFileSync, readdirSync, unlinkSync } from "fs";
-import { dirname, join, resolve, sep } from "path";
+import { dirname, isAbsolute, join, resolve, sep } from "path";
 import { CompileError } from "./errors.js";
-import { getDefaultMusicProvider, getDefaultProvider, getDefaultSfxProvider, type Config } from "./config.js";
+import {
+  getDefaultMusicProvider,
+  getDefaultProvider,
+  getDefaultSfxProvider,
+  getFallbackProviders,
+  type Config,
+} from "./config.js";
 import { getEnvironment, resolveEnvCacheDir } from "./env.js";
-import { loadManifest, getManifestDuration, resolveCachedSegment, resolveCachedSfx, resolveCachedMusic } from "./cache-resolver.js";
+import { loadManifest, getManifestDuration, getManifestAlignment, resolveCachedSegment, resolveCachedSfx, resolveCachedMusic } from "./cache-resolver.js";
 import { hashKey, safePrefix, ensureDir } from "./util.js";
-import { makeBullet, type Script, type TransitionTimelineItem, scriptToJson } from "./models.js";
+import { makeBullet, type CuePoint, type CueSegment, type CueWord, type Script, type TransitionTimelineItem, scriptToJson } from "./models.js";
 import { getTtsProvider } from "./providers/tts/registry.js";
 import { estimateDurationSec } from "./providers/tts/dry-run.js";
+import { estimateAlignment, findWord, placeWords } from "./providers/tts/alignment.js";
+import type { TTSAlignment, TTSSegment, WordTiming } from "./providers/tts/types.js";
 import { getSfxProvider } from "./providers/sfx/registry.js";
 import { getMusicProvider } from "./providers/music/registry.js";
 import {
   type CompositionSpec,
+  type CueSpec,
   type PauseSpec,
   type SceneSpec,
   type VoiceSegmentSpec,
@@ -24,16 +33,53 @@ import {
   type NarrationSpec,
   type ComponentSpec,
   type LayerSpec,
+  type DuckSpec,
+  type VoiceoverConfig,
 } from "./dsl/types.js";
 import { pause as pauseHelper } from "./dsl/pause.js";
-import { concatAudioFiles, estimateTrailingSilenceSec, probeDurationSec, trimAudioToDuration } from "./media.js";
+import { applyConditions, conditionScope } from "./dsl/condition.js";
+import { findPlaceholder } from "./dsl/interpolate.js";
+import { isSeriesTemplate } from "./dsl/series.js";
+import { resolveDeferredTiming, type TimeEvalContext } from "./dsl/time-expr.js";
+import {
+  concatAudioFiles,
+  conformAudioFile,
+  estimateTrailingSilenceSec,
+  measureLoudness,
+  mixAudioTracks,
+  normalizeLoudness,
+  probeDurationSec,
+  trimAudioToDuration,
+  type AudioMixInput,
+  type LoudnessTarget,
+} from "./media.js";
 import { writeSilenceWav } from "./audio/wav.js";
 import { loadSelections, selectionPath } from "./sfx-workflow.js";
 import { ensureDictionaryFromRules, rulesHash, type PronunciationRule } from "./elevenlabs-pronunciation.js";
 import { ElevenLabsTTSProvider } from "./providers/tts/elevenlabs.js";
-import { createUsageLedger, recordUsage, summarizeUsageFile, summarizeUsageFileDetailed, type UsageEntry } from "./telemetry.js";
+import type { LocalTTSProvider } from "./providers/tts/local.js";
+import {
+  createUsageLedger,
+  loadUsageEntries,
+  recordUsage,
+  summarizeUsageFile,
+  summarizeUsageFileDetailed,
+  type UsageEntry,
+} from "./telemetry.js";
 import { estimateUsageCost, getRateCard } from "./pricing.js";
-import { writeRunArtifacts } from "./artifacts.js";
+import {
+  budgetExceededError,
+  createBudgetGuard,
+  findBudgetOverrun,
+  getBudget,
+  recordBudgetUsage,
+  type Budget,
+} from "./budget.js";
+import { planComposition, type PlannedItem } from "./plan.js";
+import { getSynthesisLimits, SynthesisScheduler } from "./scheduler.js";
+import { buildProviderChain, formatFallbackSummary, runWithFallback, type FallbackRecord } from "./fallback.js";
+import { writeRunArtifacts, type RunLoudness } from "./artifacts.js";
+import { writeCaptions, type CaptionOptions } from "./captions.js";
 
 export type GeneratedArtifact = {
   script: Script;
@@ -42,6 +88,10 @@ export type GeneratedArtifact = {
   didSynthesize: boolean;
   runId?: string;
   runPath?: string;
+  loudness?: RunLoudness | null;
+  captionPaths?: { vttPath: string; srtPath: string } | null;
+  /** Segments and clips a fallback provider produced this run. */
+  fallbacks?: FallbackRecord[];
 };
 
 export type GenerateOptions = {
@@ -60,11 +110,25 @@ export type GenerateOptions = {
   usagePath?: string | null;
   log?: (msg: string) => void;
   verboseLogs?: boolean;
+  /** Caption export next to `scriptOut` (`.vtt` + `.srt`); pass `false` to skip. */
+  captions?: CaptionOptions | false;
+  /** Spending caps checked before each synthesis; defaults to config `budget`, `null` disables. */
+  budget?: Budget | null;
 };
 
 export async function generateComposition(options: GenerateOptions): Promise<GeneratedArtifact> {
+  const scheduler = new SynthesisScheduler(getSynthesisLimits(options.config), { log: options.log });
+  try {
+    return await generateWithScheduler(options, scheduler);
+  } finally {
+    // A failed run can leave requests in flight; let them land before reporting the failure.
+    await scheduler.settled();
+  }
+}
+
+async function generateWithScheduler(options: GenerateOptions, scheduler: SynthesisScheduler): Promise<GeneratedArtifact> {
   const {
-    composition,
+    composition: sourceComposition,
     dslPath,
     scriptOut,
     audioOut,
@@ -78,7 +142,17 @@ export async function generateComposition(options: GenerateOptions): Promise<Gen
     fresh = false,
     log,
     verboseLogs = true,
+    captions,
   } = options;
+  // XML conditions are decided at load time; this covers builder-authored `when` conditions.
+  const composition = applyConditions(sourceComposition, conditionScope());
+  const placeholder = isSeriesTemplate(sourceComposition) ? findPlaceholder(composition) : null;
+  if (placeholder) {
+    throw new CompileError(
+      `Composition "${composition.id}" still contains ${placeholder}; ` +
+        "series templates are generated per episode with generateSeries.",
+    );
+  }
 
   const _log = (msg: string) => {
     if (log) {
@@ -100,6 +174,13 @@ export async function generateComposition(options: GenerateOptions): Promise<Gen
   const dryRunMode = providerName === "dry-run";
   const resolvedModel = voiceover.model ?? (provider as { defaultModel?: string }).defaultModel ?? null;
   const resolvedVoice = voiceover.voice ?? (provider as { defaultVoice?: string }).defaultVoice ?? null;
+  const ttsChain = buildProviderChain(
+    providerName,
+    provider,
+    dryRunMode ? [] : getFallbackProviders(config, "tts"),
+    (name) => getTtsProvider(name, config),
+  );
+  const fallbacks: FallbackRecord[] = [];
 
   if (verboseLogs) {
     const modelInfo = `model=${resolvedModel ?? ""}`;
@@ -132,20 +213,7 @@ export async function generateComposition(options: GenerateOptions): Promise<Gen
   let effectivePronunciationLocators: Array<Record<string, unknown>> | null = null;
 
   if (providerName === "elevenlabs" && voiceover.pronunciations && voiceover.pronunciations.length > 0) {
-    const rules: PronunciationRule[] = voiceover.pronunciations.map((lex) => {
-      if (lex.alias) {
-        return { stringToReplace: lex.grapheme, type: "alias", alias: lex.alias };
-      }
-      if (!lex.phoneme) {
-        throw new CompileError(`Pronunciation lexeme for "${lex.grapheme}" must provide phoneme or alias`);
-      }
-      return {
-        stringToReplace: lex.grapheme,
-        type: "phoneme",
-        phoneme: lex.phoneme,
-        alphabet: lex.alphabet ?? "ipa",
-      };
-    });
+    const rules = pronunciationRules(voiceover);
 
     if (!(provider instanceof ElevenLabsTTSProvider)) {
       throw new CompileError("ElevenLabs pronunciation rules require the elevenlabs provider");
@@ -167,46 +235,28 @@ export async function generateComposition(options: GenerateOptions): Promise<Gen
       description: voiceover.pronunciationDictionary?.description ?? null,
     });
 
-    const merged: Array<Record<string, unknown>> = [
-      { pronunciation_dictionary_id: dictId, version_id: null },
-    ];
-
-    if (voiceover.pronunciationDictionaryLocators) {
-      for (const loc of voiceover.pronunciationDictionaryLocators) {
-        if (loc.pronunciationDictionaryId === dictId) {
-          continue;
-        }
-        merged.push({
-          pronunciation_dictionary_id: loc.pronunciationDictionaryId,
-          version_id: loc.versionId ?? null,
-        });
-      }
-    }
-    if (merged.length > 3) {
-      throw new CompileError("ElevenLabs supports up to 3 pronunciation dictionaries per request");
-    }
-    effectivePronunciationLocators = merged;
+    effectivePronunciationLocators = pronunciationLocators(voiceover, dictId);
   }
 
-  const ttsContext = {
-    voice: voiceover.voice ?? null,
-    model: voiceover.model ?? null,
-    format: voiceover.format ?? "wav",
-    sample_rate_hz: sampleRateHz,
-    provider_ctx: providerCacheContext(providerName, provider),
-    pronunciation_dictionary_locators: effectivePronunciationLocators,
-    pronunciation_rules_hash: pronunciationRulesHash,
-  };
+  const ttsContext = ttsCacheContext(
+    voiceover,
+    providerName,
+    provider,
+    sampleRateHz,
+    effectivePronunciationLocators,
+    pronunciationRulesHash,
+  );
 
   const legacyScenes = (composition as { scenes?: SceneSpec[] }).scenes ?? [];
   const timelineSpec: TimelineItemSpec[] = composition.timeline ?? legacyScenes;
-  const sceneItems = timelineSpec.filter((item): item is SceneSpec => !("kind" in item));
+  const sceneItems = timelineSpec.filter(isSceneItem);
 
   let now = 0;
   const timelineItems: Array<Record<string, unknown>> = [];
   const outScenes: Script["scenes"] = [];
+  const narrationCues: CuePoint[] = [];
   const segmentKeyCounts: Record<string, number> = {};
-  const segmentPathsForConcat: string[] = [];
+  const narrationBed: NarrationBedSegment[] = [];
   const narrationSegmentClips: Array<Record<string, unknown>> = [];
   const cueStartIndex: Record<string, number> = {};
   const cueSceneIndex: Record<string, string> = {};
@@ -226,19 +276,52 @@ export async function generateComposition(options: GenerateOptions): Promise<Gen
     }
     now = leadInSec;
     timelineItems.push({ type: "lead_in", startSec: 0, endSec: now, seconds: now });
+  }
 
-    if (!dryRunMode) {
-      // Generate silence audio file for lead-in
-      const silenceKey = hashKey({ kind: "silence", durationSec: leadInSec, sampleRateHz });
-      const silencePath = join(segmentsDir, `silence-${safePrefix(silenceKey)}.wav`);
-      if (!existsSync(silencePath)) {
-        writeSilenceWav(silencePath, leadInSec, sampleRateHz);
-      }
-      segmentPathsForConcat.push(silencePath);
-    }
+  const budget = options.budget === undefined ? getBudget(config) : options.budget;
+  if (budget?.perDay && !usagePath) {
+    throw new CompileError("budget.per_day is counted from the usage ledger, which is disabled (usagePath: null).");
   }
+  const budgetGuard = budget
+    ? createBudgetGuard(budget, rateCard, usagePath ? loadUsageEntries(usagePath) : [])
+    : null;
+  // The syntheses a budget stop would skip; only worked out when a budget applies.
+  const plannedSyntheses: PlannedItem[] = budgetGuard
+    ? planComposition(options).items.filter((item) => item.action === "synthesize")
+    : [];
+  const startedKeys = new Set<string>();
+  const budgetReservations = new Map<string, number>();
+
+  const reserveBudget = (entry: Omit<UsageEntry, "timestamp">, cacheKey: string) => {
+    startedKeys.add(cacheKey);
+    if (!budgetGuard || entry.provider === "dry-run") {
+      return;
+    }
+    const overrun = findBudgetOverrun(budgetGuard, entry);
+    if (overrun) {
+      // Keep what was already paid for so the next run reuses it.
+      ensureDir(envCacheDir);
+      writeFileSync(manifestPath, JSON.stringify(manifest, null, 2) + "\n");
+      throw budgetExceededError(
+        overrun,
+        plannedSyntheses.filter((item) => item.cacheKey === cacheKey || !startedKeys.has(item.cacheKey)),
+      );
+    }
+    // Counted when the request starts, since several can be in flight before the first is recorded.
+    recordBudgetUsage(budgetGuard, entry);
+    budgetReservations.set(cacheKey, entry.quantity);
+  };
 
-  const recordUsageEvent = (entry: Omit<UsageEntry, "timestamp">) => {
+  const recordUsageEvent = (entry: Omit<UsageEntry, "timestamp">, cacheKey: string) => {
+    if (budgetGuard) {
+      const reserved = budgetReservations.get(cacheKey);
+      budgetReservations.delete(cacheKey);
+      if (reserved == null) {
+        recordBudgetUsage(budgetGuard, entry);
+      } else if (entry.quantity !== reserved) {
+        recordBudgetUsage(budgetGuard, { ...entry, quantity: entry.quantity - reserved });
+      }
+    }
     if (!usageLedger) {
       return;
     }
@@ -246,68 +329,154 @@ export async function generateComposition(options: GenerateOptions): Promise<Gen
     recordUsage(usageLedger, { ...entry, estimatedCost });
   };
 
+  const ttsExt = providerName === "elevenlabs" ? ".mp3" : ".wav";
+  const ttsUsage = (sceneId: string, cueId: string, segmentIndex: number, text: string): Omit<UsageEntry, "timestamp"> => ({
+    kind: "tts",
+    unitType: "chars",
+    quantity: text.length,
+    provider: providerName,
+    compositionId: composition.id,
+    sceneId,
+    cueId,
+    segmentIndex,
+    model: resolvedModel,
+    voice: resolvedVoice,
+    env: currentEnv,
+  });
+
+  // Keyed by segment path; a fallback writes to the configured provider's cache slot, converted to the
+  // run's format and sample rate so the narration bed concatenates one stream format.
+  const segmentFallbacks = new Map<string, FallbackRecord>();
+  const synthesizeSegment = (segPath: string, text: string, usage: Omit<UsageEntry, "timestamp">, segKey: string) => {
+    reserveBudget(usage, segKey);
+    ensureDir(dirname(segPath));
+    const label = `segment=${segPath.split(sep).pop()}`;
+    const pending = runWithFallback(
+      ttsChain,
+      (name, candidate, index) =>
+        scheduler.run(name, label, () =>
+          candidate.synthesize(
+            {
+              text,
+              // Voice, model and pronunciations are the configured provider's; fallbacks use their own defaults.
+              voice: index === 0 ? voiceover.voice ?? null : null,
+              model: index === 0 ? voiceover.model ?? null : null,
+              format: voiceover.format ?? "wav",
+              sampleRateHz,
+              extra: index === 0 && effectivePronunciationLocators
+                ? { pronunciation_dictionary_locators: effectivePronunciationLocators }
+                : {},
+            },
+            segPath,
+          ),
+        ),
+      (name, reason, next) => {
+        if (next) {
+          _log(`tts: FALLBACK ${label} provider=${name} failed (${reason}); trying ${next}`);
+        }
+      },
+    ).then(({ result, provider: used, failures }) => {
+      const billed = result.billedChars ?? usage.quantity;
+      if (!failures.length) {
+        recordUsageEvent({ ...usage, quantity: billed }, segKey);
+        return result;
+      }
+      const fallbackProvider = ttsChain.find((entry) => entry.name === used)?.provider;
+      conformAudioFile(segPath, sampleRateHz);
+      segmentFallbacks.set(segPath, {
+        kind: "tts",
+        item: `scene=${usage.sceneId} cue=${usage.cueId} seg=${(usage.segmentIndex ?? 0) + 1}`,
+        from: providerName,
+        provider: used,
+        reason: failures.join("; "),
+        path: segPath,
+      });
+      recordUsageEvent(
+        {
+          ...usage,
+          quantity: billed,
+          provider: used,
+          model: fallbackProvider?.defaultModel ?? null,
+          voice: fallbackProvider?.defaultVoice ?? null,
+          fallbackFrom: providerName,
+        },
+        segKey,
+      );
+      return result;
+    });
+    // Awaited in timeline order later; a failure meanwhile is not an unhandled rejection.
+    pending.catch(() => undefined);
+    return pending;
+  };
+
+  // Uncached segments start up front, as many at once as the provider's limits allow; the walk below
+  // takes the results in timeline order, so timing and output don't depend on completion order.
+  const pendingSegments = new Map<string, Promise<TTSSegment>>();
+  // Manifest fields naming who produced a freshly synthesized segment, noting fallbacks for the run summary.
+  const segmentSource = (segPath: string) => {
+    const fallback = segmentFallbacks.get(segPath) ?? null;
+    if (fallback) {
+      segmentFallbacks.delete(segPath);
+      fallbacks.push(fallback);
+    }
+    return sourceMeta(providerName, fallback);
+  };
+  const takeSegment = (segPath: string, text: string, usage: Omit<UsageEntry, "timestamp">, segKey: string) => {
+    const pending = pendingSegments.get(segPath);
+    pendingSegments.delete(segPath);
+    return pending ?? synthesizeSegment(segPath, text, usage, segKey);
+  };
+  const prefetchSegments = () => {
+    const keyCounts: Record<string, number> = {};
+    const spoken = [
+      ...sceneItems.map((scene) => ({ sceneId: scene.id, items: scene.items })),
+      ...timelineSpec
+        .filter((item): item is NarrationSpec => "kind" in item && item.kind === "narration")
+        .map((item) => ({ sceneId: `narration:${item.id}`, items: item.items })),
+    ];
+    for (const { sceneId, items } of spoken) {
+      for (const cue of items) {
+        if (cue.kind !== "cue") continue;
+        for (const [segIndex, segSpec] of cue.segments.entries()) {
+          if (segSpec.kind === "pause") continue;
+          const trimEndCfg = segSpec.trimEndSec ?? defaultTrimEnd ?? 0;
+          const segKey = ttsSegmentCacheKey(sceneId, cue.id, segSpec.text, trimEndCfg, ttsContext);
+          keyCounts[segKey] = (keyCounts[segKey] ?? 0) + 1;
+          const occurrence = keyCounts[segKey];
+          const segPath = join(segmentsDir, `${sceneId}--${cue.id}--tts--${safePrefix(segKey)}--${occurrence}${ttsExt}`);
+          const cached = resolveCachedSegment(outDir, currentEnv, segKey, sceneId, cue.id, occurrence, ttsExt);
+          if (cached.path && !fresh && existsSync(cached.path)) continue;
+          const usage = ttsUsage(sceneId, cue.id, segIndex, segSpec.text);
+          // Leave the segment that would break the budget for the walk, which stops there in order.
+          if (budgetGuard && findBudgetOverrun(budgetGuard, usage)) return;
+          pendingSegments.set(segPath, synthesizeSegment(segPath, segSpec.text, usage, segKey));
+        }
+      }
+    }
+  };
+  if (!dryRunMode) {
+    prefetchSegments();
+  }
+
   for (const scene of sceneItems) {
     if (scene.time?.start != null && scene.time.end == null) {
       throw new CompileError(
         `Scene "${scene.id}" has an open-ended duration. Live mode only: export requires an explicit end or duration.`,
       );
     }
-    const sceneStart = scene.time
-      ? scene.time.startIsRelative
-        ? now + (scene.time.start ?? 0)
-        : scene.time.start
-      : now;
-    if (scene.time?.start != null && !scene.time.startIsRelative && sceneStart > now) {
-      now = sceneStart;
-    }
+    const { startSec: sceneStart, nowSec } = sceneStartTiming(scene, now);
+    now = nowSec;
     const cuesOut: Script["scenes"][number]["cues"] = [];
 
-    for (let idx = 0; idx < scene.items.length; idx += 1) {
-      const item = scene.items[idx];
-      if (idx > 0) {
-        const pauseSpec = normalizePauseSpec(voiceover.pauseBetweenItems);
-        if (pauseSpec) {
-          const pause = samplePause(pauseSpec, rng);
-          if (pause > 0) {
-            const start = now;
-            now += pause;
-            timelineItems.push({ type: "pause", sceneId: scene.id, startSec: start, endSec: now, seconds: pause });
-
-            if (!dryRunMode) {
-              // Generate silence audio file for this pause
-              const silenceKey = hashKey({ kind: "silence", durationSec: pause, sampleRateHz });
-              const silencePath = join(segmentsDir, `silence-${safePrefix(silenceKey)}.wav`);
-              if (!existsSync(silencePath)) {
-                writeSilenceWav(silencePath, pause, sampleRateHz);
-              }
-              segmentPathsForConcat.push(silencePath);
-            }
-          }
-        }
-      }
-
-      if (item.kind === "pause") {
-        const pauseSec = samplePause(item, rng);
+    for (const step of narrationSteps(scene.items, voiceover, rng)) {
+      if (step.kind === "pause") {
         const start = now;
-        now += pauseSec;
-        timelineItems.push({ type: "pause", sceneId: scene.id, startSec: start, endSec: now, seconds: pauseSec });
-
-        if (!dryRunMode) {
-          if (!dryRunMode) {
-            // Generate silence audio file for this pause
-            const silenceKey = hashKey({ kind: "silence", durationSec: pauseSec, sampleRateHz });
-            const silencePath = join(segmentsDir, `silence-${safePrefix(silenceKey)}.wav`);
-            if (!existsSync(silencePath)) {
-              writeSilenceWav(silencePath, pauseSec, sampleRateHz);
-            }
-            segmentPathsForConcat.push(silencePath);
-          }
-        }
-
+        now += step.seconds;
+        timelineItems.push({ type: "pause", sceneId: scene.id, startSec: start, endSec: now, seconds: step.seconds });
         continue;
       }
 
-      const cue = item;
+      const cue = step.cue;
       const start = now;
       const cueSegments: Array<Record<string, unknown>> = [];
 
@@ -318,29 +487,14 @@ export async function generateComposition(options: GenerateOptions): Promise<Gen
           const segStart = now;
           now += pauseSec;
           cueSegments.push({ type: "pause", startSec: segStart, endSec: now, seconds: pauseSec });
-
-          // Generate silence audio file for this pause
-          const silenceKey = hashKey({ kind: "silence", durationSec: pauseSec, sampleRateHz });
-          const silencePath = join(segmentsDir, `silence-${safePrefix(silenceKey)}.wav`);
-          if (!existsSync(silencePath)) {
-            writeSilenceWav(silencePath, pauseSec, sampleRateHz);
-          }
-          segmentPathsForConcat.push(silencePath);
-
           continue;
         }
 
         const trimEndCfg = segSpec.trimEndSec ?? defaultTrimEnd ?? 0;
-        const segKey = hashKey({
-          kind: "tts",
-          sceneId: scene.id,
-          cueId: cue.id,
-          text: segSpec.text,
-          trimEndSec: trimEndCfg,
-          ctx: ttsContext,
-        });
+        const segKey = ttsSegmentCacheKey(scene.id, cue.id, segSpec.text, trimEndCfg, ttsContext);
         let duration: number;
         let segPath: string | null = null;
+        let alignment: TTSAlignment | null = null;
 
         if (dryRunMode) {
           const wpm = (provider as { wpm?: number }).wpm ?? 165;
@@ -348,7 +502,6 @@ export async function generateComposition(options: GenerateOptions): Promise<Gen
         } else {
           segmentKeyCounts[segKey] = (segmentKeyCounts[segKey] ?? 0) + 1;
           const occurrence = segmentKeyCounts[segKey];
-          const ttsExt = providerName === "elevenlabs" ? ".mp3" : ".wav";
           segPath = join(segmentsDir, `${scene.id}--${cue.id}--tts--${safePrefix(segKey)}--${occurrence}${ttsExt}`);
 
           const cached = resolveCachedSegment(outDir, currentEnv, segKey, scene.id, cue.id, occurrence, ttsExt, _log);
@@ -359,6 +512,7 @@ export async function generateComposition(options: GenerateOptions): Promise<Gen
             const manifestDuration = getManifestDuration(manifest, "segments", segPath, segKey);
             const probedDuration = probeDurationSec(segPath);
             duration = probedDuration;
+            alignment = getManifestAlignment(manifest, segPath, segKey);
             if (cached.env !== currentEnv) {
               _log(`tts: fallback scene=${scene.id} cue=${cue.id} seg=${segIndex + 1} using env=${cached.env}`);
             } else if (verboseLogs) {
@@ -382,32 +536,11 @@ export async function generateComposition(options: GenerateOptions): Promise<Gen
               _log(`tts: cache miss scene=${scene.id} cue=${cue.id} seg=${segIndex + 1} (manifest entry exists but file missing)`);
             }
             _log(`tts: synth scene=${scene.id} cue=${cue.id} seg=${segIndex + 1} -> ${segPath.split(sep).pop()}`);
+            const usage = ttsUsage(scene.id, cue.id, segIndex, segSpec.text);
             try {
-              const seg = await provider.synthesize(
-                {
-                  text: segSpec.text,
-                  voice: voiceover.voice ?? null,
-                  model: voiceover.model ?? null,
-                  format: voiceover.format ?? "wav",
-                  sampleRateHz,
-                  extra: effectivePronunciationLocators ? { pronunciation_dictionary_locators: effectivePronunciationLocators } : {},
-                },
-                segPath,
-              );
-              recordUsageEvent({
-                kind: "tts",
-                unitType: "chars",
-                quantity: segSpec.text.length,
-                provider: providerName,
-                compositionId: composition.id,
-                sceneId: scene.id,
-                cueId: cue.id,
-                segmentIndex: segIndex,
-                model: resolvedModel,
-                voice: resolvedVoice,
-                env: currentEnv,
-              });
+              const seg = await takeSegment(segPath, segSpec.text, usage, segKey);
               duration = seg.durationSec;
+              alignment = seg.alignment ?? null;
               didSynthesize = true;
             } catch (err) {
               const message = err instanceof Error ? err.message : String(err);
@@ -426,31 +559,9 @@ export async function generateComposition(options: GenerateOptions): Promise<Gen
             );
           }
           _log(`tts: corrupt-duration scene=${scene.id} cue=${cue.id} seg=${segIndex + 1} duration=${duration.toFixed(1)}s -> regen`);
-          const seg = await provider.synthesize(
-            {
-              text: segSpec.text,
-              voice: voiceover.voice ?? null,
-              model: voiceover.model ?? null,
-              format: voiceover.format ?? "wav",
-              sampleRateHz,
-              extra: effectivePronunciationLocators ? { pronunciation_dictionary_locators: effectivePronunciationLocators } : {},
-            },
-            segPath,
-          );
-          recordUsageEvent({
-            kind: "tts",
-            unitType: "chars",
-            quantity: segSpec.text.length,
-            provider: providerName,
-            compositionId: composition.id,
-            sceneId: scene.id,
-            cueId: cue.id,
-            segmentIndex: segIndex,
-            model: resolvedModel,
-            voice: resolvedVoice,
-            env: currentEnv,
-          });
+          const seg = await synthesizeSegment(segPath, segSpec.text, ttsUsage(scene.id, cue.id, segIndex, segSpec.text), segKey);
           duration = seg.durationSec;
+          alignment = seg.alignment ?? null;
           didSynthesize = true;
         }
 
@@ -461,9 +572,10 @@ export async function generateComposition(options: GenerateOptions): Promise<Gen
           trimEnd = trailing >= (trimEndCfg + safety) ? trimEndCfg : 0;
         }
         const effectiveDuration = trimEnd > 0 ? Math.max(0, duration - trimEnd) : duration;
+        const rawWords = (alignment ?? estimateAlignment(segSpec.text, duration)).words;
         if (segPath) {
           setManifestEntry(manifest, "segments", segPath, segKey, effectiveDuration, {
-            provider: providerName,
+            ...segmentSource(segPath),
             sceneId: scene.id,
             cueId: cue.id,
             text: segSpec.text,
@@ -471,6 +583,8 @@ export async function generateComposition(options: GenerateOptions): Promise<Gen
             format: segPath.split(".").pop(),
             rawDurationSec: duration,
             trimEndSec: trimEnd,
+            words: rawWords,
+            alignment: alignment?.source ?? "estimated",
           });
         }
 
@@ -483,7 +597,7 @@ export async function generateComposition(options: GenerateOptions): Promise<Gen
           concatPath = trimEnd > 0
             ? ensureTrimmed(segPath, envCacheDir, effectiveDuration, sampleRateHz, fresh)
             : segPath;
-          segmentPathsForConcat.push(concatPath);
+          narrationBed.push({ path: concatPath, startSec: segStart, durationSec: effectiveDuration, sceneId: scene.id });
         }
 
         if (publicSegmentsDir && concatPath) {
@@ -510,6 +624,7 @@ export async function generateComposition(options: GenerateOptions): Promise<Gen
           durationSec: effectiveDuration,
           rawDurationSec: duration,
           trimEndSec: trimEnd,
+          words: placeWords(rawWords, segStart, effectiveDuration),
         });
       }
 
@@ -522,13 +637,7 @@ export async function generateComposition(options: GenerateOptions): Promise<Gen
         text: cue.segments.filter(isTextSegment).map((s) => s.text).join(" ").trim(),
         bullets: cue.bullets.map(makeBullet),
         markup: cue.markup,
-        segments: cueSegments.map(seg => ({
-          type: seg.type as "tts" | "pause",
-          startSec: seg.startSec as number,
-          endSec: seg.endSec as number,
-          text: seg.text as string | undefined,
-          durationSec: seg.seconds as number | undefined,
-        })),
+        segments: toCueSegments(cueSegments),
       });
       if (cueStartIndex[cue.id] != null) {
         throw new CompileError(`Duplicate cue id across scenes: "${cue.id}"`);
@@ -542,12 +651,7 @@ export async function generateComposition(options: GenerateOptions): Promise<Gen
       throw new CompileError(`Scene "${scene.id}" has no cues and no explicit end/duration`);
     }
 
-    const sceneEndHint = scene.time?.end != null
-      ? scene.time.startIsRelative
-        ? sceneStart + (scene.time.end - (scene.time.start ?? 0))
-        : scene.time.end
-      : null;
-    now = Math.max(now, sceneEndHint ?? now);
+    now = Math.max(now, sceneEndHintSec(scene, sceneStart) ?? now);
     // Inject sceneStartSec into component props
     const layersWithSceneStart = scene.layers?.map(layer => ({
       ...layer,
@@ -582,80 +686,7 @@ export async function generateComposition(options: GenerateOptions): Promise<Gen
 
   let outSceneById = new Map(outScenes.map((scene) => [scene.id, scene]));
   const timeline: Script["timeline"] = [];
-  const DEFAULT_TRANSITION_DURATION_SEC = 1;
-
-  const isSceneItem = (item: TimelineItemSpec): item is SceneSpec => !("kind" in item);
-  const isTransitionItem = (item: TimelineItemSpec): item is TransitionSpec =>
-    "kind" in item && item.kind === "transition";
-  const isMarkItem = (item: TimelineItemSpec): item is MarkSpec => "kind" in item && item.kind === "mark";
-  const isNarrationItem = (item: TimelineItemSpec): item is NarrationSpec =>
-    "kind" in item && item.kind === "narration";
-
-  const findPrevSceneId = (index: number) => {
-    for (let i = index - 1; i >= 0; i -= 1) {
-      const item = timelineSpec[i];
-      if (isSceneItem(item)) return item.id;
-    }
-    return undefined;
-  };
-
-  const findNextSceneId = (index: number) => {
-    for (let i = index + 1; i < timelineSpec.length; i += 1) {
-      const item = timelineSpec[i];
-      if (isSceneItem(item)) return item.id;
-    }
-    return undefined;
-  };
-
-  const getTransitionDurationSeconds = (transition: TransitionSpec): number => {
-    let maxAudioEnd = 0;
-    if (transition.overflowAudio === "extend" && transition.audio?.length) {
-      for (const audio of transition.audio) {
-        const offset = audio.time?.start ?? 0;
-        let duration = audio.durationSeconds ?? null;
-        if (duration == null && audio.time?.start != null && audio.time?.end != null) {
-          duration = Math.max(0, audio.time.end - audio.time.start);
-        }
-        if (duration != null) {
-          maxAudioEnd = Math.max(maxAudioEnd, offset + duration);
-        }
-      }
-    }
-    if (transition.time?.start != null && transition.time?.end != null) {
-      return Math.max(0, transition.time.end - transition.time.start);
-    }
-    return Math.max(transition.durationSeconds ?? DEFAULT_TRANSITION_DURATION_SEC, maxAudioEnd);
-  };
-
-  const shiftBefore: number[] = [];
-  const shiftBySceneId = new Map<string, number>();
-  let cumulativeShift = 0;
-
-  for (let i = 0; i < timelineSpec.length; i += 1) {
-    shiftBefore[i] = cumulativeShift;
-    const item = timelineSpec[i];
-    if (isSceneItem(item)) {
-      shiftBySceneId.set(item.id, cumulativeShift);
-      continue;
-    }
-    if (isTransitionItem(item) && (item.mode ?? "overlap") === "insert") {
-      const duration = getTransitionDurationSeconds(item);
-      const prevSceneId = findPrevSceneId(i);
-      const nextSceneId = findNextSceneId(i);
-      let extraShift = duration;
-      if (prevSceneId && nextSceneId) {
-        const prevScene = outSceneById.get(prevSceneId);
-        const nextScene = outSceneById.get(nextSceneId);
-        if (prevScene && nextScene) {
-          const prevShift = shiftBySceneId.get(prevSceneId) ?? 0;
-          const prevEnd = prevScene.endSec + prevShift;
-          const nextStart = nextScene.startSec + cumulativeShift;
-          extraShift = Math.max(0, prevEnd + duration - nextStart);
-        }
-      }
-      cumulativeShift += extraShift;
-    }
-  }
+  const { before: shiftBefore, bySceneId: shiftBySceneId } = insertTransitionShifts(timelineSpec, outSceneById);
 
   const shiftTiming = (timing: { startSec?: number; endSec?: number } | undefined, delta: number) => {
     if (!timing) return;
@@ -689,6 +720,11 @@ export async function generateComposition(options: GenerateOptions): Promise<Gen
       for (const segment of cue.segments ?? []) {
         segment.startSec += delta;
         segment.endSec += delta;
+        // Word arrays are shared with the tts timeline items, so they are shifted only here.
+        for (const word of segment.words ?? []) {
+          word.startSec += delta;
+          word.endSec += delta;
+        }
       }
     }
     for (const layer of scene.layers ?? []) {
@@ -718,6 +754,10 @@ export async function generateComposition(options: GenerateOptions): Promise<Gen
     }
   }
 
+  for (const segment of narrationBed) {
+    segment.startSec += shiftBySceneId.get(segment.sceneId) ?? 0;
+  }
+
   for (const clip of narrationSegmentClips) {
     const sceneId = (clip as { sceneId?: string }).sceneId;
     if (!sceneId) continue;
@@ -742,52 +782,28 @@ export async function generateComposition(options: GenerateOptions): Promise<Gen
     if (!isNarrationItem(item)) continue;
     const shift = shiftBefore[i] ?? 0;
     const narrationSceneId = `narration:${item.id}`;
-    let narrationStart = item.time?.start != null ? item.time.start + shift : null;
-    if (narrationStart == null) {
-      const nextSceneId = findNextSceneId(i);
-      const nextScene = nextSceneId ? outSceneById.get(nextSceneId) : null;
-      narrationStart = nextScene?.startSec ?? null;
-    }
-    if (narrationStart == null) {
-      throw new CompileError(`Narration "${item.id}" requires a start time or a following scene.`);
-    }
-    let narrationNow = narrationStart;
-
-    for (let idx = 0; idx < item.items.length; idx += 1) {
-      const entry = item.items[idx];
-      if (idx > 0) {
-        const pauseSpec = normalizePauseSpec(voiceover.pauseBetweenItems);
-        if (pauseSpec) {
-          const pause = samplePause(pauseSpec, rng);
-          if (pause > 0) {
-            const start = narrationNow;
-            narrationNow += pause;
-            timelineItems.push({
-              type: "pause",
-              sceneId: narrationSceneId,
-              startSec: start,
-              endSec: narrationNow,
-              seconds: pause,
-            });
-          }
-        }
-      }
+    const nextSceneId = findNextSceneId(timelineSpec, i);
+    let narrationNow = narrationStartSec(
+      item,
+      shift,
+      (nextSceneId ? outSceneById.get(nextSceneId)?.startSec : null) ?? null,
+    );
 
-      if (entry.kind === "pause") {
-        const pauseSec = samplePause(entry, rng);
+    for (const step of narrationSteps(item.items, voiceover, rng)) {
+      if (step.kind === "pause") {
         const start = narrationNow;
-        narrationNow += pauseSec;
+        narrationNow += step.seconds;
         timelineItems.push({
           type: "pause",
           sceneId: narrationSceneId,
           startSec: start,
           endSec: narrationNow,
-          seconds: pauseSec,
+          seconds: step.seconds,
         });
         continue;
       }
 
-      const cue = entry;
+      const cue = step.cue;
       const start = narrationNow;
       const cueSegments: Array<Record<string, unknown>> = [];
 
@@ -802,16 +818,10 @@ export async function generateComposition(options: GenerateOptions): Promise<Gen
         }
 
         const trimEndCfg = segSpec.trimEndSec ?? defaultTrimEnd ?? 0;
-        const segKey = hashKey({
-          kind: "tts",
-          sceneId: narrationSceneId,
-          cueId: cue.id,
-          text: segSpec.text,
-          trimEndSec: trimEndCfg,
-          ctx: ttsContext,
-        });
+        const segKey = ttsSegmentCacheKey(narrationSceneId, cue.id, segSpec.text, trimEndCfg, ttsContext);
         let duration: number;
         let segPath: string | null = null;
+        let alignment: TTSAlignment | null = null;
 
         if (dryRunMode) {
           const wpm = (provider as { wpm?: number }).wpm ?? 165;
@@ -819,7 +829,6 @@ export async function generateComposition(options: GenerateOptions): Promise<Gen
         } else {
           segmentKeyCounts[segKey] = (segmentKeyCounts[segKey] ?? 0) + 1;
           const occurrence = segmentKeyCounts[segKey];
-          const ttsExt = providerName === "elevenlabs" ? ".mp3" : ".wav";
           segPath = join(
             segmentsDir,
             `${narrationSceneId}--${cue.id}--tts--${safePrefix(segKey)}--${occurrence}${ttsExt}`,
@@ -841,6 +850,7 @@ export async function generateComposition(options: GenerateOptions): Promise<Gen
             const manifestDuration = getManifestDuration(manifest, "segments", segPath, segKey);
             const probedDuration = probeDurationSec(segPath);
             duration = probedDuration;
+            alignment = getManifestAlignment(manifest, segPath, segKey);
             if (cached.env !== currentEnv) {
               _log(`tts: fallback scene=${narrationSceneId} cue=${cue.id} seg=${segIndex + 1} using env=${cached.env}`);
             } else if (verboseLogs) {
@@ -860,6 +870,8 @@ export async function generateComposition(options: GenerateOptions): Promise<Gen
                 format: segPath.split(".").pop(),
                 rawDurationSec: duration,
                 trimEndSec: trimEndCfg,
+                words: (alignment ?? estimateAlignment(segSpec.text, duration)).words,
+                alignment: alignment?.source ?? "estimated",
               });
             }
           } else {
@@ -877,21 +889,14 @@ export async function generateComposition(options: GenerateOptions): Promise<Gen
                 `TTS provider "${providerName}" does not support synthesis.\n\nLocation: ${dslPath}\n  Narration: ${item.id}\n  Cue: ${cue.id}\n  Segment: ${segIndex + 1}`,
               );
             }
-            ensureDir(dirname(segPath));
-            const seg = await provider.synthesize(
-              {
-                text: segSpec.text,
-                voice: voiceover.voice ?? null,
-                model: voiceover.model ?? null,
-                format: voiceover.format ?? "wav",
-                sampleRateHz,
-                extra: effectivePronunciationLocators
-                  ? { pronunciation_dictionary_locators: effectivePronunciationLocators }
-                  : {},
-              },
+            const seg = await takeSegment(
               segPath,
+              segSpec.text,
+              ttsUsage(narrationSceneId, cue.id, segIndex, segSpec.text),
+              segKey,
             );
             duration = seg.durationSec ?? probeDurationSec(segPath);
+            alignment = seg.alignment ?? null;
             if (!duration || !Number.isFinite(duration)) {
               throw new CompileError(
                 `TTS provider returned invalid duration.\n\nLocation: ${dslPath}\n  Narration: ${item.id}\n  Cue: ${cue.id}\n  Segment: ${segIndex + 1}`,
@@ -906,7 +911,7 @@ export async function generateComposition(options: GenerateOptions): Promise<Gen
               continue;
             }
             setManifestEntry(manifest, "segments", segPath, segKey, duration, {
-              provider: providerName,
+              ...segmentSource(segPath),
               sceneId: narrationSceneId,
               cueId: cue.id,
               text: segSpec.text,
@@ -914,6 +919,8 @@ export async function generateComposition(options: GenerateOptions): Promise<Gen
               format: segPath.split(".").pop(),
               rawDurationSec: duration,
               trimEndSec: trimEndCfg,
+              words: (alignment ?? estimateAlignment(segSpec.text, duration)).words,
+              alignment: alignment?.source ?? "estimated",
             });
           }
         }
@@ -928,6 +935,7 @@ export async function generateComposition(options: GenerateOptions): Promise<Gen
           concatPath = trimEndCfg > 0
             ? ensureTrimmed(segPath, envCacheDir, effectiveDuration, sampleRateHz, fresh)
             : segPath;
+          narrationBed.push({ path: concatPath, startSec: segStart, durationSec: effectiveDuration, sceneId: narrationSceneId });
         }
 
         if (publicSegmentsDir && concatPath) {
@@ -954,6 +962,7 @@ export async function generateComposition(options: GenerateOptions): Promise<Gen
           durationSec: effectiveDuration,
           rawDurationSec: duration,
           trimEndSec: trimEndCfg,
+          words: placeWords((alignment ?? estimateAlignment(segSpec.text, duration)).words, segStart, effectiveDuration),
         });
       }
 
@@ -962,6 +971,16 @@ export async function generateComposition(options: GenerateOptions): Promise<Gen
         throw new CompileError(`Duplicate cue id across scenes/narration: "${cue.id}"`);
       }
       cueStartIndex[cue.id] = start;
+      narrationCues.push({
+        id: cue.id,
+        label: cue.label,
+        startSec: start,
+        endSec: end,
+        text: cue.segments.filter(isTextSegment).map((s) => s.text).join(" ").trim(),
+        bullets: cue.bullets.map(makeBullet),
+        markup: cue.markup,
+        segments: toCueSegments(cueSegments),
+      });
       timelineItems.push({
         type: "tts",
         sceneId: narrationSceneId,
@@ -975,66 +994,36 @@ export async function generateComposition(options: GenerateOptions): Promise<Gen
 
   outSceneById = new Map(outScenes.map((scene) => [scene.id, scene]));
 
-  const buildTransitionTimelineItem = (
-    transition: Pick<
-      TransitionSpec,
-      | "id"
-      | "time"
-      | "effect"
-      | "ease"
-      | "props"
-      | "mode"
-      | "overflow"
-      | "overflowAudio"
-      | "styles"
-      | "markup"
-      | "layers"
-      | "components"
-      | "durationSeconds"
-      | "audio"
-    >,
-    prevSceneId?: string,
-    nextSceneId?: string,
-  ): TransitionTimelineItem => {
-    const prevScene = prevSceneId ? outSceneById.get(prevSceneId) : undefined;
-    const nextScene = nextSceneId ? outSceneById.get(nextSceneId) : undefined;
-    const durationSeconds = getTransitionDurationSeconds(transition as TransitionSpec);
-    const mode: TransitionSpec["mode"] =
-      transition.mode ?? (prevScene && nextScene ? "overlap" : "insert");
-    const startSec =
-      transition.time?.start != null
-        ? transition.time.start
-        : mode === "overlap" && prevScene
-          ? Math.max(0, prevScene.endSec - durationSeconds)
-          : prevScene?.endSec ?? 0;
-    const endSec = transition.time?.end ?? startSec + durationSeconds;
-
-    if (mode === "overlap" && nextScene && startSec < nextScene.startSec) {
-      nextScene.startSec = startSec;
-    }
-
-    return {
-      kind: "transition",
-      id: transition.id,
-      startSec,
-      endSec,
-      effect: transition.effect,
-      ease: transition.ease,
-      props: transition.props,
-      mode,
-      overflow: transition.overflow,
-      overflowAudio: transition.overflowAudio,
-      fromSceneId: prevSceneId,
-      toSceneId: nextSceneId,
-      styles: transition.styles,
-      markup: transition.markup,
-      layers: transition.layers,
-      components: transition.components,
-    };
-  };
+  const transitionWindows = layOutTransitions(timelineSpec, outSceneById, shiftBefore);
+  const transitionTimelineItem = ({
+    transition,
+    prevSceneId,
+    nextSceneId,
+    mode,
+    startSec,
+    endSec,
+  }: TransitionWindow): TransitionTimelineItem => ({
+    kind: "transition",
+    id: transition.id,
+    startSec,
+    endSec,
+    effect: transition.effect,
+    ease: transition.ease,
+    props: transition.props,
+    mode,
+    overflow: transition.overflow,
+    overflowAudio: transition.overflowAudio,
+    fromSceneId: prevSceneId,
+    toSceneId: nextSceneId,
+    styles: transition.styles,
+    markup: transition.markup,
+    layers: transition.layers,
+    components: transition.components,
+  });
 
   for (let i = 0; i < timelineSpec.length; i += 1) {
     const item = timelineSpec[i];
+    const transitionWindow = transitionWindows.get(i);
     if (isSceneItem(item)) {
       const sceneOut = outSceneById.get(item.id);
       if (!sceneOut) continue;
@@ -1044,40 +1033,14 @@ export async function generateComposition(options: GenerateOptions): Promise<Gen
         startSec: sceneOut.startSec,
         endSec: sceneOut.endSec,
       });
-
-      const nextItem = timelineSpec[i + 1];
-      if (item.transitionToNext && (!nextItem || !isTransitionItem(nextItem))) {
-        const nextSceneId = findNextSceneId(i);
-        timeline.push(
-          buildTransitionTimelineItem(
-            {
-              id: `${item.id}__to_next`,
-              effect: item.transitionToNext.effect,
-              ease: item.transitionToNext.ease,
-              props: item.transitionToNext.props,
-              durationSeconds: item.transitionToNext.durationSeconds,
-            },
-            item.id,
-            nextSceneId,
-          ),
-        );
+      // A scene's transitionToNext is laid out under the scene's own index.
+      if (transitionWindow) {
+        timeline.push(transitionTimelineItem(transitionWindow));
       }
       continue;
     }
-    if (isTransitionItem(item)) {
-      const prevSceneId = findPrevSceneId(i);
-      const nextSceneId = findNextSceneId(i);
-      const shift = shiftBefore[i] ?? 0;
-      const adjustedTransition = item.time
-        ? {
-            ...item,
-            time: {
-              start: item.time.start + shift,
-              end: item.time.end != null ? item.time.end + shift : item.time.end,
-            },
-          }
-        : item;
-      timeline.push(buildTransitionTimelineItem(adjustedTransition, prevSceneId, nextSceneId));
+    if (transitionWindow) {
+      timeline.push(transitionTimelineItem(transitionWindow));
       continue;
     }
     if (isMarkItem(item)) {
@@ -1088,6 +1051,7 @@ export async function generateComposition(options: GenerateOptions): Promise<Gen
 
   const script: Script = {
     scenes: outScenes,
+    ...(narrationCues.length ? { narration: narrationCues } : {}),
     timeline,
     posterTimeSec: composition.posterTime ?? null,
     fps: composition.meta?.fps,
@@ -1106,6 +1070,64 @@ export async function generateComposition(options: GenerateOptions): Promise<Gen
   for (const scene of outScenes) {
     sceneEndIndex[scene.id] = scene.endSec;
   }
+  const cueEndIndex: Record<string, number> = {};
+  const spokenSegmentIndex: Record<string, Array<{ startSec: number; endSec: number; words: CueWord[] }>> = {};
+  for (const item of timelineItems) {
+    if (item.type === "tts" && typeof item.cueId === "string") {
+      cueEndIndex[item.cueId] = item.endSec as number;
+      spokenSegmentIndex[item.cueId] = (item.segments as Array<Record<string, unknown>>)
+        .filter((seg) => seg.type === "tts")
+        .map((seg) => ({
+          startSec: seg.startSec as number,
+          endSec: seg.endSec as number,
+          words: (seg.words as CueWord[] | undefined) ?? [],
+        }));
+    }
+  }
+
+  // Component, layer and audio times that reference cues, scenes, words or the parent's duration
+  // were left unevaluated by the parser; resolve them now that narration has been measured.
+  const measuredTimes: MeasuredTimes = {
+    sceneStart: sceneStartIndex,
+    sceneEnd: sceneEndIndex,
+    cueStart: cueStartIndex,
+    cueEnd: cueEndIndex,
+    markStart: markStartIndex,
+    spokenSegments: spokenSegmentIndex,
+  };
+  const measuredTimeCtx = (parent: { startSec: number; endSec: number }) =>
+    measuredTimeContext(composition.meta?.fps ?? 30, measuredTimes, parent);
+  const resolveComponentTiming = (parent: { startSec: number; endSec: number }) => {
+    const ctx = measuredTimeCtx(parent);
+    return (component: ComponentSpec): ComponentSpec => {
+      if (!component.deferredTiming) return component;
+      const { deferredTiming, ...rest } = component;
+      return {
+        ...rest,
+        timing: resolveDeferredTiming(deferredTiming, ctx, `component "${component.id}"`, parent.startSec),
+      };
+    };
+  };
+  const resolveLayerTiming = (parent: { startSec: number; endSec: number }) => (layer: LayerSpec): LayerSpec => {
+    const { deferredTiming, ...rest } = layer;
+    return {
+      ...rest,
+      timing: deferredTiming
+        ? resolveDeferredTiming(deferredTiming, measuredTimeCtx(parent), `layer "${layer.id}"`, parent.startSec)
+        : layer.timing,
+      components: layer.components.map(resolveComponentTiming(parent)),
+    };
+  };
+  for (const scene of outScenes) {
+    scene.layers = scene.layers?.map(resolveLayerTiming(scene));
+    scene.components = scene.components?.map(resolveComponentTiming(scene));
+  }
+  for (const item of timeline) {
+    if (item.kind === "transition") {
+      item.layers = item.layers?.map(resolveLayerTiming(item));
+      item.components = item.components?.map(resolveComponentTiming(item));
+    }
+  }
   const totalEndSec = outScenes.length ? outScenes[outScenes.length - 1].endSec : 0;
 
   ensureDir(dirname(scriptOut));
@@ -1113,91 +1135,36 @@ export async function generateComposition(options: GenerateOptions): Promise<Gen
   if (verboseLogs) {
     _log(`write: script=${scriptOut} duration_seconds=${totalEndSec.toFixed(2)}`);
   }
-
-  const transitionWindowById = new Map<string, { startSec: number; endSec: number; overflowAudio?: TransitionSpec["overflowAudio"] }>();
-  for (const item of timeline ?? []) {
-    if (item.kind === "transition") {
-      transitionWindowById.set(item.id, {
-        startSec: item.startSec,
-        endSec: item.endSec,
-        overflowAudio: item.overflowAudio,
-      });
-    }
+  const captionFiles = captions === false ? null : writeCaptions(script, scriptOut, captions ?? {});
+  if (captionFiles && verboseLogs) {
+    _log(`write: captions=${captionFiles.vttPath},${captionFiles.srtPath} cues=${captionFiles.cues}`);
   }
 
   const audioElementClips: AudioClipSpec[] = [];
-  const pushAudioElements = (
-    elements: AudioElementSpec[] | undefined,
-    containerStartSec: number,
-    window?: { startSec: number; endSec: number; overflowAudio?: TransitionSpec["overflowAudio"] },
-  ) => {
-    if (!elements) return;
-    for (const element of elements) {
-      const offset = element.time?.start ?? 0;
-      const absoluteStart = containerStartSec + offset;
-      let durationSeconds = element.durationSeconds ?? null;
-      if (durationSeconds == null && element.time?.start != null && element.time?.end != null) {
-        durationSeconds = Math.max(0, element.time.end - element.time.start);
-      }
-      if (window?.overflowAudio === "clip" && window.endSec != null) {
-        const maxDuration = Math.max(0, window.endSec - absoluteStart);
-        durationSeconds = durationSeconds == null ? maxDuration : Math.min(durationSeconds, maxDuration);
-      }
-      if (durationSeconds === 0) {
-        continue;
-      }
-      audioElementClips.push({
-        id: element.id,
-        kind: element.kind,
-        start: { kind: "absolute", sec: absoluteStart },
-        volume: element.volume,
-        fadeTo: element.fadeTo,
-        fadeOut: element.fadeOut,
-        sourceId: element.sourceId,
-        playThrough: element.playThrough,
-        src: element.src,
-        prompt: element.prompt,
-        durationSeconds: durationSeconds ?? undefined,
-        variants: element.variants,
-        pick: element.pick,
-        modelId: element.modelId,
-        forceInstrumental: element.forceInstrumental,
-      });
+  const pushAudioElements = (elements: AudioElementSpec[] | undefined, container: TimeWindow, clipEndSec?: number) => {
+    for (const element of elements ?? []) {
+      const clip = audioElementClip(element, container, measuredTimeCtx(container), clipEndSec);
+      if (clip) audioElementClips.push(clip);
     }
   };
 
   for (const scene of sceneItems) {
     const sceneOut = outSceneById.get(scene.id);
     if (!sceneOut) continue;
-    pushAudioElements(scene.audio, sceneOut.startSec);
+    pushAudioElements(scene.audio, sceneOut);
   }
 
-  for (const item of timelineSpec) {
-    if (isTransitionItem(item) && item.audio?.length) {
-      const window = transitionWindowById.get(item.id);
-      const startSec = window?.startSec ?? 0;
-      pushAudioElements(item.audio, startSec, window);
-    }
-  }
-
-  const derivedAudioPlan: AudioPlan | null = audioElementClips.length
-    ? { tracks: [] }
-    : null;
-  if (derivedAudioPlan) {
-    for (const clip of audioElementClips) {
-      const trackId = clip.kind;
-      let track = derivedAudioPlan.tracks.find((t) => t.id === trackId);
-      if (!track) {
-        track = { id: trackId, kind: trackId, clips: [] };
-        derivedAudioPlan.tracks.push(track);
-      }
-      track.clips.push(clip);
-    }
+  for (const { transition, startSec, endSec } of transitionWindows.values()) {
+    if (!transition.audio?.length) continue;
+    pushAudioElements(transition.audio, { startSec, endSec }, transition.overflowAudio === "clip" ? endSec : undefined);
   }
 
+  const derivedAudioPlan = audioPlanFromClips(audioElementClips);
   const effectiveAudioPlan = mergeAudioPlans(composition.audioPlan, derivedAudioPlan);
+  const speechWindows = collectSpeechWindows(timelineItems);
 
   const audioTracksOut: Array<Record<string, unknown>> = [];
+  const mixInputs: AudioMixInput[] = [];
   if (narrationSegmentClips.length) {
     const narrationClips = narrationSegmentClips.map((clip) => {
       const { sceneId, cueId, ...rest } = clip as Record<string, unknown>;
@@ -1250,27 +1217,81 @@ export async function generateComposition(options: GenerateOptions): Promise<Gen
     if (publicSfxDir) ensureDir(publicSfxDir);
     if (publicMusicDir) ensureDir(publicMusicDir);
 
+    // Variant syntheses start as the walk reaches them and run concurrently; each clip's results are
+    // applied by a finisher, run in clip order once everything has been started, so manifest, mix and
+    // timeline order match a serial run.
+    const finishers: Array<() => void | Promise<void>> = [];
+    const musicChain = musicProvider
+      ? buildProviderChain(defaultMusicProvider, musicProvider, getFallbackProviders(config, "music"), (name) =>
+          getMusicProvider(name, config),
+        )
+      : null;
+    const sfxChain = sfxProvider
+      ? buildProviderChain(defaultSfxProvider, sfxProvider, getFallbackProviders(config, "sfx"), (name) =>
+          getSfxProvider(name, config),
+        )
+      : null;
+    const logClipFallback = (kind: "sfx" | "music", label: string) => (name: string, reason: string, next: string | null) => {
+      if (next) {
+        _log(`${kind}: FALLBACK ${label} provider=${name} failed (${reason}); trying ${next}`);
+      }
+    };
+    // On a budget stop, variants already started still land in the manifest for the next run.
+    const reserveAudioBudget = async (entry: Omit<UsageEntry, "timestamp">, cacheKey: string) => {
+      try {
+        reserveBudget(entry, cacheKey);
+      } catch (err) {
+        for (const finish of finishers) {
+          await Promise.resolve()
+            .then(finish)
+            .catch(() => undefined);
+        }
+        writeFileSync(manifestPath, JSON.stringify(manifest, null, 2) + "\n");
+        throw err;
+      }
+    };
     for (const track of effectiveAudioPlan.tracks) {
       const clipsOut: Array<Record<string, unknown>> = [];
       for (const clip of track.clips) {
         const startSec = resolveStart(clip.start, cueStartIndex, sceneStartIndex, markStartIndex);
         if (clip.kind === "file") {
-          const durationForFades = clip.fadeTo || clip.fadeOut ? Math.max(0, totalEndSec - startSec) : null;
-          const envelope = volumeEnvelopeForClip(clip.volume ?? 1, durationForFades, clip.fadeTo, clip.fadeOut);
-          clipsOut.push({
-            id: clip.id,
-            kind: "file",
-            startSec,
-            src: clip.src,
-            volume: clip.volume ?? 1,
-            ...(durationForFades != null ? { durationSec: durationForFades } : {}),
-            ...(envelope ? { volumeEnvelope: envelope } : {}),
+          finishers.push(() => {
+            const durationForFades = clip.fadeTo || clip.fadeOut ? Math.max(0, totalEndSec - startSec) : null;
+            const envelope = applyDucking(
+              volumeEnvelopeForClip(clip.volume ?? 1, durationForFades, clip.fadeTo, clip.fadeOut),
+              clip.volume ?? 1,
+              startSec,
+              durationForFades ?? Math.max(0, totalEndSec - startSec),
+              clip.duck,
+              speechWindows,
+            );
+            const sourcePath = clip.src ? resolveClipSource(clip.src, dslPath, audioOutPath) : null;
+            if (sourcePath) {
+              mixInputs.push({
+                path: sourcePath,
+                startSec,
+                volume: clip.volume ?? 1,
+                volumeEnvelope: envelope,
+                durationSec: durationForFades,
+              });
+            } else if (audioOutPath) {
+              _log(`audio: mix-skip clip=${clip.id} (source not found: ${clip.src ?? ""})`);
+            }
+            clipsOut.push({
+              id: clip.id,
+              kind: "file",
+              startSec,
+              src: clip.src,
+              volume: clip.volume ?? 1,
+              ...(durationForFades != null ? { durationSec: durationForFades } : {}),
+              ...(envelope ? { volumeEnvelope: envelope } : {}),
+            });
           });
           continue;
         }
 
         if (clip.kind === "music") {
-          if (!musicProvider) {
+          if (!musicChain) {
             _log(`music: skip clip=${clip.id} (provider not supported)`);
             continue;
           }
@@ -1307,118 +1328,153 @@ export async function generateComposition(options: GenerateOptions): Promise<Gen
             throw new CompileError(`music pick out of range for "${clip.id}" (pick=${pick}, variants=${variants})`);
           }
 
-          const generated: Array<Record<string, unknown>> = [];
           const musicExt = defaultMusicProvider === "elevenlabs" ? ".mp3" : ".wav";
+          const variantJobs: Array<
+            Promise<{ musicKey: string; seed: number; outPath: string; dur: number; fallback: FallbackRecord | null }>
+          > = [];
           for (let v = 0; v < variants; v += 1) {
-            const musicKey = hashKey({
-              kind: "music",
-              clipId: cacheId,
-              variant: v,
-              prompt: clip.prompt,
-              durationSec: desired,
-              model_id: clip.modelId,
-              force_instrumental: clip.forceInstrumental,
-              provider: defaultMusicProvider,
-              seed: voiceover.seed ?? null,
-            });
+            const musicKey = musicCacheKey(clip, v, desired, defaultMusicProvider, voiceover.seed ?? null);
             const seed = parseInt(musicKey.slice(0, 8), 16) % 2147483647;
-            let outPath = join(musicOutDir, `${cacheId}--v${v + 1}--${safePrefix(musicKey)}${musicExt}`);
+            const outPath = join(musicOutDir, `${cacheId}--v${v + 1}--${safePrefix(musicKey)}${musicExt}`);
             const cached = resolveCachedMusic(outDir, currentEnv, musicKey, cacheId, v, musicExt, _log);
-            let dur: number;
             if (cached.path && !fresh) {
               if (cached.env && cached.env !== currentEnv) {
                 _log(`music: fallback clip=${clip.id} variant=${v + 1}/${variants} using env=${cached.env}`);
               }
-              outPath = cached.path;
-              dur = getManifestDuration(manifest, "music", outPath, musicKey) ?? probeDurationSec(outPath);
-            } else {
-              _log(`music: synth clip=${clip.id} variant=${v + 1}/${variants} seed=${seed} duration_seconds=${desired.toFixed(1)} -> ${outPath.split(sep).pop()}`);
-              try {
-                const seg = await musicProvider.generate({
-                  prompt: clip.prompt ?? "",
-                  durationSeconds: desired,
-                  sampleRateHz,
-                  seed,
-                  modelId: clip.modelId ?? null,
-                  forceInstrumental: clip.forceInstrumental ?? null,
-                }, outPath);
-                dur = seg.durationSec;
-                didSynthesize = true;
-                recordUsageEvent({
-                  kind: "music",
-                  unitType: "seconds",
-                  quantity: seg.durationSec,
-                  provider: defaultMusicProvider,
-                  compositionId: composition.id,
-                  sceneId: sceneId ?? undefined,
-                  clipId: clip.id,
-                  env: currentEnv,
-                  promptChars: clip.prompt?.length ?? 0,
-                });
-              } catch (err) {
-                const msg = err instanceof Error ? err.message.split("\n")[0] : String(err);
-                _log(`music: synth-failed clip=${clip.id} variant=${v + 1}/${variants} err=${msg}`);
-                const existing = findFirstMatch(musicOutDir, `${cacheId}--v${v + 1}--`, musicExt);
-                if (existing) {
-                  outPath = existing;
-                  dur = probeDurationSec(outPath);
-                  _log(`music: fallback clip=${clip.id} variant=${v + 1}/${variants} using_cached=${outPath.split(sep).pop()}`);
-                } else {
-                  dur = desired;
+              const dur = getManifestDuration(manifest, "music", cached.path, musicKey) ?? probeDurationSec(cached.path);
+              variantJobs.push(Promise.resolve({ musicKey, seed, outPath: cached.path, dur, fallback: null }));
+              continue;
+            }
+            _log(`music: synth clip=${clip.id} variant=${v + 1}/${variants} seed=${seed} duration_seconds=${desired.toFixed(1)} -> ${outPath.split(sep).pop()}`);
+            await reserveAudioBudget({ kind: "music", unitType: "seconds", quantity: desired, provider: defaultMusicProvider }, musicKey);
+            const request = {
+              prompt: clip.prompt ?? "",
+              durationSeconds: desired,
+              sampleRateHz,
+              seed,
+              modelId: clip.modelId ?? null,
+              forceInstrumental: clip.forceInstrumental ?? null,
+            };
+            const label = `clip=${clip.id} variant=${v + 1}`;
+            variantJobs.push(
+              runWithFallback(
+                musicChain,
+                (name, candidate, index) =>
+                  // The model id belongs to the configured provider.
+                  scheduler.run(name, label, () => candidate.generate(index === 0 ? request : { ...request, modelId: null }, outPath)),
+                logClipFallback("music", label),
+              ).then(
+                ({ result: seg, provider: used, failures }) => {
+                  didSynthesize = true;
+                  const fallback: FallbackRecord | null = failures.length
+                    ? { kind: "music", item: label, from: defaultMusicProvider, provider: used, reason: failures.join("; "), path: outPath }
+                    : null;
+                  recordUsageEvent(
+                    {
+                      kind: "music",
+                      unitType: "seconds",
+                      quantity: seg.durationSec,
+                      provider: used,
+                      compositionId: composition.id,
+                      sceneId: sceneId ?? undefined,
+                      clipId: clip.id,
+                      env: currentEnv,
+                      promptChars: clip.prompt?.length ?? 0,
+                      ...(fallback ? { fallbackFrom: defaultMusicProvider } : {}),
+                    },
+                    musicKey,
+                  );
+                  return { musicKey, seed, outPath, dur: seg.durationSec, fallback };
+                },
+                (err) => {
+                  const msg = err instanceof Error ? err.message.split("\n")[0] : String(err);
+                  _log(`music: synth-failed clip=${clip.id} variant=${v + 1}/${variants} err=${msg}`);
+                  const existing = findFirstMatch(musicOutDir, `${cacheId}--v${v + 1}--`, musicExt);
+                  if (existing) {
+                    _log(`music: fallback clip=${clip.id} variant=${v + 1}/${variants} using_cached=${existing.split(sep).pop()}`);
+                    return { musicKey, seed, outPath: existing, dur: probeDurationSec(existing), fallback: null };
+                  }
                   _log(`music: fallback clip=${clip.id} variant=${v + 1}/${variants} no_cache=true`);
-                }
+                  return { musicKey, seed, outPath, dur: desired, fallback: null };
+                },
+              ),
+            );
+          }
+
+          finishers.push(async () => {
+            const generated: Array<Record<string, unknown>> = [];
+            for (const [v, job] of variantJobs.entries()) {
+              const { musicKey, seed, outPath, dur, fallback } = await job;
+              if (fallback) {
+                fallbacks.push(fallback);
+              }
+              if (existsSync(outPath)) {
+                setManifestEntry(manifest, "music", outPath, musicKey, dur, {
+                  ...sourceMeta(defaultMusicProvider, fallback),
+                  clipId: cacheId,
+                  variant: v,
+                  prompt: clip.prompt,
+                  durationSecHint: desired,
+                  model_id: clip.modelId,
+                  force_instrumental: clip.forceInstrumental,
+                  format: outPath.split(".").pop(),
+                });
               }
+              generated.push({ variant: v, seed, path: outPath, durationSec: dur });
             }
 
-            if (existsSync(outPath)) {
-              setManifestEntry(manifest, "music", outPath, musicKey, dur, {
-                provider: defaultMusicProvider,
-                clipId: cacheId,
-                variant: v,
-                prompt: clip.prompt,
-                durationSecHint: desired,
-                model_id: clip.modelId,
-                force_instrumental: clip.forceInstrumental,
-                format: outPath.split(".").pop(),
-              });
+            const chosen = generated[pick];
+            let chosenSrc: string | null = null;
+            const envelope = applyDucking(
+              volumeEnvelopeForClip(clip.volume ?? 1, Number(chosen.durationSec), clip.fadeTo, clip.fadeOut),
+              clip.volume ?? 1,
+              startSec,
+              clip.playThrough ? Math.max(0, totalEndSec - startSec) : Number(chosen.durationSec),
+              clip.duck,
+              speechWindows,
+            );
+            if (publicMusicDir) {
+              if (!existsSync(chosen.path as string)) {
+                chosenSrc = null;
+              } else {
+                const stagedDir = join(publicMusicDir, cacheId);
+                ensureDir(stagedDir);
+                const staged = join(stagedDir, String(chosen.path).split(sep).pop() ?? "music.wav");
+                copyFileSync(String(chosen.path), staged);
+                cleanupStagedDir(stagedDir, staged.split(sep).pop() ?? "");
+                chosenSrc = toPublicPath(staged);
+              }
             }
-            generated.push({ variant: v, seed, path: outPath, durationSec: dur });
-          }
 
-          const chosen = generated[pick];
-          let chosenSrc: string | null = null;
-          const envelope = volumeEnvelopeForClip(clip.volume ?? 1, Number(chosen.durationSec), clip.fadeTo, clip.fadeOut);
-          if (publicMusicDir) {
-            if (!existsSync(chosen.path as string)) {
-              chosenSrc = null;
-            } else {
-              const stagedDir = join(publicMusicDir, cacheId);
-              ensureDir(stagedDir);
-              const staged = join(stagedDir, String(chosen.path).split(sep).pop() ?? "music.wav");
-              copyFileSync(String(chosen.path), staged);
-              cleanupStagedDir(stagedDir, staged.split(sep).pop() ?? "");
-              chosenSrc = toPublicPath(staged);
+            if (existsSync(String(chosen.path))) {
+              mixInputs.push({
+                path: String(chosen.path),
+                startSec,
+                volume: clip.volume ?? 1,
+                volumeEnvelope: envelope,
+                durationSec: clip.playThrough ? Math.max(0, totalEndSec - startSec) : Number(chosen.durationSec),
+              });
             }
-          }
 
-          clipsOut.push({
-            id: clip.id,
-            kind: "music",
-            startSec,
-            volume: clip.volume ?? 1,
-            prompt: clip.prompt,
-            pick,
-            variants: generated,
-            chosen,
-            src: chosenSrc,
-            playThrough: Boolean(clip.playThrough),
-            ...(envelope ? { volumeEnvelope: envelope } : {}),
+            clipsOut.push({
+              id: clip.id,
+              kind: "music",
+              startSec,
+              volume: clip.volume ?? 1,
+              prompt: clip.prompt,
+              pick,
+              variants: generated,
+              chosen,
+              src: chosenSrc,
+              playThrough: Boolean(clip.playThrough),
+              ...(envelope ? { volumeEnvelope: envelope } : {}),
+            });
           });
           continue;
         }
 
         if (clip.kind === "sfx") {
-          if (!sfxProvider) {
+          if (!sfxChain || !sfxProvider) {
             _log(`sfx: skip clip=${clip.id} (provider not supported)`);
             continue;
           }
@@ -1428,105 +1484,139 @@ export async function generateComposition(options: GenerateOptions): Promise<Gen
             throw new CompileError(`sfx pick out of range for "${clip.id}" (pick=${pick}, variants=${variants})`);
           }
           const cacheId = clip.sourceId ?? clip.id;
-          const sfxCtx = {
-            provider: defaultSfxProvider,
-            sample_rate_hz: sampleRateHz,
-            provider_ctx: defaultSfxProvider === "elevenlabs"
-              ? {
-                  base_url: (sfxProvider as { baseUrl?: string }).baseUrl ?? null,
-                  model_id: (sfxProvider as { modelId?: string }).modelId ?? null,
-                  prompt_influence: (sfxProvider as { promptInfluence?: number }).promptInfluence ?? null,
-                  loop: (sfxProvider as { loop?: boolean }).loop ?? null,
-                }
-              : {},
-          };
+          const sfxCtx = sfxCacheContext(defaultSfxProvider, sfxProvider, sampleRateHz);
           const sfxExt = defaultSfxProvider === "elevenlabs" ? ".mp3" : ".wav";
-          const generated: Array<Record<string, unknown>> = [];
           const sfxSceneId = resolveSceneForStart(clip.start, startSec, outScenes, cueSceneIndex);
 
+          const variantJobs: Array<
+            Promise<{ sfxKey: string; seed: number; outPath: string; dur: number; fallback: FallbackRecord | null }>
+          > = [];
           for (let v = 0; v < variants; v += 1) {
-            const sfxKey = hashKey({
-              kind: "sfx",
-              clipId: cacheId,
-              variant: v,
-              prompt: clip.prompt,
-              durationSec: clip.durationSeconds ?? null,
-              ctx: sfxCtx,
-              seed: voiceover.seed ?? null,
-            });
+            const sfxKey = sfxCacheKey(clip, v, sfxCtx, voiceover.seed ?? null);
             const seed = parseInt(sfxKey.slice(0, 8), 16) % 2147483647;
-            let outPath = join(sfxOutDir, `${cacheId}--v${v + 1}--${safePrefix(sfxKey)}${sfxExt}`);
+            const outPath = join(sfxOutDir, `${cacheId}--v${v + 1}--${safePrefix(sfxKey)}${sfxExt}`);
             const cached = resolveCachedSfx(outDir, currentEnv, sfxKey, cacheId, v, sfxExt, _log);
-            let dur: number;
             if (cached.path && !fresh) {
               if (cached.env && cached.env !== currentEnv) {
                 _log(`sfx: fallback clip=${clip.id} variant=${v + 1}/${variants} using env=${cached.env}`);
               }
-              outPath = cached.path;
-              dur = getManifestDuration(manifest, "sfx", outPath, sfxKey) ?? probeDurationSec(outPath);
-            } else {
-              _log(`sfx: synth clip=${clip.id} variant=${v + 1}/${variants} seed=${seed} -> ${outPath.split(sep).pop()}`);
-              const seg = await sfxProvider.generate({
-                prompt: clip.prompt ?? "",
-                durationSec: clip.durationSeconds ?? null,
-                sampleRateHz,
-                seed,
-              }, outPath);
-              dur = seg.durationSec;
+              const dur = getManifestDuration(manifest, "sfx", cached.path, sfxKey) ?? probeDurationSec(cached.path);
+              variantJobs.push(Promise.resolve({ sfxKey, seed, outPath: cached.path, dur, fallback: null }));
+              continue;
+            }
+            _log(`sfx: synth clip=${clip.id} variant=${v + 1}/${variants} seed=${seed} -> ${outPath.split(sep).pop()}`);
+            // Without a requested length the provider picks one; it counts once recorded.
+            await reserveAudioBudget(
+              { kind: "sfx", unitType: "seconds", quantity: clip.durationSeconds ?? 0, provider: defaultSfxProvider },
+              sfxKey,
+            );
+            const request = {
+              prompt: clip.prompt ?? "",
+              durationSec: clip.durationSeconds ?? null,
+              sampleRateHz,
+              seed,
+            };
+            const label = `clip=${clip.id} variant=${v + 1}`;
+            const job = runWithFallback(
+              sfxChain,
+              (name, candidate) => scheduler.run(name, label, () => candidate.generate(request, outPath)),
+              logClipFallback("sfx", label),
+            ).then(({ result: seg, provider: used, failures }) => {
               didSynthesize = true;
-              recordUsageEvent({
-                kind: "sfx",
-                unitType: "seconds",
-                quantity: seg.durationSec,
-                provider: defaultSfxProvider,
-                compositionId: composition.id,
-                sceneId: sfxSceneId ?? undefined,
+              const fallback: FallbackRecord | null = failures.length
+                ? { kind: "sfx", item: label, from: defaultSfxProvider, provider: used, reason: failures.join("; "), path: outPath }
+                : null;
+              recordUsageEvent(
+                {
+                  kind: "sfx",
+                  unitType: "seconds",
+                  quantity: seg.durationSec,
+                  provider: used,
+                  compositionId: composition.id,
+                  sceneId: sfxSceneId ?? undefined,
+                  clipId: clip.id,
+                  env: currentEnv,
+                  promptChars: clip.prompt?.length ?? 0,
+                  ...(fallback ? { fallbackFrom: defaultSfxProvider } : {}),
+                },
+                sfxKey,
+              );
+              return { sfxKey, seed, outPath, dur: seg.durationSec, fallback };
+            });
+            // Awaited by the finisher; a failure before then is not an unhandled rejection.
+            job.catch(() => undefined);
+            variantJobs.push(job);
+          }
+
+          finishers.push(async () => {
+            const generated: Array<Record<string, unknown>> = [];
+            for (const [v, job] of variantJobs.entries()) {
+              const { sfxKey, seed, outPath, dur, fallback } = await job;
+              if (fallback) {
+                fallbacks.push(fallback);
+              }
+              setManifestEntry(manifest, "sfx", outPath, sfxKey, dur, {
+                ...sourceMeta(defaultSfxProvider, fallback),
                 clipId: clip.id,
-                env: currentEnv,
-                promptChars: clip.prompt?.length ?? 0,
+                variant: v,
+                prompt: clip.prompt,
+                durationSecHint: clip.durationSeconds,
+                sample_rate_hz: sampleRateHz,
+                format: outPath.split(".").pop(),
               });
+              generated.push({ variant: v, seed, path: outPath, durationSec: dur });
             }
-            setManifestEntry(manifest, "sfx", outPath, sfxKey, dur, {
-              provider: defaultSfxProvider,
-              clipId: clip.id,
-              variant: v,
-              prompt: clip.prompt,
-              durationSecHint: clip.durationSeconds,
-              sample_rate_hz: sampleRateHz,
-              format: outPath.split(".").pop(),
-            });
-            generated.push({ variant: v, seed, path: outPath, durationSec: dur });
-          }
 
-          const chosen = generated[pick];
-          let chosenSrc: string | null = null;
-          const envelope = volumeEnvelopeForClip(clip.volume ?? 1, Number(chosen.durationSec), clip.fadeTo, clip.fadeOut);
-          if (publicSfxDir) {
-            const stagedDir = join(publicSfxDir, clip.id);
-            ensureDir(stagedDir);
-            const staged = join(stagedDir, String(chosen.path).split(sep).pop() ?? "sfx.wav");
-            copyFileSync(String(chosen.path), staged);
-            cleanupStagedDir(stagedDir, staged.split(sep).pop() ?? "");
-            chosenSrc = toPublicPath(staged);
-          }
+            const chosen = generated[pick];
+            let chosenSrc: string | null = null;
+            const envelope = applyDucking(
+              volumeEnvelopeForClip(clip.volume ?? 1, Number(chosen.durationSec), clip.fadeTo, clip.fadeOut),
+              clip.volume ?? 1,
+              startSec,
+              Number(chosen.durationSec),
+              clip.duck,
+              speechWindows,
+            );
+            if (publicSfxDir) {
+              const stagedDir = join(publicSfxDir, clip.id);
+              ensureDir(stagedDir);
+              const staged = join(stagedDir, String(chosen.path).split(sep).pop() ?? "sfx.wav");
+              copyFileSync(String(chosen.path), staged);
+              cleanupStagedDir(stagedDir, staged.split(sep).pop() ?? "");
+              chosenSrc = toPublicPath(staged);
+            }
+
+            if (existsSync(String(chosen.path))) {
+              mixInputs.push({
+                path: String(chosen.path),
+                startSec,
+                volume: clip.volume ?? 1,
+                volumeEnvelope: envelope,
+                durationSec: Number(chosen.durationSec),
+              });
+            }
 
-          clipsOut.push({
-            id: clip.id,
-            kind: "sfx",
-            startSec,
-            volume: clip.volume ?? 1,
-            prompt: clip.prompt,
-            pick,
-            selectionPath: selectionPath(outDir),
-            variants: generated,
-            chosen,
-            src: chosenSrc,
-            ...(envelope ? { volumeEnvelope: envelope } : {}),
+            clipsOut.push({
+              id: clip.id,
+              kind: "sfx",
+              startSec,
+              volume: clip.volume ?? 1,
+              prompt: clip.prompt,
+              pick,
+              selectionPath: selectionPath(outDir),
+              variants: generated,
+              chosen,
+              src: chosenSrc,
+              ...(envelope ? { volumeEnvelope: envelope } : {}),
+            });
           });
         }
       }
       audioTracksOut.push({ id: track.id, kind: track.kind, clips: clipsOut });
     }
+    for (const finish of finishers) {
+      await finish();
+    }
   }
 
   ensureDir(dirname(timelineOut));
@@ -1535,6 +1625,7 @@ export async function generateComposition(options: GenerateOptions): Promise<Gen
     _log(`write: timeline=${timelineOut} items=${timelineItems.length} tracks=${audioTracksOut.length}`);
   }
 
+  ensureDir(envCacheDir);
   writeFileSync(manifestPath, JSON.stringify(manifest, null, 2) + "\n");
   if (usageLedger && usageLedger.entries.length) {
     const summary = summarizeUsageFile(usageLedger.path);
@@ -1549,11 +1640,51 @@ export async function generateComposition(options: GenerateOptions): Promise<Gen
   }
 
   let audioPath: string | null = null;
-  if (audioOutPath) {
-    concatAudioFiles(audioOutPath, segmentPathsForConcat);
+  const bedPaths = audioOutPath && narrationBed.length ? narrationBedPaths(narrationBed, segmentsDir, sampleRateHz) : [];
+  if (audioOutPath && (mixInputs.length || !bedPaths)) {
+    // Lay the narration bed at t=0 and sum every SFX/music/file clip on top of it. Overlapping
+    // narration can't be one concatenated bed, so each segment is then mixed in at its own start.
+    const bedInputs: AudioMixInput[] = [];
+    if (!bedPaths) {
+      bedInputs.push(...narrationBed.map((segment) => ({ path: segment.path, startSec: segment.startSec })));
+    } else if (bedPaths.length) {
+      const bedPath = join(envCacheDir, "mix", `${composition.id}--narration.wav`);
+      concatAudioFiles(bedPath, bedPaths);
+      bedInputs.push({ path: bedPath, startSec: 0 });
+    }
+    mixAudioTracks(audioOutPath, [...bedInputs, ...mixInputs], { sampleRateHz });
+    audioPath = audioOutPath;
+    if (verboseLogs) {
+      _log(`write: audio=${audioOutPath} segments=${narrationBed.length} clips=${mixInputs.length}`);
+    }
+  } else if (audioOutPath && bedPaths) {
+    concatAudioFiles(audioOutPath, bedPaths);
     audioPath = audioOutPath;
     if (verboseLogs) {
-      _log(`write: audio=${audioOutPath} segments=${segmentPathsForConcat.length}`);
+      _log(`write: audio=${audioOutPath} segments=${narrationBed.length}`);
+    }
+  }
+
+  let loudness: RunLoudness | null = null;
+  const loudnessTarget = normalizeLoudnessTarget(voiceover.loudnessTarget);
+  if (audioPath && loudnessTarget) {
+    const measured = normalizeLoudness(audioPath, audioPath, loudnessTarget, sampleRateHz);
+    if (measured) {
+      const after = measureLoudness(audioPath, loudnessTarget);
+      loudness = {
+        targetLufs: loudnessTarget.integratedLufs,
+        truePeakDb: loudnessTarget.truePeakDb ?? null,
+        inputLufs: measured.integratedLufs,
+        inputTruePeakDb: measured.truePeakDb,
+        outputLufs: Number.isFinite(after.integratedLufs) ? after.integratedLufs : null,
+      };
+      if (verboseLogs) {
+        _log(
+          `loudness: target=${loudnessTarget.integratedLufs} input=${measured.integratedLufs.toFixed(1)} output=${loudness.outputLufs?.toFixed(1) ?? "n/a"} LUFS`,
+        );
+      }
+    } else {
+      _log("loudness: skip (audio is silent)");
     }
   }
 
@@ -1565,10 +1696,16 @@ export async function generateComposition(options: GenerateOptions): Promise<Gen
     scriptPath: scriptOut,
     timelinePath: timelineOut,
     audioPath,
+    loudness,
+    fallbacks,
   });
   if (verboseLogs) {
     _log(`run: id=${runArtifacts.runId} path=${runArtifacts.runPath}`);
   }
+  // Reported even without verbose logs or a log callback: degraded audio must not go unnoticed.
+  for (const line of formatFallbackSummary(fallbacks)) {
+    (log ?? console.warn)(line);
+  }
 
   return {
     script,
@@ -1577,9 +1714,23 @@ export async function generateComposition(options: GenerateOptions): Promise<Gen
     didSynthesize,
     runId: runArtifacts.runId,
     runPath: runArtifacts.runPath,
+    loudness,
+    captionPaths: captionFiles ? { vttPath: captionFiles.vttPath, srtPath: captionFiles.srtPath } : null,
+    fallbacks,
   };
 }
 
+function normalizeLoudnessTarget(value: VoiceoverConfig["loudnessTarget"]): LoudnessTarget | null {
+  if (value == null) {
+    return null;
+  }
+  const target = typeof value === "number" ? { integratedLufs: value } : value;
+  if (!Number.isFinite(target.integratedLufs) || target.integratedLufs >= 0) {
+    throw new CompileError(`voiceover.loudnessTarget must be a negative LUFS value (got ${target.integratedLufs})`);
+  }
+  return target;
+}
+
 function normalizeManifest(base: Record<string, unknown>): Record<string, any> {
   return {
     version: 1,
@@ -1590,6 +1741,17 @@ function normalizeManifest(base: Record<string, unknown>): Record<string, any> {
   } as Record<string, any>;
 }
 
+/**
+ * Manifest `meta` naming the provider behind a file; fallback output also names the configured
+ * provider, which keeps it from counting as a cache hit later.
+ */
+function sourceMeta(provider: string, fallback: FallbackRecord | null): Record<string, unknown> {
+  if (!fallback) {
+    return { provider };
+  }
+  return { provider: fallback.provider, fallbackFrom: fallback.from, fallbackReason: fallback.reason };
+}
+
 function setManifestEntry(
   manifest: Record<string, any>,
   section: "segments" | "sfx" | "music",
@@ -1604,6 +1766,124 @@ function setManifestEntry(
   manifest[section][path] = { key, durationSec, meta };
 }
 
+export function pronunciationRules(voiceover: VoiceoverConfig): PronunciationRule[] {
+  return (voiceover.pronunciations ?? []).map((lex) => {
+    if (lex.alias) {
+      return { stringToReplace: lex.grapheme, type: "alias", alias: lex.alias };
+    }
+    if (!lex.phoneme) {
+      throw new CompileError(`Pronunciation lexeme for "${lex.grapheme}" must provide phoneme or alias`);
+    }
+    return {
+      stringToReplace: lex.grapheme,
+      type: "phoneme",
+      phoneme: lex.phoneme,
+      alphabet: lex.alphabet ?? "ipa",
+    };
+  });
+}
+
+export function pronunciationLocators(voiceover: VoiceoverConfig, dictionaryId: string): Array<Record<string, unknown>> {
+  const merged: Array<Record<string, unknown>> = [
+    { pronunciation_dictionary_id: dictionaryId, version_id: null },
+  ];
+
+  if (voiceover.pronunciationDictionaryLocators) {
+    for (const loc of voiceover.pronunciationDictionaryLocators) {
+      if (loc.pronunciationDictionaryId === dictionaryId) {
+        continue;
+      }
+      merged.push({
+        pronunciation_dictionary_id: loc.pronunciationDictionaryId,
+        version_id: loc.versionId ?? null,
+      });
+    }
+  }
+  if (merged.length > 3) {
+    throw new CompileError("ElevenLabs supports up to 3 pronunciation dictionaries per request");
+  }
+  return merged;
+}
+
+/**
+ * Everything besides scene, cue and text that changes what a TTS segment sounds like.
+ */
+export function ttsCacheContext(
+  voiceover: VoiceoverConfig,
+  providerName: string,
+  provider: unknown,
+  sampleRateHz: number,
+  pronunciationLocators: Array<Record<string, unknown>> | null,
+  pronunciationRulesHash: string | null,
+): Record<string, unknown> {
+  return {
+    voice: voiceover.voice ?? null,
+    model: voiceover.model ?? null,
+    format: voiceover.format ?? "wav",
+    sample_rate_hz: sampleRateHz,
+    provider_ctx: providerCacheContext(providerName, provider),
+    pronunciation_dictionary_locators: pronunciationLocators,
+    pronunciation_rules_hash: pronunciationRulesHash,
+  };
+}
+
+export function ttsSegmentCacheKey(
+  sceneId: string,
+  cueId: string,
+  text: string,
+  trimEndSec: number,
+  ctx: Record<string, unknown>,
+): string {
+  return hashKey({ kind: "tts", sceneId, cueId, text, trimEndSec, ctx });
+}
+
+export function sfxCacheContext(providerName: string, provider: unknown, sampleRateHz: number): Record<string, unknown> {
+  return {
+    provider: providerName,
+    sample_rate_hz: sampleRateHz,
+    provider_ctx: providerName === "elevenlabs"
+      ? {
+          base_url: (provider as { baseUrl?: string }).baseUrl ?? null,
+          model_id: (provider as { modelId?: string }).modelId ?? null,
+          prompt_influence: (provider as { promptInfluence?: number }).promptInfluence ?? null,
+          loop: (provider as { loop?: boolean }).loop ?? null,
+        }
+      : {},
+  };
+}
+
+export function sfxCacheKey(clip: AudioClipSpec, variant: number, ctx: Record<string, unknown>, seed: number | null): string {
+  return hashKey({
+    kind: "sfx",
+    clipId: clip.sourceId ?? clip.id,
+    variant,
+    prompt: clip.prompt,
+    durationSec: clip.durationSeconds ?? null,
+    ctx,
+    seed,
+  });
+}
+
+export function musicCacheKey(
+  clip: AudioClipSpec,
+  variant: number,
+  durationSec: number,
+  providerName: string,
+  seed: number | null,
+): string {
+  return hashKey({
+    kind: "music",
+    clipId: clip.sourceId ?? clip.id,
+    variant,
+    prompt: clip.prompt,
+    durationSec,
+    model_id: clip.modelId,
+    force_instrumental: clip.forceInstrumental,
+    provider: providerName,
+    seed,
+  });
+}
+
 function providerCacheContext(providerName: string, provider: unknown): Record<string, unknown> {
   if (providerName === "elevenlabs") {
     const p = provider as ElevenLabsTTSProvider;
@@ -1639,10 +1919,20 @@ function providerCacheContext(providerName: string, provider: unknown): Record<s
       voice_name: (provider as { voiceName?: string }).voiceName ?? null,
     };
   }
+  if (providerName === "local" || providerName === "local-tts") {
+    const p = provider as LocalTTSProvider;
+    return {
+      provider: "local-tts",
+      engine: p.engine,
+      model: p.defaultModel ?? null,
+      voice: p.voice,
+      rate: p.rate,
+    };
+  }
   return { provider: providerName };
 }
 
-function mergeAudioPlans(base?: AudioPlan | null, extra?: AudioPlan | null): AudioPlan | null {
+export function mergeAudioPlans(base?: AudioPlan | null, extra?: AudioPlan | null): AudioPlan | null {
   if (!base && !extra) return null;
   if (!base) return extra ?? null;
   if (!extra) return base;
@@ -1653,7 +1943,7 @@ function mergeAudioPlans(base?: AudioPlan | null, extra?: AudioPlan | null): Aud
   };
 }
 
-function normalizePauseSpec(value: PauseSpec | number | undefined | null): PauseSpec | null {
+export function normalizePauseSpec(value: PauseSpec | number | undefined | null): PauseSpec | null {
   if (value == null) {
     return null;
   }
@@ -1663,7 +1953,7 @@ function normalizePauseSpec(value: PauseSpec | number | undefined | null): Pause
   return value;
 }
 
-function samplePause(spec: PauseSpec, rng: () => number): number {
+export function samplePause(spec: PauseSpec, rng: () => number): number {
   if (spec.mode === "fixed") {
     return Math.max(0, spec.seconds);
   }
@@ -1686,7 +1976,7 @@ function gaussianSample(rng: () => number, mean: number, std: number): number {
   return mean + z * std;
 }
 
-function makeRng(seed: number | null): () => number {
+export function makeRng(seed: number | null): () => number {
   if (seed == null) {
     return () => Math.random();
   }
@@ -1700,6 +1990,323 @@ function makeRng(seed: number | null): () => number {
   };
 }
 
+export const isSceneItem = (item: TimelineItemSpec): item is SceneSpec => !("kind" in item);
+export const isTransitionItem = (item: TimelineItemSpec): item is TransitionSpec =>
+  "kind" in item && item.kind === "transition";
+export const isMarkItem = (item: TimelineItemSpec): item is MarkSpec => "kind" in item && item.kind === "mark";
+export const isNarrationItem = (item: TimelineItemSpec): item is NarrationSpec =>
+  "kind" in item && item.kind === "narration";
+
+export function findPrevSceneId(timeline: TimelineItemSpec[], index: number): string | undefined {
+  for (let i = index - 1; i >= 0; i -= 1) {
+    const item = timeline[i];
+    if (isSceneItem(item)) return item.id;
+  }
+  return undefined;
+}
+
+export function findNextSceneId(timeline: TimelineItemSpec[], index: number): string | undefined {
+  for (let i = index + 1; i < timeline.length; i += 1) {
+    const item = timeline[i];
+    if (isSceneItem(item)) return item.id;
+  }
+  return undefined;
+}
+
+export type NarrationStep = { kind: "pause"; seconds: number } | { kind: "cue"; cue: CueSpec };
+
+/**
+ * The pauses and cues of a scene or narration block in playing order, with the voiceover's pause
+ * between items when it comes out longer than zero. Random pauses are drawn when the walk reaches
+ * them, so a caller that handles each cue before asking for the next step draws from `rng` in the
+ * same order as generation.
+ */
+export function* narrationSteps(
+  entries: Array<CueSpec | PauseSpec>,
+  voiceover: VoiceoverConfig,
+  rng: () => number,
+): Generator<NarrationStep> {
+  for (let idx = 0; idx < entries.length; idx += 1) {
+    const pauseBetween = idx > 0 ? normalizePauseSpec(voiceover.pauseBetweenItems) : null;
+    const betweenSec = pauseBetween ? samplePause(pauseBetween, rng) : 0;
+    if (betweenSec > 0) {
+      yield { kind: "pause", seconds: betweenSec };
+    }
+    const entry = entries[idx];
+    yield entry.kind === "pause" ? { kind: "pause", seconds: samplePause(entry, rng) } : { kind: "cue", cue: entry };
+  }
+}
+
+/**
+ * Where a scene starts when narration has reached `now`, and where its cues start: an absolute start
+ * past `now` leaves a gap, a relative one does not move the narration.
+ */
+export function sceneStartTiming(scene: SceneSpec, now: number): { startSec: number; nowSec: number } {
+  const startSec = scene.time ? (scene.time.startIsRelative ? now + (scene.time.start ?? 0) : scene.time.start) : now;
+  const gap = scene.time?.start != null && !scene.time.startIsRelative && startSec > now;
+  return { startSec, nowSec: gap ? startSec : now };
+}
+
+/** The end a scene's declared time asks for, or null when its narration alone decides. */
+export function sceneEndHintSec(scene: SceneSpec, startSec: number): number | null {
+  if (scene.time?.end == null) return null;
+  return scene.time.startIsRelative ? startSec + (scene.time.end - (scene.time.start ?? 0)) : scene.time.end;
+}
+
+export function narrationStartSec(item: NarrationSpec, shift: number, nextSceneStartSec: number | null): number {
+  const start = item.time?.start != null ? item.time.start + shift : nextSceneStartSec;
+  if (start == null) {
+    throw new CompileError(`Narration "${item.id}" requires a start time or a following scene.`);
+  }
+  return start;
+}
+
+type TimeWindow = { startSec: number; endSec: number };
+
+const DEFAULT_TRANSITION_DURATION_SEC = 1;
+
+export function transitionDurationSeconds(
+  transition: Pick<TransitionSpec, "time" | "durationSeconds" | "overflowAudio" | "audio">,
+): number {
+  if (transition.time?.start != null && transition.time?.end != null) {
+    return Math.max(0, transition.time.end - transition.time.start);
+  }
+  let maxAudioEnd = 0;
+  if (transition.overflowAudio === "extend" && transition.audio?.length) {
+    for (const audio of transition.audio) {
+      const offset = audio.time?.start ?? 0;
+      let duration = audio.durationSeconds ?? null;
+      if (duration == null && audio.time?.start != null && audio.time?.end != null) {
+        duration = Math.max(0, audio.time.end - audio.time.start);
+      }
+      if (duration != null) {
+        maxAudioEnd = Math.max(maxAudioEnd, offset + duration);
+      }
+    }
+  }
+  return Math.max(transition.durationSeconds ?? DEFAULT_TRANSITION_DURATION_SEC, maxAudioEnd);
+}
+
+/**
+ * How far insert-mode transitions push what follows them: `before[i]` is the shift at timeline item
+ * `i`, `bySceneId` the shift of each scene. Scene windows are the unshifted ones.
+ */
+export function insertTransitionShifts(
+  timeline: TimelineItemSpec[],
+  scenes: Map<string, TimeWindow>,
+): { before: number[]; bySceneId: Map<string, number> } {
+  const before: number[] = [];
+  const bySceneId = new Map<string, number>();
+  let cumulativeShift = 0;
+  for (let i = 0; i < timeline.length; i += 1) {
+    before[i] = cumulativeShift;
+    const item = timeline[i];
+    if (isSceneItem(item)) {
+      bySceneId.set(item.id, cumulativeShift);
+      continue;
+    }
+    if (isTransitionItem(item) && (item.mode ?? "overlap") === "insert") {
+      const duration = transitionDurationSeconds(item);
+      const prevSceneId = findPrevSceneId(timeline, i);
+      const nextSceneId = findNextSceneId(timeline, i);
+      const prevScene = prevSceneId ? scenes.get(prevSceneId) : undefined;
+      const nextScene = nextSceneId ? scenes.get(nextSceneId) : undefined;
+      let extraShift = duration;
+      if (prevScene && nextScene) {
+        const prevEnd = prevScene.endSec + (bySceneId.get(prevSceneId!) ?? 0);
+        const nextStart = nextScene.startSec + cumulativeShift;
+        extraShift = Math.max(0, prevEnd + duration - nextStart);
+      }
+      cumulativeShift += extraShift;
+    }
+  }
+  return { before, bySceneId };
+}
+
+export type TransitionWindow = {
+  transition: Omit<TransitionSpec, "kind">;
+  prevSceneId?: string;
+  nextSceneId?: string;
+  mode: TransitionSpec["mode"];
+  startSec: number;
+  endSec: number;
+};
+
+/**
+ * Place every transition, including a scene's `transitionToNext`, keyed by its timeline index.
+ * Scenes must already carry their shifted times; an overlapping transition pulls the next scene's
+ * start back to its own.
+ */
+export function layOutTransitions(
+  timeline: TimelineItemSpec[],
+  scenes: Map<string, TimeWindow>,
+  shiftBefore: number[],
+): Map<number, TransitionWindow> {
+  const windows = new Map<number, TransitionWindow>();
+  const place = (transition: TransitionWindow["transition"], prevSceneId?: string, nextSceneId?: string) => {
+    const prevScene = prevSceneId ? scenes.get(prevSceneId) : undefined;
+    const nextScene = nextSceneId ? scenes.get(nextSceneId) : undefined;
+    const durationSeconds = transitionDurationSeconds(transition);
+    const mode = transition.mode ?? (prevScene && nextScene ? "overlap" : "insert");
+    const startSec =
+      transition.time?.start != null
+        ? transition.time.start
+        : mode === "overlap" && prevScene
+          ? Math.max(0, prevScene.endSec - durationSeconds)
+          : prevScene?.endSec ?? 0;
+    const endSec = transition.time?.end ?? startSec + durationSeconds;
+    if (mode === "overlap" && nextScene && startSec < nextScene.startSec) {
+      nextScene.startSec = startSec;
+    }
+    return { transition, prevSceneId, nextSceneId, mode, startSec, endSec };
+  };
+  for (let i = 0; i < timeline.length; i += 1) {
+    const item = timeline[i];
+    if (isSceneItem(item)) {
+      const nextItem = timeline[i + 1];
+      if (scenes.has(item.id) && item.transitionToNext && (!nextItem || !isTransitionItem(nextItem))) {
+        const { effect, ease, props, durationSeconds } = item.transitionToNext;
+        const toNext = { id: `${item.id}__to_next`, effect, ease, props, durationSeconds };
+        windows.set(i, place(toNext, item.id, findNextSceneId(timeline, i)));
+      }
+      continue;
+    }
+    if (isTransitionItem(item)) {
+      const shift = shiftBefore[i] ?? 0;
+      const shifted = item.time
+        ? {
+            ...item,
+            time: { start: item.time.start + shift, end: item.time.end != null ? item.time.end + shift : item.time.end },
+          }
+        : item;
+      windows.set(i, place(shifted, findPrevSceneId(timeline, i), findNextSceneId(timeline, i)));
+    }
+  }
+  return windows;
+}
+
+export type MeasuredTimes = {
+  sceneStart: Record<string, number>;
+  sceneEnd: Record<string, number>;
+  cueStart: Record<string, number>;
+  cueEnd: Record<string, number>;
+  markStart: Record<string, number>;
+  spokenSegments: Record<string, Array<{ startSec: number; endSec: number; words: WordTiming[] }>>;
+};
+
+/** A context that resolves deferred time expressions against measured (or estimated) narration. */
+export function measuredTimeContext(fps: number, times: MeasuredTimes, parent: TimeWindow): TimeEvalContext {
+  return {
+    fps,
+    getSceneStart: (id) => times.sceneStart[id] ?? null,
+    getSceneEnd: (id) => times.sceneEnd[id] ?? null,
+    getCueStart: (id) => times.cueStart[id] ?? null,
+    getCueEnd: (id) => times.cueEnd[id] ?? null,
+    getMarkStart: (id) => times.markStart[id] ?? null,
+    getSegment: (cueId, index) => times.spokenSegments[cueId]?.[index - 1] ?? null,
+    getWord: (cueId, token, occurrence) =>
+      findWord(times.spokenSegments[cueId]?.flatMap((seg) => seg.words) ?? [], token, occurrence),
+    getParentDuration: () => Math.max(0, parent.endSec - parent.startSec),
+    getPrevStart: () => null,
+    getPrevEnd: () => null,
+    getNextStart: () => null,
+  };
+}
+
+/**
+ * The audio-plan clip for a scene or transition `<music>`/`<sfx>` element. Resolved deferred times
+ * are absolute; declared times are offsets into the container. `clipEndSec` cuts the clip off there,
+ * and a clip left with no duration is dropped.
+ */
+export function audioElementClip(
+  element: AudioElementSpec,
+  container: TimeWindow,
+  ctx: TimeEvalContext,
+  clipEndSec?: number,
+): AudioClipSpec | null {
+  const measured = element.deferredTime
+    ? resolveDeferredTiming(element.deferredTime, ctx, `audio "${element.id}"`, container.startSec)
+    : null;
+  const startSec = measured?.startSec ?? container.startSec + (element.time?.start ?? 0);
+  let durationSeconds = element.durationSeconds ?? null;
+  if (durationSeconds == null && measured?.startSec != null && measured.endSec != null) {
+    durationSeconds = Math.max(0, measured.endSec - measured.startSec);
+  }
+  if (durationSeconds == null && element.time?.start != null && element.time?.end != null) {
+    durationSeconds = Math.max(0, element.time.end - element.time.start);
+  }
+  if (clipEndSec != null) {
+    const maxDuration = Math.max(0, clipEndSec - startSec);
+    durationSeconds = durationSeconds == null ? maxDuration : Math.min(durationSeconds, maxDuration);
+  }
+  if (durationSeconds === 0) {
+    return null;
+  }
+  return {
+    id: element.id,
+    kind: element.kind,
+    start: { kind: "absolute", sec: startSec },
+    volume: element.volume,
+    fadeTo: element.fadeTo,
+    fadeOut: element.fadeOut,
+    duck: element.duck,
+    sourceId: element.sourceId,
+    playThrough: element.playThrough,
+    src: element.src,
+    prompt: element.prompt,
+    durationSeconds: durationSeconds ?? undefined,
+    variants: element.variants,
+    pick: element.pick,
+    modelId: element.modelId,
+    forceInstrumental: element.forceInstrumental,
+  };
+}
+
+/** Group element clips into one track per kind, in the order the kinds first appear. */
+export function audioPlanFromClips(clips: AudioClipSpec[]): AudioPlan | null {
+  if (!clips.length) {
+    return null;
+  }
+  const plan: AudioPlan = { tracks: [] };
+  for (const clip of clips) {
+    let track = plan.tracks.find((t) => t.id === clip.kind);
+    if (!track) {
+      track = { id: clip.kind, kind: clip.kind, clips: [] };
+      plan.tracks.push(track);
+    }
+    track.clips.push(clip);
+  }
+  return plan;
+}
+
+type NarrationBedSegment = { path: string; startSec: number; durationSec: number; sceneId: string };
+
+/**
+ * Files that concatenate into the narration bed, with silence filling the gaps before each segment
+ * so it plays at its timeline start. Returns null when segments overlap and must be mixed instead.
+ */
+function narrationBedPaths(segments: NarrationBedSegment[], segmentsDir: string, sampleRateHz: number): string[] | null {
+  const paths: string[] = [];
+  let cursor = 0;
+  for (const segment of [...segments].sort((a, b) => a.startSec - b.startSec)) {
+    const gap = segment.startSec - cursor;
+    if (gap < -0.001) {
+      return null;
+    }
+    if (gap > 0.001) {
+      const silenceKey = hashKey({ kind: "silence", durationSec: gap, sampleRateHz });
+      const silencePath = join(segmentsDir, `silence-${safePrefix(silenceKey)}.wav`);
+      if (!existsSync(silencePath)) {
+        writeSilenceWav(silencePath, gap, sampleRateHz);
+      }
+      paths.push(silencePath);
+    }
+    paths.push(segment.path);
+    cursor = segment.startSec + segment.durationSec;
+  }
+  return paths;
+}
+
 function ensureTrimmed(path: string, envCacheDir: string, duration: number, sampleRateHz: number, fresh: boolean): string {
   const trimmedDir = join(envCacheDir, "segments_trimmed");
   ensureDir(trimmedDir);
@@ -1720,7 +2327,22 @@ function toPublicPath(path: string): string {
   return rel.startsWith("/") ? rel : `/${rel}`;
 }
 
-function resolveStart(
+function resolveClipSource(src: string, dslPath: string, audioOutPath: string | null): string | null {
+  const candidates: string[] = [];
+  if (isAbsolute(src)) {
+    candidates.push(src);
+  }
+  candidates.push(resolve(dirname(dslPath), src));
+  if (audioOutPath) {
+    const publicIdx = audioOutPath.lastIndexOf(`${sep}public${sep}`);
+    if (publicIdx >= 0) {
+      candidates.push(join(audioOutPath.slice(0, publicIdx + sep.length + "public".length), src));
+    }
+  }
+  return candidates.find((candidate) => existsSync(candidate)) ?? null;
+}
+
+export function resolveStart(
   start: AudioClipSpec["start"],
   cueIndex: Record<string, number>,
   sceneIndex: Record<string, number>,
@@ -1753,10 +2375,10 @@ function resolveStart(
   throw new CompileError("Unsupported audio start kind");
 }
 
-function resolveSceneForStart(
+export function resolveSceneForStart(
   start: AudioClipSpec["start"],
   startSec: number,
-  scenes: Script["scenes"],
+  scenes: Array<Pick<Script["scenes"][number], "id" | "startSec" | "endSec">>,
   cueSceneIndex: Record<string, string>,
 ): string | null {
   if (start.kind === "scene") {
@@ -1817,6 +2439,72 @@ function volumeEnvelopeForClip(
   return squashed.map(([t, v]) => ({ atSec: t, volume: v }));
 }
 
+export function collectSpeechWindows(timelineItems: Array<Record<string, unknown>>): Array<[number, number]> {
+  const windows: Array<[number, number]> = [];
+  for (const item of timelineItems) {
+    if (item.type !== "tts" || !Array.isArray(item.segments)) continue;
+    for (const segment of item.segments as Array<Record<string, unknown>>) {
+      if (segment.type !== "tts") continue;
+      const start = Number(segment.startSec);
+      const end = Number(segment.endSec);
+      if (Number.isFinite(start) && Number.isFinite(end) && end > start) {
+        windows.push([start, end]);
+      }
+    }
+  }
+  return windows.sort((a, b) => a[0] - b[0]);
+}
+
+export function applyDucking(
+  envelope: Array<{ atSec: number; volume: number }> | null,
+  baseVolume: number,
+  clipStartSec: number,
+  clipDurationSec: number,
+  duck: DuckSpec | undefined,
+  speechWindows: Array<[number, number]>,
+): Array<{ atSec: number; volume: number }> | null {
+  if (!duck || clipDurationSec <= 0) {
+    return envelope;
+  }
+  const depth = Math.min(1, Math.max(0, duck.depth ?? 0.3));
+  const attack = Math.max(0, duck.attackSeconds ?? 0.15);
+  const release = Math.max(0, duck.releaseSeconds ?? 0.4);
+
+  // Merge windows whose ramps would overlap so the gain stays down between close phrases.
+  const merged: Array<[number, number]> = [];
+  for (const [start, end] of speechWindows) {
+    const relStart = start - clipStartSec;
+    const relEnd = end - clipStartSec;
+    if (relEnd + release <= 0 || relStart - attack >= clipDurationSec) continue;
+    const last = merged[merged.length - 1];
+    if (last && relStart - attack <= last[1] + release) {
+      last[1] = Math.max(last[1], relEnd);
+    } else {
+      merged.push([relStart, relEnd]);
+    }
+  }
+  if (!merged.length) {
+    return envelope;
+  }
+
+  const gain: Array<[number, number]> = [];
+  for (const [start, end] of merged) {
+    gain.push([start - attack, 1], [start, depth], [end, depth], [end + release, 1]);
+  }
+  gain.sort((a, b) => a[0] - b[0]);
+
+  const base: Array<[number, number]> = envelope
+    ? envelope.map((p) => [p.atSec, p.volume])
+    : [[0, baseVolume]];
+  const times = new Set<number>([0, clipDurationSec]);
+  for (const [t] of base) times.add(t);
+  for (const [t] of gain) times.add(t);
+  return Array.from(times)
+    .filter((t) => t >= 0 && t <= clipDurationSec)
+    .sort((a, b) => a - b)
+    .map((t) => ({ atSec: t, volume: volumeAt(base, t) * volumeAt(gain, t) }));
+}
+
 function volumeAt(points: Array<[number, number]>, t: number): number {
   if (!points.length) {
     return 1;
@@ -1838,6 +2526,17 @@ function volumeAt(points: Array<[number, number]>, t: number): number {
   return points[points.length - 1][1];
 }
 
+function toCueSegments(segments: Array<Record<string, unknown>>): CueSegment[] {
+  return segments.map((seg) => ({
+    type: seg.type as "tts" | "pause",
+    startSec: seg.startSec as number,
+    endSec: seg.endSec as number,
+    text: seg.text as string | undefined,
+    durationSec: seg.seconds as number | undefined,
+    ...(seg.words ? { words: seg.words as CueWord[] } : {}),
+  }));
+}
+
 function isTextSegment(segment: VoiceSegmentSpec): segment is { kind: "text"; text: string } {
   return segment.kind === "text";
 }
@@ -7,16 +7,54 @@ export {
   getDefaultMusicProvider,
   getDefaultProvider,
   getDefaultSfxProvider,
+  getFallbackProviders,
   getProviderConfig,
   type Config,
 } from "./config.js";
 
-export { BabulusError, ParseError, CompileError } from "./errors.js";
+export {
+  BabulusError,
+  ParseError,
+  CompileError,
+  ProviderHttpError,
+  formatSourceLocation,
+  type SourceLocation,
+} from "./errors.js";
 
-export { loadVideoFile } from "./dsl/load.js";
+export { loadVideoFile, loadTemplateData, diagnoseVideoFile, type LoadVideoFileOptions } from "./dsl/load.js";
 export type { CompositionSpec, VideoFileSpec } from "./dsl/types.js";
 
 export { generateComposition, type GenerateOptions, type GeneratedArtifact } from "./generate.js";
+export {
+  planComposition,
+  type CompositionPlan,
+  type PlanMissReason,
+  type PlanOptions,
+  type PlannedItem,
+  type PlanTotals,
+} from "./plan.js";
+export { getBudget, type Budget, type BudgetCaps } from "./budget.js";
+export { type FallbackRecord } from "./fallback.js";
+export { getSynthesisLimits, type ProviderLimits, type SynthesisLimits } from "./scheduler.js";
+
+export { generateSeries, type GenerateSeriesOptions, type GeneratedEpisode } from "./series.js";
+
+export {
+  validateComposition,
+  type ValidateOptions,
+  type ValidationIssue,
+  type ValidationIssueCode,
+  type ValidationResult,
+} from "./validate.js";
+
+export {
+  buildCaptions,
+  formatSrt,
+  formatWebVtt,
+  writeCaptions,
+  type CaptionCue,
+  type CaptionOptions,
+} from "./captions.js";
 
 export { renderVideoFromScript } from "../packages/renderer/src/video-render.js";
 export type { ScriptData } from "../packages/shared/src/video.js";
@@ -0,0 +1,183 @@
+import { describe, it, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import type { spawnSync } from "node:child_process";
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { wavDurationSec, writeSilenceWav } from "./audio/wav.js";
+import {
+  buildMixFilterGraph,
+  conformAudioFile,
+  mixAudioTracks,
+  normalizeLoudness,
+  parseLoudnormOutput,
+  setMediaSpawn,
+  volumeEnvelopeExpression,
+} from "./media.js";
+
+describe("Audio mixdown", () => {
+  afterEach(() => {
+    setMediaSpawn();
+  });
+
+  describe("volumeEnvelopeExpression", () => {
+    it("returns the base volume when there is no envelope", () => {
+      assert.equal(volumeEnvelopeExpression(0.5, null), "0.5");
+    });
+
+    it("interpolates linearly between envelope points", () => {
+      const expr = volumeEnvelopeExpression(1, [
+        { atSec: 0, volume: 1 },
+        { atSec: 2, volume: 1 },
+        { atSec: 4, volume: 0.2 },
+      ]);
+      assert.equal(expr, "if(lt(t,2),1,if(lt(t,4),1+(t-2)*-0.4,0.2))");
+    });
+  });
+
+  describe("buildMixFilterGraph", () => {
+    it("delays, trims and sums every input without normalizing", () => {
+      const graph = buildMixFilterGraph(
+        [
+          { path: "voice.wav", startSec: 0 },
+          { path: "sting.wav", startSec: 1.25, volume: 0.8, durationSec: 0.5 },
+        ],
+        24000,
+      );
+      assert.equal(
+        graph,
+        [
+          "[0:a]aresample=24000,aformat=channel_layouts=mono,volume='1':eval=frame[a0]",
+          "[1:a]aresample=24000,aformat=channel_layouts=mono,atrim=duration=0.5,volume='0.8':eval=frame,adelay=1250:all=1[a1]",
+          "[a0][a1]amix=inputs=2:duration=longest:dropout_transition=0:normalize=0[mix]",
+        ].join(";"),
+      );
+    });
+  });
+
+  describe("mixAudioTracks", () => {
+    it("passes every input to a single ffmpeg invocation", () => {
+      const calls: Array<{ cmd: string; args: string[] }> = [];
+      setMediaSpawn(((cmd: string, args: string[]) => {
+        calls.push({ cmd, args });
+        return { status: 0, stdout: Buffer.alloc(0), stderr: Buffer.alloc(0) };
+      }) as unknown as typeof spawnSync);
+
+      mixAudioTracks("/tmp/videoml-mix-test/out.wav", [
+        { path: "voice.wav", startSec: 0 },
+        { path: "music.mp3", startSec: 2 },
+      ]);
+
+      assert.equal(calls.length, 1);
+      assert.equal(calls[0].cmd, "ffmpeg");
+      assert.deepEqual(calls[0].args.filter((_, i, all) => all[i - 1] === "-i"), ["voice.wav", "music.mp3"]);
+      assert.equal(calls[0].args.at(-1), "/tmp/videoml-mix-test/out.wav");
+    });
+
+    it("rejects an empty input list", () => {
+      assert.throws(() => mixAudioTracks("/tmp/videoml-mix-test/out.wav", []), /No audio inputs to mix/);
+    });
+  });
+
+  describe("parseLoudnormOutput", () => {
+    it("reads the measurement block ffmpeg prints last", () => {
+      const stderr = [
+        "Input #0, wav, from 'mix.wav':",
+        "[Parsed_loudnorm_0 @ 0x1] ",
+        "{",
+        '\t"input_i" : "-23.41",',
+        '\t"input_tp" : "-4.02",',
+        '\t"input_lra" : "6.10",',
+        '\t"input_thresh" : "-33.79",',
+        '\t"target_offset" : "0.35"',
+        "}",
+      ].join("\n");
+      assert.deepEqual(parseLoudnormOutput(stderr), {
+        integratedLufs: -23.41,
+        truePeakDb: -4.02,
+        loudnessRange: 6.1,
+        thresholdLufs: -33.79,
+        targetOffsetDb: 0.35,
+      });
+    });
+
+    it("returns null when no measurement is present", () => {
+      assert.equal(parseLoudnormOutput("no json here"), null);
+    });
+  });
+
+  describe("normalizeLoudness", () => {
+    const measurement = [
+      "{",
+      '\t"input_i" : "-23.41",',
+      '\t"input_tp" : "-4.02",',
+      '\t"input_lra" : "6.10",',
+      '\t"input_thresh" : "-33.79",',
+      '\t"target_offset" : "0.35"',
+      "}",
+    ].join("\n");
+    const record = (calls: string[][]) =>
+      setMediaSpawn(((_cmd: string, args: string[]) => {
+        calls.push(args);
+        return { status: 0, stdout: Buffer.alloc(0), stderr: Buffer.from(measurement) };
+      }) as unknown as typeof spawnSync);
+    const filterOf = (args: string[]) => args[args.indexOf("-af") + 1];
+
+    it("measures first, then applies the measurement in a linear second pass", () => {
+      const calls: string[][] = [];
+      record(calls);
+      const measured = normalizeLoudness("/tmp/videoml-loudnorm-test/mix.wav", "/tmp/videoml-loudnorm-test/out.wav", {
+        integratedLufs: -16,
+        truePeakDb: -1,
+      }, 48000);
+      assert.equal(measured?.integratedLufs, -23.41);
+      assert.equal(calls.length, 2);
+      assert.equal(filterOf(calls[0]), "loudnorm=I=-16:TP=-1:LRA=11:print_format=json");
+      assert.equal(
+        filterOf(calls[1]),
+        "loudnorm=I=-16:TP=-1:LRA=11:measured_I=-23.41:measured_TP=-4.02:measured_LRA=6.1:" +
+          "measured_thresh=-33.79:offset=0.35:linear=true:print_format=json",
+      );
+      assert.deepEqual(calls[1].slice(-3), ["-ar", "48000", "/tmp/videoml-loudnorm-test/out.loudnorm.wav"]);
+    });
+
+    it("writes the second pass to a separate file when the output has no extension", () => {
+      const calls: string[][] = [];
+      record(calls);
+      normalizeLoudness("/tmp/videoml.d/mix", "/tmp/videoml.d/mix", { integratedLufs: -16 });
+      assert.equal(calls[1].at(-1), "/tmp/videoml.d/mix.loudnorm.wav");
+    });
+  });
+
+  describe("conformAudioFile", () => {
+    it("resamples 16-bit PCM WAV without ffmpeg", (t) => {
+      const dir = mkdtempSync(join(tmpdir(), "videoml-conform-test-"));
+      t.after(() => rmSync(dir, { recursive: true, force: true }));
+      setMediaSpawn((() => assert.fail("ffmpeg should not run")) as unknown as typeof spawnSync);
+      const path = join(dir, "seg.wav");
+      writeSilenceWav(path, 0.5, 16000);
+      conformAudioFile(path, 24000);
+      assert.equal(readFileSync(path).readUInt32LE(24), 24000);
+      assert.equal(wavDurationSec(path), 0.5);
+    });
+
+    it("converts audio whose codec differs from its extension with ffmpeg", (t) => {
+      const dir = mkdtempSync(join(tmpdir(), "videoml-conform-test-"));
+      t.after(() => rmSync(dir, { recursive: true, force: true }));
+      const calls: string[][] = [];
+      setMediaSpawn(((_cmd: string, args: string[]) => {
+        calls.push(args);
+        writeFileSync(args.at(-1)!, "mp3 audio");
+        return { status: 0, stdout: Buffer.alloc(0), stderr: Buffer.alloc(0) };
+      }) as unknown as typeof spawnSync);
+      const path = join(dir, "seg.mp3");
+      writeSilenceWav(path, 0.5, 16000);
+      conformAudioFile(path, 44100);
+      assert.deepEqual(calls, [
+        ["-y", "-v", "error", "-i", path, "-ac", "1", "-ar", "44100", "-c:a", "libmp3lame", "-b:a", "128k", join(dir, "seg.conform.mp3")],
+      ]);
+      assert.equal(readFileSync(path, "utf-8"), "mp3 audio");
+      assert.equal(existsSync(join(dir, "seg.conform.mp3")), false);
+    });
+  });
+});
@@ -1,9 +1,9 @@
 import { spawnSync } from "child_process";
 import { writeFileSync, unlinkSync, existsSync, readFileSync } from "fs";
-import { join, basename, dirname } from "path";
+import { join, basename, dirname, extname } from "path";
 import { CompileError } from "./errors.js";
 import { ensureDir } from "./util.js";
-import { concatWavFiles } from "./audio/wav.js";
+import { concatWavFiles, resampleWavFile } from "./audio/wav.js";
 
 type SpawnFn = typeof spawnSync;
 let spawn = spawnSync;
@@ -100,6 +100,122 @@ export function probeVolumeDb(path: string, seconds = 3.0): { mean_volume_db: nu
   return { mean_volume_db: mean, max_volume_db: max };
 }
 
+export type LoudnessMeasurement = {
+  integratedLufs: number;
+  truePeakDb: number;
+  loudnessRange: number;
+  thresholdLufs: number;
+  targetOffsetDb: number;
+};
+
+export type LoudnessTarget = {
+  integratedLufs: number;
+  truePeakDb?: number;
+  loudnessRange?: number;
+};
+
+const DEFAULT_TRUE_PEAK_DB = -1.5;
+const DEFAULT_LOUDNESS_RANGE = 11;
+
+function loudnormFilter(target: LoudnessTarget, measured?: LoudnessMeasurement): string {
+  const parts = [
+    `I=${target.integratedLufs}`,
+    `TP=${target.truePeakDb ?? DEFAULT_TRUE_PEAK_DB}`,
+    `LRA=${target.loudnessRange ?? DEFAULT_LOUDNESS_RANGE}`,
+  ];
+  if (measured) {
+    parts.push(
+      `measured_I=${measured.integratedLufs}`,
+      `measured_TP=${measured.truePeakDb}`,
+      `measured_LRA=${measured.loudnessRange}`,
+      `measured_thresh=${measured.thresholdLufs}`,
+      `offset=${measured.targetOffsetDb}`,
+      "linear=true",
+    );
+  }
+  parts.push("print_format=json");
+  return `loudnorm=${parts.join(":")}`;
+}
+
+export function parseLoudnormOutput(stderr: string): LoudnessMeasurement | null {
+  const start = stderr.lastIndexOf("{");
+  const end = stderr.lastIndexOf("}");
+  if (start < 0 || end < start) {
+    return null;
+  }
+  try {
+    const parsed = JSON.parse(stderr.slice(start, end + 1)) as Record<string, string>;
+    return {
+      integratedLufs: Number(parsed.input_i),
+      truePeakDb: Number(parsed.input_tp),
+      loudnessRange: Number(parsed.input_lra),
+      thresholdLufs: Number(parsed.input_thresh),
+      targetOffsetDb: Number(parsed.target_offset),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Measure integrated loudness (EBU R128) with ffmpeg's loudnorm analysis pass.
+ */
+export function measureLoudness(path: string, target: LoudnessTarget = { integratedLufs: -16 }): LoudnessMeasurement {
+  const { stderr } = run("ffmpeg", [
+    "-hide_banner",
+    "-nostats",
+    "-i",
+    path,
+    "-af",
+    loudnormFilter(target),
+    "-f",
+    "null",
+    "-",
+  ], { text: true });
+  const measured = parseLoudnormOutput(stderr.toString("utf-8"));
+  if (!measured) {
+    throw new CompileError(`Could not measure loudness for: ${path}`);
+  }
+  return measured;
+}
+
+/**
+ * Two-pass loudness normalization to `target`. Returns the measurement taken
+ * before normalization, or null when the input is silent and was left untouched.
+ */
+export function normalizeLoudness(
+  inputPath: string,
+  outputPath: string,
+  target: LoudnessTarget,
+  sampleRateHz = 44100,
+): LoudnessMeasurement | null {
+  const measured = measureLoudness(inputPath, target);
+  if (!Number.isFinite(measured.integratedLufs)) {
+    return null;
+  }
+  ensureDir(dirname(outputPath));
+  // ffmpeg picks the format from the extension, so the temporary file keeps it (WAV when there is none).
+  const ext = extname(outputPath);
+  const tmp = ext ? `${outputPath.slice(0, -ext.length)}.loudnorm${ext}` : `${outputPath}.loudnorm.wav`;
+  run("ffmpeg", [
+    "-y",
+    "-hide_banner",
+    "-nostats",
+    "-i",
+    inputPath,
+    "-af",
+    loudnormFilter(target, measured),
+    "-ar",
+    String(sampleRateHz),
+    tmp,
+  ]);
+  if (existsSync(tmp)) {
+    writeFileSync(outputPath, readFileSync(tmp));
+    unlinkSync(tmp);
+  }
+  return measured;
+}
+
 export function isAudioAllSilence(path: string, seconds = 3.0, sampleRateHz = 44100): boolean {
   const res = spawn("ffmpeg", [
     "-v",
@@ -176,6 +292,18 @@ export function audioActivityRatio(
   return total ? active / total : 0;
 }
 
+// Mono output at `sampleRateHz`, in the codec the output extension names.
+function monoCodecArgs(outputPath: string, sampleRateHz: number): string[] {
+  const ext = outputPath.split(".").pop()?.toLowerCase();
+  if (ext === "wav") {
+    return ["-ac", "1", "-ar", String(sampleRateHz), "-c:a", "pcm_s16le"];
+  }
+  if (ext === "mp3") {
+    return ["-ac", "1", "-ar", String(sampleRateHz), "-c:a", "libmp3lame", "-b:a", "128k"];
+  }
+  return ["-ac", "1", "-ar", String(sampleRateHz)];
+}
+
 export function trimAudioToDuration(
   inputPath: string,
   outputPath: string,
@@ -184,15 +312,6 @@ export function trimAudioToDuration(
 ): void {
   ensureDir(dirname(outputPath));
   const tmp = outputPath.replace(/(\.[^.]+)$/i, ".tmp$1");
-  const ext = outputPath.split(".").pop()?.toLowerCase();
-  const codecArgs: string[] = [];
-  if (ext === "wav") {
-    codecArgs.push("-ac", "1", "-ar", String(sampleRateHz), "-c:a", "pcm_s16le");
-  } else if (ext === "mp3") {
-    codecArgs.push("-ac", "1", "-ar", String(sampleRateHz), "-c:a", "libmp3lame", "-b:a", "128k");
-  } else {
-    codecArgs.push("-ac", "1", "-ar", String(sampleRateHz));
-  }
   const res = spawn("ffmpeg", [
     "-y",
     "-v",
@@ -201,7 +320,7 @@ export function trimAudioToDuration(
     inputPath,
     "-t",
     String(Math.max(0, durationSec)),
-    ...codecArgs,
+    ...monoCodecArgs(outputPath, sampleRateHz),
     tmp,
   ], { encoding: "buffer", maxBuffer: 50 * 1024 * 1024 });
   if (res.error) {
@@ -221,6 +340,29 @@ export function trimAudioToDuration(
   }
 }
 
+/**
+ * Rewrites `path` in place as mono audio at `sampleRateHz`, in the codec its extension names, for
+ * audio a provider wrote in its own format (e.g. WAV bytes under an `.mp3` name). 16-bit PCM WAV
+ * is resampled without ffmpeg.
+ */
+export function conformAudioFile(path: string, sampleRateHz: number): void {
+  if (path.toLowerCase().endsWith(".wav")) {
+    try {
+      resampleWavFile(path, sampleRateHz);
+      return;
+    } catch {
+      // Not 16-bit PCM WAV; ffmpeg converts it below.
+    }
+  }
+  const ext = extname(path);
+  const tmp = ext ? `${path.slice(0, -ext.length)}.conform${ext}` : `${path}.conform.wav`;
+  run("ffmpeg", ["-y", "-v", "error", "-i", path, ...monoCodecArgs(tmp, sampleRateHz), tmp]);
+  if (existsSync(tmp)) {
+    writeFileSync(path, readFileSync(tmp));
+    unlinkSync(tmp);
+  }
+}
+
 export function estimateTrailingSilenceSec(
   path: string,
   sampleRateHz = 44100,
@@ -319,3 +461,82 @@ export function concatAudioFiles(outPath: string, segmentPaths: string[]): void
     }
   }
 }
+
+export type VolumeEnvelopePoint = { atSec: number; volume: number };
+
+export type AudioMixInput = {
+  path: string;
+  startSec: number;
+  volume?: number;
+  volumeEnvelope?: VolumeEnvelopePoint[] | null;
+  durationSec?: number | null;
+};
+
+export function volumeEnvelopeExpression(baseVolume: number, envelope?: VolumeEnvelopePoint[] | null): string {
+  if (!envelope || envelope.length === 0) {
+    return formatNumber(baseVolume);
+  }
+  const points = [...envelope].sort((a, b) => a.atSec - b.atSec);
+  let expr = formatNumber(points[points.length - 1].volume);
+  for (let i = points.length - 2; i >= 0; i -= 1) {
+    const p0 = points[i];
+    const p1 = points[i + 1];
+    const span = p1.atSec - p0.atSec;
+    const segment = span <= 1e-9 || p0.volume === p1.volume
+      ? formatNumber(p0.volume)
+      : `${formatNumber(p0.volume)}+(t-${formatNumber(p0.atSec)})*${formatNumber((p1.volume - p0.volume) / span)}`;
+    expr = `if(lt(t,${formatNumber(p1.atSec)}),${segment},${expr})`;
+  }
+  if (points[0].atSec > 1e-9) {
+    expr = `if(lt(t,${formatNumber(points[0].atSec)}),${formatNumber(points[0].volume)},${expr})`;
+  }
+  return expr;
+}
+
+export function buildMixFilterGraph(inputs: AudioMixInput[], sampleRateHz = 44100): string {
+  const chains: string[] = [];
+  const labels: string[] = [];
+  inputs.forEach((input, index) => {
+    const filters = [`aresample=${sampleRateHz}`, "aformat=channel_layouts=mono"];
+    if (input.durationSec != null && input.durationSec > 0) {
+      filters.push(`atrim=duration=${formatNumber(input.durationSec)}`);
+    }
+    const expr = volumeEnvelopeExpression(input.volume ?? 1, input.volumeEnvelope);
+    filters.push(`volume='${expr}':eval=frame`);
+    const delayMs = Math.max(0, Math.round(input.startSec * 1000));
+    if (delayMs > 0) {
+      filters.push(`adelay=${delayMs}:all=1`);
+    }
+    const label = `a${index}`;
+    chains.push(`[${index}:a]${filters.join(",")}[${label}]`);
+    labels.push(`[${label}]`);
+  });
+  chains.push(`${labels.join("")}amix=inputs=${inputs.length}:duration=longest:dropout_transition=0:normalize=0[mix]`);
+  return chains.join(";");
+}
+
+export function mixAudioTracks(
+  outPath: string,
+  inputs: AudioMixInput[],
+  opts?: { durationSec?: number | null; sampleRateHz?: number },
+): void {
+  if (!inputs.length) {
+    throw new CompileError("No audio inputs to mix");
+  }
+  ensureDir(dirname(outPath));
+  const sampleRateHz = opts?.sampleRateHz ?? 44100;
+  const args = ["-y", "-v", "error"];
+  for (const input of inputs) {
+    args.push("-i", input.path);
+  }
+  args.push("-filter_complex", buildMixFilterGraph(inputs, sampleRateHz), "-map", "[mix]");
+  if (opts?.durationSec != null && opts.durationSec > 0) {
+    args.push("-t", formatNumber(opts.durationSec));
+  }
+  args.push("-ar", String(sampleRateHz), outPath);
+  run("ffmpeg", args);
+}
+
+function formatNumber(value: number): string {
+  return String(Number(value.toFixed(6)));
+}
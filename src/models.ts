@@ -12,6 +12,14 @@ export type CueSegment = {
   endSec: number;
   text?: string;
   durationSec?: number;
+  /** Per-word timing on the composition timeline (TTS segments only). */
+  words?: CueWord[];
+};
+
+export type CueWord = {
+  text: string;
+  startSec: number;
+  endSec: number;
 };
 
 export type CuePoint = {
@@ -81,6 +89,8 @@ export type ScriptMeta = {
 
 export type Script = {
   scenes: Scene[];
+  /** Cues from `<narration>` blocks, which play over the scenes without belonging to one. */
+  narration?: CuePoint[];
   timeline?: Array<SceneTimelineItem | TransitionTimelineItem | MarkTimelineItem>;
   posterTimeSec?: number | null;
   fps?: number;
@@ -91,6 +101,19 @@ export function makeBullet(text: string): Bullet {
   return { id: slugify(text), text };
 }
 
+function cueToJson(cue: CuePoint): Record<string, unknown> {
+  return {
+    id: cue.id,
+    label: cue.label,
+    startSec: cue.startSec,
+    endSec: cue.endSec,
+    text: cue.text,
+    ...(cue.markup ? { markup: cue.markup } : {}),
+    ...(cue.segments ? { segments: cue.segments } : {}),
+    bullets: cue.bullets.map((b) => ({ id: b.id, text: b.text })),
+  };
+}
+
 export function scriptToJson(script: Script): Record<string, unknown> {
   const out: Record<string, unknown> = {
     scenes: script.scenes.map((scene) => ({
@@ -105,18 +128,12 @@ export function scriptToJson(script: Script): Record<string, unknown> {
       ...(scene.enter ? { enter: scene.enter } : {}),
       ...(scene.exit ? { exit: scene.exit } : {}),
       ...(scene.transitionToNext ? { transitionToNext: scene.transitionToNext } : {}),
-      cues: scene.cues.map((cue) => ({
-        id: cue.id,
-        label: cue.label,
-        startSec: cue.startSec,
-        endSec: cue.endSec,
-        text: cue.text,
-        ...(cue.markup ? { markup: cue.markup } : {}),
-        ...(cue.segments ? { segments: cue.segments } : {}),
-        bullets: cue.bullets.map((b) => ({ id: b.id, text: b.text })),
-      })),
+      cues: scene.cues.map(cueToJson),
     })),
   };
+  if (script.narration?.length) {
+    out.narration = script.narration.map(cueToJson);
+  }
   if (script.timeline) {
     out.timeline = script.timeline.map((item) => {
       if (item.kind === "scene") {
@@ -0,0 +1,105 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { mkdirSync, mkdtempSync, rmSync, unlinkSync, writeFileSync } from "node:fs";
+import { basename, dirname, join } from "node:path";
+import { tmpdir } from "node:os";
+import type { Config } from "./config.js";
+import { loadVideoFileFromXml } from "./dsl/xml.js";
+import { planComposition, type CompositionPlan } from "./plan.js";
+
+const xmlFor = (hello: string) => `
+<vml id="demo">
+  <scene id="intro" duration="6s">
+    <cue id="hello"><voice>${hello}</voice></cue>
+    <cue id="bye"><voice>Bye for now.</voice></cue>
+    <music id="bed" start="0s" prompt="soft piano" />
+    <sfx id="ding" start="cue(bye).end" prompt="bell" clip-duration="2s" />
+  </scene>
+</vml>`;
+
+const config: Config = {
+  tts: { default_provider: "openai" },
+  providers: { openai: { api_key: "sk-plan" } },
+  pricing: { providers: { openai: { units: { chars: 0.01 } }, "dry-run": { kinds: { sfx: { units: { seconds: 0.5 } } } } } },
+};
+
+describe("planComposition", () => {
+  let outDir: string;
+  const plan = (hello = "Hello there.", fresh = false) =>
+    planComposition({ composition: loadVideoFileFromXml(xmlFor(hello)).compositions[0], outDir, config, fresh });
+
+  // Pretend generation ran: write each planned file and record its key in the manifest.
+  const cache = (result: CompositionPlan) => {
+    const manifestPath = join(outDir, "env", "development", "manifest.json");
+    const manifest: Record<string, Record<string, unknown>> = { segments: {}, sfx: {}, music: {} };
+    for (const item of result.items) {
+      mkdirSync(dirname(item.path), { recursive: true });
+      writeFileSync(item.path, "");
+      const section = item.kind === "tts" ? "segments" : item.kind;
+      manifest[section][item.path] = { key: item.cacheKey, durationSec: 1, meta: { text: item.text, prompt: item.prompt } };
+    }
+    writeFileSync(manifestPath, JSON.stringify(manifest));
+  };
+
+  beforeEach(() => {
+    outDir = mkdtempSync(join(tmpdir(), "videoml-plan-test-"));
+  });
+
+  afterEach(() => {
+    rmSync(outDir, { recursive: true, force: true });
+  });
+
+  it("prices everything on a cold cache", () => {
+    const result = plan();
+    assert.deepEqual(
+      result.items.map((item) => [item.kind, item.cueId ?? item.clipId, item.action, item.reason]),
+      [
+        ["tts", "hello", "synthesize", "not-cached"],
+        ["tts", "bye", "synthesize", "not-cached"],
+        ["music", "bed", "synthesize", "not-cached"],
+        ["sfx", "ding", "synthesize", "not-cached"],
+      ],
+    );
+    assert.equal(result.byKind.tts.estimatedCost, ("Hello there.".length + "Bye for now.".length) * 0.01);
+    assert.equal(result.byKind.sfx.estimatedCost, 1);
+    // Music has no rate in the card.
+    assert.equal(result.totals.unpriced, 1);
+    assert.equal(result.items.find((item) => item.kind === "music")?.quantity, 6);
+  });
+
+  it("explains why each cache entry missed", () => {
+    cache(plan());
+    assert.equal(plan().totals.synthesize, 0);
+
+    const helloPath = plan().items[0].path;
+    const edited = plan("Hello, world.");
+    assert.deepEqual(edited.items.map((item) => item.action), ["synthesize", "cached", "cached", "cached"]);
+    assert.equal(edited.items[0].reason, "changed");
+    assert.equal(edited.items[0].detail, 'text changed from "Hello there."');
+    assert.equal(edited.totals.estimatedCost, "Hello, world.".length * 0.01);
+
+    unlinkSync(helloPath);
+    const missing = plan().items[0];
+    assert.equal(missing.reason, "file-missing");
+    assert.ok(missing.detail?.includes(basename(helloPath)));
+
+    assert.deepEqual([...new Set(plan("Hello there.", true).items.slice(1).map((item) => item.reason))], ["fresh"]);
+  });
+
+  it("shifts scenes after an inserted transition the way generation does", () => {
+    const composition = loadVideoFileFromXml(`
+<vml id="demo">
+  <scene id="a" duration="2s">
+    <cue id="one"><voice>One.</voice></cue>
+    <music id="bed" start="0s" prompt="soft piano" play-through="true" />
+  </scene>
+  <transition id="gap" duration="2s" effect="fade" mode="insert" />
+  <scene id="b" duration="3s">
+    <cue id="two"><voice>Two.</voice></cue>
+  </scene>
+</vml>`).compositions[0];
+    const items = planComposition({ composition, outDir, config }).items;
+    // Scene b moves from 2s-5s to 4s-7s, so the bed plays for 7s.
+    assert.equal(items.find((item) => item.clipId === "bed")?.quantity, 7);
+  });
+});
@@ -0,0 +1,504 @@
+import { basename, join } from "path";
+import { CompileError } from "./errors.js";
+import { getDefaultMusicProvider, getDefaultProvider, getDefaultSfxProvider } from "./config.js";
+import { getEnvironment, resolveEnvCacheDir } from "./env.js";
+import {
+  getManifestAlignment,
+  getManifestDuration,
+  getManifestFallback,
+  loadManifest,
+  resolveCachedMusic,
+  resolveCachedSegment,
+  resolveCachedSfx,
+} from "./cache-resolver.js";
+import { safePrefix } from "./util.js";
+import { rulesHash } from "./elevenlabs-pronunciation.js";
+import { getTtsProvider } from "./providers/tts/registry.js";
+import { estimateDurationSec } from "./providers/tts/dry-run.js";
+import { estimateAlignment, placeWords } from "./providers/tts/alignment.js";
+import type { WordTiming } from "./providers/tts/types.js";
+import { getSfxProvider } from "./providers/sfx/registry.js";
+import { getMusicProvider } from "./providers/music/registry.js";
+import { estimateUsageCost, getRateCard } from "./pricing.js";
+import type { UsageEntry, UsageUnitType } from "./telemetry.js";
+import { applyConditions, conditionScope } from "./dsl/condition.js";
+import type { AudioClipSpec, AudioElementSpec, CueSpec, PauseSpec, SceneSpec, TimelineItemSpec } from "./dsl/types.js";
+import {
+  audioElementClip,
+  audioPlanFromClips,
+  findNextSceneId,
+  insertTransitionShifts,
+  isMarkItem,
+  isNarrationItem,
+  isSceneItem,
+  layOutTransitions,
+  makeRng,
+  measuredTimeContext,
+  mergeAudioPlans,
+  musicCacheKey,
+  narrationStartSec,
+  narrationSteps,
+  pronunciationLocators,
+  pronunciationRules,
+  resolveSceneForStart,
+  resolveStart,
+  samplePause,
+  sceneEndHintSec,
+  sceneStartTiming,
+  sfxCacheContext,
+  sfxCacheKey,
+  ttsCacheContext,
+  ttsSegmentCacheKey,
+  type GenerateOptions,
+  type MeasuredTimes,
+} from "./generate.js";
+
+export type PlanOptions = Pick<
+  GenerateOptions,
+  | "composition"
+  | "outDir"
+  | "config"
+  | "providerOverride"
+  | "sfxProviderOverride"
+  | "musicProviderOverride"
+  | "seedOverride"
+  | "fresh"
+>;
+
+/**
+ * Why a cache lookup missed:
+ * - `fresh`: a usable entry exists but the run ignores the cache.
+ * - `changed`: the manifest has an entry for the same cue/clip slot, but its key no longer matches.
+ * - `file-missing`: the manifest lists the exact key, but the audio file is gone.
+ * - `not-cached`: nothing was ever generated for this slot.
+ */
+export type PlanMissReason = "fresh" | "changed" | "file-missing" | "fallback" | "not-cached";
+
+export type PlannedItem = {
+  kind: "tts" | "sfx" | "music";
+  action: "cached" | "synthesize";
+  provider: string;
+  cacheKey: string;
+  /** The cached file on a hit, the file generation would write on a miss. */
+  path: string;
+  /** Environment the cached file comes from (differs from the current one on fallback hits). */
+  cachedEnv?: string;
+  reason?: PlanMissReason;
+  detail?: string;
+  sceneId?: string;
+  cueId?: string;
+  segmentIndex?: number;
+  clipId?: string;
+  variant?: number;
+  text?: string;
+  prompt?: string;
+  unitType: UsageUnitType;
+  /** Billable quantity; null when the provider decides it (an SFX without a duration). */
+  quantity: number | null;
+  /** Only set for items that would be synthesized, and only when the rate card prices them. */
+  estimatedCost: number | null;
+};
+
+export type PlanTotals = {
+  cached: number;
+  synthesize: number;
+  estimatedCost: number;
+  /** Items that would be synthesized but have no price (missing rate or unknown quantity). */
+  unpriced: number;
+};
+
+export type CompositionPlan = {
+  compositionId: string;
+  env: string;
+  provider: string;
+  items: PlannedItem[];
+  totals: PlanTotals;
+  byKind: Record<PlannedItem["kind"], PlanTotals>;
+  warnings: string[];
+};
+
+type ManifestSection = "segments" | "sfx" | "music";
+
+type SpokenSegment = { startSec: number; endSec: number; words: WordTiming[] };
+
+const emptyTotals = (): PlanTotals => ({ cached: 0, synthesize: 0, estimatedCost: 0, unpriced: 0 });
+
+/**
+ * Work out what `generateComposition` would synthesize without calling any provider: the same
+ * scenes, narration and audio clips are walked, their cache keys computed and looked up, and every
+ * miss is priced with the config's rate card. Timing that depends on audio not generated yet (music
+ * lengths that follow a scene) uses estimated durations.
+ */
+export function planComposition(options: PlanOptions): CompositionPlan {
+  const { outDir, config, fresh = false } = options;
+  const composition = applyConditions(options.composition, conditionScope());
+  const voiceover = composition.voiceover ?? {};
+  const providerName = options.providerOverride ?? voiceover.provider ?? getDefaultProvider(config);
+  if (!providerName) {
+    throw new CompileError(
+      "No TTS provider configured. Set tts.default_provider or providers.openai.api_key (or pass --provider).",
+    );
+  }
+  const provider = getTtsProvider(providerName, config);
+  const dryRunMode = providerName === "dry-run";
+  const sampleRateHz = voiceover.sampleRateHz ?? (providerName === "openai" ? 24000 : 44100);
+  const defaultTrimEnd = voiceover.trimEndSeconds ?? 0;
+  const seed = voiceover.seed ?? null;
+  const rng = makeRng(options.seedOverride ?? seed);
+
+  const env = getEnvironment();
+  const envCacheDir = resolveEnvCacheDir(outDir, env);
+  const rateCard = getRateCard(config);
+  const manifests = new Map<string, Record<string, unknown>>();
+  const manifestFor = (name: string) => {
+    let manifest = manifests.get(name);
+    if (!manifest) {
+      manifest = loadManifest(join(resolveEnvCacheDir(outDir, name), "manifest.json"));
+      manifests.set(name, manifest);
+    }
+    return manifest;
+  };
+  const manifest = manifestFor(env);
+
+  const items: PlannedItem[] = [];
+  const warnings: string[] = [];
+
+  const price = (kind: UsageEntry["kind"], unitType: UsageUnitType, quantity: number | null, name: string) =>
+    quantity == null ? null : estimateUsageCost({ kind, unitType, quantity, provider: name }, rateCard);
+
+  const explainMiss = (
+    section: ManifestSection,
+    cachedPath: string | null,
+    expectedPath: string,
+    key: string,
+    sameSlot: (name: string) => boolean,
+    describeChange: (meta: Record<string, unknown>) => string | null,
+  ): { reason: PlanMissReason; detail: string } => {
+    if (cachedPath && fresh) {
+      return { reason: "fresh", detail: "fresh run ignores the cached file" };
+    }
+    const fallbackProvider = getManifestFallback(manifest, section, expectedPath, key);
+    if (fallbackProvider) {
+      return { reason: "fallback", detail: `${basename(expectedPath)} came from fallback provider ${fallbackProvider}` };
+    }
+    if (getManifestDuration(manifest, section, expectedPath, key) != null) {
+      return { reason: "file-missing", detail: `manifest lists ${basename(expectedPath)} but the file is gone` };
+    }
+    const entries = Object.entries((manifest[section] ?? {}) as Record<string, { key?: string; meta?: Record<string, unknown> }>);
+    const previous = entries.find(([path, entry]) => sameSlot(basename(path)) && entry?.key !== key)?.[1];
+    if (previous) {
+      return { reason: "changed", detail: describeChange(previous.meta ?? {}) ?? "voice, model or provider settings changed" };
+    }
+    return { reason: "not-cached", detail: "nothing cached for this slot" };
+  };
+
+  let ttsContext: Record<string, unknown> = {};
+  if (!dryRunMode) {
+    let locators: Array<Record<string, unknown>> | null = null;
+    let pronunciationHash: string | null = null;
+    if (providerName === "elevenlabs" && voiceover.pronunciations && voiceover.pronunciations.length > 0) {
+      pronunciationHash = rulesHash(pronunciationRules(voiceover));
+      const dictName = voiceover.pronunciationDictionary?.name ?? `babulus-${composition.id}`;
+      const state = manifest.elevenlabs_pronunciation as Record<string, unknown> | undefined;
+      if (state?.name === dictName && typeof state.dictionary_id === "string") {
+        locators = pronunciationLocators(voiceover, state.dictionary_id);
+      } else {
+        warnings.push(
+          `Pronunciation dictionary "${dictName}" is not in the manifest yet; generation looks it up or creates it, which changes every TTS cache key.`,
+        );
+      }
+    }
+    ttsContext = ttsCacheContext(voiceover, providerName, provider, sampleRateHz, locators, pronunciationHash);
+  }
+
+  // Narration timing, walked with generateComposition's helpers so random pauses are drawn in the same order.
+  const ttsExt = providerName === "elevenlabs" ? ".mp3" : ".wav";
+  const wpm = (provider as { wpm?: number }).wpm ?? 165;
+  const segmentKeyCounts: Record<string, number> = {};
+  const cueStartIndex: Record<string, number> = {};
+  const cueEndIndex: Record<string, number> = {};
+  const cueSceneIndex: Record<string, string> = {};
+  const spokenSegmentIndex: Record<string, SpokenSegment[]> = {};
+
+  const planSegment = (sceneId: string, cueId: string, segIndex: number, text: string, trimEndSec?: number | null) => {
+    if (dryRunMode) {
+      const duration = estimateDurationSec(text, wpm);
+      return { duration, words: estimateAlignment(text, duration).words };
+    }
+    const key = ttsSegmentCacheKey(sceneId, cueId, text, trimEndSec ?? defaultTrimEnd ?? 0, ttsContext);
+    segmentKeyCounts[key] = (segmentKeyCounts[key] ?? 0) + 1;
+    const occurrence = segmentKeyCounts[key];
+    const cached = resolveCachedSegment(outDir, env, key, sceneId, cueId, occurrence, ttsExt);
+    const base = {
+      kind: "tts" as const,
+      provider: providerName,
+      cacheKey: key,
+      sceneId,
+      cueId,
+      segmentIndex: segIndex,
+      text,
+      unitType: "chars" as const,
+      quantity: text.length,
+    };
+    if (cached.path && cached.env && !fresh) {
+      items.push({ ...base, action: "cached", path: cached.path, cachedEnv: cached.env, estimatedCost: null });
+      const cachedManifest = manifestFor(cached.env);
+      const duration = getManifestDuration(cachedManifest, "segments", cached.path, key) ?? estimateDurationSec(text, wpm);
+      const alignment = getManifestAlignment(cachedManifest, cached.path, key);
+      return { duration, words: (alignment ?? estimateAlignment(text, duration)).words };
+    }
+    const path = join(envCacheDir, "segments", `${sceneId}--${cueId}--tts--${safePrefix(key)}--${occurrence}${ttsExt}`);
+    const slot = `${sceneId}--${cueId}--tts--`;
+    const miss = explainMiss("segments", cached.path, path, key, (name) => name.startsWith(slot) && name.endsWith(`--${occurrence}${ttsExt}`), (meta) => {
+      if (typeof meta.text === "string" && meta.text !== text) return `text changed from "${meta.text}"`;
+      if (typeof meta.provider === "string" && meta.provider !== providerName) return `provider changed from ${meta.provider}`;
+      return null;
+    });
+    items.push({ ...base, action: "synthesize", path, ...miss, estimatedCost: price("tts", "chars", text.length, providerName) });
+    const duration = estimateDurationSec(text, wpm);
+    return { duration, words: estimateAlignment(text, duration).words };
+  };
+
+  const planCue = (sceneId: string, cue: CueSpec, start: number): number => {
+    let now = start;
+    const spoken: SpokenSegment[] = [];
+    cue.segments.forEach((segSpec, segIndex) => {
+      if (segSpec.kind === "pause") {
+        now += samplePause(segSpec.pause, rng);
+        return;
+      }
+      const { duration, words } = planSegment(sceneId, cue.id, segIndex, segSpec.text, segSpec.trimEndSec);
+      spoken.push({ startSec: now, endSec: now + duration, words: placeWords(words, now, duration) });
+      now += duration;
+    });
+    cueStartIndex[cue.id] = start;
+    cueEndIndex[cue.id] = now;
+    cueSceneIndex[cue.id] = sceneId;
+    spokenSegmentIndex[cue.id] = spoken;
+    return now;
+  };
+
+  const planItems = (sceneId: string, entries: Array<CueSpec | PauseSpec>, start: number): number => {
+    let now = start;
+    for (const step of narrationSteps(entries, voiceover, rng)) {
+      now = step.kind === "pause" ? now + step.seconds : planCue(sceneId, step.cue, now);
+    }
+    return now;
+  };
+
+  const legacyScenes = (composition as { scenes?: SceneSpec[] }).scenes ?? [];
+  const timelineSpec: TimelineItemSpec[] = composition.timeline ?? legacyScenes;
+  const sceneItems = timelineSpec.filter(isSceneItem);
+
+  const sceneWindows = new Map<string, { startSec: number; endSec: number }>();
+  let now = voiceover.leadInSeconds ?? 0;
+  for (const scene of sceneItems) {
+    const { startSec, nowSec } = sceneStartTiming(scene, now);
+    now = planItems(scene.id, scene.items, nowSec);
+    now = Math.max(now, sceneEndHintSec(scene, startSec) ?? now);
+    sceneWindows.set(scene.id, { startSec, endSec: now });
+  }
+
+  // Insert transitions push later scenes (and their cues) back before narration blocks are placed.
+  const { before: shiftBefore, bySceneId: shiftBySceneId } = insertTransitionShifts(timelineSpec, sceneWindows);
+  for (const [sceneId, window] of sceneWindows) {
+    const delta = shiftBySceneId.get(sceneId) ?? 0;
+    window.startSec += delta;
+    window.endSec += delta;
+  }
+  for (const [cueId, sceneId] of Object.entries(cueSceneIndex)) {
+    const delta = shiftBySceneId.get(sceneId) ?? 0;
+    if (!delta) continue;
+    cueStartIndex[cueId] += delta;
+    cueEndIndex[cueId] += delta;
+    for (const segment of spokenSegmentIndex[cueId] ?? []) {
+      segment.startSec += delta;
+      segment.endSec += delta;
+      for (const word of segment.words) {
+        word.startSec += delta;
+        word.endSec += delta;
+      }
+    }
+  }
+
+  const markStartIndex: Record<string, number> = {};
+  timelineSpec.forEach((item, i) => {
+    if (isMarkItem(item)) {
+      markStartIndex[item.id] = item.at + (shiftBefore[i] ?? 0);
+    }
+    if (!isNarrationItem(item)) return;
+    const nextSceneId = findNextSceneId(timelineSpec, i);
+    const start = narrationStartSec(
+      item,
+      shiftBefore[i] ?? 0,
+      (nextSceneId ? sceneWindows.get(nextSceneId)?.startSec : null) ?? null,
+    );
+    planItems(`narration:${item.id}`, item.items, start);
+  });
+
+  const transitionWindows = layOutTransitions(timelineSpec, sceneWindows, shiftBefore);
+  const sceneStartIndex: Record<string, number> = {};
+  const sceneEndIndex: Record<string, number> = {};
+  for (const [sceneId, window] of sceneWindows) {
+    sceneStartIndex[sceneId] = window.startSec;
+    sceneEndIndex[sceneId] = window.endSec;
+  }
+
+  const totalEndSec = sceneItems.length ? sceneEndIndex[sceneItems[sceneItems.length - 1].id] : 0;
+  const outScenes = sceneItems.map((scene) => ({
+    id: scene.id,
+    startSec: sceneStartIndex[scene.id],
+    endSec: sceneEndIndex[scene.id],
+  }));
+
+  const measuredTimes: MeasuredTimes = {
+    sceneStart: sceneStartIndex,
+    sceneEnd: sceneEndIndex,
+    cueStart: cueStartIndex,
+    cueEnd: cueEndIndex,
+    markStart: markStartIndex,
+    spokenSegments: spokenSegmentIndex,
+  };
+  const fps = composition.meta?.fps ?? 30;
+
+  // Scene and transition audio become clips the same way generateComposition derives its audio plan.
+  const elementClips: AudioClipSpec[] = [];
+  const pushAudioElements = (
+    elements: AudioElementSpec[] | undefined,
+    container: { startSec: number; endSec: number },
+    clipEndSec?: number,
+  ) => {
+    for (const element of elements ?? []) {
+      const clip = audioElementClip(element, container, measuredTimeContext(fps, measuredTimes, container), clipEndSec);
+      if (clip) elementClips.push(clip);
+    }
+  };
+  for (const scene of sceneItems) {
+    pushAudioElements(scene.audio, { startSec: sceneStartIndex[scene.id], endSec: sceneEndIndex[scene.id] });
+  }
+  for (const { transition, startSec, endSec } of transitionWindows.values()) {
+    if (!transition.audio?.length) continue;
+    pushAudioElements(transition.audio, { startSec, endSec }, transition.overflowAudio === "clip" ? endSec : undefined);
+  }
+
+  const derivedAudioPlan = audioPlanFromClips(elementClips);
+  const audioPlan = mergeAudioPlans(composition.audioPlan, derivedAudioPlan);
+
+  if (audioPlan) {
+    const sfxProviderName = options.sfxProviderOverride
+      ?? composition.audioProviders?.sfx
+      ?? audioPlan.sfxProvider
+      ?? getDefaultSfxProvider(config)
+      ?? "dry-run";
+    const musicProviderName = options.musicProviderOverride
+      ?? composition.audioProviders?.music
+      ?? audioPlan.musicProvider
+      ?? getDefaultMusicProvider(config)
+      ?? "dry-run";
+    let sfxProvider: ReturnType<typeof getSfxProvider> | null = null;
+    let musicProvider: ReturnType<typeof getMusicProvider> | null = null;
+    try {
+      sfxProvider = getSfxProvider(sfxProviderName, config);
+    } catch (err) {
+      warnings.push(`${(err as Error).message}. SFX generation will be skipped.`);
+    }
+    try {
+      musicProvider = getMusicProvider(musicProviderName, config);
+    } catch (err) {
+      warnings.push(`${(err as Error).message}. Music generation will be skipped.`);
+    }
+    const sfxCtx = sfxCacheContext(sfxProviderName, sfxProvider, sampleRateHz);
+
+    for (const track of audioPlan.tracks) {
+      for (const clip of track.clips) {
+        if (clip.kind === "file") continue;
+        const isMusic = clip.kind === "music";
+        if (isMusic ? !musicProvider : !sfxProvider) continue;
+        const providerForClip = isMusic ? musicProviderName : sfxProviderName;
+        const startSec = resolveStart(clip.start, cueStartIndex, sceneStartIndex, markStartIndex);
+
+        let durationSec = clip.durationSeconds ?? null;
+        if (isMusic && durationSec == null) {
+          if (clip.playThrough) {
+            durationSec = totalEndSec - startSec;
+          } else {
+            const sceneId = resolveSceneForStart(clip.start, startSec, outScenes, cueSceneIndex);
+            if (!sceneId || sceneEndIndex[sceneId] == null) {
+              throw new CompileError(`Cannot infer scene duration for music clip "${clip.id}"`);
+            }
+            durationSec = sceneEndIndex[sceneId] - startSec;
+          }
+          if (providerForClip === "elevenlabs") {
+            durationSec = Math.min(600, Math.max(3, durationSec));
+          }
+        }
+
+        const cacheId = clip.sourceId ?? clip.id;
+        const ext = providerForClip === "elevenlabs" ? ".mp3" : ".wav";
+        const variants = Math.max(1, clip.variants ?? 1);
+        for (let v = 0; v < variants; v += 1) {
+          const key = isMusic
+            ? musicCacheKey(clip, v, durationSec!, providerForClip, seed)
+            : sfxCacheKey(clip, v, sfxCtx, seed);
+          const cached = isMusic
+            ? resolveCachedMusic(outDir, env, key, cacheId, v, ext)
+            : resolveCachedSfx(outDir, env, key, cacheId, v, ext);
+          const base = {
+            kind: clip.kind,
+            provider: providerForClip,
+            cacheKey: key,
+            clipId: clip.id,
+            variant: v,
+            prompt: clip.prompt,
+            unitType: "seconds" as const,
+            quantity: durationSec,
+          };
+          if (cached.path && cached.env && !fresh) {
+            items.push({ ...base, action: "cached", path: cached.path, cachedEnv: cached.env, estimatedCost: null });
+            continue;
+          }
+          const section = isMusic ? "music" : "sfx";
+          const path = join(envCacheDir, section, `${cacheId}--v${v + 1}--${safePrefix(key)}${ext}`);
+          const slot = `${cacheId}--v${v + 1}--`;
+          const miss = explainMiss(section, cached.path, path, key, (name) => name.startsWith(slot) && name.endsWith(ext), (meta) => {
+            if (meta.prompt !== clip.prompt) return `prompt changed from "${meta.prompt ?? ""}"`;
+            const hint = meta.durationSecHint ?? null;
+            if (hint !== durationSec) {
+              return `duration changed from ${hint ?? "unset"} to ${durationSec ?? "unset"}`;
+            }
+            if (typeof meta.provider === "string" && meta.provider !== providerForClip) {
+              return `provider changed from ${meta.provider}`;
+            }
+            return null;
+          });
+          items.push({
+            ...base,
+            action: "synthesize",
+            path,
+            ...miss,
+            estimatedCost: price(clip.kind, "seconds", durationSec, providerForClip),
+          });
+        }
+      }
+    }
+  }
+
+  const totals = emptyTotals();
+  const byKind: CompositionPlan["byKind"] = { tts: emptyTotals(), sfx: emptyTotals(), music: emptyTotals() };
+  for (const item of items) {
+    for (const bucket of [totals, byKind[item.kind]]) {
+      if (item.action === "cached") {
+        bucket.cached += 1;
+        continue;
+      }
+      bucket.synthesize += 1;
+      if (item.estimatedCost == null) {
+        bucket.unpriced += 1;
+      } else {
+        bucket.estimatedCost += item.estimatedCost;
+      }
+    }
+  }
+
+  return { compositionId: composition.id, env, provider: providerName, items, totals, byKind, warnings };
+}
@@ -1,6 +1,6 @@
 import { writeFileSync } from "fs";
 import { dirname } from "path";
-import { CompileError } from "../../errors.js";
+import { CompileError, ProviderHttpError } from "../../errors.js";
 import { ensureDir } from "../../util.js";
 import { probeDurationSec } from "../../media.js";
 import type { MusicProvider, MusicRequest, MusicVariant } from "./types.js";
@@ -50,7 +50,11 @@ export class ElevenLabsMusicProvider implements MusicProvider {
     });
     if (!res.ok) {
       const text = await res.text();
-      throw new CompileError(`ElevenLabs music failed (${res.status}): ${text.slice(0, 500)}`);
+      throw new ProviderHttpError(
+        `ElevenLabs music failed (${res.status}): ${text.slice(0, 500)}`,
+        res.status,
+        res.headers.get("retry-after"),
+      );
     }
 
     const buf = Buffer.from(await res.arrayBuffer());
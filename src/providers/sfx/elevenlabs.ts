@@ -1,6 +1,6 @@
 import { writeFileSync } from "fs";
 import { dirname } from "path";
-import { CompileError } from "../../errors.js";
+import { CompileError, ProviderHttpError } from "../../errors.js";
 import { ensureDir } from "../../util.js";
 import { probeDurationSec } from "../../media.js";
 import type { SFXProvider, SFXRequest, SFXVariant } from "./types.js";
@@ -51,7 +51,11 @@ export class ElevenLabsSFXProvider implements SFXProvider {
 
     if (!res.ok) {
       const text = await res.text();
-      throw new CompileError(`ElevenLabs SFX failed (${res.status}): ${text.slice(0, 400)}`);
+      throw new ProviderHttpError(
+        `ElevenLabs SFX failed (${res.status}): ${text.slice(0, 400)}`,
+        res.status,
+        res.headers.get("retry-after"),
+      );
     }
 
     const buf = Buffer.from(await res.arrayBuffer());
@@ -0,0 +1,141 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { PollyClient } from "@aws-sdk/client-polly";
+import {
+  PropertyCollection,
+  ResultReason,
+  SpeechSynthesisBoundaryType,
+  SpeechSynthesisResult,
+  SpeechSynthesisWordBoundaryEventArgs,
+  SpeechSynthesizer,
+} from "microsoft-cognitiveservices-speech-sdk";
+import { ProviderHttpError } from "../../errors.js";
+import { writeSilenceWav } from "../../audio/wav.js";
+import { estimateAlignment, findWord, placeWords, wordsFromCharacters } from "./alignment.js";
+import { PollyTTSProvider, wordsFromSpeechMarks } from "./aws-polly.js";
+import { AzureSpeechTTSProvider } from "./azure.js";
+
+describe("TTS word alignment", () => {
+  it("estimates word timings by character count", () => {
+    const { words, source } = estimateAlignment("hi there", 1.4);
+    assert.equal(source, "estimated");
+    assert.deepEqual(words, [
+      { text: "hi", startSec: 0, endSec: 0.4 },
+      { text: "there", startSec: 0.4, endSec: 1.4 },
+    ]);
+  });
+
+  it("collapses character alignment into words", () => {
+    const chars = ["H", "i", " ", "y", "o", "u"];
+    const starts = [0, 0.1, 0.2, 0.3, 0.4, 0.5];
+    const ends = [0.1, 0.2, 0.3, 0.4, 0.5, 0.6];
+    assert.deepEqual(wordsFromCharacters(chars, starts, ends), [
+      { text: "Hi", startSec: 0, endSec: 0.2 },
+      { text: "you", startSec: 0.3, endSec: 0.6 },
+    ]);
+  });
+
+  it("reads Polly word speech marks", () => {
+    const raw = [
+      '{"time":6,"type":"word","start":0,"end":5,"value":"Hello"}',
+      '{"time":373,"type":"word","start":6,"end":11,"value":"world"}',
+    ].join("\n");
+    assert.deepEqual(wordsFromSpeechMarks(raw, 0.9), [
+      { text: "Hello", startSec: 0.006, endSec: 0.373 },
+      { text: "world", startSec: 0.373, endSec: 0.9 },
+    ]);
+  });
+
+  it("bills Polly speech marks and falls back to an estimate when they fail", async (t) => {
+    const dir = mkdtempSync(join(tmpdir(), "videoml-polly-test-"));
+    const marks = '{"time":0,"type":"word","start":0,"end":2,"value":"Hi"}';
+    let marksFail = false;
+    t.mock.method(PollyClient.prototype, "send", async (command: { input: { OutputFormat: string } }) => {
+      if (command.input.OutputFormat === "pcm") return { AudioStream: [Buffer.alloc(16000)] };
+      if (marksFail) throw new Error("ThrottlingException");
+      return { AudioStream: [Buffer.from(marks)] };
+    });
+    try {
+      const req = { text: "Hi", sampleRateHz: 16000 };
+      const seg = await new PollyTTSProvider({}).synthesize(req, join(dir, "marks.wav"));
+      assert.equal(seg.alignment?.source, "provider");
+      assert.equal(seg.billedChars, 4);
+      const off = await new PollyTTSProvider({ speechMarks: false }).synthesize(req, join(dir, "off.wav"));
+      assert.equal(off.alignment?.source, "estimated");
+      marksFail = true;
+      const fallback = await new PollyTTSProvider({}).synthesize(req, join(dir, "fallback.wav"));
+      assert.equal(fallback.alignment?.source, "estimated");
+      assert.equal(fallback.billedChars, undefined);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("takes Azure word timings from WordBoundary events", async (t) => {
+    const dir = mkdtempSync(join(tmpdir(), "videoml-azure-test-"));
+    t.after(() => rmSync(dir, { recursive: true, force: true }));
+    writeSilenceWav(join(dir, "audio.wav"), 1, 24000);
+    const audio = readFileSync(join(dir, "audio.wav"));
+    let throttled = false;
+    t.mock.method(
+      SpeechSynthesizer.prototype,
+      "speakSsmlAsync",
+      function (this: SpeechSynthesizer, _ssml: string, done: (result: SpeechSynthesisResult) => void) {
+        if (throttled) {
+          const properties = new PropertyCollection();
+          properties.setProperty("CancellationErrorCode", "TooManyRequests");
+          done(new SpeechSynthesisResult("r", ResultReason.Canceled, undefined, "Too many requests", properties));
+          return;
+        }
+        const boundary = (offset: number, duration: number, text: string, type: SpeechSynthesisBoundaryType) =>
+          this.wordBoundary(this, new SpeechSynthesisWordBoundaryEventArgs(offset, duration, text, text.length, 0, type));
+        boundary(500_000, 2_000_000, "Hello", SpeechSynthesisBoundaryType.Word);
+        boundary(2_500_000, 500_000, ",", SpeechSynthesisBoundaryType.Punctuation);
+        boundary(3_000_000, 4_000_000, "world", SpeechSynthesisBoundaryType.Word);
+        done(new SpeechSynthesisResult("r", ResultReason.SynthesizingAudioCompleted, new Uint8Array(audio).buffer));
+      },
+    );
+    const provider = new AzureSpeechTTSProvider({ apiKey: "key", region: "westus" });
+    const req = { text: "Hello, world", sampleRateHz: 24000 };
+    const seg = await provider.synthesize(req, join(dir, "seg.wav"));
+    assert.equal(seg.durationSec, 1);
+    assert.deepEqual(seg.alignment, {
+      words: [
+        { text: "Hello", startSec: 0.05, endSec: 0.25 },
+        { text: "world", startSec: 0.3, endSec: 0.7 },
+      ],
+      source: "provider",
+    });
+    throttled = true;
+    await assert.rejects(
+      provider.synthesize(req, join(dir, "throttled.wav")),
+      (err: unknown) => err instanceof ProviderHttpError && err.status === 429 && /TooManyRequests/.test(err.message),
+    );
+  });
+
+  it("shifts words onto the timeline and drops words past a trim", () => {
+    const words = [
+      { text: "a", startSec: 0, endSec: 0.5 },
+      { text: "b", startSec: 0.5, endSec: 1.2 },
+      { text: "c", startSec: 1.3, endSec: 1.5 },
+    ];
+    assert.deepEqual(placeWords(words, 10, 1), [
+      { text: "a", startSec: 10, endSec: 10.5 },
+      { text: "b", startSec: 10.5, endSec: 11 },
+    ]);
+  });
+
+  it("finds words ignoring case and punctuation", () => {
+    const words = [
+      { text: "Launch", startSec: 0, endSec: 0.4 },
+      { text: "day,", startSec: 0.4, endSec: 0.7 },
+      { text: "launch!", startSec: 0.8, endSec: 1.2 },
+    ];
+    assert.equal(findWord(words, "launch", 2)?.startSec, 0.8);
+    assert.equal(findWord(words, "Day")?.endSec, 0.7);
+    assert.equal(findWord(words, "night"), null);
+  });
+});
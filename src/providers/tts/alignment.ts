@@ -0,0 +1,79 @@
+import type { TTSAlignment, WordTiming } from "./types.js";
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+/**
+ * Spread `durationSec` across the words of `text` by character count. Used when a provider
+ * cannot report real timings (and by dry-run).
+ */
+export function estimateAlignment(text: string, durationSec: number): TTSAlignment {
+  const tokens = text.trim().split(/\s+/).filter(Boolean);
+  const totalChars = tokens.reduce((sum, token) => sum + token.length, 0);
+  const words: WordTiming[] = [];
+  let cursor = 0;
+  for (const token of tokens) {
+    const startSec = cursor;
+    cursor += totalChars > 0 ? (durationSec * token.length) / totalChars : 0;
+    words.push({ text: token, startSec: round(startSec), endSec: round(cursor) });
+  }
+  return { words, source: "estimated" };
+}
+
+/**
+ * Collapse per-character timings (ElevenLabs `alignment`) into words split on whitespace.
+ */
+export function wordsFromCharacters(characters: string[], startTimes: number[], endTimes: number[]): WordTiming[] {
+  const words: WordTiming[] = [];
+  let text = "";
+  let startSec = 0;
+  let endSec = 0;
+  const flush = () => {
+    if (text) {
+      words.push({ text, startSec: round(startSec), endSec: round(endSec) });
+    }
+    text = "";
+  };
+  characters.forEach((ch, idx) => {
+    if (/\s/.test(ch)) {
+      flush();
+      return;
+    }
+    if (!text) {
+      startSec = startTimes[idx] ?? endSec;
+    }
+    text += ch;
+    endSec = endTimes[idx] ?? startSec;
+  });
+  flush();
+  return words;
+}
+
+/**
+ * Fit word timings to audio that was trimmed to `durationSec` and shift them onto the timeline.
+ */
+export function placeWords(words: WordTiming[], offsetSec: number, durationSec: number): WordTiming[] {
+  return words
+    .filter((word) => word.startSec < durationSec)
+    .map((word) => ({
+      text: word.text,
+      startSec: round(offsetSec + word.startSec),
+      endSec: round(offsetSec + Math.min(word.endSec, durationSec)),
+    }));
+}
+
+const normalizeWord = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}']+/gu, "");
+
+/**
+ * The `occurrence`-th (1-based) word equal to `token`, ignoring case and surrounding punctuation.
+ */
+export function findWord(words: WordTiming[], token: string, occurrence = 1): WordTiming | null {
+  const wanted = normalizeWord(token);
+  let seen = 0;
+  for (const word of words) {
+    if (normalizeWord(word.text) === wanted) {
+      seen += 1;
+      if (seen === occurrence) return word;
+    }
+  }
+  return null;
+}
@@ -1,9 +1,10 @@
 import { writeFileSync } from "fs";
 import { dirname } from "path";
 import { PollyClient, SynthesizeSpeechCommand, type VoiceId, type Engine, type LanguageCode } from "@aws-sdk/client-polly";
-import type { TTSProvider, TTSRequest, TTSSegment } from "./types.js";
+import type { TTSProvider, TTSRequest, TTSSegment, WordTiming } from "./types.js";
 import { CompileError } from "../../errors.js";
 import { ensureDir } from "../../util.js";
+import { estimateAlignment } from "./alignment.js";
 
 function pcmToWav(pcm: Buffer, sampleRateHz: number, outPath: string): void {
   ensureDir(dirname(outPath));
@@ -28,6 +29,32 @@ function pcmToWav(pcm: Buffer, sampleRateHz: number, outPath: string): void {
   writeFileSync(outPath, Buffer.concat([header, pcm]));
 }
 
+async function readStream(stream: unknown): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream as AsyncIterable<Uint8Array>) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Polly speech marks are newline-delimited JSON with a start time in ms per word; a word ends
+ * where the next one starts (or at the end of the audio).
+ */
+export function wordsFromSpeechMarks(raw: string, durationSec: number): WordTiming[] {
+  const marks = raw
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => JSON.parse(line) as { time: number; type: string; value: string })
+    .filter((mark) => mark.type === "word");
+  return marks.map((mark, idx) => ({
+    text: mark.value,
+    startSec: mark.time / 1000,
+    endSec: idx + 1 < marks.length ? marks[idx + 1].time / 1000 : durationSec,
+  }));
+}
+
 function pcmDurationSec(pcm: Buffer, sampleRateHz: number): number {
   const frames = Math.floor(pcm.length / 2);
   return frames / sampleRateHz;
@@ -39,12 +66,20 @@ export class PollyTTSProvider implements TTSProvider {
   voiceId: string;
   engine: string;
   languageCode?: string | null;
+  speechMarks: boolean;
 
-  constructor(opts: { region?: string; voiceId?: string; engine?: string; languageCode?: string | null }) {
+  constructor(opts: {
+    region?: string;
+    voiceId?: string;
+    engine?: string;
+    languageCode?: string | null;
+    speechMarks?: boolean;
+  }) {
     this.region = opts.region ?? "us-east-1";
     this.voiceId = opts.voiceId ?? "Joanna";
     this.engine = opts.engine ?? "standard";
     this.languageCode = opts.languageCode ?? null;
+    this.speechMarks = opts.speechMarks ?? true;
   }
 
   async synthesize(req: TTSRequest, outPath: string): Promise<TTSSegment> {
@@ -71,14 +106,37 @@ export class PollyTTSProvider implements TTSProvider {
       throw new CompileError("AWS Polly response missing AudioStream");
     }
 
-    const chunks: Buffer[] = [];
-    const stream = response.AudioStream as unknown as AsyncIterable<Uint8Array>;
-    for await (const chunk of stream) {
-      chunks.push(Buffer.from(chunk));
-    }
-    const pcm = Buffer.concat(chunks);
+    const pcm = await readStream(response.AudioStream);
     pcmToWav(pcm, req.sampleRateHz, outPath);
     const duration = pcmDurationSec(pcm, req.sampleRateHz);
-    return { path: outPath, durationSec: duration };
+
+    if (!this.speechMarks) {
+      return { path: outPath, durationSec: duration, alignment: estimateAlignment(req.text, duration) };
+    }
+    // Word timings come from a second request for speech marks (same text/voice, JSON output), which
+    // Polly bills like the audio. The audio is already written, so a failure here only costs the timings.
+    try {
+      const marksResponse = await client.send(
+        new SynthesizeSpeechCommand({
+          Text: req.text,
+          OutputFormat: "json",
+          SpeechMarkTypes: ["word"],
+          VoiceId: voiceId as VoiceId,
+          Engine: this.engine as Engine,
+          LanguageCode: this.languageCode ? (this.languageCode as LanguageCode) : undefined,
+        }),
+      );
+      const words = marksResponse.AudioStream
+        ? wordsFromSpeechMarks((await readStream(marksResponse.AudioStream)).toString("utf-8"), duration)
+        : null;
+      return {
+        path: outPath,
+        durationSec: duration,
+        alignment: words ? { words, source: "provider" } : estimateAlignment(req.text, duration),
+        billedChars: req.text.length * 2,
+      };
+    } catch {
+      return { path: outPath, durationSec: duration, alignment: estimateAlignment(req.text, duration) };
+    }
   }
 }
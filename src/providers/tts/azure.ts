@@ -1,18 +1,57 @@
 import { writeFileSync } from "fs";
 import { dirname } from "path";
-import type { TTSProvider, TTSRequest, TTSSegment } from "./types.js";
-import { CompileError } from "../../errors.js";
+import {
+  CancellationDetails,
+  CancellationErrorCode,
+  ResultReason,
+  SpeechConfig,
+  SpeechSynthesisBoundaryType,
+  SpeechSynthesisOutputFormat,
+  SpeechSynthesizer,
+  type SpeechSynthesisResult,
+} from "microsoft-cognitiveservices-speech-sdk";
+import type { TTSProvider, TTSRequest, TTSSegment, WordTiming } from "./types.js";
+import { CompileError, ProviderHttpError } from "../../errors.js";
 import { ensureDir } from "../../util.js";
-import { probeDurationSec } from "../../media.js";
+import { wavDurationSec } from "../../audio/wav.js";
+import { estimateAlignment } from "./alignment.js";
 
-function azureOutputFormat(sampleRateHz: number): string {
-  if (sampleRateHz === 44100) return "riff-44100hz-16bit-mono-pcm";
-  if (sampleRateHz === 24000) return "riff-24khz-16bit-mono-pcm";
-  if (sampleRateHz === 16000) return "riff-16khz-16bit-mono-pcm";
-  if (sampleRateHz === 8000) return "riff-8khz-16bit-mono-pcm";
+// WordBoundary offsets and durations are in 100-nanosecond ticks.
+const TICKS_PER_SEC = 10_000_000;
+
+function azureOutputFormat(sampleRateHz: number): SpeechSynthesisOutputFormat {
+  if (sampleRateHz === 44100) return SpeechSynthesisOutputFormat.Riff44100Hz16BitMonoPcm;
+  if (sampleRateHz === 24000) return SpeechSynthesisOutputFormat.Riff24Khz16BitMonoPcm;
+  if (sampleRateHz === 16000) return SpeechSynthesisOutputFormat.Riff16Khz16BitMonoPcm;
+  if (sampleRateHz === 8000) return SpeechSynthesisOutputFormat.Riff8Khz16BitMonoPcm;
   throw new CompileError("Azure TTS sample_rate_hz must be 8000, 16000, 24000, or 44100");
 }
 
+// The SDK reports a cancellation code rather than an HTTP status; this maps it onto the status
+// the REST endpoint would have returned, so the scheduler's retry rules apply unchanged.
+function cancellationStatus(code: CancellationErrorCode): number {
+  switch (code) {
+    case CancellationErrorCode.AuthenticationFailure:
+      return 401;
+    case CancellationErrorCode.Forbidden:
+      return 403;
+    case CancellationErrorCode.BadRequestParameters:
+      return 400;
+    case CancellationErrorCode.TooManyRequests:
+      return 429;
+    case CancellationErrorCode.ServiceTimeout:
+      return 408;
+    case CancellationErrorCode.ConnectionFailure:
+      return 503;
+    default:
+      return 500;
+  }
+}
+
+/**
+ * Azure Speech through the Speech SDK, whose connection carries WordBoundary events alongside the
+ * audio; their offsets become the segment's word timings (alignment source "provider").
+ */
 export class AzureSpeechTTSProvider implements TTSProvider {
   name = "azure-speech";
   apiKey: string;
@@ -32,8 +71,8 @@ export class AzureSpeechTTSProvider implements TTSProvider {
     const voice = req.voice ?? this.voiceName;
     ensureDir(dirname(outPath));
 
-    const url = `https://${this.region}.tts.speech.microsoft.com/cognitiveservices/v1`;
-    const outputFormat = azureOutputFormat(req.sampleRateHz);
+    const speechConfig = SpeechConfig.fromSubscription(this.apiKey, this.region);
+    speechConfig.speechSynthesisOutputFormat = azureOutputFormat(req.sampleRateHz);
     const ssml = [
       "<speak version='1.0' xml:lang='en-US'>",
       `  <voice name='${voice}'>`,
@@ -42,25 +81,42 @@ export class AzureSpeechTTSProvider implements TTSProvider {
       "</speak>",
     ].join("\n");
 
-    const res = await fetch(url, {
-      method: "POST",
-      headers: {
-        "Ocp-Apim-Subscription-Key": this.apiKey,
-        "Content-Type": "application/ssml+xml",
-        "X-Microsoft-OutputFormat": outputFormat,
-        "User-Agent": "babulus",
-      },
-      body: ssml,
-    });
+    // Without an audio config the audio comes back in the result instead of playing on a speaker.
+    const synthesizer = new SpeechSynthesizer(speechConfig, null);
+    const words: WordTiming[] = [];
+    synthesizer.wordBoundary = (_sender, event) => {
+      if (event.boundaryType !== SpeechSynthesisBoundaryType.Word) {
+        return;
+      }
+      words.push({
+        text: event.text,
+        startSec: event.audioOffset / TICKS_PER_SEC,
+        endSec: (event.audioOffset + event.duration) / TICKS_PER_SEC,
+      });
+    };
+    let result: SpeechSynthesisResult;
+    try {
+      result = await new Promise<SpeechSynthesisResult>((resolve, reject) => {
+        synthesizer.speakSsmlAsync(ssml, resolve, (err) => reject(new CompileError(`Azure TTS failed: ${err}`)));
+      });
+    } finally {
+      synthesizer.close();
+    }
 
-    if (!res.ok) {
-      const text = await res.text();
-      throw new CompileError(`Azure TTS failed (${res.status}): ${text.slice(0, 400)}`);
+    if (result.reason !== ResultReason.SynthesizingAudioCompleted) {
+      const details = CancellationDetails.fromResult(result);
+      throw new ProviderHttpError(
+        `Azure TTS failed (${CancellationErrorCode[details.ErrorCode]}): ${details.errorDetails.slice(0, 400)}`,
+        cancellationStatus(details.ErrorCode),
+      );
     }
 
-    const buf = Buffer.from(await res.arrayBuffer());
-    writeFileSync(outPath, buf);
-    const duration = probeDurationSec(outPath);
-    return { path: outPath, durationSec: duration };
+    writeFileSync(outPath, Buffer.from(result.audioData));
+    const duration = wavDurationSec(outPath);
+    return {
+      path: outPath,
+      durationSec: duration,
+      alignment: words.length ? { words, source: "provider" } : estimateAlignment(req.text, duration),
+    };
   }
 }
@@ -1,5 +1,6 @@
 import { writeSilenceWav } from "../../audio/wav.js";
 import type { TTSProvider, TTSRequest, TTSSegment } from "./types.js";
+import { estimateAlignment } from "./alignment.js";
 
 export function estimateDurationSec(text: string, wpm: number): number {
   const words = text.trim().split(/\s+/).filter(Boolean);
@@ -20,6 +21,6 @@ export class DryRunProvider implements TTSProvider {
   async synthesize(req: TTSRequest, outPath: string): Promise<TTSSegment> {
     const duration = estimateDurationSec(req.text, this.wpm);
     writeSilenceWav(outPath, duration, req.sampleRateHz);
-    return { path: outPath, durationSec: duration };
+    return { path: outPath, durationSec: duration, alignment: estimateAlignment(req.text, duration) };
   }
 }
@@ -1,6 +1,7 @@
 import { writeFileSync } from "fs";
-import type { TTSProvider, TTSRequest, TTSSegment } from "./types.js";
-import { CompileError } from "../../errors.js";
+import type { TTSAlignment, TTSProvider, TTSRequest, TTSSegment } from "./types.js";
+import { wordsFromCharacters } from "./alignment.js";
+import { CompileError, ProviderHttpError } from "../../errors.js";
 import { audioActivityRatio, isAudioAllSilence, probeDurationSec } from "../../media.js";
 import { ensureDir } from "../../util.js";
 import { dirname } from "path";
@@ -44,6 +45,7 @@ export class ElevenLabsTTSProvider implements TTSProvider {
   voiceSettings?: Record<string, unknown> | null;
   outputFormat?: string | null;
   pronunciationDictionaryLocators?: Array<Record<string, unknown>> | null;
+  withTimestamps: boolean;
 
   constructor(opts: {
     apiKey: string;
@@ -53,6 +55,7 @@ export class ElevenLabsTTSProvider implements TTSProvider {
     voiceSettings?: Record<string, unknown> | null;
     outputFormat?: string | null;
     pronunciationDictionaryLocators?: Array<Record<string, unknown>> | null;
+    withTimestamps?: boolean;
   }) {
     this.apiKey = opts.apiKey;
     this.voiceId = opts.voiceId ?? "";
@@ -61,6 +64,7 @@ export class ElevenLabsTTSProvider implements TTSProvider {
     this.voiceSettings = opts.voiceSettings ?? null;
     this.outputFormat = opts.outputFormat ?? null;
     this.pronunciationDictionaryLocators = opts.pronunciationDictionaryLocators ?? null;
+    this.withTimestamps = opts.withTimestamps ?? false;
   }
 
   async synthesize(req: TTSRequest, outPath: string): Promise<TTSSegment> {
@@ -77,7 +81,10 @@ export class ElevenLabsTTSProvider implements TTSProvider {
 
     ensureDir(dirname(outPath));
 
-    const url = `${this.baseUrl}/v1/text-to-speech/${voiceId}/stream`;
+    // The with-timestamps endpoint returns JSON (base64 audio + per-character alignment) instead of raw audio.
+    const url = this.withTimestamps
+      ? `${this.baseUrl}/v1/text-to-speech/${voiceId}/with-timestamps`
+      : `${this.baseUrl}/v1/text-to-speech/${voiceId}/stream`;
     const outputFormat = this.outputFormat ?? defaultOutputFormat(req.sampleRateHz);
 
     const payloadBase: Record<string, unknown> = {
@@ -91,21 +98,52 @@ export class ElevenLabsTTSProvider implements TTSProvider {
     const extraLocators = (req.extra as Record<string, unknown> | undefined)?.pronunciation_dictionary_locators;
     const locators = extraLocators ?? this.pronunciationDictionaryLocators;
 
-    const post = async (payload: Record<string, unknown>): Promise<Buffer> => {
+    const post = async (payload: Record<string, unknown>): Promise<{ audio: Buffer; alignment?: TTSAlignment }> => {
       const res = await fetch(url, {
         method: "POST",
         headers: {
           "xi-api-key": this.apiKey,
-          accept: "audio/mpeg",
+          accept: this.withTimestamps ? "application/json" : "audio/mpeg",
           "Content-Type": "application/json",
         },
         body: JSON.stringify(payload),
       });
       if (!res.ok) {
         const text = await res.text();
-        throw new CompileError(`ElevenLabs TTS failed (${res.status}): ${text.slice(0, 400)}`);
+        throw new ProviderHttpError(
+          `ElevenLabs TTS failed (${res.status}): ${text.slice(0, 400)}`,
+          res.status,
+          res.headers.get("retry-after"),
+        );
       }
-      return Buffer.from(await res.arrayBuffer());
+      if (!this.withTimestamps) {
+        return { audio: Buffer.from(await res.arrayBuffer()) };
+      }
+      const body = (await res.json()) as {
+        audio_base64?: string;
+        alignment?: {
+          characters?: string[];
+          character_start_times_seconds?: number[];
+          character_end_times_seconds?: number[];
+        } | null;
+      };
+      if (!body.audio_base64) {
+        throw new CompileError("ElevenLabs with-timestamps response missing audio_base64");
+      }
+      const chars = body.alignment;
+      return {
+        audio: Buffer.from(body.audio_base64, "base64"),
+        alignment: chars?.characters
+          ? {
+              words: wordsFromCharacters(
+                chars.characters,
+                chars.character_start_times_seconds ?? [],
+                chars.character_end_times_seconds ?? [],
+              ),
+              source: "provider",
+            }
+          : undefined,
+      };
     };
 
     const payload: Record<string, unknown> = { ...payloadBase };
@@ -113,11 +151,11 @@ export class ElevenLabsTTSProvider implements TTSProvider {
       payload.pronunciation_dictionary_locators = locators;
     }
 
-    let audio = await post(payload);
+    let { audio, alignment } = await post(payload);
 
     if (outputFormat.startsWith("pcm_")) {
       pcmToWav(audio, req.sampleRateHz, outPath);
-      return { path: outPath, durationSec: probeDurationSec(outPath) };
+      return { path: outPath, durationSec: probeDurationSec(outPath), alignment };
     }
 
     writeFileSync(outPath, audio);
@@ -130,7 +168,7 @@ export class ElevenLabsTTSProvider implements TTSProvider {
 
     if (looksBad() && locators) {
       const retryPayload = { ...payloadBase };
-      audio = await post(retryPayload);
+      ({ audio, alignment } = await post(retryPayload));
       writeFileSync(outPath, audio);
       duration = probeDurationSec(outPath);
       const retryProbe = Math.min(3.0, Math.max(0.25, duration));
@@ -142,6 +180,6 @@ export class ElevenLabsTTSProvider implements TTSProvider {
       throw new CompileError(`ElevenLabs returned unusable audio (activity_ratio=${activity.toFixed(4)})`);
     }
 
-    return { path: outPath, durationSec: duration };
+    return { path: outPath, durationSec: duration, alignment };
   }
 }
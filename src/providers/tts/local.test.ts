@@ -0,0 +1,123 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { chmodSync, existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { CompileError } from "../../errors.js";
+import { loadVideoFileFromXml } from "../../dsl/xml.js";
+import { generateComposition } from "../../generate.js";
+import { getTtsProvider } from "./registry.js";
+import { LocalTTSProvider } from "./local.js";
+
+// Stands in for piper/espeak-ng: records its arguments and stdin, then writes half a second of
+// 16 kHz mono silence to the path after `--output_file` or `-w`.
+const fakeEngine = `#!/usr/bin/env node
+const { readFileSync, writeFileSync } = require("fs");
+const args = process.argv.slice(2);
+const text = readFileSync(0, "utf-8");
+if (text.includes("fail")) {
+  process.stderr.write("cannot speak that");
+  process.exit(3);
+}
+const out = args[args.indexOf(args.includes("-w") ? "-w" : "--output_file") + 1];
+writeFileSync(out + ".call.json", JSON.stringify({ args, text }));
+const data = Buffer.alloc(16000);
+const header = Buffer.alloc(44);
+header.write("RIFF", 0);
+header.writeUInt32LE(36 + data.length, 4);
+header.write("WAVEfmt ", 8);
+header.writeUInt32LE(16, 16);
+header.writeUInt16LE(1, 20);
+header.writeUInt16LE(1, 22);
+header.writeUInt32LE(16000, 24);
+header.writeUInt32LE(32000, 28);
+header.writeUInt16LE(2, 32);
+header.writeUInt16LE(16, 34);
+header.write("data", 36);
+header.writeUInt32LE(data.length, 40);
+writeFileSync(out, Buffer.concat([header, data]));
+`;
+
+describe("LocalTTSProvider", () => {
+  let dir: string;
+  let binary: string;
+
+  before(() => {
+    dir = mkdtempSync(join(tmpdir(), "videoml-local-tts-test-"));
+    binary = join(dir, "fake-engine.cjs");
+    writeFileSync(binary, fakeEngine);
+    chmodSync(binary, 0o755);
+  });
+
+  after(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const call = (outPath: string) => JSON.parse(readFileSync(`${outPath}.call.json`, "utf-8"));
+
+  it("runs piper with the model and speaking rate from providers.local_tts", async () => {
+    const provider = getTtsProvider("local-tts", {
+      providers: { local_tts: { binary, model: "/voices/en_US-amy-medium.onnx", voice: "2", rate: 1.25 } },
+    });
+    assert.ok(provider instanceof LocalTTSProvider);
+    assert.equal(provider.defaultModel, "en_US-amy-medium.onnx");
+    const outPath = join(dir, "piper.wav");
+    const seg = await provider.synthesize({ text: "Hello there.", sampleRateHz: 44100 }, outPath);
+    assert.equal(seg.durationSec, 0.5);
+    assert.deepEqual(seg.alignment?.words.map((word) => word.text), ["Hello", "there."]);
+    assert.deepEqual(call(outPath), {
+      args: ["--model", "/voices/en_US-amy-medium.onnx", "--speaker", "2", "--length_scale", "0.8", "--output_file", outPath],
+      text: "Hello there.",
+    });
+  });
+
+  it("runs espeak-ng with a voice and words-per-minute speed", async () => {
+    const provider = new LocalTTSProvider({ engine: "espeak-ng", binary, voice: "en-us", rate: 0.8 });
+    const outPath = join(dir, "espeak.wav");
+    await provider.synthesize({ text: "-leading dash stays text", sampleRateHz: 22050 }, outPath);
+    assert.deepEqual(call(outPath).args, ["-w", outPath, "-v", "en-us", "-s", "140", "--stdin"]);
+  });
+
+  it("resamples the engine output to the run's sample rate", async () => {
+    const composition = loadVideoFileFromXml(`
+      <vml id="local">
+        <scene id="intro">
+          <cue id="hello"><voice>Hello.</voice><pause seconds="0.25s" /><voice>Again.</voice></cue>
+        </scene>
+      </vml>`).compositions[0];
+    const outDir = join(dir, "generate");
+    const audioOut = join(outDir, "local.wav");
+    await generateComposition({
+      composition,
+      dslPath: join(outDir, "local.xml"),
+      scriptOut: join(outDir, "script.json"),
+      timelineOut: join(outDir, "timeline.json"),
+      audioOut,
+      outDir,
+      config: { tts: { default_provider: "local-tts" }, providers: { local_tts: { engine: "espeak-ng", binary } } },
+      captions: false,
+      verboseLogs: false,
+    });
+    const wav = readFileSync(audioOut);
+    assert.equal(wav.readUInt32LE(24), 44100);
+    assert.equal(wav.readUInt32LE(40), 1.25 * 44100 * 2);
+  });
+
+  it("reports engine failures and bad configuration", async () => {
+    const provider = new LocalTTSProvider({ engine: "espeak-ng", binary });
+    await assert.rejects(
+      provider.synthesize({ text: "fail", sampleRateHz: 22050 }, join(dir, "fail.wav")),
+      (err: unknown) => err instanceof CompileError && err.message === "espeak-ng failed (exit 3): cannot speak that",
+    );
+    assert.equal(existsSync(join(dir, "fail.wav")), false);
+    await assert.rejects(
+      new LocalTTSProvider({ engine: "espeak-ng", binary: join(dir, "missing") }).synthesize(
+        { text: "hi", sampleRateHz: 22050 },
+        join(dir, "missing.wav"),
+      ),
+      /was not found; install espeak-ng or set providers\.local_tts\.binary/,
+    );
+    assert.throws(() => getTtsProvider("local", { providers: { local_tts: {} } }), /local_tts\.model is required for piper/);
+    assert.throws(() => getTtsProvider("local", { providers: { local_tts: { engine: "say" } } }), /must be "piper" or "espeak-ng"/);
+  });
+});
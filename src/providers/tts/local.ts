@@ -0,0 +1,137 @@
+import { spawn } from "child_process";
+import { existsSync } from "fs";
+import { basename, dirname } from "path";
+import type { TTSProvider, TTSRequest, TTSSegment } from "./types.js";
+import { CompileError } from "../../errors.js";
+import { ensureDir } from "../../util.js";
+import { resampleWavFile, wavDurationSec } from "../../audio/wav.js";
+import { estimateAlignment } from "./alignment.js";
+
+export type LocalTTSEngine = "piper" | "espeak-ng";
+
+export type LocalTTSOptions = {
+  engine?: LocalTTSEngine;
+  /** Executable to run; defaults to the engine name looked up on PATH. */
+  binary?: string | null;
+  /** Piper voice model (`.onnx`). */
+  model?: string | null;
+  /** Piper model config (`.onnx.json`); Piper looks next to the model when omitted. */
+  modelConfig?: string | null;
+  /** espeak-ng voice name or voice file; for Piper, the speaker id of a multi-speaker model. */
+  voice?: string | null;
+  /** Speaking rate relative to the engine's normal pace (1 = normal, 1.2 = 20% faster). */
+  rate?: number;
+  timeoutSec?: number;
+};
+
+// espeak-ng's default speed in words per minute.
+const ESPEAK_BASE_WPM = 175;
+
+/**
+ * Synthesizes speech with a local command-line engine, so narration is audible without network
+ * access. The text goes in on stdin; the engine writes a WAV file at its own sample rate, which is
+ * resampled to the run's rate.
+ */
+export class LocalTTSProvider implements TTSProvider {
+  name = "local-tts";
+  engine: LocalTTSEngine;
+  binary: string;
+  model: string | null;
+  modelConfig: string | null;
+  voice: string | null;
+  rate: number;
+  timeoutSec: number;
+  defaultModel?: string;
+  defaultVoice?: string;
+
+  constructor(opts: LocalTTSOptions) {
+    this.engine = opts.engine ?? "piper";
+    this.binary = opts.binary || this.engine;
+    this.model = opts.model ?? null;
+    this.modelConfig = opts.modelConfig ?? null;
+    this.voice = opts.voice ?? null;
+    this.rate = opts.rate ?? 1;
+    this.timeoutSec = opts.timeoutSec ?? 120;
+    // Cache keys and usage entries name the model by file name so they match across machines.
+    this.defaultModel = this.model ? basename(this.model) : this.engine;
+    this.defaultVoice = this.voice ?? undefined;
+  }
+
+  private args(req: TTSRequest, outPath: string): string[] {
+    const voice = req.voice ?? this.voice;
+    if (this.engine === "espeak-ng") {
+      return [
+        "-w",
+        outPath,
+        ...(voice ? ["-v", voice] : []),
+        "-s",
+        String(Math.round(ESPEAK_BASE_WPM * this.rate)),
+        "--stdin",
+      ];
+    }
+    const model = req.model ?? this.model;
+    if (!model) {
+      throw new CompileError("Piper needs a voice model: set providers.local_tts.model to an .onnx file");
+    }
+    return [
+      "--model",
+      model,
+      ...(this.modelConfig ? ["--config", this.modelConfig] : []),
+      ...(voice ? ["--speaker", voice] : []),
+      // Piper stretches phoneme lengths, so a faster rate is a shorter length scale.
+      ...(this.rate !== 1 ? ["--length_scale", String(Number((1 / this.rate).toFixed(4)))] : []),
+      "--output_file",
+      outPath,
+    ];
+  }
+
+  async synthesize(req: TTSRequest, outPath: string): Promise<TTSSegment> {
+    ensureDir(dirname(outPath));
+    await this.run(this.args(req, outPath), req.text);
+    if (!existsSync(outPath)) {
+      throw new CompileError(`${this.engine} finished without writing ${outPath}`);
+    }
+    try {
+      resampleWavFile(outPath, req.sampleRateHz);
+    } catch (err) {
+      throw new CompileError(`${this.engine} output could not be read: ${(err as Error).message}`);
+    }
+    const duration = wavDurationSec(outPath);
+    if (duration <= 0) {
+      throw new CompileError(`${this.engine} wrote an empty WAV file: ${outPath}`);
+    }
+    return { path: outPath, durationSec: duration, alignment: estimateAlignment(req.text, duration) };
+  }
+
+  private run(args: string[], text: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(this.binary, args, { stdio: ["pipe", "ignore", "pipe"] });
+      const stderr: Buffer[] = [];
+      const timer = setTimeout(() => {
+        child.kill("SIGKILL");
+        reject(new CompileError(`${this.engine} timed out after ${this.timeoutSec}s`));
+      }, this.timeoutSec * 1000);
+      child.stderr.on("data", (chunk: Buffer) => stderr.push(chunk));
+      child.on("error", (err: NodeJS.ErrnoException) => {
+        clearTimeout(timer);
+        reject(
+          err.code === "ENOENT"
+            ? new CompileError(`${this.binary} was not found; install ${this.engine} or set providers.local_tts.binary`)
+            : new CompileError(`${this.binary} failed to run: ${err.message}`),
+        );
+      });
+      child.on("close", (code) => {
+        clearTimeout(timer);
+        if (code === 0) {
+          resolve();
+        } else {
+          const message = Buffer.concat(stderr).toString("utf-8").trim().slice(0, 800);
+          reject(new CompileError(`${this.engine} failed (exit ${code}): ${message}`));
+        }
+      });
+      // An engine that exits early closes stdin; the exit status reports that failure instead.
+      child.stdin.on("error", () => undefined);
+      child.stdin.end(text);
+    });
+  }
+}
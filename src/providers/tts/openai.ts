@@ -1,6 +1,6 @@
 import { writeFileSync, statSync, readFileSync } from "fs";
 import type { TTSProvider, TTSRequest, TTSSegment } from "./types.js";
-import { CompileError } from "../../errors.js";
+import { CompileError, ProviderHttpError } from "../../errors.js";
 
 function wavDurationSec(path: string): number {
   const buf = readFileSync(path);
@@ -61,7 +61,11 @@ export class OpenAITTSProvider implements TTSProvider {
 
     if (!res.ok) {
       const text = await res.text();
-      throw new CompileError(`OpenAI TTS failed (${res.status}): ${text.slice(0, 400)}`);
+      throw new ProviderHttpError(
+        `OpenAI TTS failed (${res.status}): ${text.slice(0, 400)}`,
+        res.status,
+        res.headers.get("retry-after"),
+      );
     }
 
     const buf = Buffer.from(await res.arrayBuffer());
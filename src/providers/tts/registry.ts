@@ -1,10 +1,11 @@
-import { getProviderConfig, type Config } from "../../config.js";
+import { getDryRunFallback, getProviderConfig, type Config } from "../../config.js";
 import { CompileError } from "../../errors.js";
 import { DryRunProvider } from "./dry-run.js";
 import { ElevenLabsTTSProvider } from "./elevenlabs.js";
 import { OpenAITTSProvider } from "./openai.js";
 import { PollyTTSProvider } from "./aws-polly.js";
 import { AzureSpeechTTSProvider } from "./azure.js";
+import { LocalTTSProvider } from "./local.js";
 import type { TTSProvider } from "./types.js";
 
 export function getTtsProvider(name: string, config: Config): TTSProvider {
@@ -17,6 +18,18 @@ export function getTtsProvider(name: string, config: Config): TTSProvider {
     return new DryRunProvider(wpm);
   };
 
+  // Standing in silent audio for a provider without credentials is opt-in (`tts.dry_run_fallback`).
+  const allowDryRunFallback = getDryRunFallback(config);
+  const missingCredentials = (provider: string, problem: string, hint: string) => {
+    if (!allowDryRunFallback) {
+      throw new CompileError(
+        `TTS provider "${provider}" was requested, but ${problem}. ${hint}, or set tts.dry_run_fallback: true to generate silent audio instead.`,
+      );
+    }
+    console.warn(`[WARN] TTS provider "${provider}" was requested, but ${problem}. Falling back to "dry-run" provider which generates silent audio.`);
+    return dryRunProvider();
+  };
+
   const shouldMock =
     ["1", "true"].includes(String(process.env.CI ?? "").toLowerCase()) ||
     ["1", "true"].includes(String(process.env.BABULUS_MOCK_TTS ?? "").toLowerCase());
@@ -45,8 +58,7 @@ export function getTtsProvider(name: string, config: Config): TTSProvider {
       String(cfg.api_key ?? "") ||
       (typeof (config as any)?.openai_api_key === "string" ? String((config as any).openai_api_key) : "");
     if (!apiKey || apiKey.startsWith("test-")) {
-      console.warn(`[WARN] TTS provider "openai" was requested, but no API key was found (or a test key was used). Falling back to "dry-run" provider which generates silent audio.`);
-      return dryRunProvider();
+      return missingCredentials("openai", "no API key was found (or a test key was used)", "Set OPENAI_API_KEY or providers.openai.api_key");
     }
     return new OpenAITTSProvider({
       apiKey,
@@ -81,8 +93,11 @@ export function getTtsProvider(name: string, config: Config): TTSProvider {
     const apiKey = process.env.ELEVENLABS_API_KEY || String(cfg.api_key ?? "");
     const voiceId = String(cfg.voice_id ?? "");
     if (!apiKey || apiKey.startsWith("test-") || !voiceId) {
-      console.warn(`[WARN] TTS provider "elevenlabs" was requested, but API key or voice_id is missing. Falling back to "dry-run" provider which generates silent audio.`);
-      return dryRunProvider();
+      return missingCredentials(
+        "elevenlabs",
+        "API key or voice_id is missing",
+        "Set ELEVENLABS_API_KEY (or providers.elevenlabs.api_key) and providers.elevenlabs.voice_id",
+      );
     }
     return new ElevenLabsTTSProvider({
       apiKey,
@@ -92,6 +107,7 @@ export function getTtsProvider(name: string, config: Config): TTSProvider {
       voiceSettings: (voiceSettings as Record<string, unknown>) ?? null,
       outputFormat: String(cfg.output_format ?? "") || null,
       pronunciationDictionaryLocators: (pdl as Array<Record<string, unknown>>) ?? null,
+      withTimestamps: cfg.with_timestamps === true || String(cfg.with_timestamps ?? "").toLowerCase() === "true",
     });
   }
   if (name === "aws" || name === "aws-polly") {
@@ -107,14 +123,14 @@ export function getTtsProvider(name: string, config: Config): TTSProvider {
       Boolean(process.env.AWS_PROFILE) ||
       Boolean(process.env.AWS_WEB_IDENTITY_TOKEN_FILE);
     if (!hasAwsCreds) {
-      console.warn(`[WARN] TTS provider "aws-polly" was requested, but no AWS credentials were found. Falling back to "dry-run" provider which generates silent audio.`);
-      return dryRunProvider();
+      return missingCredentials("aws-polly", "no AWS credentials were found", "Set AWS_ACCESS_KEY_ID or AWS_PROFILE");
     }
     return new PollyTTSProvider({
       region: process.env.AWS_POLLY_REGION || String(cfg.region ?? "us-east-1"),
       voiceId: String(cfg.voice_id ?? "Joanna"),
       engine: String(cfg.engine ?? "standard"),
       languageCode: cfg.language_code ? String(cfg.language_code) : null,
+      speechMarks: cfg.speech_marks !== false && String(cfg.speech_marks ?? "").toLowerCase() !== "false",
     });
   }
   if (name === "azure" || name === "azure-speech") {
@@ -128,8 +144,11 @@ export function getTtsProvider(name: string, config: Config): TTSProvider {
     const apiKey = process.env.AZURE_SPEECH_KEY || String(cfg.api_key ?? "");
     const region = process.env.AZURE_SPEECH_REGION || String(cfg.region ?? "");
     if (!apiKey || apiKey.startsWith("test-") || !region) {
-      console.warn(`[WARN] TTS provider "azure-speech" was requested, but API key or region is missing. Falling back to "dry-run" provider which generates silent audio.`);
-      return dryRunProvider();
+      return missingCredentials(
+        "azure-speech",
+        "API key or region is missing",
+        "Set AZURE_SPEECH_KEY and AZURE_SPEECH_REGION (or providers.azure_speech.api_key and region)",
+      );
     }
     return new AzureSpeechTTSProvider({
       apiKey,
@@ -137,7 +156,38 @@ export function getTtsProvider(name: string, config: Config): TTSProvider {
       voiceName: String(cfg.voice ?? "en-US-JennyNeural"),
     });
   }
+  if (name === "local" || name === "local-tts") {
+    const cfg = getProviderConfig(config, "local_tts");
+    // Runs offline, so CI mocking does not swap it out.
+    if (shouldFail) {
+      return failingProvider();
+    }
+    const engine = String(cfg.engine ?? "piper");
+    if (engine !== "piper" && engine !== "espeak-ng") {
+      throw new CompileError(`providers.local_tts.engine must be "piper" or "espeak-ng" (got "${engine}")`);
+    }
+    const rate = Number(cfg.rate ?? 1);
+    if (!Number.isFinite(rate) || rate <= 0) {
+      throw new CompileError("providers.local_tts.rate must be a positive number");
+    }
+    const timeoutSec = Number(cfg.timeout_sec ?? 120);
+    if (!Number.isFinite(timeoutSec) || timeoutSec <= 0) {
+      throw new CompileError("providers.local_tts.timeout_sec must be a positive number");
+    }
+    if (engine === "piper" && !cfg.model) {
+      throw new CompileError("providers.local_tts.model is required for piper (path to an .onnx voice model)");
+    }
+    return new LocalTTSProvider({
+      engine,
+      binary: cfg.binary ? String(cfg.binary) : null,
+      model: cfg.model ? String(cfg.model) : null,
+      modelConfig: cfg.config ? String(cfg.config) : null,
+      voice: cfg.voice != null ? String(cfg.voice) : null,
+      rate,
+      timeoutSec,
+    });
+  }
   throw new CompileError(
-    `Unknown TTS provider "${name}". Supported: dry-run, openai, elevenlabs, aws-polly (aws), azure-speech (azure)`,
+    `Unknown TTS provider "${name}". Supported: dry-run, openai, elevenlabs, aws-polly (aws), azure-speech (azure), local-tts (local)`,
   );
 }
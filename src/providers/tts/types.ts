@@ -7,9 +7,30 @@ export type TTSRequest = {
   extra?: Record<string, unknown>;
 };
 
+/**
+ * Timing for one spoken word, in seconds relative to the start of the synthesized audio.
+ */
+export type WordTiming = {
+  text: string;
+  startSec: number;
+  endSec: number;
+};
+
+export type TTSAlignment = {
+  words: WordTiming[];
+  /** "provider" when the TTS service reported timings, "estimated" when derived from text length. */
+  source: "provider" | "estimated";
+};
+
 export type TTSSegment = {
   path: string;
   durationSec: number;
+  alignment?: TTSAlignment;
+  /**
+   * Characters billed when the provider made more than one request (e.g. for word timings);
+   * defaults to the text length.
+   */
+  billedChars?: number;
 };
 
 export interface TTSProvider {
@@ -0,0 +1,98 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ParseError, ProviderHttpError } from "./errors.js";
+import { getSynthesisLimits, SynthesisScheduler, type SynthesisLimits } from "./scheduler.js";
+
+const limits = (overrides: Partial<SynthesisLimits["defaults"]> = {}): SynthesisLimits => ({
+  defaults: { concurrency: 2, ratePerSecond: null, burst: 1, retries: 2, backoffMs: 100, maxBackoffMs: 1000, ...overrides },
+  providers: {},
+});
+
+// A fake clock: sleeping advances time instead of waiting.
+const fakeClock = () => {
+  const clock = { now: 0, sleeps: [] as number[] };
+  return {
+    clock,
+    options: {
+      now: () => clock.now,
+      sleep: async (ms: number) => {
+        clock.sleeps.push(ms);
+        clock.now += ms;
+      },
+      random: () => 0,
+    },
+  };
+};
+
+describe("getSynthesisLimits", () => {
+  it("merges defaults with per-provider overrides", () => {
+    const parsed = getSynthesisLimits({
+      synthesis: { concurrency: 8, retries: 5, providers: { elevenlabs: { concurrency: 2, rate_per_second: 3 } } },
+    });
+    const scheduler = new SynthesisScheduler(parsed);
+    assert.equal(scheduler.limitsFor("openai").concurrency, 8);
+    assert.equal(scheduler.limitsFor("elevenlabs").concurrency, 2);
+    assert.equal(scheduler.limitsFor("elevenlabs").ratePerSecond, 3);
+    assert.equal(scheduler.limitsFor("elevenlabs").retries, 5);
+    assert.throws(() => getSynthesisLimits({ synthesis: { concurrency: 0 } }), ParseError);
+  });
+});
+
+describe("SynthesisScheduler", () => {
+  it("caps requests in flight per provider", async () => {
+    const scheduler = new SynthesisScheduler(limits());
+    let active = 0;
+    let peak = 0;
+    const request = async (value: number) => {
+      active += 1;
+      peak = Math.max(peak, active);
+      await new Promise((resolve) => setImmediate(resolve));
+      active -= 1;
+      return value;
+    };
+    const results = await Promise.all([1, 2, 3, 4, 5].map((n) => scheduler.run("openai", `n=${n}`, () => request(n))));
+    assert.deepEqual(results, [1, 2, 3, 4, 5]);
+    assert.equal(peak, 2);
+  });
+
+  it("spaces requests by the token-bucket rate", async () => {
+    const { clock, options } = fakeClock();
+    const scheduler = new SynthesisScheduler(limits({ concurrency: 10, ratePerSecond: 2, burst: 2 }), options);
+    const startedAt: number[] = [];
+    await Promise.all([1, 2, 3, 4].map((n) => scheduler.run("azure-speech", `n=${n}`, async () => startedAt.push(clock.now))));
+    assert.deepEqual(startedAt, [0, 0, 500, 1000]);
+  });
+
+  it("retries retryable HTTP errors with backoff and honors Retry-After", async () => {
+    const { clock, options } = fakeClock();
+    const logs: string[] = [];
+    const scheduler = new SynthesisScheduler(limits(), { ...options, log: (msg) => logs.push(msg) });
+    let calls = 0;
+    const result = await scheduler.run("elevenlabs", "clip=ding", async () => {
+      calls += 1;
+      if (calls === 1) throw new ProviderHttpError("rate limited", 429, "0.8");
+      if (calls === 2) throw new ProviderHttpError("unavailable", 503);
+      return "ok";
+    });
+    assert.equal(result, "ok");
+    // Retry-After wins over the 50-100ms first backoff; the second backoff is 100-200ms.
+    assert.deepEqual(clock.sleeps, [800, 100]);
+    assert.match(logs[0], /^retry: provider=elevenlabs clip=ding attempt=2\/3 in 0\.8s \(rate limited\)$/);
+  });
+
+  it("fails fast on errors that are not retryable", async () => {
+    const { clock, options } = fakeClock();
+    const scheduler = new SynthesisScheduler(limits(), options);
+    let calls = 0;
+    await assert.rejects(
+      scheduler.run("openai", "seg", async () => {
+        calls += 1;
+        throw new ProviderHttpError("bad request", 400);
+      }),
+      /bad request/,
+    );
+    assert.equal(calls, 1);
+    assert.deepEqual(clock.sleeps, []);
+    await scheduler.settled();
+  });
+});
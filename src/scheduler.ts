@@ -0,0 +1,233 @@
+import { ParseError, ProviderHttpError } from "./errors.js";
+import type { Config } from "./config.js";
+
+export type ProviderLimits = {
+  /** Requests in flight at once. */
+  concurrency: number;
+  /** Token-bucket refill rate in requests per second; null means no rate limit. */
+  ratePerSecond: number | null;
+  /** Token-bucket size: how many requests may start back to back before the rate applies. */
+  burst: number;
+  /** Extra attempts after a retryable failure (HTTP 408/425/429/5xx or a dropped connection). */
+  retries: number;
+  backoffMs: number;
+  maxBackoffMs: number;
+};
+
+export type SynthesisLimits = {
+  defaults: ProviderLimits;
+  providers: Record<string, Partial<ProviderLimits>>;
+};
+
+export type SchedulerOptions = {
+  log?: (msg: string) => void;
+  /** Injection points for tests. */
+  now?: () => number;
+  sleep?: (ms: number) => Promise<void>;
+  random?: () => number;
+};
+
+export const DEFAULT_PROVIDER_LIMITS: ProviderLimits = {
+  concurrency: 4,
+  ratePerSecond: null,
+  burst: 1,
+  retries: 3,
+  backoffMs: 500,
+  maxBackoffMs: 30_000,
+};
+
+const RETRYABLE_STATUS = new Set([408, 425, 429, 500, 502, 503, 504]);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const parseNumber = (value: unknown, label: string, min: number): number => {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    throw new ParseError(`${label} must be a finite number`);
+  }
+  if (value < min) {
+    throw new ParseError(`${label} must be >= ${min}`);
+  }
+  return value;
+};
+
+const parseLimits = (value: Record<string, unknown>, label: string): Partial<ProviderLimits> => {
+  const limits: Partial<ProviderLimits> = {};
+  if (value.concurrency != null) limits.concurrency = Math.floor(parseNumber(value.concurrency, `${label}.concurrency`, 1));
+  if (value.rate_per_second != null) limits.ratePerSecond = parseNumber(value.rate_per_second, `${label}.rate_per_second`, 0.001);
+  if (value.burst != null) limits.burst = parseNumber(value.burst, `${label}.burst`, 1);
+  if (value.retries != null) limits.retries = Math.floor(parseNumber(value.retries, `${label}.retries`, 0));
+  if (value.backoff_ms != null) limits.backoffMs = parseNumber(value.backoff_ms, `${label}.backoff_ms`, 0);
+  if (value.max_backoff_ms != null) limits.maxBackoffMs = parseNumber(value.max_backoff_ms, `${label}.max_backoff_ms`, 0);
+  return limits;
+};
+
+/**
+ * Read `synthesis` from config: top-level limits apply to every provider, `synthesis.providers.<name>`
+ * overrides them per provider.
+ */
+export function getSynthesisLimits(config: Config): SynthesisLimits {
+  const raw = (config as Record<string, unknown>).synthesis;
+  if (raw == null) {
+    return { defaults: DEFAULT_PROVIDER_LIMITS, providers: {} };
+  }
+  if (!isRecord(raw)) {
+    throw new ParseError("synthesis must be a mapping");
+  }
+  const providers: SynthesisLimits["providers"] = {};
+  if (raw.providers != null) {
+    if (!isRecord(raw.providers)) {
+      throw new ParseError("synthesis.providers must be a mapping");
+    }
+    for (const [name, value] of Object.entries(raw.providers)) {
+      if (!isRecord(value)) {
+        throw new ParseError(`synthesis.providers.${name} must be a mapping`);
+      }
+      providers[name] = parseLimits(value, `synthesis.providers.${name}`);
+    }
+  }
+  return { defaults: { ...DEFAULT_PROVIDER_LIMITS, ...parseLimits(raw, "synthesis") }, providers };
+}
+
+export function isRetryableError(err: unknown): boolean {
+  if (err instanceof ProviderHttpError) {
+    return RETRYABLE_STATUS.has(err.status);
+  }
+  // fetch() rejects with a TypeError when the connection drops or times out.
+  return err instanceof TypeError && /fetch failed|network|socket|ECONNRESET|ETIMEDOUT/i.test(`${err.message} ${String(err.cause ?? "")}`);
+}
+
+type Lane = {
+  limits: ProviderLimits;
+  active: number;
+  waiting: Array<() => void>;
+  tokens: number;
+  refilledAt: number;
+  tokenQueue: Promise<void>;
+};
+
+/**
+ * Runs provider requests with per-provider concurrency, a token-bucket rate limit and retries with
+ * exponential backoff and jitter. It only decides when a request starts; callers await results in
+ * whatever order they need, so output order does not depend on which request finishes first.
+ */
+export class SynthesisScheduler {
+  private readonly lanes = new Map<string, Lane>();
+  private readonly inFlight = new Set<Promise<unknown>>();
+  private readonly log: (msg: string) => void;
+  private readonly now: () => number;
+  private readonly sleep: (ms: number) => Promise<void>;
+  private readonly random: () => number;
+
+  constructor(private readonly limits: SynthesisLimits, options: SchedulerOptions = {}) {
+    this.log = options.log ?? (() => {});
+    this.now = options.now ?? Date.now;
+    this.sleep = options.sleep ?? ((ms) => new Promise((resolve) => setTimeout(resolve, ms)));
+    this.random = options.random ?? Math.random;
+  }
+
+  limitsFor(provider: string): ProviderLimits {
+    return { ...this.limits.defaults, ...this.limits.providers[provider] };
+  }
+
+  run<T>(provider: string, label: string, request: () => Promise<T>): Promise<T> {
+    const task = this.execute(this.lane(provider), provider, label, request);
+    this.inFlight.add(task);
+    const forget = () => {
+      this.inFlight.delete(task);
+    };
+    task.then(forget, forget);
+    return task;
+  }
+
+  /** Resolves once every request started so far has finished, successfully or not. */
+  async settled(): Promise<void> {
+    while (this.inFlight.size) {
+      await Promise.allSettled([...this.inFlight]);
+    }
+  }
+
+  private lane(provider: string): Lane {
+    let lane = this.lanes.get(provider);
+    if (!lane) {
+      const limits = this.limitsFor(provider);
+      lane = { limits, active: 0, waiting: [], tokens: limits.burst, refilledAt: this.now(), tokenQueue: Promise.resolve() };
+      this.lanes.set(provider, lane);
+    }
+    return lane;
+  }
+
+  private async execute<T>(lane: Lane, provider: string, label: string, request: () => Promise<T>): Promise<T> {
+    await this.acquire(lane);
+    try {
+      for (let attempt = 0; ; attempt += 1) {
+        await this.takeToken(lane);
+        try {
+          return await request();
+        } catch (err) {
+          if (attempt >= lane.limits.retries || !isRetryableError(err)) {
+            throw err;
+          }
+          const delayMs = this.backoffMs(lane.limits, attempt, err);
+          const reason = err instanceof Error ? err.message.split("\n")[0] : String(err);
+          this.log(
+            `retry: provider=${provider} ${label} attempt=${attempt + 2}/${lane.limits.retries + 1} in ${(delayMs / 1000).toFixed(1)}s (${reason})`,
+          );
+          await this.sleep(delayMs);
+        }
+      }
+    } finally {
+      this.release(lane);
+    }
+  }
+
+  private backoffMs(limits: ProviderLimits, attempt: number, err: unknown): number {
+    const ceiling = Math.min(limits.maxBackoffMs, limits.backoffMs * 2 ** attempt);
+    // Equal jitter: at least half the exponential delay, so retries from parallel requests spread out.
+    const delay = ceiling / 2 + this.random() * (ceiling / 2);
+    const retryAfterMs = err instanceof ProviderHttpError && err.retryAfterSec != null ? err.retryAfterSec * 1000 : 0;
+    return Math.max(delay, Math.min(retryAfterMs, limits.maxBackoffMs));
+  }
+
+  private acquire(lane: Lane): Promise<void> {
+    if (lane.active < lane.limits.concurrency) {
+      lane.active += 1;
+      return Promise.resolve();
+    }
+    // The slot is handed over by release(), so `active` stays unchanged.
+    return new Promise((resolve) => lane.waiting.push(resolve));
+  }
+
+  private release(lane: Lane): void {
+    const next = lane.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      lane.active -= 1;
+    }
+  }
+
+  private takeToken(lane: Lane): Promise<void> {
+    const rate = lane.limits.ratePerSecond;
+    if (rate == null) {
+      return Promise.resolve();
+    }
+    // Requests queue for tokens one at a time, in the order they asked.
+    const next = lane.tokenQueue.then(async () => {
+      this.refill(lane, rate);
+      if (lane.tokens < 1) {
+        await this.sleep(((1 - lane.tokens) / rate) * 1000);
+        this.refill(lane, rate);
+      }
+      lane.tokens = Math.max(0, lane.tokens - 1);
+    });
+    lane.tokenQueue = next;
+    return next;
+  }
+
+  private refill(lane: Lane, rate: number): void {
+    const now = this.now();
+    lane.tokens = Math.min(lane.limits.burst, lane.tokens + ((now - lane.refilledAt) / 1000) * rate);
+    lane.refilledAt = now;
+  }
+}
@@ -0,0 +1,56 @@
+import { join } from "path";
+import { CompileError } from "./errors.js";
+import { expandAllSeries, expandSeries, type EpisodeComposition } from "./dsl/series.js";
+import type { VideoFileSpec } from "./dsl/types.js";
+import { generateComposition, type GenerateOptions, type GeneratedArtifact } from "./generate.js";
+
+export type GenerateSeriesOptions = Omit<GenerateOptions, "composition" | "scriptOut" | "timelineOut" | "audioOut"> & {
+  videoFile: VideoFileSpec;
+  /** Only expand this series (default: every series in the file). */
+  seriesId?: string | null;
+  /** Where per-episode outputs go (default: `<outDir>/episodes`). */
+  episodesDir?: string;
+  /** Write a mixed audio file per episode (default: true). */
+  withAudio?: boolean;
+};
+
+export type GeneratedEpisode = EpisodeComposition & {
+  artifact: GeneratedArtifact;
+};
+
+/**
+ * Generate every episode of a series in order. All episodes share `outDir`, so TTS/SFX/music cache
+ * entries (keyed by content) are reused whenever episodes say or play the same thing.
+ */
+export async function generateSeries(options: GenerateSeriesOptions): Promise<GeneratedEpisode[]> {
+  const { videoFile, seriesId, episodesDir, withAudio = true, ...shared } = options;
+  const episodes = seriesId ? expandSeries(videoFile, findSeries(videoFile, seriesId)) : expandAllSeries(videoFile);
+  if (episodes.length === 0) {
+    throw new CompileError("No series episodes to generate");
+  }
+  const baseDir = episodesDir ?? join(shared.outDir, "episodes");
+
+  const results: GeneratedEpisode[] = [];
+  for (const episode of episodes) {
+    const dir = join(baseDir, episode.seriesId, episode.episodeId);
+    shared.log?.(`series: ${episode.seriesId} episode=${episode.episodeId}`);
+    const artifact = await generateComposition({
+      ...shared,
+      composition: episode.composition,
+      scriptOut: join(dir, "script.json"),
+      timelineOut: join(dir, "timeline.json"),
+      audioOut: withAudio ? join(dir, "audio.wav") : null,
+    });
+    results.push({ ...episode, artifact });
+  }
+  return results;
+}
+
+function findSeries(videoFile: VideoFileSpec, seriesId: string) {
+  const series = (videoFile.series ?? []).find((item) => item.id === seriesId);
+  if (!series) {
+    const known = (videoFile.series ?? []).map((item) => item.id).join(", ") || "none";
+    throw new CompileError(`Unknown series "${seriesId}" (available: ${known})`);
+  }
+  return series;
+}
@@ -58,6 +58,8 @@ export type UsageEntry = UsageEvent & {
   voice?: string | null;
   env?: string;
   promptChars?: number;
+  /** The configured provider, when this usage came from a fallback after it failed. */
+  fallbackFrom?: string;
 };
 
 export type UsageLedger = {
@@ -0,0 +1,65 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { loadVideoFileFromXml } from "./dsl/xml.js";
+import type { CompositionSpec } from "./dsl/types.js";
+import { validateComposition } from "./validate.js";
+
+const fromXml = (body: string): CompositionSpec => loadVideoFileFromXml(`<vml id="promo">${body}</vml>`).compositions[0];
+
+const codes = (spec: CompositionSpec) => validateComposition(spec).issues.map((issue) => `${issue.code}: ${issue.message}`);
+
+describe("validateComposition", () => {
+  it("accepts a well-formed composition", () => {
+    const spec = fromXml(`
+      <scene id="intro"><cue id="hello"><voice>Hello.</voice></cue><title id="t" text="Hi" /></scene>
+      <transition id="fade" effect="fade" />
+      <scene id="outro"><cue id="bye"><voice>Bye.</voice></cue></scene>`);
+    assert.deepEqual(validateComposition(spec), { ok: true, issues: [] });
+  });
+
+  it("checks component types against the renderer registry", () => {
+    const spec = fromXml(`<scene id="intro"><cue id="hello"><voice>Hello.</voice></cue><titel id="t" text="Hi" /></scene>`);
+    assert.deepEqual(codes(spec), ['unknown-component: Unknown component type "Titel" for component "t" in scene "intro".']);
+    assert.equal(validateComposition(spec, { components: ["Titel"] }).ok, true);
+  });
+
+  it("reports transitions without a scene on both sides", () => {
+    const spec = fromXml(`
+      <scene id="intro"><cue id="hello"><voice>Hello.</voice></cue></scene>
+      <transition id="fade" effect="fade" />`);
+    assert.deepEqual(codes(spec), ['transition-endpoint: transition "fade" has no scene after it to transition to.']);
+  });
+
+  it("reports overlapping absolute scene times", () => {
+    const spec = fromXml(`
+      <scene id="intro" start="0s" end="5s"><cue id="hello"><voice>Hello.</voice></cue></scene>
+      <scene id="outro" start="4s" end="8s"><cue id="bye"><voice>Bye.</voice></cue></scene>`);
+    assert.deepEqual(codes(spec), ['scene-overlap: scene "outro" starts at 4s, before scene "intro" ends at 5s.']);
+  });
+
+  it("reports builder mistakes the XML parser would have caught", () => {
+    const spec: CompositionSpec = {
+      id: "promo",
+      timeline: [
+        {
+          id: "intro",
+          title: "Intro",
+          items: [{ kind: "cue", id: "hello", label: "hello", segments: [], bullets: [] }],
+          components: [
+            { id: "t", type: "Title", bindings: { text: "scene.heading" } },
+            { id: "t", type: "Subtitle", bindings: { text: "cue.text" } },
+          ],
+          audio: [{ id: "whoosh", kind: "sfx", prompt: "whoosh", variants: 2, pick: 2 }],
+        },
+        { id: "intro", title: "Again", items: [{ kind: "cue", id: "hello", label: "hello", segments: [], bullets: [] }] },
+      ],
+    };
+    assert.deepEqual(codes(spec), [
+      'unknown-binding: Binding text="scene.heading" on component "t" in scene "intro" refers to an unknown scene field.',
+      'duplicate-id: Duplicate component id "t" in scene "intro".',
+      'audio-pick: audio "whoosh" in scene "intro" picks variant 2 of 2 (pick is 0-based).',
+      'duplicate-id: Duplicate scene id "intro".',
+      'duplicate-id: Duplicate cue id "hello" in scene "intro".',
+    ]);
+  });
+});
@@ -0,0 +1,170 @@
+import { listComponents } from "../packages/renderer/src/components/registry.js";
+import type { DiagnosticSeverity } from "./dsl/diagnostics.js";
+import type {
+  AudioClipSpec,
+  AudioElementSpec,
+  ComponentSpec,
+  CompositionSpec,
+  CueSpec,
+  LayerSpec,
+  SceneSpec,
+  TimelineItemSpec,
+} from "./dsl/types.js";
+
+export type ValidationIssueCode =
+  | "unknown-component"
+  | "duplicate-id"
+  | "scene-overlap"
+  | "transition-endpoint"
+  | "audio-pick"
+  | "unknown-binding";
+
+export type ValidationIssue = {
+  severity: DiagnosticSeverity;
+  code: ValidationIssueCode;
+  message: string;
+};
+
+export type ValidationResult = {
+  ok: boolean;
+  issues: ValidationIssue[];
+};
+
+export type ValidateOptions = {
+  /** Component types that can be rendered (default: the renderer registry's `listComponents()`). */
+  components?: Iterable<string>;
+};
+
+// Fields the renderer exposes to `scene.*` and `cue.*` bindings (ScriptScene / ScriptCue).
+const SCENE_FIELDS = new Set([
+  "id", "title", "startSec", "endSec", "cues", "styles", "layers", "components", "markup", "enter", "exit",
+  "transitionToNext",
+]);
+const CUE_FIELDS = new Set(["id", "label", "text", "startSec", "endSec", "segments", "markup"]);
+
+const isScene = (item: TimelineItemSpec): item is SceneSpec => !("kind" in item);
+const isCue = (item: SceneSpec["items"][number]): item is CueSpec => "kind" in item && item.kind === "cue";
+
+/**
+ * Check a composition for mistakes that would otherwise surface deep inside `generateComposition`,
+ * or not at all (a component type the renderer doesn't know simply renders nothing). Nothing is
+ * synthesized; the spec is checked as written.
+ */
+export function validateComposition(spec: CompositionSpec, options: ValidateOptions = {}): ValidationResult {
+  const issues: ValidationIssue[] = [];
+  const error = (code: ValidationIssueCode, message: string) => issues.push({ severity: "error", code, message });
+  const warning = (code: ValidationIssueCode, message: string) =>
+    issues.push({ severity: "warning", code, message });
+  const known = new Set(options.components ?? listComponents());
+
+  const checkComponents = (components: ComponentSpec[], owner: string, seen: Set<string>) => {
+    for (const component of components) {
+      const label = `component "${component.id}" in ${owner}`;
+      if (seen.has(component.id)) {
+        error("duplicate-id", `Duplicate component id "${component.id}" in ${owner}.`);
+      }
+      seen.add(component.id);
+      if (typeof component.type === "string" && !known.has(component.type)) {
+        error("unknown-component", `Unknown component type "${component.type}" for ${label}.`);
+      }
+      for (const [prop, ref] of Object.entries(component.bindings ?? {})) {
+        const [root, field] = splitReference(ref);
+        const fields = root === "scene" ? SCENE_FIELDS : root === "cue" ? CUE_FIELDS : null;
+        if (fields && !fields.has(field)) {
+          error("unknown-binding", `Binding ${prop}="${ref}" on ${label} refers to an unknown ${root} field.`);
+        }
+      }
+    }
+  };
+
+  const checkVisuals = (
+    container: { components?: ComponentSpec[]; layers?: LayerSpec[] },
+    owner: string,
+  ) => {
+    const seen = new Set<string>();
+    checkComponents(container.components ?? [], owner, seen);
+    for (const layer of container.layers ?? []) {
+      checkComponents(layer.components, owner, seen);
+    }
+  };
+
+  const checkPick = (audio: AudioElementSpec | AudioClipSpec, owner: string) => {
+    if (audio.pick == null && audio.variants == null) return;
+    const variants = Math.max(1, audio.variants ?? 1);
+    const pick = audio.pick ?? 0;
+    if (pick < 0 || pick >= variants) {
+      error("audio-pick", `audio "${audio.id}" in ${owner} picks variant ${pick} of ${variants} (pick is 0-based).`);
+    }
+  };
+
+  const sceneIds = new Set<string>();
+  const cueIds = new Set<string>();
+  const checkCues = (items: SceneSpec["items"], owner: string) => {
+    for (const item of items) {
+      if (!isCue(item)) continue;
+      if (cueIds.has(item.id)) {
+        error("duplicate-id", `Duplicate cue id "${item.id}" in ${owner}.`);
+      }
+      cueIds.add(item.id);
+    }
+  };
+
+  spec.timeline.forEach((item, index) => {
+    if (isScene(item)) {
+      const owner = `scene "${item.id}"`;
+      if (sceneIds.has(item.id)) {
+        error("duplicate-id", `Duplicate scene id "${item.id}".`);
+      }
+      sceneIds.add(item.id);
+      checkCues(item.items, owner);
+      checkVisuals(item, owner);
+      for (const audio of item.audio ?? []) checkPick(audio, owner);
+      if (item.transitionToNext && !spec.timeline.slice(index + 1).some(isScene)) {
+        warning("transition-endpoint", `${owner} has transitionToNext but no scene follows it.`);
+      }
+      return;
+    }
+    if (item.kind === "narration") {
+      checkCues(item.items, `narration "${item.id}"`);
+      return;
+    }
+    if (item.kind === "transition") {
+      const owner = `transition "${item.id}"`;
+      if (!spec.timeline.slice(0, index).some(isScene)) {
+        error("transition-endpoint", `${owner} has no scene before it to transition from.`);
+      }
+      if (!spec.timeline.slice(index + 1).some(isScene)) {
+        error("transition-endpoint", `${owner} has no scene after it to transition to.`);
+      }
+      checkVisuals(item, owner);
+      for (const audio of item.audio ?? []) checkPick(audio, owner);
+    }
+  });
+
+  for (const track of spec.audioPlan?.tracks ?? []) {
+    for (const clip of track.clips) checkPick(clip, `track "${track.id}"`);
+  }
+
+  // Only scenes placed at absolute times can be compared before synthesis.
+  const placed = spec.timeline
+    .filter(isScene)
+    .filter((scene) => scene.time && !scene.time.startIsRelative && scene.time.end != null && !scene.time.endIsRelative)
+    .map((scene) => ({ id: scene.id, start: scene.time!.start, end: scene.time!.end! }))
+    .sort((a, b) => a.start - b.start);
+  for (let i = 1; i < placed.length; i += 1) {
+    const [prev, next] = [placed[i - 1], placed[i]];
+    if (next.start < prev.end) {
+      error(
+        "scene-overlap",
+        `scene "${next.id}" starts at ${next.start}s, before scene "${prev.id}" ends at ${prev.end}s.`,
+      );
+    }
+  }
+
+  return { ok: !issues.some((issue) => issue.severity === "error"), issues };
+}
+
+const splitReference = (ref: string): [string, string] => {
+  const dot = ref.indexOf(".");
+  return dot < 0 ? [ref, ""] : [ref.slice(0, dot), ref.slice(dot + 1)];
+};